@@ -8,57 +8,107 @@
  * - **Public Routes**:
  *   - Landing Page (`/`)
  *   - Registration Page (`/register`)
+ *   - Forgot password (`/forgot-password`) and the emailed reset link (`/reset-password?token=`);
+ *     the reset page works whether or not the browser is logged in
  * - **Protected Routes**:
+ *   - Onboarding wizard (`/onboarding`), shown once after registration
  *   - Dashboard (`/dashboard/:userId`)
+ *   - My Ratings (`/dashboard/:userId/ratings`)
+ *   - Search results (`/dashboard/:userId/search?q=`)
+ *   - Title details (`/title/:mediaType/:tmdbId`), shareable across accounts
+ *   - Person details (`/person/:personId`)
+ * - **Admin Routes**:
+ *   - Admin console (`/admin`) for users, catalog content and recommendations
  * - **Catch-All Route**: Redirects all undefined routes to the Landing Page.
  *
  * Routing Design:
  * - **PublicRoute**: Restricts access to authenticated users by redirecting them to their dashboard.
  * - **ProtectedRoute**: Ensures only authenticated users can access protected content.
+ * - **AdminRoute**: Like `ProtectedRoute`, but also sends users without the admin role to their
+ *   dashboard.
  * - Integration with React Router for dynamic URL parameters.
+ * - **AuthProvider**: Wraps the router so every route reads the session through `useAuth`.
+ * - **Toaster**: Mounted once beside the routes to render notifications from `toastService`.
  */
 
 import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
 import ProtectedRoute from "./components/ProtectedRoute";
+import AdminRoute from "./components/AdminRoute";
 import PublicRoute from "./components/PublicRoute";
 import LandingPage from "./pages/LandingPage";
 import Register from "./pages/Register";
 import Login from "./pages/Login";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
 import Credits from "./components/Credits";
 import Dashboard from "./pages/Dashboard";
 import FavoritesPage from "./pages/FavoritesPage";
+import WatchlistPage from "./pages/WatchlistPage";
+import RatingsPage from "./pages/RatingsPage";
+import SearchPage from "./pages/SearchPage";
+import TitlePage from "./pages/TitlePage";
+import PersonPage from "./pages/PersonPage";
 import ProfilePage from "./pages/ProfilePage";
+import OnboardingPage from "./pages/OnboardingPage";
+import AdminPage from "./pages/AdminPage";
 import ComingSoon from "./pages/ComingSoon";
+import Toaster from "./components/Toaster";
+import { AuthProvider } from "./context/AuthContext";
 
 const App = () => {
   return (
-    <Router>
-      <main>
-        <Routes>
-          {/* Public Routes */}
-          <Route path="/" element={<LandingPage />} />
-          <Route path="/credit" element={<Credits />} />
-          <Route path="/coming-soon" element={<ComingSoon />} />
-          <Route element={<PublicRoute />}>
-            <Route path="/register" element={<Register />} />
-            <Route path="/login" element={<Login />} />
-          </Route>
+    <AuthProvider>
+      <Router>
+        <main>
+          <Routes>
+            {/* Public Routes */}
+            <Route path="/" element={<LandingPage />} />
+            <Route path="/credit" element={<Credits />} />
+            <Route path="/coming-soon" element={<ComingSoon />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
+            <Route element={<PublicRoute />}>
+              <Route path="/register" element={<Register />} />
+              <Route path="/login" element={<Login />} />
+              <Route path="/forgot-password" element={<ForgotPassword />} />
+            </Route>
 
-          {/* Protected Routes */}
-          <Route element={<ProtectedRoute />}>
-            <Route path="/dashboard/:userId" element={<Dashboard />} />
-            <Route
-              path="/dashboard/:userId/favorites"
-              element={<FavoritesPage />}
-            />
-            <Route path="/profile/:userId" element={<ProfilePage />} />
-          </Route>
+            {/* Protected Routes */}
+            <Route element={<ProtectedRoute />}>
+              <Route path="/onboarding" element={<OnboardingPage />} />
+              <Route path="/dashboard/:userId" element={<Dashboard />} />
+              <Route
+                path="/dashboard/:userId/favorites"
+                element={<FavoritesPage />}
+              />
+              <Route
+                path="/dashboard/:userId/watchlist"
+                element={<WatchlistPage />}
+              />
+              <Route
+                path="/dashboard/:userId/ratings"
+                element={<RatingsPage />}
+              />
+              <Route
+                path="/dashboard/:userId/search"
+                element={<SearchPage />}
+              />
+              <Route path="/title/:mediaType/:tmdbId" element={<TitlePage />} />
+              <Route path="/person/:personId" element={<PersonPage />} />
+              <Route path="/profile/:userId" element={<ProfilePage />} />
+            </Route>
 
-          {/* Catch-all Route */}
-          <Route path="*" element={<LandingPage />} />
-        </Routes>
-      </main>
-    </Router>
+            {/* Admin Routes */}
+            <Route element={<AdminRoute />}>
+              <Route path="/admin" element={<AdminPage />} />
+            </Route>
+
+            {/* Catch-all Route */}
+            <Route path="*" element={<LandingPage />} />
+          </Routes>
+        </main>
+        <Toaster />
+      </Router>
+    </AuthProvider>
   );
 };
 
@@ -0,0 +1,55 @@
+import { render, screen } from "@testing-library/react";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import AdminRoute from "../components/AdminRoute";
+import { useAuth } from "../context/AuthContext";
+
+jest.mock("../context/AuthContext", () => ({
+  useAuth: jest.fn(),
+}));
+
+const mockedUseAuth = useAuth as jest.Mock;
+
+const renderAdminRoute = () =>
+  render(
+    <MemoryRouter initialEntries={["/admin"]}>
+      <Routes>
+        <Route element={<AdminRoute />}>
+          <Route path="/admin" element={<p>Admin console</p>} />
+        </Route>
+        <Route path="/login" element={<p>Login page</p>} />
+        <Route path="/dashboard/:userId" element={<p>Dashboard</p>} />
+      </Routes>
+    </MemoryRouter>,
+  );
+
+describe("AdminRoute", () => {
+  test("renders admin routes for admins", () => {
+    mockedUseAuth.mockReturnValue({
+      isAuthenticated: true,
+      user: { id: "1", email: "a@example.com", name: "A", role: "admin" },
+    });
+
+    renderAdminRoute();
+
+    expect(screen.getByText("Admin console")).toBeInTheDocument();
+  });
+
+  test("sends signed-in users without the admin role to their dashboard", () => {
+    mockedUseAuth.mockReturnValue({
+      isAuthenticated: true,
+      user: { id: "1", email: "u@example.com", name: "U", role: "user" },
+    });
+
+    renderAdminRoute();
+
+    expect(screen.getByText("Dashboard")).toBeInTheDocument();
+  });
+
+  test("sends signed-out users to the login page", () => {
+    mockedUseAuth.mockReturnValue({ isAuthenticated: false, user: null });
+
+    renderAdminRoute();
+
+    expect(screen.getByText("Login page")).toBeInTheDocument();
+  });
+});
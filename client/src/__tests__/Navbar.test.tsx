@@ -2,12 +2,14 @@ import { render, screen, fireEvent, act } from "@testing-library/react";
 import { MemoryRouter } from "react-router-dom";
 import Navbar from "../components/Navbar";
 import authService from "../services/authService";
+import { AuthProvider } from "../context/AuthContext";
 
 // Mock the authService methods
 jest.mock("../services/authService", () => ({
   isAuthenticated: jest.fn(),
   getProfile: jest.fn(),
   logout: jest.fn(),
+  subscribe: jest.fn(() => jest.fn()),
 }));
 
 describe("Navbar Component", () => {
@@ -25,9 +27,11 @@ describe("Navbar Component", () => {
 
   test("renders the Navbar heading", () => {
     render(
-      <MemoryRouter>
-        <Navbar />
-      </MemoryRouter>,
+      <AuthProvider>
+        <MemoryRouter>
+          <Navbar />
+        </MemoryRouter>
+      </AuthProvider>,
     );
 
     const heading = screen.getByRole("heading", { name: /Reco Sphere/i });
@@ -38,9 +42,11 @@ describe("Navbar Component", () => {
     (authService.isAuthenticated as jest.Mock).mockReturnValue(false);
 
     render(
-      <MemoryRouter>
-        <Navbar />
-      </MemoryRouter>,
+      <AuthProvider>
+        <MemoryRouter>
+          <Navbar />
+        </MemoryRouter>
+      </AuthProvider>,
     );
 
     const loginButton = screen.getByRole("link", { name: /login/i });
@@ -54,9 +60,11 @@ describe("Navbar Component", () => {
     (authService.getProfile as jest.Mock).mockReturnValue({ id: "123" });
 
     render(
-      <MemoryRouter>
-        <Navbar />
-      </MemoryRouter>,
+      <AuthProvider>
+        <MemoryRouter>
+          <Navbar />
+        </MemoryRouter>
+      </AuthProvider>,
     );
 
     const dashboardButton = screen.getByRole("link", { name: /dashboard/i });
@@ -69,9 +77,11 @@ describe("Navbar Component", () => {
     (authService.isAuthenticated as jest.Mock).mockReturnValue(false);
 
     render(
-      <MemoryRouter>
-        <Navbar />
-      </MemoryRouter>,
+      <AuthProvider>
+        <MemoryRouter>
+          <Navbar />
+        </MemoryRouter>
+      </AuthProvider>,
     );
 
     const hamburgerButton = screen.getByRole("button");
@@ -94,9 +104,11 @@ describe("Navbar Component", () => {
     (authService.getProfile as jest.Mock).mockReturnValue({ id: "123" });
 
     const { rerender } = render(
-      <MemoryRouter>
-        <Navbar />
-      </MemoryRouter>,
+      <AuthProvider>
+        <MemoryRouter>
+          <Navbar />
+        </MemoryRouter>
+      </AuthProvider>,
     );
 
     // Expect authenticated user navigation options
@@ -115,9 +127,11 @@ describe("Navbar Component", () => {
     (authService.isAuthenticated as jest.Mock).mockReturnValue(false);
 
     rerender(
-      <MemoryRouter>
-        <Navbar />
-      </MemoryRouter>,
+      <AuthProvider>
+        <MemoryRouter>
+          <Navbar />
+        </MemoryRouter>
+      </AuthProvider>,
     );
 
     // Expect unauthenticated user navigation options
@@ -137,9 +151,11 @@ describe("Navbar Component", () => {
     (authService.getProfile as jest.Mock).mockReturnValue({ id: "123" });
 
     render(
-      <MemoryRouter>
-        <Navbar />
-      </MemoryRouter>,
+      <AuthProvider>
+        <MemoryRouter>
+          <Navbar />
+        </MemoryRouter>
+      </AuthProvider>,
     );
 
     // Check if the Dashboard link and Logout button are rendered
@@ -164,9 +180,11 @@ describe("Navbar Component", () => {
     (authService.isAuthenticated as jest.Mock).mockReturnValue(false);
 
     render(
-      <MemoryRouter>
-        <Navbar />
-      </MemoryRouter>,
+      <AuthProvider>
+        <MemoryRouter>
+          <Navbar />
+        </MemoryRouter>
+      </AuthProvider>,
     );
 
     // Check if the Login and Sign Up links are rendered
@@ -188,11 +206,20 @@ describe("Navbar Component", () => {
   test("handles logout click and updates state", () => {
     (authService.isAuthenticated as jest.Mock).mockReturnValue(true);
     (authService.getProfile as jest.Mock).mockReturnValue({ id: "123" });
+    // Like the real service, logging out ends the session and notifies subscribers
+    (authService.logout as jest.Mock).mockImplementation(() => {
+      (authService.isAuthenticated as jest.Mock).mockReturnValue(false);
+      (authService.subscribe as jest.Mock).mock.calls.forEach(([listener]) =>
+        listener(),
+      );
+    });
 
     render(
-      <MemoryRouter>
-        <Navbar />
-      </MemoryRouter>,
+      <AuthProvider>
+        <MemoryRouter>
+          <Navbar />
+        </MemoryRouter>
+      </AuthProvider>,
     );
 
     const logoutButton = screen.getByRole("button", { name: /logout/i });
@@ -213,9 +240,11 @@ describe("Navbar Component", () => {
     });
 
     render(
-      <MemoryRouter>
-        <Navbar />
-      </MemoryRouter>,
+      <AuthProvider>
+        <MemoryRouter>
+          <Navbar />
+        </MemoryRouter>
+      </AuthProvider>,
     );
 
     const loginButton = screen.getByRole("link", { name: /login/i });
@@ -226,9 +255,11 @@ describe("Navbar Component", () => {
 
   test("handles window resize to toggle isMobile state", () => {
     render(
-      <MemoryRouter>
-        <Navbar />
-      </MemoryRouter>,
+      <AuthProvider>
+        <MemoryRouter>
+          <Navbar />
+        </MemoryRouter>
+      </AuthProvider>,
     );
 
     act(() => {
@@ -252,9 +283,11 @@ describe("Navbar Component", () => {
     (authService.getProfile as jest.Mock).mockReturnValue(null);
 
     render(
-      <MemoryRouter>
-        <Navbar />
-      </MemoryRouter>,
+      <AuthProvider>
+        <MemoryRouter>
+          <Navbar />
+        </MemoryRouter>
+      </AuthProvider>,
     );
 
     const dashboardLink = screen.queryByRole("link", { name: /dashboard/i });
@@ -3,15 +3,18 @@ import { render, fireEvent, screen, waitFor } from "@testing-library/react";
 import Register from "../pages/Register";
 import authService from "../services/authService";
 import { BrowserRouter } from "react-router-dom";
+import { AuthProvider } from "../context/AuthContext";
 
 jest.mock("../services/authService");
 
 describe("Register Component", () => {
   const setup = () => {
     return render(
-      <BrowserRouter>
-        <Register />
-      </BrowserRouter>,
+      <AuthProvider>
+        <BrowserRouter>
+          <Register />
+        </BrowserRouter>
+      </AuthProvider>,
     );
   };
 
@@ -120,13 +123,10 @@ describe("Register Component", () => {
     });
   });
 
-  it("displays success message and redirects on successful registration", async () => {
+  it("redirects to onboarding on successful registration", async () => {
     (authService.register as jest.Mock).mockResolvedValue({
       token: "mockToken",
     });
-    (authService.getProfile as jest.Mock).mockReturnValue({
-      id: "12345",
-    });
 
     setup();
 
@@ -145,14 +145,9 @@ describe("Register Component", () => {
     fireEvent.click(screen.getByRole("button", { name: "Register" }));
 
     await waitFor(() => {
-      expect(
-        screen.getByText("User registered successfully!"),
-      ).toBeInTheDocument();
+      expect(window.location.pathname).toBe("/onboarding");
     });
-
-    fireEvent.click(screen.getByText("Close"));
-
-    expect(authService.getProfile).toHaveBeenCalled();
+    expect(screen.queryByTestId("modal-message")).not.toBeInTheDocument();
   });
 
   it("displays error message if API returns an empty response", async () => {
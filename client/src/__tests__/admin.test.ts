@@ -0,0 +1,75 @@
+import {
+  EMPTY_CONTENT_FORM,
+  parseGenreList,
+  toContentForm,
+  toContentInput,
+} from "../utils/admin";
+import { CatalogContent } from "../types";
+
+const content: CatalogContent = {
+  id: "c1",
+  title: "Fight Club",
+  slug: "movie-550",
+  genre: ["Drama", "Thriller"],
+  rating: 8.4,
+  metadata: {
+    externalId: "550",
+    mediaType: "movie",
+    runtime: 139,
+    description: "An insomniac office worker...",
+  },
+  isDeleted: false,
+  updatedAt: null,
+};
+
+describe("parseGenreList", () => {
+  it("trims genres and drops blanks and duplicates", () => {
+    expect(parseGenreList(" Drama, ,comedy,Comedy , Sci-Fi,")).toEqual([
+      "Drama",
+      "comedy",
+      "Sci-Fi",
+    ]);
+    expect(parseGenreList("")).toEqual([]);
+  });
+});
+
+describe("content form", () => {
+  it("round-trips a catalog item", () => {
+    expect(toContentInput(toContentForm(content))).toEqual({
+      title: "Fight Club",
+      genre: ["Drama", "Thriller"],
+      rating: 8.4,
+      metadata: {
+        externalId: "550",
+        mediaType: "movie",
+        runtime: 139,
+        description: "An insomniac office worker...",
+      },
+    });
+  });
+
+  it("sends empty optional fields as null and clamps the rating", () => {
+    expect(
+      toContentInput({
+        ...EMPTY_CONTENT_FORM,
+        title: "  Home Video ",
+        genres: "Documentary",
+        rating: "12",
+        runtime: "abc",
+      }),
+    ).toEqual({
+      title: "Home Video",
+      genre: ["Documentary"],
+      rating: 10,
+      metadata: {
+        externalId: null,
+        mediaType: null,
+        runtime: null,
+        description: "",
+      },
+    });
+    expect(toContentInput({ ...EMPTY_CONTENT_FORM, rating: "" }).rating).toBe(
+      0,
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import api, {
+  ApiError,
+  configureApiClient,
+  graphql,
+} from "../services/apiClient";
+
+const jsonResponse = (status: number, body: unknown) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  text: () => Promise.resolve(JSON.stringify(body)),
+});
+
+describe("apiClient", () => {
+  let token: string | null;
+  const refresh = jest.fn();
+  const onUnauthorized = jest.fn();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    token = "validToken";
+    configureApiClient({ getToken: () => token, refresh, onUnauthorized });
+  });
+
+  it("attaches the JWT and returns the parsed body", async () => {
+    global.fetch = jest.fn(() =>
+      Promise.resolve(jsonResponse(200, [{ id: "1" }])),
+    ) as jest.Mock;
+
+    await expect(api.watchlist.list()).resolves.toEqual([{ id: "1" }]);
+    const [, init] = (global.fetch as jest.Mock).mock.calls[0];
+    expect(init.headers.Authorization).toBe("Bearer validToken");
+  });
+
+  it("retries once with the refreshed token after a 401", async () => {
+    refresh.mockImplementation(async () => {
+      token = "freshToken";
+      return true;
+    });
+    global.fetch = jest
+      .fn()
+      .mockResolvedValueOnce(jsonResponse(401, { message: "Expired" }))
+      .mockResolvedValueOnce(jsonResponse(200, []));
+
+    await expect(api.favorites.list()).resolves.toEqual([]);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    const [, retry] = (global.fetch as jest.Mock).mock.calls[1];
+    expect(retry.headers.Authorization).toBe("Bearer freshToken");
+    expect(onUnauthorized).not.toHaveBeenCalled();
+  });
+
+  it("calls the unauthorized hook when the session cannot be refreshed", async () => {
+    refresh.mockResolvedValue(false);
+    global.fetch = jest.fn(() =>
+      Promise.resolve(
+        jsonResponse(401, { message: "Invalid or expired token" }),
+      ),
+    ) as jest.Mock;
+
+    await expect(api.ratings.list()).rejects.toMatchObject({
+      status: 401,
+      code: "UNAUTHENTICATED",
+      message: "Invalid or expired token",
+    });
+    expect(onUnauthorized).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails permission errors without refreshing the session", async () => {
+    global.fetch = jest.fn(() =>
+      Promise.resolve(
+        jsonResponse(403, { message: "Insufficient permissions" }),
+      ),
+    ) as jest.Mock;
+
+    await expect(api.ratings.list()).rejects.toMatchObject({
+      status: 403,
+      code: "FORBIDDEN",
+    });
+    expect(refresh).not.toHaveBeenCalled();
+    expect(onUnauthorized).not.toHaveBeenCalled();
+  });
+
+  it("turns REST error bodies into ApiError objects", async () => {
+    global.fetch = jest.fn(() =>
+      Promise.resolve(jsonResponse(400, { error: "Favorite already exists" })),
+    ) as jest.Mock;
+
+    const error = await api.favorites
+      .add({ tmdbId: "550", mediaType: "movie" })
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      status: 400,
+      code: "BAD_REQUEST",
+      message: "Favorite already exists",
+    });
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it("surfaces GraphQL errors with their extension code", async () => {
+    global.fetch = jest.fn(() =>
+      Promise.resolve(
+        jsonResponse(200, {
+          errors: [
+            {
+              message: "Recommendation not found.",
+              extensions: { code: "NOT_FOUND" },
+            },
+          ],
+        }),
+      ),
+    ) as jest.Mock;
+
+    await expect(graphql("query { test }")).rejects.toMatchObject({
+      status: 200,
+      code: "NOT_FOUND",
+      message: "Recommendation not found.",
+    });
+  });
+
+  it("reports network failures with status 0", async () => {
+    global.fetch = jest.fn(() => Promise.reject(new TypeError("Failed")));
+
+    await expect(api.genres.list()).rejects.toMatchObject({
+      status: 0,
+      code: "NETWORK_ERROR",
+    });
+  });
+});
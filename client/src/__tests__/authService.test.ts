@@ -251,6 +251,85 @@ describe("AuthService", () => {
     });
   });
 
+  describe("refreshSession", () => {
+    it("stores the rotated token pair", async () => {
+      localStorage.setItem("refreshToken", "oldRefresh");
+      global.fetch = jest.fn(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              data: {
+                refreshToken: { token: "newToken", refreshToken: "newRefresh" },
+              },
+            }),
+        }),
+      ) as jest.Mock;
+
+      await expect(authService.refreshSession()).resolves.toBe(true);
+      expect(localStorage.getItem("jwtToken")).toBe("newToken");
+      expect(localStorage.getItem("refreshToken")).toBe("newRefresh");
+    });
+
+    it("clears the session and notifies listeners when refresh fails", async () => {
+      const listener = jest.fn();
+      const unsubscribe = authService.onLogout(listener);
+      localStorage.setItem("jwtToken", "expiredToken");
+      localStorage.setItem("refreshToken", "revokedRefresh");
+      global.fetch = jest.fn(() =>
+        Promise.resolve({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              errors: [{ message: "Session expired. Please log in again." }],
+            }),
+        }),
+      ) as jest.Mock;
+
+      await expect(authService.refreshSession()).resolves.toBe(false);
+      expect(localStorage.getItem("jwtToken")).toBeNull();
+      expect(localStorage.getItem("refreshToken")).toBeNull();
+      expect(listener).toHaveBeenCalled();
+      unsubscribe();
+    });
+
+    it("keeps the session when the server cannot be reached", async () => {
+      jest.useFakeTimers();
+      localStorage.setItem("jwtToken", "expiredToken");
+      localStorage.setItem("refreshToken", "validRefresh");
+      global.fetch = jest.fn(() =>
+        Promise.reject(new TypeError("Failed to fetch")),
+      ) as jest.Mock;
+
+      await expect(authService.refreshSession()).rejects.toMatchObject({
+        code: "NETWORK_ERROR",
+      });
+      expect(localStorage.getItem("refreshToken")).toBe("validRefresh");
+      jest.useRealTimers();
+    });
+
+    it("adopts a token pair rotated by another tab instead of resending", async () => {
+      localStorage.setItem("refreshToken", "sharedRefresh");
+      global.fetch = jest.fn() as jest.Mock;
+      Object.defineProperty(navigator, "locks", {
+        configurable: true,
+        value: {
+          // Another tab holds the lock and rotates the pair first
+          request: (_name: string, callback: () => Promise<boolean>) => {
+            localStorage.setItem("jwtToken", "otherTabToken");
+            localStorage.setItem("refreshToken", "otherTabRefresh");
+            return callback();
+          },
+        },
+      });
+
+      await expect(authService.refreshSession()).resolves.toBe(true);
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(localStorage.getItem("refreshToken")).toBe("otherTabRefresh");
+      delete (navigator as { locks?: unknown }).locks;
+    });
+  });
+
   describe("Error Handling", () => {
     it("logs error messages in development", () => {
       const consoleSpy = jest.spyOn(console, "error").mockImplementation();
@@ -0,0 +1,53 @@
+import {
+  hasDiscoverFilters,
+  parseDiscoverFilters,
+  toDiscoverQuery,
+  toDiscoverSearchParams,
+} from "../utils/discoverFilters";
+
+describe("discoverFilters", () => {
+  it("round-trips filters through the URL", () => {
+    const params = new URLSearchParams(
+      "type=tv&genres=18,35&yearFrom=2000&minRating=7&language=ko&sort=rating&page=2",
+    );
+    const filters = parseDiscoverFilters(params);
+
+    expect(filters).toMatchObject({
+      mediaType: "tv",
+      genres: [18, 35],
+      yearFrom: 2000,
+      minRating: 7,
+      language: "ko",
+      sort: "rating",
+      page: 2,
+    });
+    expect(parseDiscoverFilters(toDiscoverSearchParams(filters))).toEqual(
+      filters,
+    );
+  });
+
+  it("builds the same API query for equivalent filters", () => {
+    const a = parseDiscoverFilters(new URLSearchParams("genres=28,12"));
+    const b = parseDiscoverFilters(
+      new URLSearchParams("genres=12,28,28&sort=popularity&page=1"),
+    );
+
+    expect(toDiscoverQuery(a)).toBe("genres=12%2C28");
+    expect(toDiscoverQuery(b)).toBe(toDiscoverQuery(a));
+  });
+
+  it("ignores invalid values and detects active filters", () => {
+    const filters = parseDiscoverFilters(
+      new URLSearchParams("type=person&genres=abc&sort=title&yearTo=soon"),
+    );
+
+    expect(filters).toMatchObject({
+      mediaType: "movie",
+      genres: [],
+      sort: "popularity",
+      yearTo: undefined,
+    });
+    expect(hasDiscoverFilters(new URLSearchParams())).toBe(false);
+    expect(hasDiscoverFilters(new URLSearchParams("type=movie"))).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+import { handleFavorites } from "../utils/favoritesHandler";
+import api, { ApiError } from "../services/apiClient";
+import { showToast } from "../services/toastService";
+import { FavoriteItem } from "../types";
+
+jest.mock("../services/authService", () => ({
+  __esModule: true,
+  default: { isAuthenticated: jest.fn(() => true) },
+}));
+
+jest.mock("../services/toastService", () => ({
+  showToast: jest.fn(),
+}));
+
+const movie = (overrides: Partial<FavoriteItem> = {}): FavoriteItem => ({
+  id: 550,
+  tmdbId: 550,
+  title: "Fight Club",
+  mediaType: "movie",
+  ...overrides,
+});
+
+// Apply setter calls to a plain array, like the cached favorites query does
+const createStore = (initial: FavoriteItem[]) => {
+  let favorites = initial;
+  const setFavorites = jest.fn((action) => {
+    favorites = typeof action === "function" ? action(favorites) : action;
+  });
+  return { setFavorites, get: () => favorites };
+};
+
+describe("handleFavorites", () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it("shows a new favorite before the server responds and reconciles it", async () => {
+    const saved = movie({ id: "fav-1" as unknown as number });
+    let resolveAdd: (value: FavoriteItem) => void = () => {};
+    jest.spyOn(api.favorites, "add").mockReturnValue(
+      new Promise((resolve) => {
+        resolveAdd = resolve;
+      }),
+    );
+    const store = createStore([]);
+
+    const pending = handleFavorites(
+      "add",
+      movie(),
+      store.setFavorites,
+      jest.fn(),
+    );
+    expect(store.get()).toHaveLength(1);
+    expect(store.get()[0].title).toBe("Fight Club");
+
+    resolveAdd(saved);
+    await pending;
+    expect(store.get()).toEqual([saved]);
+  });
+
+  it("rolls back a failed removal and shows an error toast", async () => {
+    const first = movie({ id: "fav-1" as unknown as number });
+    const second = movie({ id: "fav-2" as unknown as number, tmdbId: 680 });
+    jest
+      .spyOn(api.favorites, "remove")
+      .mockRejectedValue(
+        new ApiError("Server down", 500, "INTERNAL_SERVER_ERROR"),
+      );
+    const store = createStore([first, second]);
+
+    await handleFavorites("remove", first, store.setFavorites, jest.fn());
+
+    expect(store.get()).toEqual([first, second]);
+    expect(showToast).toHaveBeenCalledWith(
+      "Couldn't remove from favorites: Server down",
+      "error",
+    );
+  });
+
+  it("treats an existing favorite as a successful add", async () => {
+    jest
+      .spyOn(api.favorites, "add")
+      .mockRejectedValue(
+        new ApiError("Favorite already exists", 400, "BAD_REQUEST"),
+      );
+    const store = createStore([]);
+
+    await handleFavorites("add", movie(), store.setFavorites, jest.fn());
+
+    expect(store.get()).toHaveLength(1);
+    expect(showToast).toHaveBeenCalledWith("Added to favorites.", "success");
+  });
+});
@@ -0,0 +1,66 @@
+import { handleFollow } from "../utils/followsHandler";
+import api, { ApiError } from "../services/apiClient";
+import { showToast } from "../services/toastService";
+import { FollowedPerson } from "../types";
+
+jest.mock("../services/authService", () => ({
+  __esModule: true,
+  default: { isAuthenticated: jest.fn(() => true) },
+}));
+
+jest.mock("../services/toastService", () => ({
+  showToast: jest.fn(),
+}));
+
+const nolan: FollowedPerson = {
+  id: "follow-1",
+  personId: 525,
+  name: "Christopher Nolan",
+  profile_path: null,
+  knownForDepartment: "Directing",
+  followedAt: "2024-01-01T00:00:00.000Z",
+};
+
+const createStore = (initial: FollowedPerson[]) => {
+  let follows = initial;
+  const setFollows = jest.fn((action) => {
+    follows = typeof action === "function" ? action(follows) : action;
+  });
+  return { setFollows, get: () => follows };
+};
+
+describe("handleFollow", () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it("replaces the optimistic entry with the saved follow", async () => {
+    jest.spyOn(api.follows, "follow").mockResolvedValue(nolan);
+    const store = createStore([]);
+
+    const pending = handleFollow("follow", nolan, store.setFollows);
+    expect(store.get()[0].id).toBe("pending-525");
+
+    await pending;
+    expect(store.get()).toEqual([nolan]);
+    expect(showToast).toHaveBeenCalledWith(
+      "Following Christopher Nolan.",
+      "success",
+    );
+  });
+
+  it("restores the follow when unfollowing fails", async () => {
+    jest
+      .spyOn(api.follows, "unfollow")
+      .mockRejectedValue(
+        new ApiError("Server error", 500, "INTERNAL_SERVER_ERROR"),
+      );
+    const store = createStore([nolan]);
+
+    await handleFollow("unfollow", nolan, store.setFollows);
+
+    expect(store.get()).toEqual([nolan]);
+    expect(showToast).toHaveBeenCalledWith("Server error", "error");
+  });
+});
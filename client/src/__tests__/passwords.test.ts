@@ -0,0 +1,19 @@
+import { validateNewPassword } from "../utils/passwords";
+
+describe("validateNewPassword", () => {
+  it("requires a password of the minimum length", () => {
+    expect(validateNewPassword("   ", "   ")).toBe(
+      "Please enter a new password.",
+    );
+    expect(validateNewPassword("12345", "12345")).toBe(
+      "Password must be at least 6 characters long.",
+    );
+  });
+
+  it("requires the confirmation to match", () => {
+    expect(validateNewPassword("secret1", "secret2")).toBe(
+      "Passwords do not match.",
+    );
+    expect(validateNewPassword("secret1", "secret1")).toBeNull();
+  });
+});
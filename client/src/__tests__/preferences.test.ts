@@ -0,0 +1,37 @@
+import { mergeGenreOptions, toggleGenrePreference } from "../utils/preferences";
+import { UserPreferences } from "../types";
+
+const preferences: UserPreferences = {
+  favoriteGenres: [28],
+  dislikedGenres: [27],
+  languages: [],
+  maxContentRating: null,
+  mediaTypeBias: "balanced",
+};
+
+describe("preferences utilities", () => {
+  it("merges movie and TV genres without duplicates", () => {
+    expect(
+      mergeGenreOptions(
+        { 28: "Action", 18: "Drama" },
+        { 18: "Drama", 10765: "Sci-Fi & Fantasy" },
+      ),
+    ).toEqual([
+      { id: 28, name: "Action" },
+      { id: 18, name: "Drama" },
+      { id: 10765, name: "Sci-Fi & Fantasy" },
+    ]);
+  });
+
+  it("toggles genres and keeps favorite and disliked lists apart", () => {
+    expect(
+      toggleGenrePreference(preferences, "favoriteGenres", 27),
+    ).toMatchObject({ favoriteGenres: [28, 27], dislikedGenres: [] });
+    expect(
+      toggleGenrePreference(preferences, "dislikedGenres", 28),
+    ).toMatchObject({ favoriteGenres: [], dislikedGenres: [27, 28] });
+    expect(
+      toggleGenrePreference(preferences, "favoriteGenres", 28).favoriteGenres,
+    ).toEqual([]);
+  });
+});
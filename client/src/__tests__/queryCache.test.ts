@@ -0,0 +1,89 @@
+import {
+  clearQueries,
+  fetchQuery,
+  getQueryData,
+  invalidateQueries,
+  setQueryData,
+  subscribeQuery,
+} from "../services/queryCache";
+
+describe("queryCache", () => {
+  beforeEach(() => {
+    clearQueries();
+  });
+
+  it("shares one in-flight request between concurrent callers", async () => {
+    const fetcher = jest.fn().mockResolvedValue(["Action"]);
+
+    const [first, second] = await Promise.all([
+      fetchQuery("genres", fetcher),
+      fetchQuery("genres", fetcher),
+    ]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(first).toEqual(["Action"]);
+    expect(second).toBe(first);
+  });
+
+  it("serves fresh data from the cache and refetches once stale", async () => {
+    const fetcher = jest
+      .fn()
+      .mockResolvedValueOnce("first")
+      .mockResolvedValueOnce("second");
+
+    await fetchQuery("trending", fetcher, { staleTime: 60000 });
+    await expect(
+      fetchQuery("trending", fetcher, { staleTime: 60000 }),
+    ).resolves.toBe("first");
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    await expect(
+      fetchQuery("trending", fetcher, { staleTime: 0 }),
+    ).resolves.toBe("second");
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it("applies local updates and notifies subscribers", () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeQuery("favorites", listener);
+
+    setQueryData<string[]>("favorites", ["a"]);
+    setQueryData<string[]>("favorites", (previous = []) => [...previous, "b"]);
+
+    expect(getQueryData("favorites")).toEqual(["a", "b"]);
+    expect(listener).toHaveBeenCalledTimes(2);
+    unsubscribe();
+  });
+
+  it("refetches subscribed keys when invalidated", async () => {
+    const fetcher = jest
+      .fn()
+      .mockResolvedValueOnce(["stale"])
+      .mockResolvedValueOnce(["fresh"]);
+    const unsubscribe = subscribeQuery("favorites", jest.fn());
+
+    await fetchQuery("favorites", fetcher);
+    invalidateQueries("favorites");
+    await fetchQuery("favorites", fetcher);
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(getQueryData("favorites")).toEqual(["fresh"]);
+    unsubscribe();
+  });
+
+  it("refetches subscribed keys after the cache is cleared", async () => {
+    const fetcher = jest
+      .fn()
+      .mockResolvedValueOnce(["alice"])
+      .mockResolvedValueOnce(["bob"]);
+    const unsubscribe = subscribeQuery("watchlist", jest.fn());
+
+    await fetchQuery("watchlist", fetcher);
+    clearQueries();
+    await fetchQuery("watchlist", fetcher);
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(getQueryData("watchlist")).toEqual(["bob"]);
+    unsubscribe();
+  });
+});
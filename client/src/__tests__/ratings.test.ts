@@ -0,0 +1,57 @@
+import {
+  ratingDistribution,
+  ratingKey,
+  sortRatings,
+  toRatingLookup,
+} from "../utils/ratings";
+import { RatedTitle } from "../types";
+
+const rated = (id: string, rating: number, ratedAt: string): RatedTitle => ({
+  id,
+  tmdbId: id,
+  mediaType: "movie",
+  title: `Title ${id}`,
+  poster_path: null,
+  genres: [],
+  rating,
+  ratedAt,
+});
+
+const ratings = [
+  rated("a", 7, "2024-01-01T00:00:00.000Z"),
+  rated("b", 9, "2024-03-01T00:00:00.000Z"),
+  rated("c", 7, "2024-02-01T00:00:00.000Z"),
+];
+
+const ids = (items: RatedTitle[]) => items.map((item) => item.id);
+
+describe("rating utilities", () => {
+  it("sorts by date or score, newest first among equal scores", () => {
+    expect(ids(sortRatings(ratings, "newest"))).toEqual(["b", "c", "a"]);
+    expect(ids(sortRatings(ratings, "oldest"))).toEqual(["a", "c", "b"]);
+    expect(ids(sortRatings(ratings, "highest"))).toEqual(["b", "c", "a"]);
+    expect(ids(sortRatings(ratings, "lowest"))).toEqual(["c", "a", "b"]);
+    expect(ids(ratings)).toEqual(["a", "b", "c"]);
+  });
+
+  it("counts ratings per score from 1 to 10", () => {
+    expect(
+      ratingDistribution([
+        ...ratings,
+        rated("d", 0, "2024-01-01T00:00:00.000Z"),
+        rated("e", 8.6, "2024-01-01T00:00:00.000Z"),
+      ]),
+    ).toEqual([1, 0, 0, 0, 0, 0, 2, 0, 2, 0]);
+  });
+
+  it("looks up scores by media type and TMDb ID", () => {
+    const lookup = toRatingLookup([
+      ...ratings,
+      { ...rated("d", 4, "2024-01-01T00:00:00.000Z"), mediaType: "tv" },
+    ]);
+
+    expect(lookup.get(ratingKey("movie", "b"))).toBe(9);
+    expect(lookup.get(ratingKey("tv", "d"))).toBe(4);
+    expect(lookup.get(ratingKey("movie", "d"))).toBeUndefined();
+  });
+});
@@ -0,0 +1,49 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { useInfiniteQuery } from "../hooks/useInfiniteQuery";
+import { clearQueries } from "../services/queryCache";
+
+const pageOf = (page: number, totalPages = 2) => ({
+  page,
+  total_pages: totalPages,
+  results: [{ id: page * 10 + 1 }, { id: page * 10 + 2 }],
+});
+
+describe("useInfiniteQuery", () => {
+  beforeEach(() => {
+    clearQueries();
+  });
+
+  it("loads further pages on demand and stops at total_pages", async () => {
+    const fetchPage = jest.fn((page: number) => Promise.resolve(pageOf(page)));
+    const { result } = renderHook(() => useInfiniteQuery("list", fetchPage));
+
+    await waitFor(() => expect(result.current.items).toHaveLength(2));
+    expect(result.current.hasMore).toBe(true);
+
+    act(() => result.current.loadMore());
+    await waitFor(() => expect(result.current.items).toHaveLength(4));
+
+    expect(fetchPage).toHaveBeenCalledWith(2);
+    expect(result.current.hasMore).toBe(false);
+
+    act(() => result.current.loadMore());
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it("drops items repeated across pages", async () => {
+    const fetchPage = jest.fn((page: number) =>
+      Promise.resolve({
+        page,
+        total_pages: 2,
+        results: [{ id: 1 }, { id: page + 1 }],
+      }),
+    );
+    const { result } = renderHook(() => useInfiniteQuery("dupes", fetchPage));
+
+    await waitFor(() => expect(result.current.items).toHaveLength(2));
+    act(() => result.current.loadMore());
+    await waitFor(() => expect(result.current.pagesLoaded).toBe(2));
+
+    expect(result.current.items.map((item) => item.id)).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,61 @@
+import { recordView } from "../utils/viewHistory";
+import api from "../services/apiClient";
+import { HistoryEntry } from "../types";
+
+jest.mock("../services/authService", () => ({
+  __esModule: true,
+  default: { isAuthenticated: jest.fn(() => true) },
+}));
+
+const entry: HistoryEntry = {
+  id: "history-1",
+  tmdbId: "550",
+  mediaType: "movie",
+  action: "viewed",
+  title: "Fight Club",
+  poster_path: "/poster.jpg",
+  viewedAt: "2024-01-01T00:00:00.000Z",
+};
+
+describe("recordView", () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("records movies and TV shows with their display data", async () => {
+    const record = jest.spyOn(api.history, "record").mockResolvedValue(entry);
+
+    await recordView("movie", {
+      id: 550,
+      title: "Fight Club",
+      poster_path: "/poster.jpg",
+    });
+    await recordView("tv", { id: 1399, name: "Game of Thrones" });
+
+    expect(record).toHaveBeenCalledWith({
+      tmdbId: 550,
+      mediaType: "movie",
+      title: "Fight Club",
+      posterPath: "/poster.jpg",
+    });
+    expect(record).toHaveBeenLastCalledWith({
+      tmdbId: 1399,
+      mediaType: "tv",
+      title: "Game of Thrones",
+      posterPath: null,
+    });
+  });
+
+  it("skips people and swallows failures", async () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => {});
+    const record = jest
+      .spyOn(api.history, "record")
+      .mockRejectedValue(new Error("offline"));
+
+    await recordView("person", { id: 525, name: "Christopher Nolan" });
+    expect(record).not.toHaveBeenCalled();
+
+    await expect(recordView("tv", { id: 1399 })).resolves.toBeUndefined();
+    expect(error).toHaveBeenCalled();
+  });
+});
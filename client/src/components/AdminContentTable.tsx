@@ -0,0 +1,363 @@
+/**
+ * AdminContentTable Component
+ *
+ * The "Content" tab of the admin console: the catalog stored in the `Content` collection, which
+ * the recommendation engines fill from TMDb and admins can curate by hand.
+ *
+ * Features:
+ * - **Search and Scope**: Title search (debounced) and a "Show deleted" switch for soft-deleted
+ *   items; both start again from page 1.
+ * - **Create / Edit**: One form for both, shown above the table. Genres are comma-separated; a
+ *   TMDb ID with a media type gives the item the same slug the engines use.
+ * - **Soft Delete / Restore**: "Delete" sets `isDeleted`, which hides the item from users and
+ *   future recommendations; "Restore" clears it.
+ * - **Recommend**: Hands the item to the "Recommendations" tab (`onRecommend`).
+ *
+ * Error Handling:
+ * - Load failures are shown inline; failed saves keep the form open and show an error toast.
+ */
+
+import { FormEvent, useState } from "react";
+import { QUERY_KEYS, useAdminContent } from "../hooks/useApiQueries";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import adminApi from "../services/adminApi";
+import { invalidateQueries } from "../services/queryCache";
+import { showToast } from "../services/toastService";
+import {
+  ContentForm,
+  EMPTY_CONTENT_FORM,
+  toContentForm,
+  toContentInput,
+} from "../utils/admin";
+import AdminPagination from "./AdminPagination";
+import { CatalogContent } from "../types";
+
+interface AdminContentTableProps {
+  onRecommend: (content: CatalogContent) => void;
+}
+
+const AdminContentTable = ({ onRecommend }: AdminContentTableProps) => {
+  const [search, setSearch] = useState("");
+  const [includeDeleted, setIncludeDeleted] = useState(false);
+  const [page, setPage] = useState(1);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  // `null` while the form is closed; `editingId` is null when creating
+  const [form, setForm] = useState<ContentForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const debouncedSearch = useDebouncedValue(search, 300);
+  const { data, isLoading, isFetching, error } = useAdminContent(
+    debouncedSearch,
+    includeDeleted,
+    page,
+  );
+
+  const updateForm = (field: keyof ContentForm, value: string) =>
+    setForm((previous) => previous && { ...previous, [field]: value });
+
+  const openForm = (content?: CatalogContent) => {
+    setEditingId(content?.id ?? null);
+    setForm(content ? toContentForm(content) : EMPTY_CONTENT_FORM);
+  };
+
+  const handleSave = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!form) return;
+
+    const input = toContentInput(form);
+    if (!input.title || input.genre.length === 0) {
+      showToast("A title and at least one genre are required.", "error");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingId) {
+        await adminApi.content.update(editingId, input);
+      } else {
+        await adminApi.content.create(input);
+      }
+      invalidateQueries(QUERY_KEYS.adminContent);
+      showToast(
+        `${editingId ? "Updated" : "Created"} "${input.title}".`,
+        "success",
+      );
+      setForm(null);
+    } catch (saveError) {
+      console.error("Error saving content:", saveError);
+      showToast(
+        (saveError as Error).message || "Failed to save content.",
+        "error",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSetDeleted = async (
+    content: CatalogContent,
+    deleted: boolean,
+  ) => {
+    setPendingId(content.id);
+    try {
+      if (deleted) {
+        await adminApi.content.remove(content.id);
+      } else {
+        await adminApi.content.update(content.id, { isDeleted: false });
+      }
+      invalidateQueries(QUERY_KEYS.adminContent);
+      invalidateQueries(QUERY_KEYS.adminRecommendations);
+      showToast(
+        `${deleted ? "Deleted" : "Restored"} "${content.title}".`,
+        "info",
+      );
+    } catch (deleteError) {
+      console.error("Error updating content:", deleteError);
+      showToast(
+        (deleteError as Error).message || "Failed to update content.",
+        "error",
+      );
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <section>
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <input
+          type="search"
+          value={search}
+          onChange={(event) => {
+            setSearch(event.target.value);
+            setPage(1);
+          }}
+          placeholder="Search by title"
+          aria-label="Search content"
+          className="input input-bordered input-sm w-full max-w-sm"
+        />
+        <label className="label cursor-pointer gap-2">
+          <input
+            type="checkbox"
+            className="toggle toggle-sm"
+            checked={includeDeleted}
+            onChange={(event) => {
+              setIncludeDeleted(event.target.checked);
+              setPage(1);
+            }}
+          />
+          <span className="label-text text-gray-400">Show deleted</span>
+        </label>
+        <button
+          type="button"
+          className="btn btn-sm btn-primary ml-auto"
+          onClick={() => openForm()}
+        >
+          New Content
+        </button>
+      </div>
+
+      {form && (
+        <form
+          onSubmit={handleSave}
+          className="bg-base-100 rounded-lg p-4 mb-6 grid gap-3 md:grid-cols-2"
+        >
+          <h3 className="md:col-span-2 text-lg font-bold text-white">
+            {editingId ? "Edit Content" : "New Content"}
+          </h3>
+          <label className="form-control">
+            <span className="label-text text-gray-400">Title</span>
+            <input
+              className="input input-sm input-bordered"
+              value={form.title}
+              onChange={(event) => updateForm("title", event.target.value)}
+              required
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text text-gray-400">
+              Genres (comma-separated)
+            </span>
+            <input
+              className="input input-sm input-bordered"
+              value={form.genres}
+              onChange={(event) => updateForm("genres", event.target.value)}
+              required
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text text-gray-400">Rating (0-10)</span>
+            <input
+              type="number"
+              min={0}
+              max={10}
+              step={0.1}
+              className="input input-sm input-bordered"
+              value={form.rating}
+              onChange={(event) => updateForm("rating", event.target.value)}
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text text-gray-400">Media type</span>
+            <select
+              className="select select-sm select-bordered"
+              value={form.mediaType}
+              onChange={(event) => updateForm("mediaType", event.target.value)}
+            >
+              <option value="">Unknown</option>
+              <option value="movie">Movie</option>
+              <option value="tv">TV show</option>
+            </select>
+          </label>
+          <label className="form-control">
+            <span className="label-text text-gray-400">TMDb ID</span>
+            <input
+              className="input input-sm input-bordered"
+              value={form.externalId}
+              onChange={(event) => updateForm("externalId", event.target.value)}
+            />
+          </label>
+          <label className="form-control">
+            <span className="label-text text-gray-400">Runtime (minutes)</span>
+            <input
+              type="number"
+              min={1}
+              className="input input-sm input-bordered"
+              value={form.runtime}
+              onChange={(event) => updateForm("runtime", event.target.value)}
+            />
+          </label>
+          <label className="form-control md:col-span-2">
+            <span className="label-text text-gray-400">Description</span>
+            <textarea
+              className="textarea textarea-bordered"
+              rows={3}
+              value={form.description}
+              onChange={(event) =>
+                updateForm("description", event.target.value)
+              }
+            />
+          </label>
+          <div className="md:col-span-2 flex justify-end gap-2">
+            <button
+              type="button"
+              className="btn btn-sm btn-ghost"
+              onClick={() => setForm(null)}
+              disabled={isSaving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="btn btn-sm btn-primary"
+              disabled={isSaving}
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {isLoading ? (
+        <span className="loading loading-spinner loading-md" />
+      ) : error ? (
+        <p className="text-error">
+          {(error as Error).message || "Failed to load content."}
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th>Title</th>
+                  <th>Genres</th>
+                  <th>Rating</th>
+                  <th>Type</th>
+                  <th>Updated</th>
+                  <th aria-label="Actions" />
+                </tr>
+              </thead>
+              <tbody>
+                {data?.items.map((content) => (
+                  <tr
+                    key={content.id}
+                    className={content.isDeleted ? "opacity-50" : ""}
+                  >
+                    <td>
+                      {content.title}
+                      {content.isDeleted && (
+                        <span className="badge badge-sm badge-error ml-2">
+                          Deleted
+                        </span>
+                      )}
+                    </td>
+                    <td>{content.genre.join(", ")}</td>
+                    <td>{content.rating.toFixed(1)}</td>
+                    <td>{content.metadata?.mediaType ?? "N/A"}</td>
+                    <td>
+                      {content.updatedAt
+                        ? new Date(content.updatedAt).toLocaleDateString()
+                        : "N/A"}
+                    </td>
+                    <td className="flex justify-end gap-2">
+                      {content.isDeleted ? (
+                        <button
+                          type="button"
+                          className="btn btn-xs"
+                          onClick={() => handleSetDeleted(content, false)}
+                          disabled={pendingId === content.id}
+                        >
+                          Restore
+                        </button>
+                      ) : (
+                        <>
+                          <button
+                            type="button"
+                            className="btn btn-xs btn-outline"
+                            onClick={() => onRecommend(content)}
+                          >
+                            Recommend
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn-xs"
+                            onClick={() => openForm(content)}
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn-xs btn-error"
+                            onClick={() => handleSetDeleted(content, true)}
+                            disabled={pendingId === content.id}
+                          >
+                            Delete
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {data?.items.length === 0 && (
+            <p className="text-gray-400 mt-4">No content found.</p>
+          )}
+          {data && (
+            <AdminPagination
+              page={data.page}
+              pages={data.pages}
+              total={data.total}
+              isFetching={isFetching}
+              onPageChange={setPage}
+            />
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default AdminContentTable;
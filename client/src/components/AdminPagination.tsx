@@ -0,0 +1,49 @@
+/**
+ * AdminPagination Component
+ *
+ * "Previous / Page x of y / Next" controls under the admin console tables, with the total
+ * number of rows. The buttons are disabled at either end and while a page is loading.
+ */
+
+interface AdminPaginationProps {
+  page: number;
+  pages: number;
+  total: number;
+  isFetching?: boolean;
+  onPageChange: (page: number) => void;
+}
+
+const AdminPagination = ({
+  page,
+  pages,
+  total,
+  isFetching = false,
+  onPageChange,
+}: AdminPaginationProps) => (
+  <div className="flex justify-between items-center mt-4 text-sm text-gray-400">
+    <span>{`${total} ${total === 1 ? "result" : "results"}`}</span>
+    <div className="join">
+      <button
+        type="button"
+        className="join-item btn btn-sm"
+        onClick={() => onPageChange(page - 1)}
+        disabled={page <= 1 || isFetching}
+      >
+        Previous
+      </button>
+      <span className="join-item btn btn-sm btn-disabled">
+        Page {page} of {pages}
+      </span>
+      <button
+        type="button"
+        className="join-item btn btn-sm"
+        onClick={() => onPageChange(page + 1)}
+        disabled={page >= pages || isFetching}
+      >
+        Next
+      </button>
+    </div>
+  </div>
+);
+
+export default AdminPagination;
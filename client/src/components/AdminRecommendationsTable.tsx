@@ -0,0 +1,408 @@
+/**
+ * AdminRecommendationsTable Component
+ *
+ * The "Recommendations" tab of the admin console: every active recommendation with its user,
+ * content, generating algorithm and review status.
+ *
+ * Features:
+ * - **Filters**: Narrow the list to one user (picked in the "Users" tab) and/or one status.
+ * - **Create**: Recommend catalog content to a user by hand. Users and content are found with
+ *   the same searches as their tabs, or arrive preselected through `initialUser` /
+ *   `initialContent`. Manual recommendations are stored with the `manual` algorithm; recommending
+ *   the same content to the same user again replaces the reason.
+ * - **Edit Reason**: Inline textarea per row. Reasons must be 10-500 characters, like the model.
+ *
+ * Error Handling:
+ * - Load failures are shown inline; failed saves show an error toast and keep the input.
+ */
+
+import { FormEvent, useState } from "react";
+import {
+  QUERY_KEYS,
+  useAdminContent,
+  useAdminRecommendations,
+  useAdminUsers,
+} from "../hooks/useApiQueries";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import adminApi from "../services/adminApi";
+import { invalidateQueries } from "../services/queryCache";
+import { showToast } from "../services/toastService";
+import {
+  REASON_MAX_LENGTH,
+  REASON_MIN_LENGTH,
+  RECOMMENDATION_STATUS_OPTIONS,
+} from "../utils/admin";
+import AdminPagination from "./AdminPagination";
+import { RecommendationStatus } from "../types";
+
+interface SelectedUser {
+  id: string;
+  email: string;
+}
+
+interface SelectedContent {
+  id: string;
+  title: string;
+}
+
+interface AdminRecommendationsTableProps {
+  initialUser?: SelectedUser | null;
+  initialContent?: SelectedContent | null;
+}
+
+const isValidReason = (reason: string) =>
+  reason.trim().length >= REASON_MIN_LENGTH &&
+  reason.trim().length <= REASON_MAX_LENGTH;
+
+// New recommendation form; users and content are picked from search results
+const RecommendationForm = ({
+  initialUser,
+  initialContent,
+  onClose,
+}: {
+  initialUser: SelectedUser | null;
+  initialContent: SelectedContent | null;
+  onClose: () => void;
+}) => {
+  const [userSearch, setUserSearch] = useState(initialUser?.email ?? "");
+  const [contentSearch, setContentSearch] = useState(
+    initialContent?.title ?? "",
+  );
+  const [userId, setUserId] = useState(initialUser?.id ?? "");
+  const [contentId, setContentId] = useState(initialContent?.id ?? "");
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const debouncedUserSearch = useDebouncedValue(userSearch, 300);
+  const debouncedContentSearch = useDebouncedValue(contentSearch, 300);
+  const { data: userMatches } = useAdminUsers(debouncedUserSearch, 1);
+  const { data: contentMatches } = useAdminContent(
+    debouncedContentSearch,
+    false,
+    1,
+  );
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    try {
+      await adminApi.recommendations.create(userId, contentId, reason.trim());
+      invalidateQueries(QUERY_KEYS.adminRecommendations);
+      showToast("Recommendation saved.", "success");
+      onClose();
+    } catch (createError) {
+      console.error("Error creating recommendation:", createError);
+      showToast(
+        (createError as Error).message || "Failed to create recommendation.",
+        "error",
+      );
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleCreate}
+      className="bg-base-100 rounded-lg p-4 mb-6 grid gap-3 md:grid-cols-2"
+    >
+      <h3 className="md:col-span-2 text-lg font-bold text-white">
+        New Recommendation
+      </h3>
+      <div className="form-control gap-1">
+        <span className="label-text text-gray-400">User</span>
+        <input
+          type="search"
+          className="input input-sm input-bordered"
+          placeholder="Search by name or email"
+          aria-label="Search users to recommend to"
+          value={userSearch}
+          onChange={(event) => setUserSearch(event.target.value)}
+        />
+        <select
+          aria-label="User"
+          className="select select-sm select-bordered"
+          value={userId}
+          onChange={(event) => setUserId(event.target.value)}
+          required
+        >
+          <option value="">Select a user</option>
+          {initialUser &&
+            !userMatches?.items.some((user) => user.id === initialUser.id) && (
+              <option value={initialUser.id}>{initialUser.email}</option>
+            )}
+          {userMatches?.items.map((user) => (
+            <option key={user.id} value={user.id}>
+              {user.name} ({user.email})
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="form-control gap-1">
+        <span className="label-text text-gray-400">Content</span>
+        <input
+          type="search"
+          className="input input-sm input-bordered"
+          placeholder="Search by title"
+          aria-label="Search content to recommend"
+          value={contentSearch}
+          onChange={(event) => setContentSearch(event.target.value)}
+        />
+        <select
+          aria-label="Content"
+          className="select select-sm select-bordered"
+          value={contentId}
+          onChange={(event) => setContentId(event.target.value)}
+          required
+        >
+          <option value="">Select content</option>
+          {initialContent &&
+            !contentMatches?.items.some(
+              (content) => content.id === initialContent.id,
+            ) && (
+              <option value={initialContent.id}>{initialContent.title}</option>
+            )}
+          {contentMatches?.items.map((content) => (
+            <option key={content.id} value={content.id}>
+              {content.title}
+            </option>
+          ))}
+        </select>
+      </div>
+      <label className="form-control md:col-span-2">
+        <span className="label-text text-gray-400">
+          Reason ({REASON_MIN_LENGTH}-{REASON_MAX_LENGTH} characters)
+        </span>
+        <textarea
+          className="textarea textarea-bordered"
+          rows={2}
+          maxLength={REASON_MAX_LENGTH}
+          value={reason}
+          onChange={(event) => setReason(event.target.value)}
+          required
+        />
+      </label>
+      <div className="md:col-span-2 flex justify-end gap-2">
+        <button
+          type="button"
+          className="btn btn-sm btn-ghost"
+          onClick={onClose}
+          disabled={isSaving}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="btn btn-sm btn-primary"
+          disabled={isSaving || !userId || !contentId || !isValidReason(reason)}
+        >
+          {isSaving ? "Saving..." : "Recommend"}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const AdminRecommendationsTable = ({
+  initialUser = null,
+  initialContent = null,
+}: AdminRecommendationsTableProps) => {
+  // List filters
+  const [filterUser, setFilterUser] = useState<SelectedUser | null>(
+    initialUser,
+  );
+  const [status, setStatus] = useState<RecommendationStatus | "">("");
+  const [page, setPage] = useState(1);
+  const { data, isLoading, isFetching, error } = useAdminRecommendations(
+    { userId: filterUser?.id, status: status || undefined },
+    page,
+  );
+
+  const [isCreating, setIsCreating] = useState(
+    Boolean(initialUser || initialContent),
+  );
+
+  // Inline reason edit
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editReason, setEditReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSaveReason = async (id: string) => {
+    setIsSaving(true);
+    try {
+      await adminApi.recommendations.updateReason(id, editReason.trim());
+      invalidateQueries(QUERY_KEYS.adminRecommendations);
+      setEditingId(null);
+    } catch (updateError) {
+      console.error("Error updating recommendation:", updateError);
+      showToast(
+        (updateError as Error).message || "Failed to update recommendation.",
+        "error",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <section>
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        {filterUser && (
+          <span className="badge badge-lg badge-primary gap-2">
+            {filterUser.email}
+            <button
+              type="button"
+              aria-label="Show all users"
+              onClick={() => {
+                setFilterUser(null);
+                setPage(1);
+              }}
+            >
+              ✕
+            </button>
+          </span>
+        )}
+        <select
+          aria-label="Filter by status"
+          className="select select-sm select-bordered"
+          value={status}
+          onChange={(event) => {
+            setStatus(event.target.value as RecommendationStatus | "");
+            setPage(1);
+          }}
+        >
+          {RECOMMENDATION_STATUS_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="btn btn-sm btn-primary ml-auto"
+          onClick={() => setIsCreating(true)}
+        >
+          New Recommendation
+        </button>
+      </div>
+
+      {isCreating && (
+        <RecommendationForm
+          initialUser={initialUser}
+          initialContent={initialContent}
+          onClose={() => setIsCreating(false)}
+        />
+      )}
+
+      {isLoading ? (
+        <span className="loading loading-spinner loading-md" />
+      ) : error ? (
+        <p className="text-error">
+          {(error as Error).message || "Failed to load recommendations."}
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th>User</th>
+                  <th>Content</th>
+                  <th>Reason</th>
+                  <th>Algorithm</th>
+                  <th>Status</th>
+                  <th>Created</th>
+                  <th aria-label="Actions" />
+                </tr>
+              </thead>
+              <tbody>
+                {data?.items.map((recommendation) => (
+                  <tr key={recommendation.id}>
+                    <td>{recommendation.user?.email ?? "Deleted user"}</td>
+                    <td>
+                      {recommendation.content?.title ?? "Deleted content"}
+                    </td>
+                    <td className="min-w-64">
+                      {editingId === recommendation.id ? (
+                        <textarea
+                          aria-label="Reason"
+                          className="textarea textarea-bordered textarea-sm w-full"
+                          rows={2}
+                          maxLength={REASON_MAX_LENGTH}
+                          value={editReason}
+                          onChange={(event) =>
+                            setEditReason(event.target.value)
+                          }
+                        />
+                      ) : (
+                        recommendation.reason
+                      )}
+                    </td>
+                    <td>{recommendation.context?.algorithm ?? "N/A"}</td>
+                    <td>
+                      <span className="badge badge-sm badge-outline">
+                        {recommendation.status}
+                      </span>
+                    </td>
+                    <td>
+                      {recommendation.createdAt
+                        ? new Date(
+                            recommendation.createdAt,
+                          ).toLocaleDateString()
+                        : "N/A"}
+                    </td>
+                    <td className="flex justify-end gap-2">
+                      {editingId === recommendation.id ? (
+                        <>
+                          <button
+                            type="button"
+                            className="btn btn-xs btn-ghost"
+                            onClick={() => setEditingId(null)}
+                            disabled={isSaving}
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn-xs btn-primary"
+                            onClick={() => handleSaveReason(recommendation.id)}
+                            disabled={isSaving || !isValidReason(editReason)}
+                          >
+                            Save
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          type="button"
+                          className="btn btn-xs"
+                          onClick={() => {
+                            setEditingId(recommendation.id);
+                            setEditReason(recommendation.reason);
+                          }}
+                        >
+                          Edit Reason
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {data?.items.length === 0 && (
+            <p className="text-gray-400 mt-4">No recommendations found.</p>
+          )}
+          {data && (
+            <AdminPagination
+              page={data.page}
+              pages={data.pages}
+              total={data.total}
+              isFetching={isFetching}
+              onPageChange={setPage}
+            />
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default AdminRecommendationsTable;
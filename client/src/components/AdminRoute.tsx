@@ -0,0 +1,62 @@
+/**
+ * AdminRoute Component
+ *
+ * A `ProtectedRoute` for admin-only areas. Child routes render only when the session's JWT
+ * carries the `admin` role.
+ *
+ * =======================
+ * **Core Functionality**
+ * =======================
+ * 1. **Access Control**:
+ *    - Reads `isAuthenticated` and `user.role` from `useAuth`.
+ *    - Renders `<Outlet>` for admins.
+ *
+ * 2. **Redirection**:
+ *    - Unauthenticated users go to `/login`, with the requested path as `state.from` like
+ *      `ProtectedRoute`.
+ *    - Signed-in users without the admin role go back to their dashboard.
+ *
+ * ========================
+ * **Security Considerations**
+ * ========================
+ * - This only hides admin screens. The server enforces the role itself, since the token payload
+ *   can be edited in the browser: the admin console's GraphQL resolvers are wrapped in
+ *   `requireRole`.
+ * - Roles are read from the token, so a promotion or demotion shows up after the next token
+ *   refresh or sign-in.
+ *
+ * ==========================
+ * **Example Use Case**
+ * ==========================
+ * ```tsx
+ * <Route element={<AdminRoute />}>
+ *   <Route path="/admin" element={<AdminPage />} />
+ * </Route>
+ * ```
+ */
+
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { useAuth } from "../context/AuthContext";
+
+const AdminRoute = () => {
+  const { isAuthenticated, user } = useAuth();
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    return (
+      <Navigate
+        to="/login"
+        state={{ from: `${location.pathname}${location.search}` }}
+      />
+    );
+  }
+
+  // Signed in without the admin role: back to their own dashboard
+  return user?.role === "admin" ? (
+    <Outlet />
+  ) : (
+    <Navigate to={`/dashboard/${user?.id}`} replace />
+  );
+};
+
+export default AdminRoute;
@@ -0,0 +1,219 @@
+/**
+ * AdminUsersTable Component
+ *
+ * The "Users" tab of the admin console: a paginated, searchable list of every account.
+ *
+ * Features:
+ * - **Search**: Matches names and emails as the admin types (debounced), starting again from
+ *   page 1.
+ * - **Disable / Enable**: Toggles `setUserDisabled`. Disabled users can't log in or refresh their
+ *   session, so they are signed out within an hour.
+ * - **Delete**: Asks for confirmation, then permanently removes the account with `deleteUser`.
+ * - **Recommend**: Hands the user to the "Recommendations" tab (`onRecommend`).
+ * - The signed-in admin's own row has no disable or delete action.
+ *
+ * Error Handling:
+ * - Load failures are shown inline; failed actions show an error toast.
+ */
+
+import { useState } from "react";
+import { useAuth } from "../context/AuthContext";
+import { QUERY_KEYS, useAdminUsers } from "../hooks/useApiQueries";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import adminApi from "../services/adminApi";
+import { invalidateQueries } from "../services/queryCache";
+import { showToast } from "../services/toastService";
+import AdminPagination from "./AdminPagination";
+import { AdminUser } from "../types";
+
+interface AdminUsersTableProps {
+  onRecommend: (user: AdminUser) => void;
+}
+
+const AdminUsersTable = ({ onRecommend }: AdminUsersTableProps) => {
+  const { user: currentUser } = useAuth();
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [userToDelete, setUserToDelete] = useState<AdminUser | null>(null);
+  const debouncedSearch = useDebouncedValue(search, 300);
+  const { data, isLoading, isFetching, error } = useAdminUsers(
+    debouncedSearch,
+    page,
+  );
+
+  const handleToggleDisabled = async (user: AdminUser) => {
+    setPendingId(user.id);
+    try {
+      await adminApi.users.setDisabled(user.id, !user.disabled);
+      invalidateQueries(QUERY_KEYS.adminUsers);
+      showToast(
+        `${user.email} ${user.disabled ? "enabled" : "disabled"}.`,
+        "success",
+      );
+    } catch (toggleError) {
+      console.error("Error updating user:", toggleError);
+      showToast(
+        (toggleError as Error).message || "Failed to update user.",
+        "error",
+      );
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!userToDelete) return;
+    const { id, email } = userToDelete;
+    setUserToDelete(null);
+    setPendingId(id);
+    try {
+      await adminApi.users.remove(id);
+      invalidateQueries(QUERY_KEYS.adminUsers);
+      invalidateQueries(QUERY_KEYS.adminRecommendations);
+      showToast(`Deleted ${email}.`, "info");
+    } catch (deleteError) {
+      console.error("Error deleting user:", deleteError);
+      showToast(
+        (deleteError as Error).message || "Failed to delete user.",
+        "error",
+      );
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <section>
+      <input
+        type="search"
+        value={search}
+        onChange={(event) => {
+          setSearch(event.target.value);
+          setPage(1);
+        }}
+        placeholder="Search by name or email"
+        aria-label="Search users"
+        className="input input-bordered input-sm w-full max-w-sm mb-4"
+      />
+
+      {isLoading ? (
+        <span className="loading loading-spinner loading-md" />
+      ) : error ? (
+        <p className="text-error">
+          {(error as Error).message || "Failed to load users."}
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Email</th>
+                  <th>Role</th>
+                  <th>Status</th>
+                  <th>Joined</th>
+                  <th aria-label="Actions" />
+                </tr>
+              </thead>
+              <tbody>
+                {data?.items.map((user) => (
+                  <tr key={user.id}>
+                    <td>{user.name}</td>
+                    <td>{user.email}</td>
+                    <td>{user.role}</td>
+                    <td>
+                      <span
+                        className={`badge badge-sm ${
+                          user.disabled ? "badge-error" : "badge-success"
+                        }`}
+                      >
+                        {user.disabled ? "Disabled" : "Active"}
+                      </span>
+                    </td>
+                    <td>
+                      {user.createdAt
+                        ? new Date(user.createdAt).toLocaleDateString()
+                        : "N/A"}
+                    </td>
+                    <td className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        className="btn btn-xs btn-outline"
+                        onClick={() => onRecommend(user)}
+                      >
+                        Recommend
+                      </button>
+                      {user.id !== currentUser?.id && (
+                        <>
+                          <button
+                            type="button"
+                            className="btn btn-xs"
+                            onClick={() => handleToggleDisabled(user)}
+                            disabled={pendingId === user.id}
+                          >
+                            {user.disabled ? "Enable" : "Disable"}
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn-xs btn-error"
+                            onClick={() => setUserToDelete(user)}
+                            disabled={pendingId === user.id}
+                          >
+                            Delete
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {data?.items.length === 0 && (
+            <p className="text-gray-400 mt-4">No users found.</p>
+          )}
+          {data && (
+            <AdminPagination
+              page={data.page}
+              pages={data.pages}
+              total={data.total}
+              isFetching={isFetching}
+              onPageChange={setPage}
+            />
+          )}
+        </>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {userToDelete && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-neutral p-6 rounded-lg shadow-lg w-80">
+            <h3 className="text-lg font-bold text-white mb-4">Delete User</h3>
+            <p className="text-gray-400 mb-6">
+              Permanently delete {userToDelete.email}? This action cannot be
+              undone.
+            </p>
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setUserToDelete(null)}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg focus:outline-none"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 bg-red-600 hover:bg-red-500 text-white rounded-lg focus:outline-none"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default AdminUsersTable;
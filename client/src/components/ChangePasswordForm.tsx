@@ -0,0 +1,116 @@
+/**
+ * ChangePasswordForm Component
+ *
+ * The "Change Password" section of the profile page. The user confirms their current password
+ * and enters the new one twice.
+ *
+ * Key Backend Integration:
+ * - `PUT /api/auth/password` through `changePassword` from `useAuth`. The server signs out every
+ *   other session and returns a new token pair, so this tab stays logged in.
+ *
+ * Error Handling:
+ * - Mismatched or too short passwords are caught by `validateNewPassword` before sending; a
+ *   wrong current password comes back from the server. Both show an error toast and keep the
+ *   form filled in.
+ */
+
+import React, { useState } from "react";
+import { useAuth } from "../context/AuthContext";
+import { showToast } from "../services/toastService";
+import { validateNewPassword } from "../utils/passwords";
+
+const EMPTY_FORM = {
+  currentPassword: "",
+  newPassword: "",
+  confirmPassword: "",
+};
+
+const ChangePasswordForm = () => {
+  const { changePassword } = useAuth();
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((previous) => ({ ...previous, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!formData.currentPassword) {
+      showToast("Please enter your current password.", "error");
+      return;
+    }
+    const validationError = validateNewPassword(
+      formData.newPassword,
+      formData.confirmPassword,
+    );
+    if (validationError) {
+      showToast(validationError, "error");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { message } = await changePassword(
+        formData.currentPassword,
+        formData.newPassword,
+      );
+      setFormData(EMPTY_FORM);
+      showToast(message, "success");
+    } catch (error) {
+      console.error("Error changing password:", error);
+      showToast(
+        (error as Error).message || "Failed to change password.",
+        "error",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <input
+        type="password"
+        name="currentPassword"
+        aria-label="Current password"
+        autoComplete="current-password"
+        placeholder="Current password"
+        value={formData.currentPassword}
+        onChange={handleChange}
+        className="input input-bordered w-full bg-gray-900 text-white"
+      />
+      <input
+        type="password"
+        name="newPassword"
+        aria-label="New password"
+        autoComplete="new-password"
+        placeholder="New password"
+        value={formData.newPassword}
+        onChange={handleChange}
+        className="input input-bordered w-full bg-gray-900 text-white"
+      />
+      <input
+        type="password"
+        name="confirmPassword"
+        aria-label="Confirm new password"
+        autoComplete="new-password"
+        placeholder="Confirm new password"
+        value={formData.confirmPassword}
+        onChange={handleChange}
+        className="input input-bordered w-full bg-gray-900 text-white"
+      />
+      <button
+        type="submit"
+        className="btn btn-outline w-full"
+        disabled={isSaving}
+      >
+        {isSaving ? "Saving..." : "Change Password"}
+      </button>
+    </form>
+  );
+};
+
+export default ChangePasswordForm;
@@ -3,14 +3,17 @@
  *
  * This component provides a responsive and dynamic navigation bar for authenticated users
  * within the dashboard section of the application. It ensures users can easily navigate
- * between core features like the dashboard, favorites, and profile, while also providing
+ * between core features like the dashboard, favorites, ratings and profile, while also providing
  * logout functionality.
  *
  * Features:
  * - **Dynamic Route Detection**:
  *   - Highlights and conditionally hides links to the currently active page.
  * - **Authentication-Integrated Navigation**:
- *   - Uses `authService` to fetch the user's details and manage authentication state.
+ *   - Uses `useAuth` for the user's details and the `logout` action.
+ *   - Shows an "Admin" link to the admin console when the user's token has the admin role.
+ * - **Search**:
+ *   - Embeds `SearchBar`, a typeahead over movies, TV shows and people that opens the results page.
  * - **Logout Functionality**:
  *   - Logs out the user, clears the session, and redirects to the homepage.
  *
@@ -23,28 +26,32 @@
  * - React Router:
  *   - `useNavigate` for programmatic navigation.
  *   - `useLocation` for detecting the current route.
- * - `authService` for authentication-related utilities.
+ * - `useAuth` for the current session.
  */
 
 import { Link, useNavigate, useLocation } from "react-router-dom";
-import authService from "../services/authService";
+import { useAuth } from "../context/AuthContext";
+import SearchBar from "./SearchBar";
 
 const DashboardNavbar = () => {
   const navigate = useNavigate();
   const location = useLocation();
+  const { user, logout } = useAuth();
 
   const handleLogout = () => {
-    authService.logout();
+    logout();
     navigate("/");
   };
 
-  const user = authService.getProfile();
   const currentPath = location.pathname;
 
   // Determine current route to conditionally show navigation links
   const isFavoritesPage = currentPath === `/dashboard/${user?.id}/favorites`;
+  const isWatchlistPage = currentPath === `/dashboard/${user?.id}/watchlist`;
+  const isRatingsPage = currentPath === `/dashboard/${user?.id}/ratings`;
   const isProfilePage = currentPath === `/profile/${user?.id}`;
   const isDashboardPage = currentPath === `/dashboard/${user?.id}`;
+  const isAdminPage = currentPath === "/admin";
 
   return (
     <nav className="bg-neutral text-white px-6 py-4 flex justify-between items-center shadow-md">
@@ -58,6 +65,13 @@ const DashboardNavbar = () => {
         </Link>
       </div>
 
+      {/* Search */}
+      {user?.id && (
+        <div className="hidden md:flex flex-1 justify-center px-6">
+          <SearchBar userId={user.id} />
+        </div>
+      )}
+
       {/* Navigation Links */}
       <div className="flex items-center space-x-6">
         {!isDashboardPage && (
@@ -76,6 +90,22 @@ const DashboardNavbar = () => {
             Favorites
           </Link>
         )}
+        {!isWatchlistPage && (
+          <Link
+            to={`/dashboard/${user?.id}/watchlist`}
+            className="text-sm hover:text-primary transition"
+          >
+            Watchlist
+          </Link>
+        )}
+        {!isRatingsPage && (
+          <Link
+            to={`/dashboard/${user?.id}/ratings`}
+            className="text-sm hover:text-primary transition"
+          >
+            Ratings
+          </Link>
+        )}
         {!isProfilePage && (
           <Link
             to={`/profile/${user?.id}`}
@@ -84,6 +114,11 @@ const DashboardNavbar = () => {
             Profile
           </Link>
         )}
+        {user?.role === "admin" && !isAdminPage && (
+          <Link to="/admin" className="text-sm hover:text-primary transition">
+            Admin
+          </Link>
+        )}
         <button
           onClick={handleLogout}
           className="bg-red-500 px-4 py-2 rounded text-sm hover:bg-red-600"
@@ -0,0 +1,455 @@
+/**
+ * DiscoverSection Component
+ *
+ * A filter panel for the dashboard that browses TMDb's discover catalog through
+ * `/api/discover/:mediaType`. Users narrow movies or TV shows by genre, release year range,
+ * minimum rating, runtime and original language, and choose the sort order.
+ *
+ * ============================
+ * **Key Features**
+ * ============================
+ * 1. **Filter Panel**:
+ *    - Genre chips come from the genre lists already cached by `useGenreMaps` (`/api/genres`),
+ *      switching between movie and TV genres with the media type.
+ *    - Year range, minimum rating, runtime range, language and sort inputs.
+ *    - Edits are kept in a local draft until "Apply" is pressed; "Reset" clears every filter.
+ * 2. **URL Persistence**:
+ *    - Applied filters are written to the dashboard's query string (`?type=tv&genres=18&...`),
+ *      so a filtered view can be bookmarked, shared or restored with the back button.
+ *    - Results are only fetched while the URL carries filters.
+ * 3. **Results**:
+ *    - `useDiscover` caches each filter combination under a normalized key.
+ *    - Cards offer the same favorite/watchlist toggles as `PopularSection`.
+ *    - Previous/Next buttons page through the results.
+ *
+ * ============================
+ * **Component Props**
+ * ============================
+ * - `favorites` / `setFavorites`: The shared favorites list and its setter.
+ * - `watchlist` / `setWatchlist`: The shared watchlist and its setter (optional).
+ */
+
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import fallbackImage from "../assets/images/fallback-image.jpg";
+import { useDiscover, useGenreMaps } from "../hooks/useApiQueries";
+import { handleFavorites } from "../utils/favoritesHandler";
+import { handleWatchlist } from "../utils/watchlistHandler";
+import {
+  DEFAULT_DISCOVER_FILTERS,
+  DISCOVER_SORT_OPTIONS,
+  hasDiscoverFilters,
+  parseDiscoverFilters,
+  toDiscoverSearchParams,
+} from "../utils/discoverFilters";
+import { LANGUAGE_OPTIONS } from "../utils/preferences";
+import {
+  DiscoverFilters,
+  DiscoverSort,
+  FavoriteItem,
+  PopularItem,
+  WatchlistItem,
+} from "../types";
+
+const RATING_OPTIONS = [0, 5, 6, 7, 8, 9];
+const MAX_PAGE = 500; // TMDb serves at most 500 pages
+
+interface DiscoverSectionProps {
+  favorites: FavoriteItem[];
+  setFavorites: React.Dispatch<React.SetStateAction<FavoriteItem[]>>;
+  watchlist?: WatchlistItem[];
+  setWatchlist?: React.Dispatch<React.SetStateAction<WatchlistItem[]>>;
+}
+
+// Empty number inputs clear the filter instead of sending 0
+const toOptionalNumber = (value: string) =>
+  value.trim() === "" ? undefined : Number(value);
+
+const DiscoverSection: React.FC<DiscoverSectionProps> = ({
+  favorites,
+  setFavorites,
+  watchlist = [],
+  setWatchlist,
+}) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const isActive = hasDiscoverFilters(searchParams);
+  const applied = parseDiscoverFilters(searchParams);
+  const appliedKey = searchParams.toString();
+
+  const [draft, setDraft] = useState<DiscoverFilters>(applied);
+  const [modalMessage, setModalMessage] = useState<string | null>(null);
+
+  // Keep the draft in sync when the URL changes (back button, shared links)
+  useEffect(() => {
+    setDraft(parseDiscoverFilters(new URLSearchParams(appliedKey)));
+  }, [appliedKey]);
+
+  const { movieGenres, tvGenres } = useGenreMaps();
+  const { data, isLoading, error } = useDiscover(applied, {
+    enabled: isActive,
+  });
+
+  const genreOptions = Object.entries(
+    draft.mediaType === "movie" ? movieGenres : tvGenres,
+  ).map(([id, name]) => ({ id: Number(id), name }));
+  const appliedGenres = applied.mediaType === "movie" ? movieGenres : tvGenres;
+  const totalPages = Math.min(data?.total_pages ?? 1, MAX_PAGE);
+
+  const updateDraft = (changes: Partial<DiscoverFilters>) =>
+    setDraft((previous) => ({ ...previous, ...changes }));
+
+  const toggleGenre = (id: number) =>
+    updateDraft({
+      genres: draft.genres.includes(id)
+        ? draft.genres.filter((genre) => genre !== id)
+        : [...draft.genres, id],
+    });
+
+  const applyFilters = (filters: DiscoverFilters) =>
+    setSearchParams(toDiscoverSearchParams(filters));
+
+  const resetFilters = () => {
+    setDraft(DEFAULT_DISCOVER_FILTERS);
+    setSearchParams(new URLSearchParams());
+  };
+
+  const handleFavoriteAction = (
+    item: PopularItem,
+    favoriteEntry: FavoriteItem | undefined,
+  ) => {
+    handleFavorites(
+      favoriteEntry ? "remove" : "add",
+      favoriteEntry || {
+        id: item.id,
+        tmdbId: item.id,
+        mediaType: applied.mediaType,
+        title: item.title,
+        name: item.name,
+        genre_ids: item.genre_ids,
+        poster_path: item.poster_path,
+        overview: item.overview,
+      },
+      setFavorites,
+      setModalMessage,
+      {},
+      { movieGenres, tvGenres },
+    );
+  };
+
+  const handleWatchlistAction = (
+    item: PopularItem,
+    watchlistEntry: WatchlistItem | undefined,
+  ) => {
+    if (!setWatchlist) return;
+
+    handleWatchlist(
+      watchlistEntry ? "remove" : "add",
+      watchlistEntry || {
+        tmdbId: item.id.toString(),
+        mediaType: applied.mediaType,
+      },
+      setWatchlist,
+      setModalMessage,
+    );
+  };
+
+  const renderCard = (item: PopularItem) => {
+    const favoriteEntry = favorites.find(
+      (fav) =>
+        String(fav.tmdbId) === item.id.toString() &&
+        fav.mediaType === applied.mediaType,
+    );
+    const watchlistEntry = watchlist.find(
+      (entry) =>
+        entry.tmdbId === item.id.toString() &&
+        entry.mediaType === applied.mediaType,
+    );
+
+    return (
+      <div
+        key={item.id}
+        className="relative bg-base-100 shadow-lg rounded-lg transition-transform transform hover:scale-105 hover:shadow-2xl hover:border-primary border-transparent border-2"
+      >
+        <figure>
+          <img
+            src={
+              item.poster_path
+                ? `https://image.tmdb.org/t/p/w500${item.poster_path}`
+                : fallbackImage
+            }
+            alt={item.title || item.name}
+            className="rounded-t-lg w-full h-72 object-cover"
+          />
+        </figure>
+        <div className="p-4">
+          <h4 className="text-lg font-bold text-white truncate">
+            {item.title || item.name}
+          </h4>
+          <p className="text-gray-400 text-sm">
+            {item.genre_ids
+              ?.map((id) => appliedGenres[id] || "Unknown")
+              .join(", ") || "Genre: N/A"}
+          </p>
+          <div className="flex gap-2 mt-3">
+            <button
+              className="btn btn-xs btn-primary"
+              onClick={() => handleFavoriteAction(item, favoriteEntry)}
+            >
+              {favoriteEntry ? "Unfavorite" : "Favorite"}
+            </button>
+            {setWatchlist && (
+              <button
+                className="btn btn-xs btn-outline"
+                onClick={() => handleWatchlistAction(item, watchlistEntry)}
+              >
+                {watchlistEntry ? "Unwatchlist" : "Watchlist"}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <section id="discover" className="py-16 bg-neutral text-gray-200">
+      <div className="container mx-auto px-6">
+        <h3 className="text-2xl font-bold mb-4 text-white">Discover</h3>
+
+        {/* Filter Panel */}
+        <form
+          className="bg-base-100 rounded-lg p-4 mb-6 space-y-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            applyFilters({ ...draft, page: 1 });
+          }}
+        >
+          <div className="flex flex-wrap gap-4 items-end">
+            <label className="form-control">
+              <span className="label-text text-gray-400">Type</span>
+              <select
+                className="select select-sm select-bordered"
+                value={draft.mediaType}
+                onChange={(event) =>
+                  // Genre IDs differ between movies and TV, so start over
+                  updateDraft({
+                    mediaType: event.target
+                      .value as DiscoverFilters["mediaType"],
+                    genres: [],
+                  })
+                }
+              >
+                <option value="movie">Movies</option>
+                <option value="tv">TV Shows</option>
+              </select>
+            </label>
+
+            <label className="form-control w-24">
+              <span className="label-text text-gray-400">From year</span>
+              <input
+                type="number"
+                className="input input-sm input-bordered"
+                value={draft.yearFrom ?? ""}
+                onChange={(event) =>
+                  updateDraft({
+                    yearFrom: toOptionalNumber(event.target.value),
+                  })
+                }
+              />
+            </label>
+            <label className="form-control w-24">
+              <span className="label-text text-gray-400">To year</span>
+              <input
+                type="number"
+                className="input input-sm input-bordered"
+                value={draft.yearTo ?? ""}
+                onChange={(event) =>
+                  updateDraft({ yearTo: toOptionalNumber(event.target.value) })
+                }
+              />
+            </label>
+
+            <label className="form-control">
+              <span className="label-text text-gray-400">Minimum rating</span>
+              <select
+                className="select select-sm select-bordered"
+                value={draft.minRating ?? 0}
+                onChange={(event) =>
+                  updateDraft({
+                    minRating: Number(event.target.value) || undefined,
+                  })
+                }
+              >
+                {RATING_OPTIONS.map((rating) => (
+                  <option key={rating} value={rating}>
+                    {rating === 0 ? "Any" : `${rating}+`}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="form-control w-28">
+              <span className="label-text text-gray-400">Min runtime</span>
+              <input
+                type="number"
+                min={0}
+                placeholder="min"
+                className="input input-sm input-bordered"
+                value={draft.runtimeMin ?? ""}
+                onChange={(event) =>
+                  updateDraft({
+                    runtimeMin: toOptionalNumber(event.target.value),
+                  })
+                }
+              />
+            </label>
+            <label className="form-control w-28">
+              <span className="label-text text-gray-400">Max runtime</span>
+              <input
+                type="number"
+                min={0}
+                placeholder="min"
+                className="input input-sm input-bordered"
+                value={draft.runtimeMax ?? ""}
+                onChange={(event) =>
+                  updateDraft({
+                    runtimeMax: toOptionalNumber(event.target.value),
+                  })
+                }
+              />
+            </label>
+
+            <label className="form-control">
+              <span className="label-text text-gray-400">Language</span>
+              <select
+                className="select select-sm select-bordered"
+                value={draft.language ?? ""}
+                onChange={(event) =>
+                  updateDraft({ language: event.target.value || undefined })
+                }
+              >
+                <option value="">Any language</option>
+                {LANGUAGE_OPTIONS.map((language) => (
+                  <option key={language.value} value={language.value}>
+                    {language.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="form-control">
+              <span className="label-text text-gray-400">Sort by</span>
+              <select
+                className="select select-sm select-bordered"
+                value={draft.sort}
+                onChange={(event) =>
+                  updateDraft({ sort: event.target.value as DiscoverSort })
+                }
+              >
+                {DISCOVER_SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {genreOptions.map((genre) => (
+              <button
+                key={genre.id}
+                type="button"
+                aria-pressed={draft.genres.includes(genre.id)}
+                className={`badge badge-lg cursor-pointer ${
+                  draft.genres.includes(genre.id)
+                    ? "badge-primary"
+                    : "badge-outline"
+                }`}
+                onClick={() => toggleGenre(genre.id)}
+              >
+                {genre.name}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <button type="submit" className="btn btn-sm btn-primary">
+              Apply
+            </button>
+            <button
+              type="button"
+              className="btn btn-sm btn-ghost"
+              onClick={resetFilters}
+            >
+              Reset
+            </button>
+          </div>
+        </form>
+
+        {/* Results */}
+        {!isActive && (
+          <p className="text-gray-400">
+            Choose filters and press Apply to browse the catalog.
+          </p>
+        )}
+        {isActive && isLoading && (
+          <p className="text-gray-400">Loading results...</p>
+        )}
+        {isActive && !!error && (
+          <p className="text-red-500">
+            {(error as Error).message || "Failed to fetch filtered results."}
+          </p>
+        )}
+        {isActive && data && data.results.length === 0 && (
+          <p className="text-gray-400">No titles match these filters.</p>
+        )}
+        {isActive && data && data.results.length > 0 && (
+          <>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+              {data.results.map(renderCard)}
+            </div>
+            <div className="flex justify-center items-center gap-4 py-6">
+              <button
+                className="btn btn-sm"
+                disabled={applied.page <= 1}
+                onClick={() =>
+                  applyFilters({ ...applied, page: applied.page - 1 })
+                }
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-400">
+                Page {data.page} of {totalPages}
+              </span>
+              <button
+                className="btn btn-sm"
+                disabled={applied.page >= totalPages}
+                onClick={() =>
+                  applyFilters({ ...applied, page: applied.page + 1 })
+                }
+              >
+                Next
+              </button>
+            </div>
+          </>
+        )}
+
+        {modalMessage && (
+          <div className="modal modal-open">
+            <div className="modal-box">
+              <p>{modalMessage}</p>
+              <div className="modal-action">
+                <button className="btn" onClick={() => setModalMessage(null)}>
+                  OK
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default DiscoverSection;
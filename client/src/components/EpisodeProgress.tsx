@@ -0,0 +1,217 @@
+/**
+ * EpisodeProgress Component
+ *
+ * Episode tracking for a TV show's title page: how far the user is through the show and which
+ * episode comes next, with checkboxes for marking episodes as watched.
+ *
+ * ============================
+ * **Key Features**
+ * ============================
+ * 1. **Progress Summary**:
+ *    - Watched / aired episode counts, a progress bar with the completion percent and the next
+ *      episode to watch (`useShowProgress`, `/api/progress/:tmdbId`).
+ *    - Only aired episodes of regular seasons count; specials are not tracked.
+ * 2. **Season Browser**:
+ *    - A season selector (opening on the season of the next episode) lists each episode from
+ *      `/api/tv/:id/seasons/:season` (`useSeason`) with its air date.
+ *    - Episodes that have not aired yet cannot be checked.
+ * 3. **Marking Episodes**:
+ *    - Each checkbox marks one episode; "Mark season watched" / "Unmark season" toggles every
+ *      aired episode of the selected season.
+ *    - The server responds with the updated progress, which is written to the query cache.
+ *      Marking episodes as watched also adds the show to the viewing history.
+ *
+ * ============================
+ * **Component Props**
+ * ============================
+ * - `tmdbId`: TMDb ID of the TV show.
+ *
+ * Error Handling:
+ * - Failed updates show an error toast and leave the progress unchanged.
+ */
+
+import { useState } from "react";
+import { QUERY_KEYS, useSeason, useShowProgress } from "../hooks/useApiQueries";
+import api from "../services/apiClient";
+import { invalidateQueries } from "../services/queryCache";
+import { showToast } from "../services/toastService";
+import { ShowProgress } from "../types";
+
+interface EpisodeProgressProps {
+  tmdbId: string;
+}
+
+const episodeLabel = (seasonNumber: number, episodeNumber: number) =>
+  `S${seasonNumber}E${episodeNumber}`;
+
+const EpisodeProgress = ({ tmdbId }: EpisodeProgressProps) => {
+  const {
+    data: progress,
+    setData: setProgress,
+    isLoading,
+    error,
+  } = useShowProgress(tmdbId);
+  const [selectedSeason, setSelectedSeason] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const seasonNumber =
+    selectedSeason ??
+    progress?.nextEpisode?.seasonNumber ??
+    progress?.seasons[0]?.seasonNumber ??
+    null;
+  const season = useSeason(tmdbId, seasonNumber ?? 1, {
+    enabled: seasonNumber !== null,
+  });
+
+  const seasonProgress = progress?.seasons.find(
+    (entry) => entry.seasonNumber === seasonNumber,
+  );
+
+  const update = async (request: () => Promise<ShowProgress>) => {
+    setIsSaving(true);
+    try {
+      setProgress(await request());
+      invalidateQueries(QUERY_KEYS.history); // Watching is recorded in the history
+    } catch (updateError) {
+      console.error("Failed to update episode progress:", updateError);
+      showToast(
+        (updateError as Error).message || "Failed to update progress.",
+        "error",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isWatched = (episodeNumber: number) =>
+    !!progress?.watched.some(
+      (episode) =>
+        episode.seasonNumber === seasonNumber &&
+        episode.episodeNumber === episodeNumber,
+    );
+
+  if (isLoading) {
+    return <p className="text-gray-400">Loading progress...</p>;
+  }
+
+  if (error || !progress) {
+    return (
+      <p className="text-red-500">
+        {(error as Error)?.message || "Failed to load episode progress."}
+      </p>
+    );
+  }
+
+  if (progress.totalEpisodes === 0 || seasonNumber === null) {
+    return <p className="text-gray-400">No episodes have aired yet.</p>;
+  }
+
+  const seasonComplete =
+    !!seasonProgress &&
+    seasonProgress.watchedEpisodes === seasonProgress.airedEpisodes;
+
+  return (
+    <div className="bg-base-100 rounded-lg p-6 space-y-4">
+      <div>
+        <div className="flex flex-wrap justify-between gap-2 text-sm text-gray-300">
+          <span>
+            {progress.watchedEpisodes} of {progress.totalEpisodes} episodes
+            watched ({progress.percent}%)
+          </span>
+          <span>
+            {progress.nextEpisode
+              ? `Next: ${episodeLabel(
+                  progress.nextEpisode.seasonNumber,
+                  progress.nextEpisode.episodeNumber,
+                )}`
+              : "All caught up"}
+          </span>
+        </div>
+        <progress
+          className="progress progress-primary w-full mt-2"
+          value={progress.percent}
+          max={100}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <select
+          className="select select-bordered select-sm"
+          value={seasonNumber}
+          onChange={(event) => setSelectedSeason(Number(event.target.value))}
+          aria-label="Season"
+        >
+          {progress.seasons.map((entry) => (
+            <option key={entry.seasonNumber} value={entry.seasonNumber}>
+              {entry.name} ({entry.watchedEpisodes}/{entry.airedEpisodes})
+            </option>
+          ))}
+        </select>
+        {seasonProgress && seasonProgress.airedEpisodes > 0 && (
+          <button
+            className="btn btn-sm btn-outline"
+            disabled={isSaving}
+            onClick={() =>
+              update(() =>
+                api.progress.setSeason(tmdbId, seasonNumber, !seasonComplete),
+              )
+            }
+          >
+            {seasonComplete ? "Unmark season" : "Mark season watched"}
+          </button>
+        )}
+      </div>
+
+      {season.isLoading && <p className="text-gray-400">Loading episodes...</p>}
+      {!!season.error && (
+        <p className="text-red-500">
+          {(season.error as Error).message || "Failed to load episodes."}
+        </p>
+      )}
+      {season.data && (
+        <ul className="divide-y divide-gray-700">
+          {season.data.episodes.map((episode) => {
+            const aired =
+              !!seasonProgress &&
+              episode.episodeNumber <= seasonProgress.airedEpisodes;
+            const watched = isWatched(episode.episodeNumber);
+
+            return (
+              <li
+                key={episode.episodeNumber}
+                className="flex items-center gap-4 py-2"
+              >
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-primary checkbox-sm"
+                  checked={watched}
+                  disabled={isSaving || (!aired && !watched)}
+                  onChange={() =>
+                    update(() =>
+                      api.progress.setEpisode(
+                        tmdbId,
+                        seasonNumber,
+                        episode.episodeNumber,
+                        !watched,
+                      ),
+                    )
+                  }
+                  aria-label={`Watched ${episodeLabel(seasonNumber, episode.episodeNumber)}`}
+                />
+                <span className="w-16 text-gray-400 text-sm">
+                  {episodeLabel(seasonNumber, episode.episodeNumber)}
+                </span>
+                <span className="flex-1 text-white">{episode.name}</span>
+                <span className="text-gray-400 text-sm">
+                  {aired ? episode.airDate : "Not aired yet"}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default EpisodeProgress;
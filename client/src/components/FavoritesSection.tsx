@@ -19,6 +19,8 @@
  *   - Allows users to remove an item from the favorites list via a `handleRemoveFavorite` action.
  *   - Updates the UI dynamically by leveraging the parent state (`setFavorites`) and backend
  *     mutation logic in `favoritesHandler`.
+ * - **Your Rating**:
+ *   - Titles the user has rated show their score in a corner badge (`useRatingLookup`).
  * - **Hover Effects**:
  *   - Includes hover-based scaling and shadow transitions for enhanced interactivity.
  *
@@ -47,6 +49,9 @@ import React, { useRef } from "react";
 import { FavoriteItem, GenreMap } from "../types";
 import fallbackImage from "../assets/images/fallback-image.jpg";
 import { handleFavorites } from "../utils/favoritesHandler";
+import { ratingKey } from "../utils/ratings";
+import { useRatingLookup } from "../hooks/useApiQueries";
+import UserRatingBadge from "./UserRatingBadge";
 
 interface FavoritesSectionProps {
   favorites: FavoriteItem[];
@@ -64,6 +69,7 @@ const FavoritesSection: React.FC<FavoritesSectionProps> = ({
   tvGenres,
 }) => {
   const favoritesRef = useRef<HTMLDivElement>(null);
+  const ratingLookup = useRatingLookup();
 
   const scroll = (direction: "left" | "right") => {
     if (favoritesRef.current) {
@@ -129,6 +135,11 @@ const FavoritesSection: React.FC<FavoritesSectionProps> = ({
               key={item.id}
               className="relative flex-shrink-0 w-60 bg-base-100 shadow-lg rounded-lg transition-transform transform hover:scale-105 hover:shadow-2xl hover:border-primary border-transparent border-2"
             >
+              <UserRatingBadge
+                rating={ratingLookup.get(
+                  ratingKey(item.mediaType, item.tmdbId),
+                )}
+              />
               <figure>
                 <img
                   src={
@@ -20,61 +20,39 @@
  *    - Fully optimized for different screen sizes using TailwindCSS.
  *
  * State Management:
- * - `posterUrls`: State to store the list of dynamically fetched poster URLs.
- *
- * Lifecycle:
- * - `useEffect` triggers the API call on component mount to fetch data.
+ * - `posterUrls`: Derived from the cached `"popular:movie"` and `"popular:tv"` queries, which
+ *   `PopularSection` shares, so the posters do not trigger a second request.
  *
  * Error Handling:
- * - Logs errors to the console in case of API failures but ensures the app remains functional.
+ * - `useQuery` logs errors to the console in case of API failures; the collage simply stays empty.
  *
  * Dependencies:
- * - `axios` for API calls.
+ * - `usePopular` for the cached popular lists.
  * - `react-router-dom` for navigation.
  * - `TailwindCSS` for responsive styling.
  */
 
 import { Link } from "react-router-dom";
-import { useEffect, useState } from "react";
-import axios from "axios";
-
-// Define a type for media items
-interface MediaItem {
-  poster_path?: string;
-}
+import { useMemo } from "react";
+import { usePopular } from "../hooks/useApiQueries";
 
 const HeroSection = () => {
-  const [posterUrls, setPosterUrls] = useState<string[]>([]);
-
-  // Fetch posters for the collage
-  const fetchPosters = async () => {
-    try {
-      // Fetch movie and TV data
-      const movieResponse = await axios.get("/api/popular/movies");
-      const tvResponse = await axios.get("/api/popular/tv");
+  const { data: movies } = usePopular("movie");
+  const { data: tvShows } = usePopular("tv");
 
-      // Process poster URLs
-      const posters = [
-        ...movieResponse.data.results,
-        ...tvResponse.data.results,
-      ]
+  // Process poster URLs for the collage
+  const posterUrls = useMemo(
+    () =>
+      [...(movies?.results ?? []), ...(tvShows?.results ?? [])]
         .map(
-          (item: MediaItem) =>
+          (item) =>
             item.poster_path &&
             `https://image.tmdb.org/t/p/w500${item.poster_path}`,
         )
         .filter((url): url is string => Boolean(url))
-        .slice(0, 12);
-
-      setPosterUrls(posters);
-    } catch (error) {
-      console.error("Error fetching posters:", error);
-    }
-  };
-
-  useEffect(() => {
-    fetchPosters();
-  }, []);
+        .slice(0, 12),
+    [movies, tvShows],
+  );
 
   return (
     <header className="relative h-screen">
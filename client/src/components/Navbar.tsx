@@ -14,7 +14,8 @@
  *    - Desktop: Navigation links are directly visible.
  *    - Mobile: A collapsible hamburger menu is provided for space efficiency.
  * 3. **Authentication State Management**:
- *    - Determines whether the user is authenticated using `authService.isAuthenticated()`.
+ *    - Reads the session from `useAuth`, so the links update as soon as the user logs in or
+ *      out (including from another tab).
  *    - Retrieves user-specific details (like user ID) dynamically.
  * 4. **Logout Functionality**:
  *    - Clears the user's authentication token.
@@ -23,9 +24,7 @@
  *    - Fixed at the top of the viewport for consistent access to navigation options.
  *
  * Lifecycle:
- * - React’s `useEffect` hook ensures that:
- *   - The authentication state is updated upon component mount.
- *   - The navbar dynamically adapts to screen resizing.
+ * - React’s `useEffect` hook ensures that the navbar dynamically adapts to screen resizing.
  *
  * Event Handlers:
  * - `toggleMenu`: Toggles the mobile menu visibility.
@@ -34,7 +33,7 @@
  *
  * Dependencies:
  * - React Router: Provides `Link` for navigation and `useNavigate` for redirection.
- * - `authService`: Manages authentication logic (e.g., validating tokens, fetching user details, and handling logout).
+ * - `useAuth`: Supplies the current user, authentication status and `logout` action.
  * - TailwindCSS and DaisyUI: Ensure styling consistency and responsiveness.
  *
  * Design Considerations:
@@ -48,14 +47,12 @@
 
 import { useState, useEffect } from "react";
 import { Link, useNavigate } from "react-router-dom";
-import authService from "../services/authService";
+import { useAuth } from "../context/AuthContext";
 
 const Navbar = () => {
   const [menuOpen, setMenuOpen] = useState(false);
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
-  const [isAuthenticated, setIsAuthenticated] = useState(
-    authService.isAuthenticated(),
-  );
+  const { user, isAuthenticated, logout } = useAuth();
   const navigate = useNavigate();
 
   // Toggles the mobile menu visibility
@@ -75,14 +72,12 @@ const Navbar = () => {
 
   // Handles the logout action
   const handleLogout = () => {
-    authService.logout(); // Clear the token
-    setIsAuthenticated(false); // Update state
+    logout(); // Clear the session; useAuth re-renders the links
     navigate("/"); // Redirect to the landing page
   };
 
-  // Sync authentication state and window resize event listener
+  // Window resize event listener
   useEffect(() => {
-    setIsAuthenticated(authService.isAuthenticated()); // Check authentication state
     window.addEventListener("resize", handleResize);
 
     return () => {
@@ -108,10 +103,7 @@ const Navbar = () => {
           {isAuthenticated ? (
             <>
               {/* Authenticated User Options */}
-              <Link
-                to={`/dashboard/${authService.getProfile()?.id}`}
-                className="btn btn-accent"
-              >
+              <Link to={`/dashboard/${user?.id}`} className="btn btn-accent">
                 Dashboard
               </Link>
               <button onClick={handleLogout} className="btn btn-error">
@@ -156,7 +148,7 @@ const Navbar = () => {
                 {/* Authenticated User Options */}
                 <li>
                   <Link
-                    to={`/dashboard/${authService.getProfile()?.id}`}
+                    to={`/dashboard/${user?.id}`}
                     className="btn btn-accent"
                   >
                     Dashboard
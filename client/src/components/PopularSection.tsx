@@ -18,7 +18,7 @@
  *    - Provides actions for users to:
  *      - Add/remove items from their favorites.
  *      - View details for movies and TV shows in a modal.
- *      - Rate content using a rating modal.
+ *      - Rate content using a rating modal; rated cards show the user's score in a corner badge.
  *
  * 3. **Loading and Error States**:
  *    - Implements a `loading` state to display a spinner or loading message
@@ -29,7 +29,7 @@
  * 4. **Backend Integration**:
  *    - Communicates with `/api/popular/movies`, `/api/popular/tv`, and `/api/genres`.
  *    - Uses authenticated API calls for secure interactions.
- *    - Caches genres locally for performance optimization.
+ *    - Reads through the shared query cache, so genres fetched for one section serve them all.
  *
  * 5. **State Management**:
  *    - Handles the following states:
@@ -47,10 +47,10 @@
  * **State Management**
  * =====================
  * - **`popularMovies` & `popularTVShows`**:
- *   Stores the lists of trending movies and TV shows, enriched with genre metadata.
+ *   The cached `"popular:movie"` and `"popular:tv"` queries, tagged with their `media_type`.
  *
  * - **`movieGenres` & `tvGenres`**:
- *   Maps genre IDs to human-readable names using a locally cached dictionary.
+ *   Maps genre IDs to human-readable names from the shared `"genres"` query.
  *
  * - **`favorites`**:
  *   Tracks the user's favorites and synchronizes with the backend for consistent state.
@@ -71,16 +71,17 @@
  * ========================
  * **Key Functions & Logic**
  * ========================
- * 1. **`fetchData`**:
- *    - Fetches movies, TV shows, and genres in parallel.
- *    - Ensures user authentication before proceeding with requests.
- *    - Manages `loading` and `error` states during the fetch process.
- *    - Clears the `loading` state upon successful completion or sets `error`
- *      if fetching fails.
+ * 1. **Data Loading**:
+ *    - `usePopularPages("movie")`, `usePopularPages("tv")` and `useGenreMaps` load in parallel and
+ *      are deduplicated with other sections.
+ *    - Ensures user authentication before rendering content.
+ *    - `loading` stays true until both first pages are cached; `error` is set if either fails.
  *
- * 2. **`fetchPopularMovies` & `fetchPopularTVShows`**:
- *    - Communicates with the respective API endpoints to fetch popular items.
- *    - Augments the data with a `media_type` field for better contextual understanding.
+ * 2. **Infinite Scrolling**:
+ *    - Each row starts with one page (20 items). Scrolling near the end of a row, with the
+ *      right arrow or by swiping, loads the next page until `total_pages` is reached.
+ *    - A spinner card is shown at the end of the row while the next page loads.
+ *    - Items are tagged with a `media_type` field for better contextual understanding.
  *
  * 3. **`fetchGenres`**:
  *    - Fetches genre metadata and stores it in a locally cached map.
@@ -99,8 +100,8 @@
  * **Backend Integration**
  * ========================
  * 1. **API Endpoints**:
- *    - `/api/popular/movies`: Fetches trending movies.
- *    - `/api/popular/tv`: Fetches trending TV shows.
+ *    - `/api/popular/movies?page=<n>`: Fetches a page of popular movies.
+ *    - `/api/popular/tv?page=<n>`: Fetches a page of popular TV shows.
  *    - `/api/genres`: Provides a mapping of genre IDs to names.
  *
  * 2. **Authentication**:
@@ -119,7 +120,8 @@
  *   - Includes scroll buttons for easy navigation.
  *
  * - **Modals**:
- *   - Details Modal: Provides an in-depth view of the selected content.
+ *   - Details Modal: Provides an in-depth view of the selected content and links to the full
+ *     title page (`/title/:mediaType/:tmdbId`).
  *   - Rating Modal: Allows users to rate a movie or TV show.
  *
  * - **Loading and Error States**:
@@ -140,8 +142,8 @@
  * ========================
  * **Key External Modules**
  * ========================
- * - **`axios`**: For making API calls to the backend.
- * - **`authService`**: Manages authentication logic and token retrieval.
+ * - **`apiClient`**: For making API calls to the backend (attaches the JWT automatically).
+ * - **`useAuth`**: Whether the user is logged in, kept in sync with the session.
  * - **`favoritesHandler.ts`**: Handles add/remove/update operations for favorites.
  *
  * ===========================
@@ -164,13 +166,23 @@
  * ```
  */
 
-import { useEffect, useState, useRef } from "react";
-import axios from "axios";
-import { PopularItem, FavoriteItem, GenreResponse } from "../types";
+import { useState, useRef } from "react";
+import { Link } from "react-router-dom";
+import { PopularItem, FavoriteItem, WatchlistItem } from "../types";
 import fallbackImage from "../assets/images/fallback-image.jpg";
-import authService from "../services/authService";
+import { useAuth } from "../context/AuthContext";
+import {
+  useGenreMaps,
+  usePopularPages,
+  useRatingLookup,
+} from "../hooks/useApiQueries";
+import { isNearRowEnd, scrollRow } from "../utils/rowScroll";
 import { handleFavorites } from "../utils/favoritesHandler";
+import { handleWatchlist } from "../utils/watchlistHandler";
+import { recordView } from "../utils/viewHistory";
 import Rating from "../components/Rating";
+import UserRatingBadge from "../components/UserRatingBadge";
+import { ratingKey } from "../utils/ratings";
 
 interface GenreMap {
   [key: number]: string;
@@ -179,124 +191,71 @@ interface GenreMap {
 interface PopularSectionProps {
   favorites: FavoriteItem[];
   setFavorites: React.Dispatch<React.SetStateAction<FavoriteItem[]>>;
+  watchlist?: WatchlistItem[];
+  setWatchlist?: React.Dispatch<React.SetStateAction<WatchlistItem[]>>;
 }
 
 const PopularSection: React.FC<PopularSectionProps> = ({
   favorites,
   setFavorites,
+  watchlist = [],
+  setWatchlist,
 }) => {
-  const [popularMovies, setPopularMovies] = useState<PopularItem[]>([]);
-  const [popularTVShows, setPopularTVShows] = useState<PopularItem[]>([]);
-  const [movieGenres, setMovieGenres] = useState<GenreMap>({});
-  const [tvGenres, setTVGenres] = useState<GenreMap>({});
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+  const { isAuthenticated } = useAuth();
+  const movies = usePopularPages("movie");
+  const tvShows = usePopularPages("tv");
+  const { movieGenres, tvGenres } = useGenreMaps();
+  const loading = movies.isLoading || tvShows.isLoading;
+  const error = !isAuthenticated
+    ? "You must be logged in to view this content."
+    : movies.error || tvShows.error
+      ? "Failed to fetch popular items."
+      : null;
+
+  const popularMovies: PopularItem[] = movies.items.map((movie) => ({
+    ...movie,
+    media_type: "movie",
+  }));
+  const popularTVShows: PopularItem[] = tvShows.items.map((tvShow) => ({
+    ...tvShow,
+    media_type: "tv",
+  }));
   const [modalMessage, setModalMessage] = useState<string | null>(null);
   const [modalType, setModalType] = useState<"success" | "error" | null>(null);
   const [detailsModalItem, setDetailsModalItem] = useState<PopularItem | null>(
     null,
   );
   const [ratingItem, setRatingItem] = useState<PopularItem | null>(null); // State for managing Rating modal
+  const ratingLookup = useRatingLookup({
+    enabled: isAuthenticated,
+  });
+
+  // Opening the details modal counts as viewing the title
+  const openDetails = (item: PopularItem) => {
+    setDetailsModalItem(item);
+    recordView(item.media_type, item);
+  };
 
   const moviesRef = useRef<HTMLDivElement>(null);
   const tvShowsRef = useRef<HTMLDivElement>(null);
 
+  // Scrolling right near the end of a row lazily loads its next page
   const scroll = (
     ref: React.RefObject<HTMLDivElement>,
     direction: "left" | "right",
-  ) => {
-    if (ref.current) {
-      ref.current.scrollBy({
-        left: direction === "left" ? -300 : 300,
-        behavior: "smooth",
-      });
-    }
-  };
+    loadMore?: () => void,
+  ) => scrollRow(ref.current, direction, loadMore);
 
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        if (!authService.isAuthenticated()) {
-          setError("You must be logged in to view this content.");
-          return;
-        }
-
-        const authToken = authService.getAuthToken();
-        const headers: Record<string, string> = authToken
-          ? { Authorization: `Bearer ${authToken}` }
-          : {};
-
-        await Promise.all([
-          fetchPopularMovies(headers),
-          fetchPopularTVShows(headers),
-          fetchGenres(headers),
-        ]);
-
-        setLoading(false);
-      } catch (err) {
-        setError("Failed to fetch popular items.");
-        console.error(err);
-      }
+  const handleRowScroll =
+    (loadMore: () => void) => (event: React.UIEvent<HTMLDivElement>) => {
+      if (isNearRowEnd(event.currentTarget)) loadMore();
     };
 
-    fetchData();
-  }, []);
-
-  const fetchPopularMovies = async (headers: Record<string, string>) => {
-    try {
-      const response = await axios.get("/api/popular/movies", { headers });
-      const movies = response.data.results.map((movie: PopularItem) => ({
-        ...movie,
-        media_type: "movie",
-      }));
-      setPopularMovies(movies);
-    } catch (err) {
-      console.error("Error fetching popular movies:", err);
-    }
-  };
-
-  const fetchPopularTVShows = async (headers: Record<string, string>) => {
-    try {
-      const response = await axios.get("/api/popular/tv", { headers });
-      const tvShows = response.data.results.map((tvShow: PopularItem) => ({
-        ...tvShow,
-        media_type: "tv",
-      }));
-      setPopularTVShows(tvShows);
-    } catch (err) {
-      console.error("Error fetching popular TV shows:", err);
-    }
-  };
-
-  const fetchGenres = async (headers: Record<string, string>) => {
-    try {
-      const response = await axios.get<GenreResponse>("/api/genres", {
-        headers,
-      });
-      const { movieGenres, tvGenres } = response.data;
-
-      setMovieGenres(
-        movieGenres.reduce((map, genre) => {
-          map[genre.id] = genre.name;
-          return map;
-        }, {} as GenreMap),
-      );
-
-      setTVGenres(
-        tvGenres.reduce((map, genre) => {
-          map[genre.id] = genre.name;
-          return map;
-        }, {} as GenreMap),
-      );
-    } catch (err) {
-      console.error("Error fetching genres:", err);
-    }
-  };
-
   const handleFavoriteAction = (
-    action: "add" | "remove",
     item: PopularItem,
+    favoriteEntry: FavoriteItem | undefined,
   ) => {
+    const action = favoriteEntry ? "remove" : "add";
     if (
       !item.media_type ||
       (item.media_type !== "movie" && item.media_type !== "tv")
@@ -306,7 +265,7 @@ const PopularSection: React.FC<PopularSectionProps> = ({
       return;
     }
 
-    const favoriteItem: FavoriteItem = {
+    const favoriteItem: FavoriteItem = favoriteEntry || {
       id: item.id,
       tmdbId: item.id,
       mediaType: item.media_type,
@@ -330,14 +289,55 @@ const PopularSection: React.FC<PopularSectionProps> = ({
     );
   };
 
+  const handleWatchlistAction = (
+    item: PopularItem,
+    watchlistEntry: WatchlistItem | undefined,
+  ) => {
+    if (!setWatchlist) return;
+
+    if (item.media_type !== "movie" && item.media_type !== "tv") {
+      setModalMessage(
+        "Only movies and TV shows can be added to the watchlist.",
+      );
+      setModalType("error");
+      return;
+    }
+
+    handleWatchlist(
+      watchlistEntry ? "remove" : "add",
+      watchlistEntry || {
+        tmdbId: item.id.toString(),
+        mediaType: item.media_type,
+      },
+      setWatchlist,
+      (message) => {
+        setModalMessage(message);
+        setModalType(watchlistEntry ? "error" : "success");
+      },
+    );
+  };
+
   const renderCard = (item: PopularItem, genres: GenreMap) => {
-    const isFavorite = favorites.some((fav) => fav.tmdbId === item.id);
+    const favoriteEntry = favorites.find(
+      (fav) =>
+        String(fav.tmdbId) === item.id.toString() &&
+        fav.mediaType === item.media_type,
+    );
+    const isFavorite = !!favoriteEntry;
+    const watchlistEntry = watchlist.find(
+      (entry) =>
+        entry.tmdbId === item.id.toString() &&
+        entry.mediaType === item.media_type,
+    );
 
     return (
       <div
         key={item.id}
         className="relative flex-shrink-0 w-60 bg-base-100 shadow-lg rounded-lg transition-transform transform hover:scale-105 hover:shadow-2xl hover:border-primary border-transparent border-2"
       >
+        <UserRatingBadge
+          rating={ratingLookup.get(ratingKey(item.media_type, item.id))}
+        />
         <figure>
           <img
             src={
@@ -383,18 +383,28 @@ const PopularSection: React.FC<PopularSectionProps> = ({
             >
               <li>
                 <button
-                  onClick={() =>
-                    handleFavoriteAction(isFavorite ? "remove" : "add", item)
-                  }
+                  onClick={() => handleFavoriteAction(item, favoriteEntry)}
                   className="hover:bg-primary hover:text-white transition-all px-2 py-1 rounded-md"
                 >
                   {isFavorite ? "Remove from Favorites" : "Add to Favorites"}
                 </button>
               </li>
+              {setWatchlist && (
+                <li>
+                  <button
+                    onClick={() => handleWatchlistAction(item, watchlistEntry)}
+                    className="hover:bg-primary hover:text-white transition-all px-2 py-1 rounded-md"
+                  >
+                    {watchlistEntry
+                      ? "Remove from Watchlist"
+                      : "Add to Watchlist"}
+                  </button>
+                </li>
+              )}
               <li>
                 <button
                   className="hover:bg-primary hover:text-white transition-all px-2 py-1 rounded-md"
-                  onClick={() => setDetailsModalItem(item)}
+                  onClick={() => openDetails(item)}
                 >
                   Details
                 </button>
@@ -491,6 +501,12 @@ const PopularSection: React.FC<PopularSectionProps> = ({
                       .join(", ") || "N/A"}
                   </p>
                   <div className="modal-action">
+                    <Link
+                      to={`/title/${detailsModalItem.media_type}/${detailsModalItem.id}`}
+                      className="btn btn-ghost"
+                    >
+                      Full details
+                    </Link>
                     <button
                       className="btn btn-primary"
                       onClick={() => setDetailsModalItem(null)}
@@ -516,10 +532,13 @@ const PopularSection: React.FC<PopularSectionProps> = ({
                   </h3>
                   <Rating
                     tmdbId={ratingItem.id.toString()}
-                    initialRating={ratingItem.rating || 0} // Pass initial rating
-                    onRatingChange={(newRating) => {
-                      console.log("New rating:", newRating);
-                      if (ratingItem) ratingItem.rating = newRating; // Update local rating
+                    mediaType={ratingItem.media_type === "tv" ? "tv" : "movie"}
+                    initialRating={
+                      ratingLookup.get(
+                        ratingKey(ratingItem.media_type, ratingItem.id),
+                      ) || 0
+                    } // Pass the cached score until the lookup returns
+                    onRatingChange={() => {
                       setRatingItem(null); // Close after rating
                     }}
                   />
@@ -552,12 +571,18 @@ const PopularSection: React.FC<PopularSectionProps> = ({
               </button>
               <div
                 ref={moviesRef}
+                onScroll={handleRowScroll(movies.loadMore)}
                 className="flex overflow-x-scroll scrollbar-hide space-x-4"
               >
                 {popularMovies.map((item) => renderCard(item, movieGenres))}
+                {movies.isFetchingMore && (
+                  <div className="flex-shrink-0 w-60 flex items-center justify-center">
+                    <span className="loading loading-spinner loading-lg text-primary" />
+                  </div>
+                )}
               </div>
               <button
-                onClick={() => scroll(moviesRef, "right")}
+                onClick={() => scroll(moviesRef, "right", movies.loadMore)}
                 className="absolute right-2 top-1/2 transform -translate-y-1/2 z-10 bg-gray-800 bg-opacity-50 text-white rounded-full p-3 shadow-lg hover:bg-opacity-80 transition duration-300"
               >
                 <svg
@@ -602,12 +627,18 @@ const PopularSection: React.FC<PopularSectionProps> = ({
               </button>
               <div
                 ref={tvShowsRef}
+                onScroll={handleRowScroll(tvShows.loadMore)}
                 className="flex overflow-x-scroll scrollbar-hide space-x-4"
               >
                 {popularTVShows.map((item) => renderCard(item, tvGenres))}
+                {tvShows.isFetchingMore && (
+                  <div className="flex-shrink-0 w-60 flex items-center justify-center">
+                    <span className="loading loading-spinner loading-lg text-primary" />
+                  </div>
+                )}
               </div>
               <button
-                onClick={() => scroll(tvShowsRef, "right")}
+                onClick={() => scroll(tvShowsRef, "right", tvShows.loadMore)}
                 className="absolute right-2 top-1/2 transform -translate-y-1/2 z-10 bg-gray-800 bg-opacity-50 text-white rounded-full p-3 shadow-lg hover:bg-opacity-80 transition duration-300"
               >
                 <svg
@@ -0,0 +1,219 @@
+/**
+ * PreferencesEditor Component
+ *
+ * Edits the user's structured preferences (`/api/preferences`) on the profile page. The
+ * content-based recommendation engine reads them the next time recommendations are refreshed.
+ *
+ * ============================
+ * **Key Features**
+ * ============================
+ * 1. **Genre Chips**:
+ *    - Favorite and disliked genre chips come from the movie and TV genre lists cached by
+ *      `useGenreMaps` (`/api/genres`), merged so shared genres appear once.
+ *    - Selecting a genre in one group removes it from the other.
+ * 2. **Languages**:
+ *    - Language chips use the same options as the discover filters; none selected means any
+ *      language.
+ * 3. **Content Rating and Media Type**:
+ *    - A rating ceiling ("No limit", G through NC-17) and a movie/TV bias.
+ * 4. **Saving**:
+ *    - Edits stay in a local draft until "Save Preferences"; the saved document is written to
+ *      the query cache.
+ *
+ * Error Handling:
+ * - Load failures are shown inline; failed saves show an error toast and keep the draft.
+ */
+
+import { useEffect, useState } from "react";
+import { useGenreMaps, usePreferences } from "../hooks/useApiQueries";
+import api from "../services/apiClient";
+import { showToast } from "../services/toastService";
+import {
+  CONTENT_RATINGS,
+  DEFAULT_PREFERENCES,
+  LANGUAGE_OPTIONS,
+  MEDIA_TYPE_BIAS_OPTIONS,
+  mergeGenreOptions,
+  toggleGenrePreference,
+} from "../utils/preferences";
+import { ContentRating, UserPreferences } from "../types";
+
+const chipClass = (selected: boolean, selectedClass = "badge-primary") =>
+  `badge badge-lg cursor-pointer ${selected ? selectedClass : "badge-outline"}`;
+
+const PreferencesEditor = () => {
+  const {
+    data: preferences,
+    setData: setPreferences,
+    isLoading,
+    error,
+  } = usePreferences();
+  const { movieGenres, tvGenres } = useGenreMaps();
+  const [draft, setDraft] = useState<UserPreferences>(DEFAULT_PREFERENCES);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (preferences) setDraft(preferences);
+  }, [preferences]);
+
+  const genreOptions = mergeGenreOptions(movieGenres, tvGenres);
+
+  const toggleLanguage = (code: string) =>
+    setDraft((previous) => ({
+      ...previous,
+      languages: previous.languages.includes(code)
+        ? previous.languages.filter((language) => language !== code)
+        : [...previous.languages, code],
+    }));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      setPreferences(await api.preferences.update(draft));
+      showToast("Preferences saved.", "success");
+    } catch (saveError) {
+      console.error("Failed to save preferences:", saveError);
+      showToast(
+        (saveError as Error).message || "Failed to save preferences.",
+        "error",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return <span className="loading loading-spinner loading-md" />;
+  }
+
+  if (error) {
+    return <p className="text-sm text-error">Failed to load preferences.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h4 className="text-sm font-medium mb-2">Favorite genres</h4>
+        <div className="flex flex-wrap gap-2">
+          {genreOptions.map((genre) => (
+            <button
+              key={genre.id}
+              type="button"
+              aria-pressed={draft.favoriteGenres.includes(genre.id)}
+              className={chipClass(draft.favoriteGenres.includes(genre.id))}
+              onClick={() =>
+                setDraft((previous) =>
+                  toggleGenrePreference(previous, "favoriteGenres", genre.id),
+                )
+              }
+            >
+              {genre.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium mb-2">Genres to avoid</h4>
+        <div className="flex flex-wrap gap-2">
+          {genreOptions.map((genre) => (
+            <button
+              key={genre.id}
+              type="button"
+              aria-pressed={draft.dislikedGenres.includes(genre.id)}
+              className={chipClass(
+                draft.dislikedGenres.includes(genre.id),
+                "badge-error",
+              )}
+              onClick={() =>
+                setDraft((previous) =>
+                  toggleGenrePreference(previous, "dislikedGenres", genre.id),
+                )
+              }
+            >
+              {genre.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium mb-2">Languages</h4>
+        <div className="flex flex-wrap gap-2">
+          {LANGUAGE_OPTIONS.map((language) => (
+            <button
+              key={language.value}
+              type="button"
+              aria-pressed={draft.languages.includes(language.value)}
+              className={chipClass(draft.languages.includes(language.value))}
+              onClick={() => toggleLanguage(language.value)}
+            >
+              {language.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-400 mt-1">
+          Leave empty to include every language.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        <label className="form-control">
+          <span className="label-text text-gray-400">Maximum rating</span>
+          <select
+            className="select select-sm select-bordered bg-gray-900"
+            value={draft.maxContentRating ?? ""}
+            onChange={(event) =>
+              setDraft((previous) => ({
+                ...previous,
+                maxContentRating: (event.target.value as ContentRating) || null,
+              }))
+            }
+          >
+            <option value="">No limit</option>
+            {CONTENT_RATINGS.map((rating) => (
+              <option key={rating} value={rating}>
+                {rating}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="form-control">
+          <span className="label-text text-gray-400">Show me</span>
+          <div className="join">
+            {MEDIA_TYPE_BIAS_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                aria-pressed={draft.mediaTypeBias === option.value}
+                className={`btn btn-sm join-item ${
+                  draft.mediaTypeBias === option.value ? "btn-primary" : ""
+                }`}
+                onClick={() =>
+                  setDraft((previous) => ({
+                    ...previous,
+                    mediaTypeBias: option.value,
+                  }))
+                }
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={isSaving}
+        className="btn btn-primary w-full"
+      >
+        {isSaving ? "Saving..." : "Save Preferences"}
+      </button>
+    </div>
+  );
+};
+
+export default PreferencesEditor;
@@ -10,19 +10,23 @@
  * **Core Functionality**
  * =======================
  * 1. **Access Control**:
- *    - Checks the user's authentication status using the `authService`.
+ *    - Checks the user's authentication status using `useAuth`.
  *    - Allows access to child routes if the user is authenticated.
  *
  * 2. **Redirection**:
  *    - Redirects unauthenticated users to the `/login` page for authentication.
+ *    - Passes the requested path as `state.from`, so shared links (e.g. a title page) open
+ *      after signing in instead of the dashboard.
  *    - Prevents unauthorized access to protected content.
+ *    - `AuthProvider` re-renders on session changes, so a failed silent refresh, or a logout in
+ *      another tab, sends the user to `/login` without waiting for the next navigation.
  *
  * =======================
  * **Implementation Details**
  * =======================
  * - **Authentication Check**:
- *   - Calls the `authService.isAuthenticated()` method to validate the user's login status.
- *   - This method typically checks for a valid JWT token stored in cookies or local storage.
+ *   - Reads `isAuthenticated` from `useAuth`, which mirrors `authService.isAuthenticated()`.
+ *   - This checks for a valid JWT (or a refresh token able to renew it) in local storage.
  *
  * - **Routing Logic**:
  *   - Uses React Router's `<Navigate>` component for redirection.
@@ -31,7 +35,7 @@
  * =====================
  * **State Management**
  * =====================
- * - Relies on `authService` for authentication state.
+ * - Relies on `AuthProvider` for authentication state.
  * - The component itself does not manage local state, simplifying its design.
  *
  * =====================
@@ -41,8 +45,8 @@
  *   - `<Outlet>`: Renders nested child routes within the protected route.
  *   - `<Navigate>`: Redirects users to a specific route (e.g., `/login`).
  *
- * - **authService**:
- *   - A service module that provides methods for authentication, such as `isAuthenticated`.
+ * - **useAuth**:
+ *   - Exposes the session state kept by `AuthProvider`.
  *
  * ==========================
  * **Example Use Case**
@@ -75,7 +79,8 @@
  * **Edge Cases**
  * ===========================
  * - **Expired Token**:
- *   - If a user's session has expired, ensure they are redirected to `/login`.
+ *   - An expired JWT alone does not redirect: `authService` renews it with the refresh token.
+ *     Users are redirected to `/login` once the refresh token is rejected.
  * - **Unregistered User**:
  *   - Redirects users who attempt to access protected routes without registering.
  * - **Broken AuthService**:
@@ -92,17 +97,24 @@
  * **Future Enhancements**
  * ========================
  * - Implement a fallback component (e.g., a loading spinner) for pending authentication checks.
- * - Add role-based routing to restrict access by user roles (e.g., admin vs. standard user).
  */
 
-import { Navigate, Outlet } from "react-router-dom";
-import authService from "../services/authService";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { useAuth } from "../context/AuthContext";
 
 const ProtectedRoute = () => {
-  const isAuthenticated = authService.isAuthenticated();
+  const { isAuthenticated } = useAuth();
+  const location = useLocation();
 
   // Allow access to child routes if authenticated, otherwise redirect to login
-  return isAuthenticated ? <Outlet /> : <Navigate to="/login" />;
+  return isAuthenticated ? (
+    <Outlet />
+  ) : (
+    <Navigate
+      to="/login"
+      state={{ from: `${location.pathname}${location.search}` }}
+    />
+  );
 };
 
 export default ProtectedRoute;
@@ -9,20 +9,22 @@
  * **Core Functionality**
  * ===========================
  * 1. **Access Control**:
- *    - Determines the user's authentication status using `authService`.
+ *    - Determines the user's authentication status using `useAuth`.
  *    - If the user is authenticated, they are redirected to their dashboard.
  *
  * 2. **Dynamic Redirection**:
  *    - Redirects authenticated users to `/dashboard/:userId`, where `userId` is dynamically retrieved
  *      from the authenticated user's profile.
  *    - If no user profile is available, fallback handling may be necessary.
+ *    - When `ProtectedRoute` sent the user here with a `state.from` path (e.g. a shared title
+ *      link), they return to that path instead.
  *
  * ==========================
  * **Implementation Details**
  * ==========================
  * - **Authentication Check**:
- *   - Uses `authService.isAuthenticated()` to validate if the user is logged in.
- *   - Retrieves the user's profile using `authService.getProfile()` for dynamic routing.
+ *   - Uses `useAuth().isAuthenticated` to validate if the user is logged in.
+ *   - Uses `useAuth().user` for dynamic routing, so logging in redirects immediately.
  *
  * - **Routing Logic**:
  *   - Uses React Router's `<Navigate>` for redirection.
@@ -31,7 +33,7 @@
  * =====================
  * **State Management**
  * =====================
- * - Relies entirely on `authService` for authentication state and user profile data.
+ * - Relies entirely on `AuthProvider` for authentication state and user profile data.
  * - No internal state is managed within the component.
  *
  * ========================
@@ -41,9 +43,8 @@
  *   - `<Outlet>`: Renders nested child routes for unauthenticated users.
  *   - `<Navigate>`: Redirects authenticated users to their dashboard dynamically.
  *
- * - **authService**:
- *   - A service module providing methods such as `isAuthenticated()` and `getProfile()`
- *     for authentication validation and user data retrieval.
+ * - **useAuth**:
+ *   - Exposes `isAuthenticated` and `user` from `AuthProvider`, which tracks `authService`.
  *
  * ==========================
  * **Example Use Case**
@@ -65,7 +66,7 @@
  * **Error Handling**
  * ========================
  * - **Missing Profile**:
- *   - If `authService.getProfile()` returns `null`, ensure fallback behavior is implemented
+ *   - If `user` is `null`, ensure fallback behavior is implemented
  *     to redirect to a general dashboard or a default route.
  * - **Broken AuthService**:
  *   - Log errors if `authService` methods fail unexpectedly, ensuring smooth redirection.
@@ -96,20 +97,26 @@
  * ==========================
  * **Future Enhancements**
  * ==========================
- * - Implement role-based redirection (e.g., admin users vs. regular users).
  * - Add support for query parameters or session-based redirection for enhanced user experience.
  */
 
-import { Navigate, Outlet } from "react-router-dom";
-import authService from "../services/authService";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { useAuth } from "../context/AuthContext";
 
 const PublicRoute = () => {
-  const isAuthenticated = authService.isAuthenticated();
-  const userProfile = authService.getProfile();
+  const { isAuthenticated, user: userProfile } = useAuth();
+  const from = (useLocation().state as { from?: string } | null)?.from;
 
-  // Redirect authenticated users to their dashboard dynamically
+  // Redirect authenticated users back to the page they asked for, or to their dashboard
   return isAuthenticated ? (
-    <Navigate to={`/dashboard/${userProfile?.id}`} />
+    <Navigate
+      to={
+        from?.startsWith("/") && !from.startsWith("//")
+          ? from
+          : `/dashboard/${userProfile?.id}`
+      }
+      replace
+    />
   ) : (
     <Outlet />
   );
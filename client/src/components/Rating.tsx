@@ -23,8 +23,8 @@
  * **Implementation Details**
  * =============================
  * - **Initial Rating Fetch**:
- *   - Uses `useEffect` to fetch the user's existing rating for the given `tmdbId`.
- *   - Displays the fetched rating or defaults to 0 if no rating exists.
+ *   - Uses `useEffect` to fetch the user's existing rating for the given `mediaType` and `tmdbId`.
+ *   - Displays the fetched rating or defaults to 0 if no rating exists (the lookup returns 404).
  *
  * - **Rating Submission**:
  *   - Submits the selected rating to the backend via a POST request.
@@ -37,6 +37,7 @@
  * **Component Props**
  * ============================
  * - `tmdbId`: A unique identifier for the content being rated.
+ * - `mediaType`: `"movie"` or `"tv"`; TMDb reuses IDs across the two.
  * - `initialRating` (optional): The initial rating value to display (default is 0).
  * - `onRatingChange` (optional): A callback function triggered when the rating changes.
  *
@@ -64,10 +65,11 @@
  * ============================
  * **Key Dependencies**
  * ============================
- * - **authService**:
- *   - Handles user authentication and retrieves the authentication token.
- * - **API Integration**:
- *   - Fetches and submits ratings to the backend.
+ * - **useAuth**:
+ *   - Determines whether the user is logged in, and reloads the rating when that changes.
+ * - **apiClient**:
+ *   - `api.ratings.get()` loads the user's rating for this title (`/api/ratings/:mediaType/:tmdbId`).
+ *   - `api.ratings.rate()` submits the new rating and invalidates the cached "My Ratings" list.
  *
  * ============================
  * **Example Usage**
@@ -81,6 +83,7 @@
  *
  * <Rating
  *   tmdbId="12345"
+ *   mediaType="movie"
  *   initialRating={8}
  *   onRatingChange={handleRatingUpdate}
  * />
@@ -95,19 +98,25 @@
  */
 
 import React, { useState, useEffect } from "react";
-import authService from "../services/authService";
+import { useAuth } from "../context/AuthContext";
+import api, { ApiError } from "../services/apiClient";
+import { invalidateQueries } from "../services/queryCache";
+import { QUERY_KEYS } from "../hooks/useApiQueries";
 
 interface RatingProps {
   tmdbId: string;
+  mediaType: "movie" | "tv";
   initialRating?: number;
   onRatingChange?: (newRating: number) => void; // Callback to notify parent component
 }
 
 const Rating: React.FC<RatingProps> = ({
   tmdbId,
+  mediaType,
   initialRating = 0,
   onRatingChange,
 }) => {
+  const { isAuthenticated } = useAuth();
   const [rating, setRating] = useState<number>(initialRating); // Track the current rating
   const [hoverRating, setHoverRating] = useState<number | null>(null); // Track hover state
   const [error, setError] = useState<string | null>(null); // Handle errors
@@ -116,56 +125,42 @@ const Rating: React.FC<RatingProps> = ({
   useEffect(() => {
     const fetchRating = async () => {
       try {
-        const token = authService.getAuthToken();
-        if (!token) return;
+        if (!isAuthenticated) return;
 
-        const response = await fetch(`/api/ratings?tmdbId=${tmdbId}`, {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          setRating(data.rating || 0); // Set the fetched rating
-        }
+        const existing = await api.ratings.get(mediaType, tmdbId);
+        setRating(existing.rating); // Set the fetched rating
       } catch (error) {
+        if (error instanceof ApiError && error.status === 404) {
+          setRating(0); // Not rated yet
+          return;
+        }
         console.error("Error fetching rating:", error);
         setError("Failed to load rating. Please try again.");
       }
     };
 
     fetchRating();
-  }, [tmdbId]);
+  }, [mediaType, tmdbId, isAuthenticated]);
 
   // Handle rating submission
   const handleRatingClick = async (newRating: number) => {
     try {
-      const token = authService.getAuthToken();
-      if (!token) {
+      if (!isAuthenticated) {
         setError("You must be logged in to rate content.");
         return;
       }
 
-      const response = await fetch("/api/ratings", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({ tmdbId, rating: newRating }),
-      });
-
-      if (response.ok) {
-        setRating(newRating); // Update the current rating
-        if (onRatingChange) onRatingChange(newRating); // Notify parent component
-      } else {
-        const errorData = await response.json();
-        setError(errorData.error || "Failed to submit rating.");
-      }
+      await api.ratings.rate({ tmdbId, mediaType, rating: newRating });
+      invalidateQueries(QUERY_KEYS.ratings); // Refresh "My Ratings" and card badges
+      setRating(newRating); // Update the current rating
+      if (onRatingChange) onRatingChange(newRating); // Notify parent component
     } catch (err) {
       console.error("Error submitting rating:", err);
-      setError("An unexpected error occurred.");
+      setError(
+        err instanceof ApiError
+          ? err.message || "Failed to submit rating."
+          : "An unexpected error occurred.",
+      );
     }
   };
 
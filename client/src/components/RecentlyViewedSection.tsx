@@ -0,0 +1,132 @@
+/**
+ * RecentlyViewedSection Component
+ *
+ * A dashboard row with the titles the user looked at or watched most recently, newest first.
+ * Each card links back to the title page.
+ *
+ * Features:
+ * - **History Row**:
+ *   - Reads the newest history event per title from `/api/history?distinct=true`
+ *     (`useRecentlyViewed`).
+ *   - Shows whether the title was viewed or had episodes watched, and when.
+ * - **Scroll Navigation**:
+ *   - Left/right arrow buttons scroll the row like the other dashboard carousels.
+ *
+ * The row is hidden while the history is empty or could not be loaded. History can be cleared
+ * from the profile page.
+ *
+ * Props:
+ * - `enabled`: Whether to fetch the history (false until the user is known).
+ */
+
+import React, { useRef } from "react";
+import { Link } from "react-router-dom";
+import fallbackImage from "../assets/images/fallback-image.jpg";
+import { useRecentlyViewed } from "../hooks/useApiQueries";
+import { scrollRow } from "../utils/rowScroll";
+
+interface RecentlyViewedSectionProps {
+  enabled?: boolean;
+}
+
+const formatViewedAt = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+
+const RecentlyViewedSection: React.FC<RecentlyViewedSectionProps> = ({
+  enabled = true,
+}) => {
+  const rowRef = useRef<HTMLDivElement>(null);
+  const { data: history, error } = useRecentlyViewed({ enabled });
+
+  if (error || history.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="py-6">
+      <h3 className="text-2xl font-bold text-center mb-4 text-white">
+        Recently Viewed
+      </h3>
+      <div className="relative">
+        <button
+          onClick={() => scrollRow(rowRef.current, "left")}
+          className="absolute left-2 top-1/2 transform -translate-y-1/2 z-10 bg-gray-800 bg-opacity-50 text-white rounded-full p-3 shadow-lg hover:bg-opacity-80 transition duration-300"
+          aria-label="Scroll left"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-6 w-6"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+        </button>
+
+        <div
+          ref={rowRef}
+          className="flex overflow-x-scroll scrollbar-hide space-x-4"
+        >
+          {history.map((entry) => (
+            <Link
+              key={entry.id}
+              to={`/title/${entry.mediaType}/${entry.tmdbId}`}
+              className="flex-shrink-0 w-44 bg-base-100 shadow-lg rounded-lg transition-transform transform hover:scale-105 hover:shadow-2xl"
+            >
+              <img
+                src={
+                  entry.poster_path
+                    ? `https://image.tmdb.org/t/p/w342${entry.poster_path}`
+                    : fallbackImage
+                }
+                alt={entry.title || "Untitled"}
+                className="rounded-t-lg w-full h-60 object-cover"
+              />
+              <div className="p-3">
+                <p className="text-sm font-bold text-white truncate">
+                  {entry.title || "Untitled"}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {entry.action === "watched" ? "Watched" : "Viewed"}{" "}
+                  {formatViewedAt(entry.viewedAt)}
+                </p>
+              </div>
+            </Link>
+          ))}
+        </div>
+
+        <button
+          onClick={() => scrollRow(rowRef.current, "right")}
+          className="absolute right-2 top-1/2 transform -translate-y-1/2 z-10 bg-gray-800 bg-opacity-50 text-white rounded-full p-3 shadow-lg hover:bg-opacity-80 transition duration-300"
+          aria-label="Scroll right"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-6 w-6"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9 5l7 7-7 7"
+            />
+          </svg>
+        </button>
+      </div>
+    </section>
+  );
+};
+
+export default RecentlyViewedSection;
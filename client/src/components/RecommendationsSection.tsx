@@ -0,0 +1,243 @@
+/**
+ * RecommendationsSection Component
+ *
+ * Renders the "Recommended for You" row on the dashboard. Recommendations are stored by the
+ * backend in the `Recommendation` model and fetched through the GraphQL `getRecommendations`
+ * query for the logged-in user.
+ *
+ * Features:
+ * - **Personalized Feed**:
+ *   - Shows each recommendation's title, genres, stored `reason` and `context.score`.
+ *   - Collaborative suggestions show the user's rated titles behind them
+ *     ("Because you rated X") from `context.because`.
+ *   - Hides recommendations the user has already dismissed.
+ * - **Feedback Actions**:
+ *   - "Mark as Viewed" and "Dismiss" call the `updateRecommendationStatus` mutation and update
+ *     the local list on success.
+ * - **Refresh**:
+ *   - "Refresh" calls `refreshRecommendations`, which recomputes content-based suggestions from
+ *     the user's favorites, ratings and preferences.
+ * - **Error Handling**:
+ *   - Displays an inline message when recommendations cannot be loaded or updated.
+ *
+ * Dependencies:
+ * - `useAuth`: Supplies the logged-in user's ID.
+ * - `apiClient`: Runs the GraphQL queries and mutations with the JWT attached.
+ */
+
+import { useEffect, useState } from "react";
+import { useAuth } from "../context/AuthContext";
+import { graphql } from "../services/apiClient";
+import { Recommendation, RecommendationStatus } from "../types";
+
+const RECOMMENDATION_FIELDS = `
+  id
+  reason
+  status
+  context {
+    algorithm
+    score
+    because {
+      tmdbId
+      title
+      rating
+    }
+  }
+  content {
+    id
+    title
+    genre
+    rating
+    metadata {
+      externalId
+      description
+    }
+  }
+`;
+
+const GET_RECOMMENDATIONS = `
+  query GetRecommendations($userId: ID!) {
+    getRecommendations(userId: $userId) {
+      ${RECOMMENDATION_FIELDS}
+    }
+  }
+`;
+
+const REFRESH_RECOMMENDATIONS = `
+  mutation RefreshRecommendations {
+    refreshRecommendations {
+      ${RECOMMENDATION_FIELDS}
+    }
+  }
+`;
+
+const UPDATE_RECOMMENDATION_STATUS = `
+  mutation UpdateRecommendationStatus(
+    $id: ID!
+    $status: RecommendationStatus!
+  ) {
+    updateRecommendationStatus(id: $id, status: $status) {
+      id
+      status
+    }
+  }
+`;
+
+const RecommendationsSection = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+
+  useEffect(() => {
+    const fetchRecommendations = async () => {
+      try {
+        if (!userId) {
+          throw new Error("You must be logged in to view recommendations.");
+        }
+
+        const data = await graphql<{
+          getRecommendations: Recommendation[] | null;
+        }>(GET_RECOMMENDATIONS, { userId });
+
+        setRecommendations(data.getRecommendations || []);
+      } catch (err) {
+        console.error("Error fetching recommendations:", err);
+        setError((err as Error).message || "Failed to fetch recommendations.");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRecommendations();
+  }, [userId]);
+
+  const updateStatus = async (id: string, status: RecommendationStatus) => {
+    try {
+      const data = await graphql<{
+        updateRecommendationStatus: Pick<Recommendation, "id" | "status">;
+      }>(UPDATE_RECOMMENDATION_STATUS, { id, status });
+
+      const updated = data.updateRecommendationStatus;
+      setRecommendations((prev) =>
+        prev.map((rec) =>
+          rec.id === updated.id ? { ...rec, status: updated.status } : rec,
+        ),
+      );
+    } catch (err) {
+      console.error("Error updating recommendation:", err);
+      setError((err as Error).message || "Failed to update recommendation.");
+    }
+  };
+
+  const refreshRecommendations = async () => {
+    setRefreshing(true);
+    setError(null);
+    try {
+      const data = await graphql<{
+        refreshRecommendations: Recommendation[];
+      }>(REFRESH_RECOMMENDATIONS);
+
+      setRecommendations(data.refreshRecommendations);
+    } catch (err) {
+      console.error("Error refreshing recommendations:", err);
+      setError((err as Error).message || "Failed to refresh recommendations.");
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const visibleRecommendations = recommendations.filter(
+    (rec) => rec.status !== "dismissed" && rec.content,
+  );
+
+  return (
+    <section id="recommendations" className="py-16 bg-neutral text-gray-200">
+      <div className="container mx-auto px-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-2xl font-bold text-white">Recommended for You</h3>
+          <button
+            onClick={refreshRecommendations}
+            disabled={refreshing}
+            className="btn btn-sm btn-outline"
+          >
+            {refreshing ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+
+        {loading && (
+          <p className="text-lg text-gray-400">Loading recommendations...</p>
+        )}
+
+        {error && <p className="text-lg text-red-500 mb-4">{error}</p>}
+
+        {!loading && !error && visibleRecommendations.length === 0 && (
+          <p className="text-gray-400">
+            No recommendations yet. Add favorites and ratings to get
+            personalized picks.
+          </p>
+        )}
+
+        <div className="flex overflow-x-scroll scrollbar-hide space-x-4">
+          {visibleRecommendations.map((rec) => (
+            <div
+              key={rec.id}
+              className="flex-shrink-0 w-72 bg-base-100 shadow-lg rounded-lg p-4 border-2 border-transparent hover:border-primary transition-all"
+            >
+              <div className="flex justify-between items-start mb-2">
+                <h4 className="text-lg font-bold text-white truncate">
+                  {rec.content?.title}
+                </h4>
+                {rec.status === "viewed" && (
+                  <span className="badge badge-ghost text-xs">Viewed</span>
+                )}
+              </div>
+              <p className="text-gray-400 text-sm mb-2">
+                {rec.content?.genre.length
+                  ? `Genre: ${rec.content.genre.join(", ")}`
+                  : "Genre: N/A"}
+              </p>
+              <p className="text-gray-300 text-sm mb-2">
+                {rec.context?.because?.length
+                  ? `Because you rated ${rec.context.because
+                      .map((item) =>
+                        item.rating != null
+                          ? `${item.title} (${item.rating}/10)`
+                          : item.title,
+                      )
+                      .join(", ")}`
+                  : rec.reason}
+              </p>
+              <p className="text-gray-500 text-sm mb-4">
+                Score:{" "}
+                {rec.context?.score != null
+                  ? rec.context.score.toFixed(2)
+                  : "N/A"}
+              </p>
+              <div className="flex space-x-2">
+                {rec.status !== "viewed" && (
+                  <button
+                    onClick={() => updateStatus(rec.id, "viewed")}
+                    className="btn btn-sm btn-primary"
+                  >
+                    Mark as Viewed
+                  </button>
+                )}
+                <button
+                  onClick={() => updateStatus(rec.id, "dismissed")}
+                  className="btn btn-sm btn-outline"
+                >
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default RecommendationsSection;
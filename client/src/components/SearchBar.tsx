@@ -0,0 +1,148 @@
+/**
+ * SearchBar Component
+ *
+ * A typeahead search field for the dashboard navbar. As the user types, it shows the top
+ * TMDb multi-search matches (movies, TV shows and people) in a dropdown; pressing Enter or
+ * choosing "See all results" opens the full `SearchPage`.
+ *
+ * Features:
+ * - **Debounced Typeahead**:
+ *   - Waits for a 300 ms pause (`useDebouncedValue`) and at least 2 characters before searching.
+ *   - Results come from `useSearch`, so the results page reuses the cached first page.
+ * - **Keyboard Support**:
+ *   - Enter submits the query; Escape closes the dropdown.
+ * - **Navigation**:
+ *   - Selecting a suggestion opens the results page for that title's name.
+ *
+ * Props:
+ * - `userId`: The logged-in user's ID, used to build `/dashboard/:userId/search` URLs.
+ */
+
+import { FormEvent, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useDebouncedValue } from "../hooks/useDebouncedValue";
+import { useSearch } from "../hooks/useApiQueries";
+import { SearchResult } from "../types";
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_SUGGESTIONS = 6;
+
+const MEDIA_LABELS: Record<SearchResult["media_type"], string> = {
+  movie: "Movie",
+  tv: "TV",
+  person: "Person",
+};
+
+interface SearchBarProps {
+  userId: string;
+}
+
+const SearchBar: React.FC<SearchBarProps> = ({ userId }) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+
+  const debouncedQuery = useDebouncedValue(query.trim(), 300);
+  const typeaheadQuery =
+    debouncedQuery.length >= MIN_QUERY_LENGTH ? debouncedQuery : "";
+  const { data, isLoading } = useSearch(typeaheadQuery);
+  const suggestions = typeaheadQuery
+    ? (data?.results ?? []).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const openResults = (searchQuery: string) => {
+    const trimmed = searchQuery.trim();
+    if (!trimmed) return;
+    setIsOpen(false);
+    navigate(`/dashboard/${userId}/search?q=${encodeURIComponent(trimmed)}`);
+  };
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    openResults(query);
+  };
+
+  const imagePath = (item: SearchResult) =>
+    item.media_type === "person" ? item.profile_path : item.poster_path;
+
+  return (
+    <form
+      role="search"
+      onSubmit={handleSubmit}
+      className="relative w-full max-w-xs"
+    >
+      <input
+        type="search"
+        value={query}
+        onChange={(event) => {
+          setQuery(event.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={(event) => {
+          if (event.key === "Escape") setIsOpen(false);
+        }}
+        placeholder="Search movies, TV, people..."
+        aria-label="Search movies, TV shows and people"
+        className="input input-sm input-bordered w-full bg-gray-800 text-white"
+      />
+
+      {isOpen && typeaheadQuery && (
+        <ul className="absolute z-50 mt-2 w-full menu p-2 shadow bg-gray-900 text-white rounded-box">
+          {isLoading && (
+            <li className="px-2 py-1 text-gray-400">Searching...</li>
+          )}
+          {!isLoading && suggestions.length === 0 && (
+            <li className="px-2 py-1 text-gray-400">No matches found.</li>
+          )}
+          {suggestions.map((item) => (
+            <li key={`${item.media_type}-${item.id}`}>
+              {/* onMouseDown fires before the input's blur closes the dropdown */}
+              <button
+                type="button"
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  openResults(item.title || item.name || query);
+                }}
+                className="flex items-center gap-2 px-2 py-1"
+              >
+                {imagePath(item) ? (
+                  <img
+                    src={`https://image.tmdb.org/t/p/w92${imagePath(item)}`}
+                    alt=""
+                    className="w-8 h-12 object-cover rounded"
+                  />
+                ) : (
+                  <span className="w-8 h-12 bg-gray-700 rounded" />
+                )}
+                <span className="flex-1 truncate text-left">
+                  {item.title || item.name}
+                </span>
+                <span className="badge badge-sm badge-outline">
+                  {MEDIA_LABELS[item.media_type]}
+                </span>
+              </button>
+            </li>
+          ))}
+          {suggestions.length > 0 && (
+            <li>
+              <button
+                type="button"
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  openResults(query);
+                }}
+                className="text-primary px-2 py-1"
+              >
+                See all results
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </form>
+  );
+};
+
+export default SearchBar;
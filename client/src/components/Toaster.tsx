@@ -0,0 +1,55 @@
+/**
+ * Toaster Component
+ *
+ * Renders the toasts queued through `toastService` in the bottom-right corner of the screen,
+ * using daisyUI's `toast` and `alert` styles. It is mounted once in `App`, so any component or
+ * utility can call `showToast` without rendering its own notification markup.
+ *
+ * Behavior:
+ * - Re-renders whenever a toast is added or dismissed (`useSyncExternalStore`).
+ * - Each toast can be closed early with its close button; otherwise it expires on its own.
+ * - Uses `role="status"` (or `role="alert"` for errors) so screen readers announce messages.
+ */
+
+import { useSyncExternalStore } from "react";
+import {
+  dismissToast,
+  getToasts,
+  subscribeToasts,
+  ToastVariant,
+} from "../services/toastService";
+
+const VARIANT_CLASSES: Record<ToastVariant, string> = {
+  info: "alert-info",
+  success: "alert-success",
+  error: "alert-error",
+};
+
+const Toaster = () => {
+  const toasts = useSyncExternalStore(subscribeToasts, getToasts);
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="toast toast-end z-50">
+      {toasts.map((toast) => (
+        <div
+          key={toast.id}
+          role={toast.variant === "error" ? "alert" : "status"}
+          className={`alert ${VARIANT_CLASSES[toast.variant]} shadow-lg`}
+        >
+          <span>{toast.message}</span>
+          <button
+            className="btn btn-ghost btn-xs"
+            onClick={() => dismissToast(toast.id)}
+            aria-label="Dismiss notification"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default Toaster;
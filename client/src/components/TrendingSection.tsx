@@ -8,9 +8,12 @@
  * ============================
  * **Key Features**
  * ============================
- * 1. **Trending Movies and TV Shows**:
+ * 1. **Trending Movies, TV Shows and People**:
  *    - Fetches and displays the trending movies and TV shows separately.
  *    - Filters the content based on `media_type` (e.g., "movie", "tv").
+ *    - Shows trending people in a third row, read from the `type=person` feed. Person cards
+ *      open the person page (`/person/:personId`).
+ *    - A "Today" / "This Week" toggle switches every row between TMDb's day and week windows.
  *
  * 2. **Favorites Management**:
  *    - Allows users to add or remove items from their favorites.
@@ -26,6 +29,8 @@
  *
  * 5. **Interactive Features**:
  *    - Provides buttons to rate content, view details, and add/remove from favorites.
+ *    - Cards of titles the user has rated show their score in a corner badge (`useRatingLookup`).
+ *    - The details modal links to the full title page (`/title/:mediaType/:tmdbId`).
  *    - Implements a carousel-like scrolling experience for movies and TV shows.
  *
  * 6. **Responsive and User-Friendly UI**:
@@ -37,17 +42,21 @@
  * ============================
  * - `favorites`: Array of favorite items to manage user's favorites.
  * - `setFavorites`: Function to update the favorites state.
- * - `movieGenres`: Mapping of movie genres by ID.
- * - `tvGenres`: Mapping of TV genres by ID.
  *
  * ============================
  * **State Management**
  * ============================
- * - **`trendingMovies`**: Stores the fetched trending movies.
- * - **`trendingTVShows`**: Stores the fetched trending TV shows.
- * - **`movieGenres` & `tvGenres`**: Maps genre IDs to human-readable genre names.
+ * - **`trendingMovies`**: Trending movies from the paginated `"trending"` query.
+ * - **`trendingTVShows`**: Trending TV shows from the same pages.
+ * - **`people`**: Trending people from the `type=person` feed. The row is hidden if that feed
+ *   fails or is empty, without affecting the other rows.
+ * - **`timeWindow`**: `"day"` or `"week"`; each window is cached separately.
+ * - **Infinite scrolling**: Scrolling near the end of either row (arrow or swipe) loads the next
+ *   trending page until `total_pages` is reached; a spinner card marks the pending page.
+ * - **`movieGenres` & `tvGenres`**: Maps genre IDs to human-readable genre names (`useGenreMaps`,
+ *   shared with the rest of the dashboard).
  * - **`loading`**:
- *    - Tracks whether the component is actively fetching data.
+ *    - True until trending data is first available in the cache.
  *    - Displays a loading message or spinner while `true`.
  * - **`error`**:
  *    - Stores error messages when data fetching fails.
@@ -59,15 +68,15 @@
  * ============================
  * **Lifecycle and Side Effects**
  * ============================
- * - Fetches trending data and genres on component mount using `useEffect`.
- * - Cleans up any side effects when the component unmounts.
- * - Updates `loading` and `error` states dynamically to reflect fetch progress and issues.
+ * - Reads trending data and genres through `useTrendingPages` / `useGenreMaps`. Cached data renders
+ *   immediately and is revalidated in the background once stale.
+ * - Derives `loading` and `error` from the query state.
  *
  * ============================
  * **Functional Flow**
  * ============================
- * 1. Fetches trending movies, TV shows, and genre mappings from the backend.
- * 2. Updates state (`trendingMovies`, `trendingTVShows`, `movieGenres`, `tvGenres`) with fetched data.
+ * 1. Reads trending movies, TV shows, and genre mappings from the query cache.
+ * 2. Splits the trending results into `trendingMovies` and `trendingTVShows`.
  * 3. Manages user interactions (e.g., add to favorites, rate, view details).
  * 4. Dynamically displays content in carousels when data is available.
  * 5. Displays loading states while data is being fetched and error messages when fetching fails.
@@ -102,24 +111,33 @@
  * ============================
  * **Future Enhancements**
  * ============================
- * - Add pagination to fetch additional trending items.
  * - Implement advanced filtering (e.g., by genre, rating, release year).
  * - Integrate recommendations based on trending data.
  * - Add skeleton loading screens for a smoother user experience.
  */
 
-import { useEffect, useState, useRef } from "react";
-import axios from "axios";
+import { useState, useRef } from "react";
+import { Link } from "react-router-dom";
 import {
   TrendingItem,
-  TrendingResponse,
-  GenreResponse,
+  TrendingWindow,
   FavoriteItem,
+  WatchlistItem,
 } from "../types";
 import fallbackImage from "../assets/images/fallback-image.jpg";
-import authService from "../services/authService";
+import { useAuth } from "../context/AuthContext";
+import {
+  useGenreMaps,
+  useRatingLookup,
+  useTrendingPages,
+} from "../hooks/useApiQueries";
+import { isNearRowEnd, scrollRow } from "../utils/rowScroll";
 import { handleFavorites } from "../utils/favoritesHandler";
+import { handleWatchlist } from "../utils/watchlistHandler";
+import { recordView } from "../utils/viewHistory";
 import Rating from "../components/Rating";
+import UserRatingBadge from "../components/UserRatingBadge";
+import { ratingKey } from "../utils/ratings";
 
 interface GenreMap {
   [key: number]: string;
@@ -128,110 +146,76 @@ interface GenreMap {
 interface TrendingSectionProps {
   favorites: FavoriteItem[];
   setFavorites: React.Dispatch<React.SetStateAction<FavoriteItem[]>>;
-  movieGenres: GenreMap;
-  tvGenres: GenreMap;
+  watchlist?: WatchlistItem[];
+  setWatchlist?: React.Dispatch<React.SetStateAction<WatchlistItem[]>>;
 }
 
 const TrendingSection: React.FC<TrendingSectionProps> = ({
   favorites = [],
   setFavorites,
+  watchlist = [],
+  setWatchlist,
 }) => {
-  const [trendingMovies, setTrendingMovies] = useState<TrendingItem[]>([]);
-  const [trendingTVShows, setTrendingTVShows] = useState<TrendingItem[]>([]);
-  const [movieGenres, setMovieGenres] = useState<GenreMap>({});
-  const [tvGenres, setTVGenres] = useState<GenreMap>({});
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+  const { isAuthenticated } = useAuth();
+  const [timeWindow, setTimeWindow] = useState<TrendingWindow>("day");
+  const trending = useTrendingPages(timeWindow);
+  const people = useTrendingPages(timeWindow, "person"); // Optional row; errors hide it
+  const { isLoading, error: trendingError } = trending;
+  const { movieGenres, tvGenres, error: genresError } = useGenreMaps();
+  const loading = isLoading;
+  const error = trendingError
+    ? "Failed to fetch trending items."
+    : genresError
+      ? "Failed to fetch genres."
+      : null;
+
+  const trendingMovies = trending.items.filter(
+    (item) => item.media_type === "movie",
+  );
+  const trendingTVShows = trending.items.filter(
+    (item) => item.media_type === "tv",
+  );
   const [modalMessage, setModalMessage] = useState<string | null>(null);
   const [detailsModalItem, setDetailsModalItem] = useState<TrendingItem | null>(
     null,
   );
   const [ratingItem, setRatingItem] = useState<TrendingItem | null>(null);
+  const ratingLookup = useRatingLookup({
+    enabled: isAuthenticated,
+  });
+
+  // Opening the details modal counts as viewing the title
+  const openDetails = (item: TrendingItem) => {
+    setDetailsModalItem(item);
+    recordView(item.media_type, item);
+  };
 
   const moviesRef = useRef<HTMLDivElement>(null);
   const tvShowsRef = useRef<HTMLDivElement>(null);
+  const peopleRef = useRef<HTMLDivElement>(null);
 
+  // Scrolling right near the end of a row lazily loads its next page
   const scroll = (
     ref: React.RefObject<HTMLDivElement>,
     direction: "left" | "right",
-  ) => {
-    if (ref.current) {
-      ref.current.scrollBy({
-        left: direction === "left" ? -300 : 300,
-        behavior: "smooth",
-      });
-    }
-  };
+    loadMore?: () => void,
+  ) => scrollRow(ref.current, direction, loadMore);
 
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        const headers: Record<string, string> = {};
-        const authToken = authService.getAuthToken();
-        if (authToken) {
-          headers.Authorization = `Bearer ${authToken}`;
-        }
-
-        await Promise.all([fetchTrending(), fetchGenres()]);
-        setLoading(false);
-      } catch (err) {
-        setError("Failed to fetch trending items.");
-        console.error(err);
-      }
+  const handleRowScroll =
+    (loadMore: () => void) => (event: React.UIEvent<HTMLDivElement>) => {
+      if (isNearRowEnd(event.currentTarget)) loadMore();
     };
 
-    fetchData();
-  }, []);
-
-  const fetchTrending = async () => {
-    try {
-      const response = await axios.get<TrendingResponse>("/api/trending");
-      const movies = response.data.results.filter(
-        (item) => item.media_type === "movie",
-      );
-      const tvShows = response.data.results.filter(
-        (item) => item.media_type === "tv",
-      );
-      setTrendingMovies(movies);
-      setTrendingTVShows(tvShows);
-    } catch (err) {
-      console.error("Error fetching trending items:", err);
-      setError("Failed to fetch trending items.");
-    }
-  };
-
-  const fetchGenres = async () => {
-    try {
-      const response = await axios.get<GenreResponse>("/api/genres");
-      const { movieGenres, tvGenres } = response.data;
-      setMovieGenres(
-        movieGenres.reduce((map, genre) => {
-          map[genre.id] = genre.name;
-          return map;
-        }, {} as GenreMap),
-      );
-      setTVGenres(
-        tvGenres.reduce((map, genre) => {
-          map[genre.id] = genre.name;
-          return map;
-        }, {} as GenreMap),
-      );
-    } catch (err) {
-      console.error("Error fetching genres:", err);
-      setError("Failed to fetch genres.");
-    }
-  };
-
   const handleFavoriteAction = (
-    action: "add" | "remove",
     item: TrendingItem,
+    favoriteEntry: FavoriteItem | undefined,
   ) => {
     if (item.media_type === "person") {
       setModalMessage("Persons cannot be added to favorites!");
       return;
     }
 
-    const favoriteItem: FavoriteItem = {
+    const favoriteItem: FavoriteItem = favoriteEntry || {
       id: item.id,
       tmdbId: item.id,
       mediaType: item.media_type,
@@ -243,7 +227,7 @@ const TrendingSection: React.FC<TrendingSectionProps> = ({
     };
 
     handleFavorites(
-      action,
+      favoriteEntry ? "remove" : "add",
       favoriteItem,
       setFavorites,
       setModalMessage,
@@ -252,9 +236,39 @@ const TrendingSection: React.FC<TrendingSectionProps> = ({
     );
   };
 
+  const handleWatchlistAction = (
+    item: TrendingItem,
+    watchlistEntry: WatchlistItem | undefined,
+  ) => {
+    if (!setWatchlist) return;
+
+    if (item.media_type === "person") {
+      setModalMessage("Persons cannot be added to the watchlist!");
+      return;
+    }
+
+    handleWatchlist(
+      watchlistEntry ? "remove" : "add",
+      watchlistEntry || {
+        tmdbId: item.id.toString(),
+        mediaType: item.media_type,
+      },
+      setWatchlist,
+      setModalMessage,
+    );
+  };
+
   const renderCard = (item: TrendingItem, genres: GenreMap) => {
-    const isFavorite = favorites.some(
-      (fav) => fav.id === item.id && fav.mediaType === item.media_type,
+    const favoriteEntry = favorites.find(
+      (fav) =>
+        String(fav.tmdbId) === item.id.toString() &&
+        fav.mediaType === item.media_type,
+    );
+    const isFavorite = !!favoriteEntry;
+    const watchlistEntry = watchlist.find(
+      (entry) =>
+        entry.tmdbId === item.id.toString() &&
+        entry.mediaType === item.media_type,
     );
 
     return (
@@ -262,6 +276,9 @@ const TrendingSection: React.FC<TrendingSectionProps> = ({
         key={item.id}
         className="relative flex-shrink-0 w-60 bg-base-100 shadow-lg rounded-lg transition-transform transform hover:scale-105 hover:shadow-2xl hover:border-primary border-transparent border-2"
       >
+        <UserRatingBadge
+          rating={ratingLookup.get(ratingKey(item.media_type, item.id))}
+        />
         <figure>
           <img
             src={
@@ -283,7 +300,7 @@ const TrendingSection: React.FC<TrendingSectionProps> = ({
           </p>
         </div>
 
-        {authService.isAuthenticated() && (
+        {isAuthenticated && (
           <div className="absolute top-2 right-2">
             <div className="dropdown dropdown-end">
               <label
@@ -308,18 +325,30 @@ const TrendingSection: React.FC<TrendingSectionProps> = ({
               >
                 <li>
                   <button
-                    onClick={() =>
-                      handleFavoriteAction(isFavorite ? "remove" : "add", item)
-                    }
+                    onClick={() => handleFavoriteAction(item, favoriteEntry)}
                     className="hover:bg-primary hover:text-white transition-all px-2 py-1 rounded-md"
                   >
                     {isFavorite ? "Remove from Favorites" : "Add to Favorites"}
                   </button>
                 </li>
+                {setWatchlist && (
+                  <li>
+                    <button
+                      onClick={() =>
+                        handleWatchlistAction(item, watchlistEntry)
+                      }
+                      className="hover:bg-primary hover:text-white transition-all px-2 py-1 rounded-md"
+                    >
+                      {watchlistEntry
+                        ? "Remove from Watchlist"
+                        : "Add to Watchlist"}
+                    </button>
+                  </li>
+                )}
                 <li>
                   <button
                     className="hover:bg-primary hover:text-white transition-all px-2 py-1 rounded-md"
-                    onClick={() => setDetailsModalItem(item)}
+                    onClick={() => openDetails(item)}
                   >
                     Details
                   </button>
@@ -340,9 +369,118 @@ const TrendingSection: React.FC<TrendingSectionProps> = ({
     );
   };
 
+  // People have no genres or favorites; their cards link to the person page instead
+  const renderPersonCard = (item: TrendingItem) => (
+    <Link
+      key={item.id}
+      to={`/person/${item.id}`}
+      className="relative flex-shrink-0 w-60 bg-base-100 shadow-lg rounded-lg transition-transform transform hover:scale-105 hover:shadow-2xl hover:border-primary border-transparent border-2"
+    >
+      <figure>
+        <img
+          src={
+            item.profile_path
+              ? `https://image.tmdb.org/t/p/w500${item.profile_path}`
+              : fallbackImage
+          }
+          alt={item.name}
+          className="rounded-t-lg w-full h-72 object-cover"
+        />
+      </figure>
+      <div className="p-4">
+        <h3 className="text-lg font-bold text-white truncate">{item.name}</h3>
+        <p className="text-gray-400 text-sm">
+          {item.known_for_department || "Known for: N/A"}
+        </p>
+      </div>
+    </Link>
+  );
+
+  const renderRow = (
+    title: string,
+    ref: React.RefObject<HTMLDivElement>,
+    items: TrendingItem[],
+    renderItem: (item: TrendingItem) => React.ReactNode,
+    query: { loadMore: () => void; isFetchingMore: boolean },
+  ) => (
+    <>
+      <h3 className="text-2xl font-bold mb-4 text-white">{title}</h3>
+      <div className="relative mb-8">
+        <button
+          onClick={() => scroll(ref, "left")}
+          className="absolute left-2 top-1/2 transform -translate-y-1/2 z-10 bg-gray-800 bg-opacity-50 text-white rounded-full p-3 shadow-lg hover:bg-opacity-80 transition duration-300"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-6 w-6"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M15 19l-7-7 7-7"
+            />
+          </svg>
+        </button>
+
+        <div
+          ref={ref}
+          onScroll={handleRowScroll(query.loadMore)}
+          className="flex overflow-x-scroll scrollbar-hide space-x-4"
+        >
+          {items.map(renderItem)}
+          {query.isFetchingMore && (
+            <div className="flex-shrink-0 w-60 flex items-center justify-center">
+              <span className="loading loading-spinner loading-lg text-primary" />
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={() => scroll(ref, "right", query.loadMore)}
+          className="absolute right-2 top-1/2 transform -translate-y-1/2 z-10 bg-gray-800 bg-opacity-50 text-white rounded-full p-3 shadow-lg hover:bg-opacity-80 transition duration-300"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            className="h-6 w-6"
+            fill="none"
+            viewBox="0 0 24 24"
+            stroke="currentColor"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9 5l7 7-7 7"
+            />
+          </svg>
+        </button>
+      </div>
+    </>
+  );
+
   return (
     <section id="trending" className="py-16 bg-neutral text-gray-200">
       <div className="container mx-auto px-6">
+        <div className="flex justify-end mb-6">
+          <div className="join">
+            {(["day", "week"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setTimeWindow(option)}
+                className={`join-item btn btn-sm ${
+                  timeWindow === option ? "btn-primary" : "btn-ghost"
+                }`}
+              >
+                {option === "day" ? "Today" : "This Week"}
+              </button>
+            ))}
+          </div>
+        </div>
+
         {/* Display loading message */}
         {loading && (
           <div className="text-center my-8">
@@ -411,6 +549,12 @@ const TrendingSection: React.FC<TrendingSectionProps> = ({
                       .join(", ") || "N/A"}
                   </p>
                   <div className="modal-action">
+                    <Link
+                      to={`/title/${detailsModalItem.media_type}/${detailsModalItem.id}`}
+                      className="btn btn-ghost"
+                    >
+                      Full details
+                    </Link>
                     <button
                       className="btn btn-primary"
                       onClick={() => setDetailsModalItem(null)}
@@ -436,10 +580,13 @@ const TrendingSection: React.FC<TrendingSectionProps> = ({
                   </h3>
                   <Rating
                     tmdbId={ratingItem.id.toString()}
-                    initialRating={ratingItem.rating || 0} // Pass initial rating
-                    onRatingChange={(newRating) => {
-                      console.log("New rating:", newRating);
-                      if (ratingItem) ratingItem.rating = newRating; // Update local rating
+                    mediaType={ratingItem.media_type === "tv" ? "tv" : "movie"}
+                    initialRating={
+                      ratingLookup.get(
+                        ratingKey(ratingItem.media_type, ratingItem.id),
+                      ) || 0
+                    } // Pass the cached score until the lookup returns
+                    onRatingChange={() => {
                       setRatingItem(null); // Close after rating
                     }}
                   />
@@ -447,109 +594,29 @@ const TrendingSection: React.FC<TrendingSectionProps> = ({
               </div>
             )}
 
-            <h3 className="text-2xl font-bold mb-4 text-white">
-              Trending Movies
-            </h3>
-            <div className="relative mb-8">
-              <button
-                onClick={() => scroll(moviesRef, "left")}
-                className="absolute left-2 top-1/2 transform -translate-y-1/2 z-10 bg-gray-800 bg-opacity-50 text-white rounded-full p-3 shadow-lg hover:bg-opacity-80 transition duration-300"
-              >
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  className="h-6 w-6"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M15 19l-7-7 7-7"
-                  />
-                </svg>
-              </button>
-
-              <div
-                ref={moviesRef}
-                className="flex overflow-x-scroll scrollbar-hide space-x-4"
-              >
-                {trendingMovies.map((item) => renderCard(item, movieGenres))}
-              </div>
-
-              <button
-                onClick={() => scroll(moviesRef, "right")}
-                className="absolute right-2 top-1/2 transform -translate-y-1/2 z-10 bg-gray-800 bg-opacity-50 text-white rounded-full p-3 shadow-lg hover:bg-opacity-80 transition duration-300"
-              >
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  className="h-6 w-6"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M9 5l7 7-7 7"
-                  />
-                </svg>
-              </button>
-            </div>
-
-            <h3 className="text-2xl font-bold mb-4 text-white">
-              Trending TV Shows
-            </h3>
-            <div className="relative">
-              <button
-                onClick={() => scroll(tvShowsRef, "left")}
-                className="absolute left-2 top-1/2 transform -translate-y-1/2 z-10 bg-gray-800 bg-opacity-50 text-white rounded-full p-3 shadow-lg hover:bg-opacity-80 transition duration-300"
-              >
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  className="h-6 w-6"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M15 19l-7-7 7-7"
-                  />
-                </svg>
-              </button>
-
-              <div
-                ref={tvShowsRef}
-                className="flex overflow-x-scroll scrollbar-hide space-x-4"
-              >
-                {trendingTVShows.map((item) => renderCard(item, tvGenres))}
-              </div>
-
-              <button
-                onClick={() => scroll(tvShowsRef, "right")}
-                className="absolute right-2 top-1/2 transform -translate-y-1/2 z-10 bg-gray-800 bg-opacity-50 text-white rounded-full p-3 shadow-lg hover:bg-opacity-80 transition duration-300"
-              >
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  className="h-6 w-6"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  stroke="currentColor"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M9 5l7 7-7 7"
-                  />
-                </svg>
-              </button>
-            </div>
+            {renderRow(
+              "Trending Movies",
+              moviesRef,
+              trendingMovies,
+              (item) => renderCard(item, movieGenres),
+              trending,
+            )}
+            {renderRow(
+              "Trending TV Shows",
+              tvShowsRef,
+              trendingTVShows,
+              (item) => renderCard(item, tvGenres),
+              trending,
+            )}
+            {!people.error &&
+              people.items.length > 0 &&
+              renderRow(
+                "Trending People",
+                peopleRef,
+                people.items,
+                renderPersonCard,
+                people,
+              )}
           </>
         )}
       </div>
@@ -0,0 +1,25 @@
+/**
+ * UserRatingBadge Component
+ *
+ * A small star badge with the user's own score, pinned to the top-left corner of a poster card
+ * (the card must be `relative`). Renders nothing for titles the user hasn't rated.
+ *
+ * Props:
+ * - `rating`: The user's score (from `useRatingLookup`), or `undefined` when unrated.
+ */
+
+interface UserRatingBadgeProps {
+  rating?: number;
+}
+
+const UserRatingBadge = ({ rating }: UserRatingBadgeProps) =>
+  rating === undefined ? null : (
+    <span
+      className="absolute top-2 left-2 badge badge-warning font-bold shadow"
+      title="Your rating"
+    >
+      ★ {rating}
+    </span>
+  );
+
+export default UserRatingBadge;
@@ -0,0 +1,121 @@
+/**
+ * AuthContext
+ *
+ * React bindings for `authService`. `AuthProvider` holds the current session in state and
+ * re-renders its subtree whenever the session changes, so components no longer need to poll
+ * `authService.getProfile()` / `authService.isAuthenticated()` themselves.
+ *
+ * Features:
+ * - **Reactive Session State**:
+ *   - `user`: The decoded JWT payload (`id`, `email`, `name`, `role`) or `null`.
+ *   - `status`: `"authenticated"` or `"unauthenticated"`.
+ *   - Updates on login, register, silent refresh and logout through `authService.subscribe`.
+ * - **Cross-Tab Sync**:
+ *   - `authService` forwards `storage` events for the token keys, so logging in or out in one tab
+ *     updates every open tab.
+ * - **Per-User Cache**:
+ *   - Cached API data (`queryCache`) is cleared when the logged-in user changes or logs out, so
+ *     one account never sees another's favorites or watchlist.
+ * - **Actions**:
+ *   - `login`, `register`, `logout`, `updateProfile`, `deleteProfile` and `changePassword`
+ *     delegate to `authService`; state follows from the resulting session change.
+ *
+ * Usage:
+ * ```tsx
+ * <AuthProvider>
+ *   <App />
+ * </AuthProvider>
+ *
+ * const { user, status, logout } = useAuth();
+ * ```
+ *
+ * Error Handling:
+ * - `useAuth` throws when called outside an `AuthProvider`.
+ * - Action errors are re-thrown from `authService` for the calling component to display.
+ */
+
+import {
+  createContext,
+  ReactNode,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { JwtPayload } from "jwt-decode";
+import authService from "../services/authService";
+import { clearQueries } from "../services/queryCache";
+import { AuthStatus } from "../types";
+
+interface AuthContextValue {
+  user: JwtPayload | null;
+  status: AuthStatus;
+  isAuthenticated: boolean;
+  login: typeof authService.login;
+  register: typeof authService.register;
+  logout: () => void;
+  updateProfile: typeof authService.updateProfile;
+  deleteProfile: typeof authService.deleteProfile;
+  changePassword: typeof authService.changePassword;
+}
+
+interface AuthSession {
+  user: JwtPayload | null;
+  status: AuthStatus;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+const readSession = (): AuthSession => {
+  const isAuthenticated = authService.isAuthenticated();
+  return {
+    user: isAuthenticated ? authService.getProfile() : null,
+    status: isAuthenticated ? "authenticated" : "unauthenticated",
+  };
+};
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<AuthSession>(readSession);
+
+  // Re-read the session whenever authService reports a change (this tab or another)
+  useEffect(() => {
+    setSession(readSession());
+    return authService.subscribe(() => setSession(readSession()));
+  }, []);
+
+  // Drop the previous user's cached data on logout or account switch
+  const userId = session.user?.id;
+  const previousUserId = useRef(userId);
+  useEffect(() => {
+    if (previousUserId.current && previousUserId.current !== userId) {
+      clearQueries();
+    }
+    previousUserId.current = userId;
+  }, [userId]);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      ...session,
+      isAuthenticated: session.status === "authenticated",
+      login: (email, password) => authService.login(email, password),
+      register: (userData) => authService.register(userData),
+      logout: () => authService.logout(),
+      updateProfile: (updatedData) => authService.updateProfile(updatedData),
+      deleteProfile: (userId) => authService.deleteProfile(userId),
+      changePassword: (currentPassword, newPassword) =>
+        authService.changePassword(currentPassword, newPassword),
+    }),
+    [session],
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = (): AuthContextValue => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider.");
+  }
+  return context;
+};
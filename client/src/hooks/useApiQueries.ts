@@ -0,0 +1,304 @@
+/**
+ * API Query Hooks
+ *
+ * Named `useQuery` wrappers for the endpoints the dashboard reads. Each one fixes the cache key
+ * and freshness window, so every component asking for the same data shares one request:
+ *
+ * | Hook                | Key                                    | Stale after |
+ * |---------------------|----------------------------------------|-------------|
+ * | `useGenreMaps`      | `genres`                               | 24 hours    |
+ * | `usePopular`        | `popular:<type>`                       | 10 minutes  |
+ * | `usePopularPages`   | `popular:<type>[:<page>]`              | 10 minutes  |
+ * | `useTrendingPages`  | `trending[:<type>:<window>][:<page>]`  | 10 minutes  |
+ * | `useTitle`          | `title:<type>:<id>`                    | 10 minutes  |
+ * | `usePerson`         | `person:<id>`                          | 10 minutes  |
+ * | `useSeason`         | `tv:<id>:season:<season>`              | 10 minutes  |
+ * | `useSearch`         | `search:<q>:<page>`                    | 10 minutes  |
+ * | `useDiscover`       | `discover:<type>:<query>`              | 10 minutes  |
+ * | `useFavorites`      | `favorites`                            | 1 minute    |
+ * | `useWatchlist`      | `watchlist`                            | 1 minute    |
+ * | `useFollows`        | `follows`                              | 1 minute    |
+ * | `useShowProgress`   | `progress:<id>`                        | 1 minute    |
+ * | `useRecentlyViewed` | `history:recent`                       | 1 minute    |
+ * | `usePreferences`    | `preferences`                          | 1 minute    |
+ * | `useRatings`        | `ratings`                              | 1 minute    |
+ * | `useRatingLookup`   | `ratings`                              | 1 minute    |
+ *
+ * The admin console hooks (`useAdminUsers`, `useAdminContent`, `useAdminRecommendations`) key
+ * each page under `admin:users:...`, `admin:content:...` and `admin:recommendations:...` and go
+ * stale after 1 minute. After a write, invalidate the list's prefix (`QUERY_KEYS.adminUsers`,
+ * ...) so every cached page refetches.
+ *
+ * `useFavorites` and `useWatchlist` return a `useState`-style setter that writes to the cache,
+ * so optimistic updates from `handleFavorites` / `handleWatchlist` show up in every section.
+ */
+
+import { useMemo } from "react";
+import api from "../services/apiClient";
+import adminApi from "../services/adminApi";
+import { toRatingLookup } from "../utils/ratings";
+import {
+  DiscoverFilters,
+  FavoriteItem,
+  FollowedPerson,
+  GenreMap,
+  HistoryEntry,
+  RatedTitle,
+  RecommendationStatus,
+  TitleDetails,
+  TrendingType,
+  TrendingWindow,
+  WatchlistItem,
+} from "../types";
+import { toDiscoverQuery } from "../utils/discoverFilters";
+import { useQuery } from "./useQuery";
+import { useInfiniteQuery } from "./useInfiniteQuery";
+
+export const QUERY_KEYS = {
+  genres: "genres",
+  popular: (mediaType: "movie" | "tv") => `popular:${mediaType}`,
+  // Mirrors the server's cache keys: the default feed stays `trending`
+  trending: (type: TrendingType, window: TrendingWindow) =>
+    type === "all" && window === "day"
+      ? "trending"
+      : `trending:${type}:${window}`,
+  discover: (filters: DiscoverFilters) =>
+    `discover:${filters.mediaType}:${toDiscoverQuery(filters)}`,
+  title: (mediaType: TitleDetails["mediaType"], tmdbId: number | string) =>
+    `title:${mediaType}:${tmdbId}`,
+  person: (personId: number | string) => `person:${personId}`,
+  season: (tmdbId: number | string, seasonNumber: number) =>
+    `tv:${tmdbId}:season:${seasonNumber}`,
+  search: (query: string, page: number) =>
+    `search:${query.trim().toLowerCase()}:${page}`,
+  favorites: "favorites",
+  watchlist: "watchlist",
+  follows: "follows",
+  progress: (tmdbId: number | string) => `progress:${tmdbId}`,
+  history: "history",
+  recentlyViewed: "history:recent",
+  preferences: "preferences",
+  ratings: "ratings",
+  // Prefixes of the admin console lists
+  adminUsers: "admin:users",
+  adminContent: "admin:content",
+  adminRecommendations: "admin:recommendations",
+};
+
+const GENRES_STALE_TIME = 24 * 60 * 60 * 1000;
+const LISTS_STALE_TIME = 10 * 60 * 1000;
+
+const EMPTY_FAVORITES: FavoriteItem[] = [];
+const EMPTY_WATCHLIST: WatchlistItem[] = [];
+const EMPTY_RATINGS: RatedTitle[] = [];
+const EMPTY_FOLLOWS: FollowedPerson[] = [];
+const EMPTY_HISTORY: HistoryEntry[] = [];
+const RECENTLY_VIEWED_LIMIT = 20;
+
+const toGenreMap = (genres: { id: number; name: string }[] = []) =>
+  genres.reduce((map, genre) => {
+    map[genre.id] = genre.name;
+    return map;
+  }, {} as GenreMap);
+
+/**
+ * Movie and TV genre ID -> name maps from `/api/genres`.
+ */
+export const useGenreMaps = () => {
+  const { data, error } = useQuery(QUERY_KEYS.genres, api.genres.list, {
+    staleTime: GENRES_STALE_TIME,
+  });
+
+  return useMemo(
+    () => ({
+      movieGenres: toGenreMap(data?.movieGenres),
+      tvGenres: toGenreMap(data?.tvGenres),
+      error,
+    }),
+    [data, error],
+  );
+};
+
+export const usePopular = (mediaType: "movie" | "tv") =>
+  useQuery(
+    QUERY_KEYS.popular(mediaType),
+    mediaType === "movie" ? api.popular.movies : api.popular.tv,
+    { staleTime: LISTS_STALE_TIME },
+  );
+
+/**
+ * Popular titles loaded page by page for infinite scrolling; page 1 is shared with `usePopular`.
+ */
+export const usePopularPages = (mediaType: "movie" | "tv") =>
+  useInfiniteQuery(
+    QUERY_KEYS.popular(mediaType),
+    mediaType === "movie" ? api.popular.movies : api.popular.tv,
+    { staleTime: LISTS_STALE_TIME },
+  );
+
+/**
+ * Trending titles (or people) for a time window, loaded page by page for infinite scrolling.
+ */
+export const useTrendingPages = (
+  window: TrendingWindow = "day",
+  type: TrendingType = "all",
+) =>
+  useInfiniteQuery(
+    QUERY_KEYS.trending(type, window),
+    (page) => api.trending.list(page, window, type),
+    { staleTime: LISTS_STALE_TIME },
+  );
+
+/**
+ * TMDb discover results for the given filters; disabled while `enabled` is false.
+ */
+export const useDiscover = (
+  filters: DiscoverFilters,
+  { enabled = true } = {},
+) =>
+  useQuery(
+    QUERY_KEYS.discover(filters),
+    () => api.discover(filters.mediaType, toDiscoverQuery(filters)),
+    { staleTime: LISTS_STALE_TIME, enabled },
+  );
+
+/**
+ * Full metadata for one movie or TV show (cast, crew, videos, similar titles, providers).
+ */
+export const useTitle = (
+  mediaType: TitleDetails["mediaType"],
+  tmdbId: number | string,
+) =>
+  useQuery(
+    QUERY_KEYS.title(mediaType, tmdbId),
+    () => api.title(mediaType, tmdbId),
+    { staleTime: LISTS_STALE_TIME },
+  );
+
+/**
+ * A person's profile with their movie and TV credits.
+ */
+export const usePerson = (personId: number | string) =>
+  useQuery(QUERY_KEYS.person(personId), () => api.person(personId), {
+    staleTime: LISTS_STALE_TIME,
+  });
+
+/**
+ * The episodes of one TV season.
+ */
+export const useSeason = (
+  tmdbId: number | string,
+  seasonNumber: number,
+  { enabled = true } = {},
+) =>
+  useQuery(
+    QUERY_KEYS.season(tmdbId, seasonNumber),
+    () => api.tv.season(tmdbId, seasonNumber),
+    { staleTime: LISTS_STALE_TIME, enabled },
+  );
+
+/**
+ * TMDb multi-search results; disabled until `query` has non-whitespace text.
+ */
+export const useSearch = (query: string, page = 1) =>
+  useQuery(
+    QUERY_KEYS.search(query, page),
+    () => api.search.multi(query.trim(), page),
+    { staleTime: LISTS_STALE_TIME, enabled: query.trim().length > 0 },
+  );
+
+export const useFavorites = ({ enabled = true } = {}) =>
+  useQuery(QUERY_KEYS.favorites, api.favorites.list, {
+    enabled,
+    initialData: EMPTY_FAVORITES,
+  });
+
+export const useWatchlist = ({ enabled = true } = {}) =>
+  useQuery(QUERY_KEYS.watchlist, api.watchlist.list, {
+    enabled,
+    initialData: EMPTY_WATCHLIST,
+  });
+
+export const useFollows = ({ enabled = true } = {}) =>
+  useQuery(QUERY_KEYS.follows, api.follows.list, {
+    enabled,
+    initialData: EMPTY_FOLLOWS,
+  });
+
+/**
+ * The user's watched episodes of a TV show; `setData` takes the progress returned by updates.
+ */
+export const useShowProgress = (
+  tmdbId: number | string,
+  { enabled = true } = {},
+) =>
+  useQuery(QUERY_KEYS.progress(tmdbId), () => api.progress.get(tmdbId), {
+    enabled,
+  });
+
+/**
+ * The newest history event per title, for the dashboard's "Recently Viewed" row.
+ */
+export const useRecentlyViewed = ({ enabled = true } = {}) =>
+  useQuery(
+    QUERY_KEYS.recentlyViewed,
+    () => api.history.list(RECENTLY_VIEWED_LIMIT, true),
+    { enabled, initialData: EMPTY_HISTORY },
+  );
+
+/**
+ * The user's structured preferences; `setData` takes the document returned by updates.
+ */
+export const usePreferences = ({ enabled = true } = {}) =>
+  useQuery(QUERY_KEYS.preferences, api.preferences.get, { enabled });
+
+/**
+ * The user's ratings with title metadata, newest first.
+ */
+export const useRatings = ({ enabled = true } = {}) =>
+  useQuery(QUERY_KEYS.ratings, api.ratings.list, {
+    enabled,
+    initialData: EMPTY_RATINGS,
+  });
+
+/**
+ * The user's score per title, keyed by `ratingKey(mediaType, tmdbId)`; shares the `ratings` query.
+ */
+export const useRatingLookup = ({ enabled = true } = {}) => {
+  const { data } = useRatings({ enabled });
+  return useMemo(() => toRatingLookup(data), [data]);
+};
+
+/**
+ * One page of users for the admin console, filtered by a name or email search.
+ */
+export const useAdminUsers = (search: string, page: number) =>
+  useQuery(
+    `${QUERY_KEYS.adminUsers}:${search.trim().toLowerCase()}:${page}`,
+    () => adminApi.users.list(search.trim(), page),
+  );
+
+/**
+ * One page of catalog content for the admin console; soft-deleted items only on request.
+ */
+export const useAdminContent = (
+  search: string,
+  includeDeleted: boolean,
+  page: number,
+) =>
+  useQuery(
+    `${QUERY_KEYS.adminContent}:${includeDeleted ? "all" : "active"}:${search.trim().toLowerCase()}:${page}`,
+    () => adminApi.content.list(search.trim(), includeDeleted, page),
+  );
+
+/**
+ * One page of recommendations for the admin console, optionally for one user or status.
+ */
+export const useAdminRecommendations = (
+  filters: { userId?: string; status?: RecommendationStatus },
+  page: number,
+) =>
+  useQuery(
+    `${QUERY_KEYS.adminRecommendations}:${filters.userId ?? "all"}:${filters.status ?? "any"}:${page}`,
+    () => adminApi.recommendations.list(filters, page),
+  );
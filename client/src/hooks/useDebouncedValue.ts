@@ -0,0 +1,24 @@
+/**
+ * useDebouncedValue Hook
+ *
+ * Returns `value` once it has stopped changing for `delay` ms. Used by the search bar so a
+ * request is only sent when the user pauses typing, not on every keystroke.
+ *
+ * Usage:
+ * ```tsx
+ * const debouncedQuery = useDebouncedValue(query, 300);
+ * ```
+ */
+
+import { useEffect, useState } from "react";
+
+export const useDebouncedValue = <T>(value: T, delay: number): T => {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debouncedValue;
+};
@@ -0,0 +1,127 @@
+/**
+ * useInfiniteQuery Hook
+ *
+ * Loads a paginated TMDb-style list (`{ page, results, total_pages }`) one page at a time
+ * through the shared `queryCache`. Page 1 is cached under `key` itself, so it is shared with
+ * plain `useQuery(key, ...)` readers (e.g. `HeroSection`); later pages use `key:<page>`.
+ *
+ * Behavior:
+ * - Starts with one page; `loadMore()` requests the next one unless a page is still loading
+ *   or the last page (`total_pages`, capped at TMDb's 500) has been reached.
+ * - `items` concatenates every loaded page's `results`, dropping duplicate IDs (TMDb lists can
+ *   shift between requests, repeating an item on two pages).
+ * - The number of loaded pages resets when `key` changes.
+ * - `error` reflects page 1 only. If a later page fails, `isLoadMoreError` is set and the next
+ *   `loadMore()` retries that page.
+ *
+ * Usage:
+ * ```tsx
+ * const { items, loadMore, hasMore, isFetchingMore } = useInfiniteQuery(
+ *   "popular:movie",
+ *   (page) => api.popular.movies(page),
+ * );
+ * ```
+ */
+
+import { useCallback, useEffect, useReducer, useRef, useState } from "react";
+import {
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  getQueryState,
+  subscribeQuery,
+} from "../services/queryCache";
+
+const MAX_PAGE = 500; // TMDb serves at most 500 pages
+
+interface PagedResponse<TItem> {
+  page: number;
+  results: TItem[];
+  total_pages: number;
+}
+
+export const pageKey = (key: string, page: number) =>
+  page === 1 ? key : `${key}:${page}`;
+
+export const useInfiniteQuery = <TItem extends { id: number }>(
+  key: string,
+  fetchPage: (page: number) => Promise<PagedResponse<TItem>>,
+  { staleTime = DEFAULT_STALE_TIME } = {},
+) => {
+  const [pageCount, setPageCount] = useState({ key, count: 1 });
+  const [, forceRender] = useReducer((version: number) => version + 1, 0);
+  const count = pageCount.key === key ? pageCount.count : 1;
+
+  // Keep the latest fetcher without re-running effects when callers pass inline functions
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+
+  const pageKeys = Array.from({ length: count }, (_, index) =>
+    pageKey(key, index + 1),
+  );
+  const pageKeysId = pageKeys.join("|");
+
+  // Re-render when any loaded page changes, then fetch pages that are missing or stale
+  useEffect(() => {
+    const keys = pageKeysId.split("|");
+    const unsubscribes = keys.map((pageKeyValue) =>
+      subscribeQuery(pageKeyValue, forceRender),
+    );
+
+    keys.forEach((pageKeyValue, index) => {
+      fetchQuery(pageKeyValue, () => fetchPageRef.current(index + 1), {
+        staleTime,
+      }).catch((error) => {
+        console.error(`Error fetching "${pageKeyValue}":`, error);
+      });
+    });
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [pageKeysId, staleTime]);
+
+  const states = pageKeys.map((pageKeyValue) =>
+    getQueryState<PagedResponse<TItem>>(pageKeyValue),
+  );
+  const loadedPages = states
+    .map((state) => state.data)
+    .filter((data): data is PagedResponse<TItem> => !!data);
+
+  const seen = new Set<number>();
+  const items = loadedPages
+    .flatMap((data) => data.results)
+    .filter((item) => {
+      if (seen.has(item.id)) return false;
+      seen.add(item.id);
+      return true;
+    });
+
+  const totalPages = Math.min(loadedPages[0]?.total_pages ?? 1, MAX_PAGE);
+  const lastState = states[states.length - 1];
+  const lastFailed = !!lastState.error && lastState.data === undefined;
+  const isFetchingMore =
+    count > 1 && lastState.data === undefined && !lastFailed;
+  const hasMore = count < totalPages;
+
+  const loadMore = useCallback(() => {
+    // Retry a page that failed instead of skipping past it
+    if (lastFailed) {
+      fetchQuery(pageKey(key, count), () => fetchPageRef.current(count), {
+        force: true,
+      }).catch(() => {});
+      return;
+    }
+    if (!hasMore || isFetchingMore) return;
+    setPageCount({ key, count: count + 1 });
+  }, [count, hasMore, isFetchingMore, key, lastFailed]);
+
+  return {
+    items,
+    error: states[0].error, // Later pages fail quietly; see isLoadMoreError
+    isLoadMoreError: count > 1 && lastFailed,
+    isLoading: states[0].data === undefined && !states[0].error,
+    isFetchingMore,
+    hasMore,
+    totalPages,
+    pagesLoaded: loadedPages.length,
+    loadMore,
+  };
+};
@@ -0,0 +1,114 @@
+/**
+ * useQuery Hook
+ *
+ * Reads a keyed request through the shared `queryCache`, so components that ask for the same
+ * key (e.g. `"genres"` in Dashboard, TrendingSection and PopularSection) share one request and
+ * re-render together when the data changes.
+ *
+ * Behavior:
+ * - Returns cached data immediately and revalidates it in the background once it is older than
+ *   `staleTime` (stale-while-revalidate).
+ * - `initialData` is returned while nothing is cached yet; it is not written to the cache.
+ * - `setData` accepts a value or an updater, like a `useState` setter, and writes through to the
+ *   cache so optimistic updates reach every subscriber.
+ * - `enabled: false` skips fetching (e.g. until the user is known).
+ *
+ * Usage:
+ * ```tsx
+ * const { data: favorites, setData: setFavorites, isLoading } = useQuery(
+ *   "favorites",
+ *   api.favorites.list,
+ *   { initialData: [] },
+ * );
+ * ```
+ */
+
+import {
+  Dispatch,
+  SetStateAction,
+  useCallback,
+  useEffect,
+  useRef,
+  useSyncExternalStore,
+} from "react";
+import {
+  DEFAULT_STALE_TIME,
+  fetchQuery,
+  getQueryState,
+  setQueryData,
+  subscribeQuery,
+} from "../services/queryCache";
+
+interface QueryOptions<T> {
+  staleTime?: number;
+  enabled?: boolean;
+  initialData?: T;
+}
+
+interface QueryResult<T, TData> {
+  data: TData;
+  error: unknown;
+  isLoading: boolean; // No data yet and a request is pending
+  isFetching: boolean; // A request is pending, possibly in the background
+  refetch: () => Promise<T>;
+  setData: Dispatch<SetStateAction<TData>>;
+}
+
+// TData narrows to T when `initialData` is given, so callers can skip undefined checks
+export function useQuery<T, TData extends T | undefined = T | undefined>(
+  key: string,
+  fetcher: () => Promise<T>,
+  {
+    staleTime = DEFAULT_STALE_TIME,
+    enabled = true,
+    initialData,
+  }: QueryOptions<TData> = {},
+): QueryResult<T, TData> {
+  // Keep the latest fetcher and initialData without re-running effects for inline values
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+  const initialDataRef = useRef(initialData);
+  initialDataRef.current = initialData;
+
+  const state = useSyncExternalStore(
+    useCallback((listener) => subscribeQuery(key, listener), [key]),
+    () => getQueryState<T>(key),
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    fetchQuery(key, () => fetcherRef.current(), { staleTime }).catch(
+      (error) => {
+        console.error(`Error fetching "${key}":`, error);
+      },
+    );
+  }, [key, enabled, staleTime]);
+
+  const refetch = useCallback(
+    () => fetchQuery(key, () => fetcherRef.current(), { force: true }),
+    [key],
+  );
+
+  const setData = useCallback<Dispatch<SetStateAction<TData>>>(
+    (action) =>
+      setQueryData<T | undefined>(key, (previous) =>
+        typeof action === "function"
+          ? (action as (previous: TData) => TData)(
+              (previous ?? initialDataRef.current) as TData,
+            )
+          : action,
+      ),
+    [key],
+  );
+
+  const data = (state.data ?? initialData) as TData;
+
+  return {
+    data,
+    error: state.error,
+    isLoading: enabled && state.data === undefined && !state.error,
+    isFetching: state.isFetching,
+    refetch,
+    setData,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * AdminPage Component
+ *
+ * The admin console (`/admin`), reachable only through `AdminRoute`. It manages the parts of
+ * the platform that have no user-facing screens: accounts, the content catalog and stored
+ * recommendations.
+ *
+ * Key Backend Integration:
+ * - **GraphQL** (all admin-only; the server answers `FORBIDDEN` for other roles):
+ *   - `adminUsers`, `setUserDisabled`, `deleteUser`
+ *   - `adminContent`, `createContent`, `updateContent`, `deleteContent`
+ *   - `adminRecommendations`, `createRecommendation`, `updateRecommendation`
+ *
+ * Features:
+ * - **Tabs**: "Users", "Content" and "Recommendations", each a paginated table
+ *   (`AdminUsersTable`, `AdminContentTable`, `AdminRecommendationsTable`).
+ * - **Recommend From Anywhere**: "Recommend" on a user or content row opens the
+ *   "Recommendations" tab with that user or content preselected in a new recommendation form
+ *   (a user is also used as the list filter).
+ *
+ * Dependencies:
+ * - `adminApi` and the `useAdmin*` query hooks for data.
+ * - `DashboardNavbar` and `Footer`: Global navigation elements for consistent design.
+ */
+
+import { useState } from "react";
+import AdminUsersTable from "../components/AdminUsersTable";
+import AdminContentTable from "../components/AdminContentTable";
+import AdminRecommendationsTable from "../components/AdminRecommendationsTable";
+import DashboardNavbar from "../components/DashboardNavbar";
+import Footer from "../components/Footer";
+import { AdminUser, CatalogContent } from "../types";
+
+type AdminTab = "users" | "content" | "recommendations";
+
+const TABS: { value: AdminTab; label: string }[] = [
+  { value: "users", label: "Users" },
+  { value: "content", label: "Content" },
+  { value: "recommendations", label: "Recommendations" },
+];
+
+interface RecommendTarget {
+  user?: { id: string; email: string };
+  content?: { id: string; title: string };
+}
+
+const AdminPage = () => {
+  const [tab, setTab] = useState<AdminTab>("users");
+  const [target, setTarget] = useState<RecommendTarget>({});
+  // Remounts the recommendations tab so a new target resets its form and filters
+  const [targetVersion, setTargetVersion] = useState(0);
+
+  const recommend = (nextTarget: RecommendTarget) => {
+    setTarget(nextTarget);
+    setTargetVersion((version) => version + 1);
+    setTab("recommendations");
+  };
+
+  return (
+    <>
+      <DashboardNavbar />
+      <div className="container mx-auto py-6 px-6">
+        <h2 className="text-3xl font-bold text-left mb-6 text-white">
+          Admin Console
+        </h2>
+        <div role="tablist" className="tabs tabs-boxed mb-6 w-fit">
+          {TABS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              role="tab"
+              aria-selected={tab === option.value}
+              className={`tab ${tab === option.value ? "tab-active" : ""}`}
+              onClick={() => {
+                setTarget({});
+                setTab(option.value);
+              }}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {tab === "users" && (
+          <AdminUsersTable
+            onRecommend={(user: AdminUser) =>
+              recommend({ user: { id: user.id, email: user.email } })
+            }
+          />
+        )}
+        {tab === "content" && (
+          <AdminContentTable
+            onRecommend={(content: CatalogContent) =>
+              recommend({
+                content: { id: content.id, title: content.title },
+              })
+            }
+          />
+        )}
+        {tab === "recommendations" && (
+          <AdminRecommendationsTable
+            key={targetVersion}
+            initialUser={target.user}
+            initialContent={target.content}
+          />
+        )}
+      </div>
+      <Footer />
+    </>
+  );
+};
+
+export default AdminPage;
@@ -20,9 +20,14 @@
  * 3. **Trending & Popular Content**:
  *    - Includes `TrendingSection` and `PopularSection` to highlight trending and popular movies/TV shows.
  *    - Fetches content and genre metadata from APIs.
+ *    - `DiscoverSection` filters the catalog by genre, year, rating, runtime and language, with
+ *      the applied filters kept in the dashboard URL.
  *
- * 4. **Shared Favorites State**:
- *    - Maintains a single state for favorites, shared across all sections for consistency.
+ * 4. **Shared Favorites & Watchlist State**:
+ *    - Favorites, watchlist and genres are read through the shared query cache (`useFavorites`,
+ *      `useWatchlist`, `useGenreMaps`), so every section uses the same data and a single genre
+ *      request serves the whole dashboard.
+ *    - Card actions update the cached lists optimistically, keeping all sections consistent.
  *
  * 5. **Error Handling**:
  *    - Displays error messages when data fetching fails or if the user is not authenticated.
@@ -33,11 +38,12 @@
  * ============================
  * **State Management**
  * ============================
- * - `userName`: Stores the logged-in user's name for personalized greeting.
- * - `favorites`: Shared state for all favorites across sections.
- * - `movieGenres`: Maps movie genre IDs to names.
- * - `tvGenres`: Maps TV genre IDs to names.
- * - `error`: Stores error messages to display to the user.
+ * - `userName`: The logged-in user's name from `useAuth`, used for the personalized greeting.
+ * - `favorites`: Cached favorites (`"favorites"` query) shared across sections.
+ * - `watchlist`: Cached watchlist (`"watchlist"` query) shared across sections.
+ * - `movieGenres`: Maps movie genre IDs to names (`"genres"` query).
+ * - `tvGenres`: Maps TV genre IDs to names (`"genres"` query).
+ * - `error`: Derived from the query errors and shown to the user.
  *
  * ============================
  * **Child Components**
@@ -48,16 +54,23 @@
  *   - Displays trending movies and TV shows.
  * - **`PopularSection`**:
  *   - Displays popular movies and TV shows.
+ * - **`DiscoverSection`**:
+ *   - Filter panel and results grid backed by `/api/discover`.
  * - **`FavoritesSection`**:
  *   - Displays the user's favorite movies and TV shows.
+ * - **`RecommendationsSection`**:
+ *   - Displays the user's stored recommendations and lets them mark each viewed or dismissed.
+ * - **`RecentlyViewedSection`**:
+ *   - Displays the titles the user viewed or watched most recently.
  * - **`Footer`**:
  *   - Consistent footer with branding and navigation links.
  *
  * ============================
  * **Data Fetching**
  * ============================
- * - Fetches user favorites and genre metadata via API calls.
- * - Uses `authService` to retrieve the user's authentication profile and token.
+ * - Reads user favorites, watchlist and genre metadata through the query cache, which
+ *   deduplicates requests and revalidates stale data in the background.
+ * - Uses `useAuth` for the user's profile; user-specific queries wait until it is known.
  * - Handles both authenticated and unauthenticated states gracefully.
  *
  * ============================
@@ -90,76 +103,42 @@
  * 4. Add settings or customization options for personalized dashboards.
  */
 
-import { useEffect, useState } from "react";
-import authService from "../services/authService";
+import { useAuth } from "../context/AuthContext";
+import {
+  useFavorites,
+  useGenreMaps,
+  useWatchlist,
+} from "../hooks/useApiQueries";
 import DashboardNavbar from "../components/DashboardNavbar";
 import TrendingSection from "../components/TrendingSection";
 import PopularSection from "../components/PopularSection";
+import DiscoverSection from "../components/DiscoverSection";
 import FavoritesSection from "../components/FavoritesSection";
+import RecommendationsSection from "../components/RecommendationsSection";
+import RecentlyViewedSection from "../components/RecentlyViewedSection";
 import Footer from "../components/Footer";
-import { FavoriteItem, GenreResponse } from "../types";
-
-interface GenreMap {
-  [key: number]: string;
-}
 
 const Dashboard = () => {
-  const [userName, setUserName] = useState<string | null>(null);
-  const [favorites, setFavorites] = useState<FavoriteItem[]>([]); // Shared state for all favorites
-  const [movieGenres, setMovieGenres] = useState<GenreMap>({});
-  const [tvGenres, setTVGenres] = useState<GenreMap>({});
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchData = async () => {
-      const profile = authService.getProfile();
-      if (profile) {
-        setUserName(profile.name);
-
-        try {
-          const token = authService.getAuthToken();
-          if (!token) {
-            throw new Error("Invalid session. Please log in again.");
-          }
-
-          const [favoritesResponse, genresResponse] = await Promise.all([
-            fetch("/api/favorites", {
-              headers: { Authorization: `Bearer ${token}` },
-            }),
-            fetch("/api/genres"),
-          ]);
-
-          if (!favoritesResponse.ok || !genresResponse.ok) {
-            throw new Error("Failed to fetch data.");
-          }
-
-          const favoritesData: FavoriteItem[] = await favoritesResponse.json(); // Assuming the API returns FavoriteItem[]
-          const genresData: GenreResponse = await genresResponse.json();
+  const { user } = useAuth();
+  const userId = user?.id;
+  const userName = user?.name;
+  const {
+    data: favorites,
+    setData: setFavorites,
+    error: favoritesError,
+  } = useFavorites({ enabled: !!userId }); // Shared state for all favorites
+  const {
+    data: watchlist,
+    setData: setWatchlist,
+    error: watchlistError,
+  } = useWatchlist({ enabled: !!userId }); // Shared state for the watchlist
+  const { movieGenres, tvGenres, error: genresError } = useGenreMaps();
 
-          setFavorites(favoritesData);
-          setMovieGenres(
-            genresData.movieGenres.reduce((map, genre) => {
-              map[genre.id] = genre.name;
-              return map;
-            }, {} as GenreMap),
-          );
-          setTVGenres(
-            genresData.tvGenres.reduce((map, genre) => {
-              map[genre.id] = genre.name;
-              return map;
-            }, {} as GenreMap),
-          );
-        } catch (err) {
-          console.error("Error fetching data:", err);
-          setError("Unable to fetch data. Please try again later.");
-        }
-      } else {
-        setError("You must be logged in to view this page.");
-      }
-    };
-
-    fetchData();
-  }, []);
+  const error = !userId
+    ? "You must be logged in to view this page."
+    : favoritesError || watchlistError || genresError
+      ? "Unable to fetch data. Please try again later."
+      : null;
 
   return (
     <div className="min-h-screen bg-neutral text-gray-200">
@@ -172,10 +151,25 @@ const Dashboard = () => {
           Welcome {userName || "to Your Dashboard"}!
         </h1>
 
+        {/* Render RecommendationsSection */}
+        <RecommendationsSection />
+
+        {/* Render RecentlyViewedSection */}
+        <RecentlyViewedSection enabled={!!userId} />
+
         {/* Render PopularSection */}
         <PopularSection
           favorites={favorites} // Pass shared favorites
           setFavorites={setFavorites} // Pass state setter
+          watchlist={watchlist}
+          setWatchlist={setWatchlist}
+        />
+        {/* Render DiscoverSection */}
+        <DiscoverSection
+          favorites={favorites}
+          setFavorites={setFavorites}
+          watchlist={watchlist}
+          setWatchlist={setWatchlist}
         />
         {/* Render FavoritesSection */}
         <FavoritesSection
@@ -190,8 +184,8 @@ const Dashboard = () => {
         <TrendingSection
           favorites={favorites} // Pass shared favorites
           setFavorites={setFavorites} // Pass state setter
-          movieGenres={movieGenres}
-          tvGenres={tvGenres}
+          watchlist={watchlist}
+          setWatchlist={setWatchlist}
         />
       </main>
       <Footer />
@@ -36,7 +36,7 @@
  *   - Includes global navigation elements like `DashboardNavbar` and `Footer` for consistent design.
  *
  * Dependencies:
- * - `authService`: Manages JWT tokens and retrieves user authentication details.
+ * - `useFavorites`: Reads favorites through the shared query cache (`api.favorites.list()`).
  * - `FavoritesSection`: A reusable child component responsible for displaying categorized lists of favorites.
  * - **Backend**:
  *   - GraphQL resolvers (`getFavorites`, `addFavorite`, `removeFavorite`) in `schema.js`.
@@ -44,15 +44,16 @@
  *
  * Component Flow:
  * 1. **Fetch Favorites**:
- *    - On component mount, the `fetchFavorites` function retrieves the user's favorites from the backend.
- *    - If successful, the favorites are stored in the `favorites` state; otherwise, an error is displayed.
+ *    - `useFavorites` returns the cached favorites immediately (e.g. when coming from the dashboard)
+ *      and revalidates them in the background; an error is displayed if the request fails.
  * 2. **Categorize Favorites**:
  *    - Separates the fetched favorites into movies and TV shows based on their `mediaType`.
  * 3. **Render Favorites**:
  *    - The categorized data is passed to the `FavoritesSection` component for rendering.
  *    - Users can interact with the lists (e.g., remove items), triggering backend updates and UI synchronization.
  * 4. **Real-Time Dashboard Updates**:
- *    - Any updates to the favorites are reflected in connected components like `Dashboard`, ensuring consistent data across the application.
+ *    - Favorites live in the shared `"favorites"` query, so updates here are reflected in connected
+ *      components like `Dashboard` without another request.
  *
  * Future Improvements:
  * - Enhance the `FavoritesSection` component to support sorting and filtering options.
@@ -65,53 +66,21 @@
  * - Changes are consistently propagated across components, such as `Dashboard`.
  */
 
-import { useEffect, useState } from "react";
-import authService from "../services/authService";
+import { useFavorites } from "../hooks/useApiQueries";
 import DashboardNavbar from "../components/DashboardNavbar";
 import Footer from "../components/Footer";
 import FavoritesSection from "../components/FavoritesSection";
-import { FavoriteItem } from "../types";
 
 const FavoritesPage = () => {
-  const [favorites, setFavorites] = useState<FavoriteItem[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // Fetch favorites from the API
-  const fetchFavorites = async () => {
-    try {
-      const token = authService.getAuthToken();
-      if (!token) {
-        throw new Error("Authentication token is missing. Please log in.");
-      }
-
-      const response = await fetch("/api/favorites", {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch favorites");
-      }
-
-      const data = await response.json();
-      setFavorites(data);
-    } catch (err) {
-      if (err instanceof Error) {
-        console.error("Error fetching favorites:", err.message);
-        setError(err.message);
-      } else {
-        setError("An unknown error occurred.");
-      }
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    fetchFavorites();
-  }, []);
+  const {
+    data: favorites,
+    setData: setFavorites,
+    isLoading: loading,
+    error: fetchError,
+  } = useFavorites();
+  const error = fetchError
+    ? (fetchError as Error).message || "An unknown error occurred."
+    : null;
 
   const favoriteMovies = favorites.filter((item) => item.mediaType === "movie");
   const favoriteTVShows = favorites.filter((item) => item.mediaType === "tv");
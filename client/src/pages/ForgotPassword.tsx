@@ -0,0 +1,129 @@
+/**
+ * ForgotPassword Component
+ *
+ * The "Forgot password?" page (`/forgot-password`), linked from the login form. The user enters
+ * their email and the backend mails a single-use reset link to the `ResetPassword` page.
+ *
+ * Key Backend Integration:
+ * - `POST /api/auth/forgot-password` through `authService.requestPasswordReset`. The server
+ *   answers the same way whether or not the email is registered, so the confirmation never
+ *   reveals which addresses have accounts.
+ *
+ * Features:
+ * - Validates the email format before sending.
+ * - After a successful request the form is replaced by the server's confirmation, with a way
+ *   to send the link again.
+ *
+ * Error Handling:
+ * - Validation and request errors (including the server's rate limit) are shown above the form.
+ */
+
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import authService from "../services/authService";
+import Navbar from "../components/Navbar";
+import Footer from "../components/Footer";
+
+const ForgotPassword = () => {
+  const [email, setEmail] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(email.trim())) {
+      setError("Please enter a valid email address.");
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const { message } = await authService.requestPasswordReset(email.trim());
+      setConfirmation(message);
+    } catch (requestError) {
+      setError(
+        (requestError as Error).message || "Failed to send the reset email.",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-neutral">
+      <Navbar />
+      <main className="flex-grow flex items-center justify-center px-4 sm:px-6 lg:px-8">
+        <div className="max-w-lg w-full bg-gray-800 text-white p-8 rounded-lg shadow-lg mt-16 md:mt-24">
+          <h2 className="text-3xl font-bold mb-6 text-center">
+            Forgot Password
+          </h2>
+          {confirmation ? (
+            <div className="space-y-6 text-center">
+              <p className="text-gray-300">{confirmation}</p>
+              <p className="text-sm text-gray-400">
+                The link expires in an hour. Check your spam folder if it
+                doesn't arrive.
+              </p>
+              <button
+                type="button"
+                className="btn btn-outline w-full"
+                onClick={() => setConfirmation(null)}
+              >
+                Send Again
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <p className="text-gray-400">
+                Enter the email you signed up with and we'll send you a link to
+                choose a new password.
+              </p>
+              {error && (
+                <div className="alert alert-error" role="alert">
+                  {error}
+                </div>
+              )}
+              <div>
+                <label
+                  className="block text-sm font-medium mb-1"
+                  htmlFor="email"
+                >
+                  Email Address
+                </label>
+                <input
+                  type="email"
+                  id="email"
+                  name="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="Enter your email"
+                  className="input input-bordered w-full"
+                />
+              </div>
+              <button
+                type="submit"
+                className="btn btn-primary w-full"
+                disabled={isLoading}
+              >
+                {isLoading ? "Sending..." : "Send Reset Link"}
+              </button>
+            </form>
+          )}
+          <p className="text-center mt-4">
+            Remembered it?{" "}
+            <Link to="/login" className="text-primary">
+              Back to login
+            </Link>
+          </p>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default ForgotPassword;
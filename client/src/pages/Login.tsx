@@ -32,6 +32,9 @@
  * 6. **JWT Authentication**:
  *    - Relies on `authService` to securely handle login requests and store tokens.
  *
+ * 7. **Forgot Password**:
+ *    - Links to `/forgot-password`, which emails a link for choosing a new password.
+ *
  * ============================
  * **Dependencies**
  * ============================
@@ -80,9 +83,7 @@
  *    - Allow users to stay logged in by persisting tokens securely.
  * 2. **Social Login**:
  *    - Integrate third-party authentication options (e.g., Google, Facebook).
- * 3. **Forgot Password**:
- *    - Add a flow to reset forgotten passwords.
- * 4. **Captcha**:
+ * 3. **Captcha**:
  *    - Include CAPTCHA to deter automated login attempts.
  */
 
@@ -211,12 +212,14 @@ const Login = () => {
               />
             </div>
             <div>
-              <label
-                className="block text-sm font-medium mb-1"
-                htmlFor="password"
-              >
-                Password
-              </label>
+              <div className="flex justify-between items-baseline mb-1">
+                <label className="block text-sm font-medium" htmlFor="password">
+                  Password
+                </label>
+                <Link to="/forgot-password" className="text-sm text-primary">
+                  Forgot password?
+                </Link>
+              </div>
               <input
                 type="password"
                 id="password"
@@ -0,0 +1,287 @@
+/**
+ * OnboardingPage Component
+ *
+ * A short setup wizard shown right after registration, so the first recommendations are based on
+ * the user's taste instead of starting cold.
+ *
+ * Steps:
+ * 1. **Genres**: Favorite genre chips from the movie and TV genre lists (`useGenreMaps`).
+ * 2. **Quick Ratings**: A grid of popular movies (`usePopular`), each with "Not for me",
+ *    "Liked it" and "Loved it" buttons. Every choice is saved immediately through `/api/ratings`
+ *    as a 3, 7 or 9; titles the user hasn't seen can be left alone.
+ * 3. **Finish**: Saves the favorite genres through `/api/preferences`, refreshes the user's
+ *    recommendations and lands on the dashboard.
+ *
+ * Navigation:
+ * - "Back" / "Next" move between steps; "Skip setup" goes straight to the dashboard without
+ *   saving preferences (ratings already given are kept).
+ *
+ * Error Handling:
+ * - Failed ratings or saves show an error toast; a failed recommendation refresh is only logged,
+ *   since the dashboard can refresh them later.
+ */
+
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "../context/AuthContext";
+import {
+  useGenreMaps,
+  usePopular,
+  usePreferences,
+} from "../hooks/useApiQueries";
+import api, { graphql } from "../services/apiClient";
+import { showToast } from "../services/toastService";
+import {
+  DEFAULT_PREFERENCES,
+  mergeGenreOptions,
+  toggleGenrePreference,
+} from "../utils/preferences";
+import Navbar from "../components/Navbar";
+import Footer from "../components/Footer";
+import fallbackImage from "../assets/images/fallback-image.jpg";
+
+const STEPS = ["Pick genres", "Rate a few titles", "All set"];
+const QUICK_RATINGS = [
+  { value: 3, label: "Not for me" },
+  { value: 7, label: "Liked it" },
+  { value: 9, label: "Loved it" },
+];
+const RATING_GRID_SIZE = 12;
+
+const REFRESH_RECOMMENDATIONS = `
+  mutation RefreshRecommendations {
+    refreshRecommendations {
+      id
+    }
+  }
+`;
+
+const OnboardingPage = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { movieGenres, tvGenres } = useGenreMaps();
+  const { data: storedPreferences, setData: setPreferences } = usePreferences();
+  const { data: popular, isLoading: isLoadingPopular } = usePopular("movie");
+  const [step, setStep] = useState(0);
+  const [favoriteGenres, setFavoriteGenres] = useState<number[]>([]);
+  const [ratings, setRatings] = useState<Record<number, number>>({});
+  const [isFinishing, setIsFinishing] = useState(false);
+
+  const genreOptions = mergeGenreOptions(movieGenres, tvGenres);
+  const titles = (popular?.results ?? []).slice(0, RATING_GRID_SIZE);
+  const dashboardPath = `/dashboard/${user?.id}`;
+
+  const toggleGenre = (id: number) =>
+    setFavoriteGenres((previous) =>
+      previous.includes(id)
+        ? previous.filter((genre) => genre !== id)
+        : [...previous, id],
+    );
+
+  const rateTitle = async (tmdbId: number, rating: number) => {
+    try {
+      await api.ratings.rate({
+        tmdbId: String(tmdbId),
+        mediaType: "movie",
+        rating,
+      });
+      setRatings((previous) => ({ ...previous, [tmdbId]: rating }));
+    } catch (error) {
+      console.error("Error submitting rating:", error);
+      showToast((error as Error).message || "Failed to save rating.", "error");
+    }
+  };
+
+  const handleFinish = async () => {
+    setIsFinishing(true);
+    try {
+      // Keep anything already stored, then apply the picks (a favorite can't also be disliked)
+      const preferences = favoriteGenres.reduce(
+        (current, id) =>
+          current.favoriteGenres.includes(id)
+            ? current
+            : toggleGenrePreference(current, "favoriteGenres", id),
+        storedPreferences ?? DEFAULT_PREFERENCES,
+      );
+      setPreferences(await api.preferences.update(preferences));
+    } catch (error) {
+      console.error("Error saving preferences:", error);
+      showToast(
+        (error as Error).message || "Failed to save preferences.",
+        "error",
+      );
+      setIsFinishing(false);
+      return;
+    }
+
+    try {
+      await graphql(REFRESH_RECOMMENDATIONS);
+    } catch (error) {
+      console.error("Error refreshing recommendations:", error);
+    }
+    navigate(dashboardPath);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-neutral text-white">
+      <Navbar />
+      <main className="flex-grow flex justify-center px-4 py-10">
+        <div className="max-w-4xl w-full bg-gray-800 p-8 rounded-lg shadow-lg space-y-6">
+          <div>
+            <h2 className="text-3xl font-bold text-center mb-4">
+              Welcome{user?.name ? `, ${user.name}` : ""}!
+            </h2>
+            <ul className="steps w-full">
+              {STEPS.map((label, index) => (
+                <li
+                  key={label}
+                  className={`step ${index <= step ? "step-primary" : ""}`}
+                >
+                  {label}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {step === 0 && (
+            <section>
+              <p className="text-gray-400 mb-4">
+                Which genres do you enjoy? Pick as many as you like.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {genreOptions.map((genre) => (
+                  <button
+                    key={genre.id}
+                    type="button"
+                    aria-pressed={favoriteGenres.includes(genre.id)}
+                    className={`badge badge-lg cursor-pointer ${
+                      favoriteGenres.includes(genre.id)
+                        ? "badge-primary"
+                        : "badge-outline"
+                    }`}
+                    onClick={() => toggleGenre(genre.id)}
+                  >
+                    {genre.name}
+                  </button>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {step === 1 && (
+            <section>
+              <p className="text-gray-400 mb-4">
+                Rate the ones you've seen. Skip anything you haven't watched.
+              </p>
+              {isLoadingPopular ? (
+                <span className="loading loading-spinner loading-lg" />
+              ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                  {titles.map((item) => (
+                    <div
+                      key={item.id}
+                      className="bg-gray-900 rounded-lg overflow-hidden"
+                    >
+                      <img
+                        src={
+                          item.poster_path
+                            ? `https://image.tmdb.org/t/p/w300${item.poster_path}`
+                            : fallbackImage
+                        }
+                        alt={item.title || item.name}
+                        className="w-full aspect-[2/3] object-cover"
+                      />
+                      <div className="p-2 space-y-2">
+                        <h3 className="text-sm font-semibold truncate">
+                          {item.title || item.name}
+                        </h3>
+                        <div className="flex flex-col gap-1">
+                          {QUICK_RATINGS.map((option) => (
+                            <button
+                              key={option.value}
+                              type="button"
+                              aria-pressed={ratings[item.id] === option.value}
+                              className={`btn btn-xs ${
+                                ratings[item.id] === option.value
+                                  ? "btn-primary"
+                                  : "btn-outline"
+                              }`}
+                              onClick={() => rateTitle(item.id, option.value)}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          )}
+
+          {step === 2 && (
+            <section className="text-center space-y-2">
+              <p>
+                {favoriteGenres.length} favorite{" "}
+                {favoriteGenres.length === 1 ? "genre" : "genres"} and{" "}
+                {Object.keys(ratings).length}{" "}
+                {Object.keys(ratings).length === 1 ? "rating" : "ratings"} saved
+                to your taste profile.
+              </p>
+              <p className="text-gray-400 text-sm">
+                You can fine-tune your preferences anytime from your profile.
+              </p>
+            </section>
+          )}
+
+          <div className="flex justify-between items-center">
+            <button
+              type="button"
+              className="btn btn-ghost btn-sm"
+              onClick={() => navigate(dashboardPath)}
+              disabled={isFinishing}
+            >
+              Skip setup
+            </button>
+            <div className="flex gap-2">
+              {step > 0 && (
+                <button
+                  type="button"
+                  className="btn btn-outline"
+                  onClick={() => setStep(step - 1)}
+                  disabled={isFinishing}
+                >
+                  Back
+                </button>
+              )}
+              {step < STEPS.length - 1 ? (
+                <button
+                  type="button"
+                  className="btn btn-primary"
+                  onClick={() => setStep(step + 1)}
+                >
+                  Next
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  className="btn btn-primary"
+                  onClick={handleFinish}
+                  disabled={isFinishing}
+                >
+                  {isFinishing
+                    ? "Building your recommendations..."
+                    : "Go to Dashboard"}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default OnboardingPage;
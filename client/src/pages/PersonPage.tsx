@@ -0,0 +1,210 @@
+/**
+ * PersonPage Component
+ *
+ * A profile page for an actor, director or other crew member, reachable at `/person/:personId`.
+ * Title pages, the trending "People" row and search results link here.
+ *
+ * Key Features:
+ * - **Profile**:
+ *   - Photo, department, birth/death dates, birthplace and biography from `/api/person/:id`
+ *     (`usePerson`).
+ * - **Known For**:
+ *   - The person's most-voted movies and TV shows, linking to their title pages.
+ * - **Credits**:
+ *   - Every movie and TV credit grouped by year (announced titles first), with the character or
+ *     job for each.
+ * - **Follow**:
+ *   - Following a person adds their new and upcoming titles to the user's content-based
+ *     recommendations. Uses `handleFollow` and the cached `useFollows` list.
+ *
+ * Error Handling:
+ * - API failures (including 404 for unknown IDs) show the `ApiError` message.
+ */
+
+import { Link, useParams } from "react-router-dom";
+import DashboardNavbar from "../components/DashboardNavbar";
+import Footer from "../components/Footer";
+import fallbackImage from "../assets/images/fallback-image.jpg";
+import { useFollows, usePerson } from "../hooks/useApiQueries";
+import { handleFollow } from "../utils/followsHandler";
+import { PersonCredit, PersonDetails } from "../types";
+
+const IMAGE_BASE_URL = "https://image.tmdb.org/t/p";
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+const PersonPage = () => {
+  const { personId = "" } = useParams<{ personId: string }>();
+  const { data: person, isLoading, error } = usePerson(personId);
+  const { data: follows, setData: setFollows } = useFollows();
+
+  const isFollowing = follows.some(
+    (follow) => follow.personId.toString() === personId,
+  );
+
+  const toggleFollow = (details: PersonDetails) => {
+    handleFollow(
+      isFollowing ? "unfollow" : "follow",
+      {
+        personId: details.id,
+        name: details.name,
+        profile_path: details.profile_path,
+        knownForDepartment: details.knownForDepartment,
+      },
+      setFollows,
+    );
+  };
+
+  const renderCreditRole = (credit: PersonCredit) =>
+    credit.character !== undefined
+      ? credit.character
+        ? `as ${credit.character}`
+        : "Cast"
+      : credit.job;
+
+  const renderDetails = (details: PersonDetails) => {
+    // Group credits by year, keeping the server's newest-first order
+    const creditsByYear = details.credits.reduce<[string, PersonCredit[]][]>(
+      (groups, credit) => {
+        const year = credit.date?.slice(0, 4) || "Upcoming";
+        const last = groups[groups.length - 1];
+        if (last && last[0] === year) {
+          last[1].push(credit);
+        } else {
+          groups.push([year, [credit]]);
+        }
+        return groups;
+      },
+      [],
+    );
+
+    return (
+      <>
+        <section className="flex flex-col md:flex-row gap-8">
+          <img
+            src={
+              details.profile_path
+                ? `${IMAGE_BASE_URL}/w500${details.profile_path}`
+                : fallbackImage
+            }
+            alt={details.name}
+            className="w-64 rounded-lg shadow-2xl self-center md:self-start"
+          />
+          <div className="flex-1">
+            <h2 className="text-4xl font-bold text-white">{details.name}</h2>
+            {details.knownForDepartment && (
+              <p className="text-gray-400 mt-1">{details.knownForDepartment}</p>
+            )}
+            <ul className="mt-3 text-gray-300 space-y-1">
+              {details.birthday && (
+                <li>
+                  <strong className="text-white">Born:</strong>{" "}
+                  {formatDate(details.birthday)}
+                  {details.placeOfBirth && ` in ${details.placeOfBirth}`}
+                </li>
+              )}
+              {details.deathday && (
+                <li>
+                  <strong className="text-white">Died:</strong>{" "}
+                  {formatDate(details.deathday)}
+                </li>
+              )}
+            </ul>
+            <button
+              className={`btn mt-4 ${isFollowing ? "btn-outline" : "btn-primary"}`}
+              onClick={() => toggleFollow(details)}
+            >
+              {isFollowing ? "Following" : "Follow"}
+            </button>
+            <p className="text-sm text-gray-500 mt-2">
+              Followed people's new titles appear in your recommendations.
+            </p>
+            <p className="mt-4 text-gray-200 max-w-3xl whitespace-pre-line">
+              {details.biography || "No biography available."}
+            </p>
+          </div>
+        </section>
+
+        {details.knownFor.length > 0 && (
+          <section className="py-10">
+            <h3 className="text-2xl font-bold mb-4 text-white">Known For</h3>
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-8 gap-4">
+              {details.knownFor.map((title) => (
+                <Link
+                  key={`${title.media_type}-${title.id}`}
+                  to={`/title/${title.media_type}/${title.id}`}
+                  className="bg-base-100 rounded-lg shadow-lg transition-transform transform hover:scale-105"
+                >
+                  <img
+                    src={
+                      title.poster_path
+                        ? `${IMAGE_BASE_URL}/w342${title.poster_path}`
+                        : fallbackImage
+                    }
+                    alt={title.title || title.name}
+                    className="rounded-t-lg w-full h-48 object-cover"
+                  />
+                  <p className="p-2 text-sm font-bold text-white truncate">
+                    {title.title || title.name}
+                  </p>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {creditsByYear.length > 0 && (
+          <section>
+            <h3 className="text-2xl font-bold mb-4 text-white">Credits</h3>
+            <div className="bg-base-100 rounded-lg divide-y divide-gray-700">
+              {creditsByYear.map(([year, credits]) => (
+                <div key={year} className="flex gap-6 p-4">
+                  <span className="w-20 text-gray-400">{year}</span>
+                  <ul className="flex-1 space-y-1">
+                    {credits.map((credit, index) => (
+                      <li key={`${credit.media_type}-${credit.id}-${index}`}>
+                        <Link
+                          to={`/title/${credit.media_type}/${credit.id}`}
+                          className="link link-hover text-white font-semibold"
+                        >
+                          {credit.title || credit.name}
+                        </Link>{" "}
+                        <span className="text-gray-400 text-sm">
+                          {credit.media_type === "tv" ? "(TV) " : ""}
+                          {renderCreditRole(credit)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral text-gray-200">
+      <DashboardNavbar />
+      <main className="container mx-auto px-6 py-10">
+        {isLoading && <p className="text-gray-400">Loading person...</p>}
+        {!!error && (
+          <p className="text-red-500">
+            {(error as Error).message || "Failed to fetch person details."}
+          </p>
+        )}
+        {person && renderDetails(person)}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default PersonPage;
@@ -7,9 +7,9 @@
  *
  * Key Features:
  * - **CRUD Operations via GraphQL**:
- *   - **Read**: Fetches the user's current profile data, including name and preferences.
- *   - **Update**: Allows users to modify their name and preferences.
- *     - Prepares an `updatedData` object with optional fields (`name`, `preferences`) using explicit type definitions for type safety.
+ *   - **Read**: Fetches the user's current profile data, including their name.
+ *   - **Update**: Allows users to modify their name.
+ *     - Prepares an `updatedData` object with the optional `name` field using explicit type definitions for type safety.
  *   - **Delete**: Enables secure account deletion with a confirmation modal.
  * - **GraphQL Integration**:
  *   - Queries and mutations are used to retrieve, update, and delete data from the backend.
@@ -19,28 +19,36 @@
  *   - Redirects unauthenticated users to the login page.
  * - **Error Handling**:
  *   - Displays clear error or success messages for all actions.
- *   - Includes validation for input fields like name and preferences.
+ *   - Includes validation for input fields like name.
  * - **Responsive Design**:
  *   - The layout adapts seamlessly to different screen sizes.
  *   - Accessible design with labeled inputs and focus management.
  *
  * Workflow:
  * 1. **Authentication Check**:
- *    - On mount, verifies the user's authentication status using a JWT.
- *    - Retrieves the user's profile details via a GraphQL query.
+ *    - Reads the session from `useAuth` and redirects to `/login` once it ends.
+ *    - Fills the form from the logged-in user's profile.
  * 2. **Profile Update**:
  *    - Validates the input fields and prepares an `updatedData` object with optional fields:
  *      - `name`: A trimmed string of the user's name.
- *      - `preferences`: An array of trimmed strings, split by commas from the input.
- *    - Sends an update mutation to the backend using `authService.updateProfile`.
+ *    - Sends an update mutation to the backend using `updateProfile` from `useAuth`.
  *    - Reflects changes in the UI upon a successful response.
  *    - Uses strong typing for the `updatedData` object to ensure type safety.
- * 3. **Account Deletion**:
+ * 3. **Preferences**:
+ *    - `PreferencesEditor` edits favorite and disliked genres, languages, a content rating
+ *      ceiling and the movie/TV bias used for recommendations (`/api/preferences`).
+ * 4. **Password**:
+ *    - `ChangePasswordForm` changes the password after confirming the current one
+ *      (`PUT /api/auth/password`); other devices are signed out.
+ * 5. **Viewing History**:
+ *    - "Clear History" deletes the user's viewing history (`DELETE /api/history`), emptying the
+ *      dashboard's "Recently Viewed" row.
+ * 6. **Account Deletion**:
  *    - Opens a modal for user confirmation.
  *    - Sends a delete mutation to the backend and logs the user out on success.
  *
  * Dependencies:
- * - **authService**: Manages authentication, including token validation and logout.
+ * - **useAuth**: Supplies the current user and the profile, deletion and logout actions.
  * - **react-router-dom**: Handles navigation and redirection.
  * - **Navbar and Footer**: Provides consistent layout across pages.
  * - **GraphQL Backend**: Connects to a Node.js and Express.js server for API operations.
@@ -52,34 +60,39 @@
 
 import React, { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
-import authService from "../services/authService";
+import { useAuth } from "../context/AuthContext";
+import { QUERY_KEYS } from "../hooks/useApiQueries";
+import api from "../services/apiClient";
+import { invalidateQueries } from "../services/queryCache";
 import Navbar from "../components/Navbar";
 import Footer from "../components/Footer";
+import PreferencesEditor from "../components/PreferencesEditor";
+import ChangePasswordForm from "../components/ChangePasswordForm";
 
 const ProfilePage = () => {
   const navigate = useNavigate();
+  const { user, isAuthenticated, updateProfile, deleteProfile, logout } =
+    useAuth();
   const [formData, setFormData] = useState({
     name: "",
-    preferences: "",
   });
   const [message, setMessage] = useState<string | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [isClearingHistory, setIsClearingHistory] = useState(false);
 
   // Ensure the user is authenticated
   useEffect(() => {
-    if (!authService.isAuthenticated()) {
+    if (!isAuthenticated) {
       navigate("/login"); // Redirect to login if not authenticated
       return;
     }
 
-    const profile = authService.getProfile();
-    if (profile) {
+    if (user) {
       setFormData({
-        name: profile.name || "",
-        preferences: profile.preferences?.join(", ") || "",
+        name: user.name || "",
       });
     }
-  }, [navigate]);
+  }, [isAuthenticated, user, navigate]);
 
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
@@ -94,15 +107,11 @@ const ProfilePage = () => {
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
 
-    const updatedData: { name?: string; preferences?: string[] } = {};
+    const updatedData: { name?: string } = {};
     if (formData.name) updatedData.name = formData.name.trim();
-    if (formData.preferences)
-      updatedData.preferences = formData.preferences
-        .split(",")
-        .map((pref) => pref.trim());
 
     try {
-      await authService.updateProfile(updatedData);
+      await updateProfile(updatedData);
       setMessage("Profile updated successfully!");
     } catch (error) {
       console.error("Error updating profile:", error);
@@ -110,12 +119,25 @@ const ProfilePage = () => {
     }
   };
 
+  const handleClearHistory = async () => {
+    setIsClearingHistory(true);
+    try {
+      await api.history.clear();
+      invalidateQueries(QUERY_KEYS.history);
+      setMessage("Viewing history cleared.");
+    } catch (error) {
+      console.error("Error clearing history:", error);
+      setMessage("Failed to clear viewing history.");
+    } finally {
+      setIsClearingHistory(false);
+    }
+  };
+
   const handleDeleteAccount = async () => {
     try {
-      const profile = authService.getProfile();
-      if (profile?.id) {
-        await authService.deleteProfile(profile.id);
-        authService.logout();
+      if (user?.id) {
+        await deleteProfile(user.id);
+        logout();
         navigate("/");
       }
     } catch (error) {
@@ -152,6 +174,34 @@ const ProfilePage = () => {
               />
             </div>
           </form>
+          <div className="mt-6">
+            <h3 className="text-lg font-semibold mb-1">Preferences</h3>
+            <p className="text-sm text-gray-400 mb-2">
+              Tune what shows up in your recommendations.
+            </p>
+            <PreferencesEditor />
+          </div>
+          <div className="mt-6">
+            <h3 className="text-lg font-semibold mb-1">Change Password</h3>
+            <p className="text-sm text-gray-400 mb-2">
+              You'll stay signed in here; other devices will be signed out.
+            </p>
+            <ChangePasswordForm />
+          </div>
+          <div className="mt-6">
+            <h3 className="text-lg font-semibold mb-1">Viewing History</h3>
+            <p className="text-sm text-gray-400 mb-2">
+              Titles you open or watch appear under "Recently Viewed" on your
+              dashboard.
+            </p>
+            <button
+              onClick={handleClearHistory}
+              disabled={isClearingHistory}
+              className="btn btn-outline w-full"
+            >
+              {isClearingHistory ? "Clearing..." : "Clear History"}
+            </button>
+          </div>
           <button
             onClick={() => setShowDeleteModal(true)}
             className="btn btn-error w-full mt-4"
@@ -0,0 +1,233 @@
+/**
+ * RatingsPage Component
+ *
+ * "My Ratings": every movie and TV show the user has rated, with a chart of how their scores are
+ * spread and inline controls to change or remove a rating.
+ *
+ * Key Backend Integration:
+ * - **REST API Endpoints**:
+ *   - `GET /api/ratings`: The user's ratings enriched with TMDb title, poster and genres.
+ *   - `POST /api/ratings`: Changes a score (the same endpoint the rating modal uses).
+ *   - `DELETE /api/ratings/:id`: Removes a rating.
+ *
+ * Features:
+ * - **Score Distribution**:
+ *   - A histogram with one bar per score from 1 to 10 (`ratingDistribution`) and the average.
+ * - **Rated Titles**:
+ *   - Sortable by rating date or score (`sortRatings`); titles link to their title page.
+ * - **Inline Edit/Delete**:
+ *   - Changing the score select saves immediately; "Remove" deletes the rating. Both update the
+ *     cached list (`useRatings`) on success and show an error toast on failure.
+ *
+ * Dependencies:
+ * - `useRatings`: Reads ratings through the shared query cache (`api.ratings.list()`).
+ * - `DashboardNavbar` and `Footer`: Global navigation elements for consistent design.
+ */
+
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useRatings } from "../hooks/useApiQueries";
+import api from "../services/apiClient";
+import { showToast } from "../services/toastService";
+import DashboardNavbar from "../components/DashboardNavbar";
+import Footer from "../components/Footer";
+import fallbackImage from "../assets/images/fallback-image.jpg";
+import {
+  RATING_SCORES,
+  RATING_SORT_OPTIONS,
+  ratingDistribution,
+  sortRatings,
+} from "../utils/ratings";
+import { RatedTitle, RatingSort } from "../types";
+
+const RatingsPage = () => {
+  const {
+    data: ratings,
+    setData: setRatings,
+    isLoading: loading,
+    error: fetchError,
+  } = useRatings();
+  const [sort, setSort] = useState<RatingSort>("newest");
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const error = fetchError
+    ? (fetchError as Error).message || "An unknown error occurred."
+    : null;
+
+  const distribution = ratingDistribution(ratings);
+  const maxCount = Math.max(1, ...distribution);
+  const average = ratings.length
+    ? ratings.reduce((sum, entry) => sum + entry.rating, 0) / ratings.length
+    : 0;
+
+  const handleScoreChange = async (entry: RatedTitle, rating: number) => {
+    setPendingId(entry.id);
+    try {
+      await api.ratings.rate({
+        tmdbId: entry.tmdbId,
+        mediaType: entry.mediaType,
+        rating,
+      });
+      setRatings((previous) =>
+        previous.map((item) =>
+          item.id === entry.id
+            ? { ...item, rating, ratedAt: new Date().toISOString() }
+            : item,
+        ),
+      );
+    } catch (updateError) {
+      console.error("Error updating rating:", updateError);
+      showToast(
+        (updateError as Error).message || "Failed to update rating.",
+        "error",
+      );
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRemove = async (entry: RatedTitle) => {
+    setPendingId(entry.id);
+    try {
+      await api.ratings.remove(entry.id);
+      setRatings((previous) => previous.filter((item) => item.id !== entry.id));
+      showToast(`Removed your rating for ${entry.title}.`, "info");
+    } catch (removeError) {
+      console.error("Error removing rating:", removeError);
+      showToast(
+        (removeError as Error).message || "Failed to remove rating.",
+        "error",
+      );
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  if (loading) return <p>Loading ratings...</p>;
+  if (error) return <p>{error}</p>;
+
+  return (
+    <>
+      <DashboardNavbar />
+      <div className="container mx-auto py-6 px-6">
+        <h2 className="text-3xl font-bold text-left mb-6 text-white">
+          My Ratings
+        </h2>
+        {ratings.length === 0 ? (
+          <p className="text-gray-400">
+            You haven't rated anything yet. Open any movie or TV show and pick a
+            score to start building your taste profile.
+          </p>
+        ) : (
+          <>
+            <section className="bg-base-100 rounded-lg p-6 mb-8">
+              <div className="flex justify-between items-baseline mb-4">
+                <h3 className="text-xl font-bold text-white">
+                  Score Distribution
+                </h3>
+                <p className="text-sm text-gray-400">
+                  {`${ratings.length} ${ratings.length === 1 ? "rating" : "ratings"}, average ${average.toFixed(1)}`}
+                </p>
+              </div>
+              <div className="flex items-end gap-2 h-40">
+                {RATING_SCORES.map((score, index) => (
+                  <div
+                    key={score}
+                    className="flex-1 flex flex-col items-center justify-end h-full"
+                  >
+                    <span className="text-xs text-gray-400 mb-1">
+                      {distribution[index] || ""}
+                    </span>
+                    <div
+                      className="w-full bg-primary rounded-t"
+                      style={{
+                        height: `${(distribution[index] / maxCount) * 100}%`,
+                      }}
+                      title={`${distribution[index]} rated ${score}`}
+                    />
+                    <span className="text-xs text-gray-300 mt-1">{score}</span>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <div className="flex justify-end mb-4">
+              <label className="form-control">
+                <span className="label-text text-gray-400">Sort by</span>
+                <select
+                  className="select select-sm select-bordered"
+                  value={sort}
+                  onChange={(event) =>
+                    setSort(event.target.value as RatingSort)
+                  }
+                >
+                  {RATING_SORT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <ul className="space-y-3">
+              {sortRatings(ratings, sort).map((entry) => (
+                <li
+                  key={entry.id}
+                  className="flex items-center gap-4 bg-base-100 rounded-lg p-3"
+                >
+                  <img
+                    src={
+                      entry.poster_path
+                        ? `https://image.tmdb.org/t/p/w92${entry.poster_path}`
+                        : fallbackImage
+                    }
+                    alt={entry.title}
+                    className="w-12 h-16 object-cover rounded"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <Link
+                      to={`/title/${entry.mediaType}/${entry.tmdbId}`}
+                      className="text-lg font-bold text-white hover:text-primary truncate block"
+                    >
+                      {entry.title}
+                    </Link>
+                    <p className="text-sm text-gray-400 truncate">
+                      {entry.genres.length ? entry.genres.join(", ") : "N/A"}
+                      {" · "}
+                      Rated {new Date(entry.ratedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <select
+                    aria-label={`Score for ${entry.title}`}
+                    className="select select-sm select-bordered"
+                    value={Math.round(entry.rating)}
+                    disabled={pendingId === entry.id}
+                    onChange={(event) =>
+                      handleScoreChange(entry, Number(event.target.value))
+                    }
+                  >
+                    {RATING_SCORES.map((score) => (
+                      <option key={score} value={score}>
+                        {score}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleRemove(entry)}
+                    disabled={pendingId === entry.id}
+                    className="btn btn-sm btn-error"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </div>
+      <Footer />
+    </>
+  );
+};
+
+export default RatingsPage;
@@ -29,8 +29,9 @@
  *   - Displays detailed error messages for invalid input or backend failures.
  *   - Prevents submission if validation fails.
  * - **User Feedback**:
- *   - Success and error messages are displayed in a modal for clarity.
- *   - Redirects the user to `/dashboard/:userId` on successful registration.
+ *   - Error messages are displayed in a modal for clarity.
+ *   - Sends the user to the onboarding wizard (`/onboarding`) on successful registration, which
+ *     seeds their taste profile before the dashboard.
  * - **Responsive Design**:
  *   - Optimized for a variety of screen sizes using TailwindCSS and DaisyUI.
  * - **Future Extensibility**:
@@ -41,7 +42,9 @@
  * 1. User inputs their name, email, password, and confirm password.
  * 2. Client-side validation ensures the data meets all requirements.
  * 3. Data is sent to the backend using the `authService.register` function.
- * 4. On success, a JWT token is stored, and the user is redirected to their dashboard.
+ * 4. On success, a JWT token is stored, and the user is redirected to `/onboarding`. This happens
+ *    before `PublicRoute` reacts to the new session, which would otherwise send them straight to
+ *    the dashboard.
  * 5. On failure, appropriate error messages are displayed in a modal.
  *
  * Dependencies:
@@ -67,15 +70,7 @@ const Register = () => {
   });
   const [modalMessage, setModalMessage] = useState<string | null>(null);
 
-  const handleCloseModal = () => {
-    setModalMessage(null);
-    if (modalMessage === "User registered successfully!") {
-      const userProfile = authService.getProfile();
-      if (userProfile) {
-        navigate(`/dashboard/${userProfile.id}`);
-      }
-    }
-  };
+  const handleCloseModal = () => setModalMessage(null);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
@@ -117,9 +112,9 @@ const Register = () => {
       const { name, email, password } = formData;
       const result = await authService.register({ name, email, password });
 
+      // authService.register has already stored the session
       if (result.token) {
-        localStorage.setItem("jwtToken", result.token);
-        setModalMessage("User registered successfully!");
+        navigate("/onboarding", { replace: true });
       } else {
         setModalMessage(
           result.message || "An error occurred during registration.",
@@ -0,0 +1,158 @@
+/**
+ * ResetPassword Component
+ *
+ * The page opened from a password reset email (`/reset-password?token=...`). The user picks a
+ * new password, which the backend accepts once per emailed link.
+ *
+ * Key Backend Integration:
+ * - `POST /api/auth/reset-password` through `authService.resetPassword`. A successful reset ends
+ *   every existing session of the account, so the user logs in again afterwards.
+ *
+ * Features:
+ * - Checks the new password and its confirmation with `validateNewPassword` before sending.
+ * - Without a token in the URL, or once the server rejects it (used or expired), links back to
+ *   `/forgot-password` for a new email.
+ * - On success, replaces the form with a link to the login page.
+ *
+ * Routing:
+ * - Not wrapped in `PublicRoute`, so the link works even in a browser that is still logged in.
+ */
+
+import React, { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import authService from "../services/authService";
+import { validateNewPassword } from "../utils/passwords";
+import Navbar from "../components/Navbar";
+import Footer from "../components/Footer";
+
+const ResetPassword = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const [formData, setFormData] = useState({
+    password: "",
+    confirmPassword: "",
+  });
+  const [error, setError] = useState<string | null>(
+    token ? null : "This reset link is missing its token.",
+  );
+  // Set once the server refuses the token; only a new email can help then
+  const [isLinkRejected, setIsLinkRejected] = useState(!token);
+  const [isDone, setIsDone] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData({ ...formData, [name]: value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const validationError = validateNewPassword(
+      formData.password,
+      formData.confirmPassword,
+    );
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      await authService.resetPassword(token, formData.password);
+      setIsDone(true);
+    } catch (resetError) {
+      setError((resetError as Error).message || "Failed to reset password.");
+      setIsLinkRejected(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-neutral">
+      <Navbar />
+      <main className="flex-grow flex items-center justify-center px-4 sm:px-6 lg:px-8">
+        <div className="max-w-lg w-full bg-gray-800 text-white p-8 rounded-lg shadow-lg mt-16 md:mt-24">
+          <h2 className="text-3xl font-bold mb-6 text-center">
+            Choose a New Password
+          </h2>
+          {isDone ? (
+            <div className="space-y-6 text-center">
+              <p className="text-gray-300">
+                Your password has been reset. You've been signed out everywhere
+                else.
+              </p>
+              <Link to="/login" className="btn btn-primary w-full">
+                Log In
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              {error && (
+                <div
+                  className="alert alert-error flex-col items-start"
+                  role="alert"
+                >
+                  <span>{error}</span>
+                  {isLinkRejected && (
+                    <Link to="/forgot-password" className="underline">
+                      Request a new link
+                    </Link>
+                  )}
+                </div>
+              )}
+              <div>
+                <label
+                  className="block text-sm font-medium mb-1"
+                  htmlFor="password"
+                >
+                  New Password
+                </label>
+                <input
+                  type="password"
+                  id="password"
+                  name="password"
+                  autoComplete="new-password"
+                  value={formData.password}
+                  onChange={handleChange}
+                  placeholder="At least 6 characters"
+                  className="input input-bordered w-full"
+                />
+              </div>
+              <div>
+                <label
+                  className="block text-sm font-medium mb-1"
+                  htmlFor="confirmPassword"
+                >
+                  Confirm Password
+                </label>
+                <input
+                  type="password"
+                  id="confirmPassword"
+                  name="confirmPassword"
+                  autoComplete="new-password"
+                  value={formData.confirmPassword}
+                  onChange={handleChange}
+                  placeholder="Repeat the new password"
+                  className="input input-bordered w-full"
+                />
+              </div>
+              <button
+                type="submit"
+                className="btn btn-primary w-full"
+                disabled={isLoading || !token}
+              >
+                {isLoading ? "Saving..." : "Reset Password"}
+              </button>
+            </form>
+          )}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default ResetPassword;
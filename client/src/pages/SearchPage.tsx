@@ -0,0 +1,381 @@
+/**
+ * SearchPage Component
+ *
+ * Shows the full TMDb multi-search results for the `q` query parameter, grouped into movies,
+ * TV shows and people (the same `media_type` union as `TrendingItem`). Movie and TV cards offer
+ * the same actions as the dashboard sections: favorite, watchlist, details and rating.
+ *
+ * Key Features:
+ * - **URL-Driven State**:
+ *   - `/dashboard/:userId/search?q=<query>&page=<n>`, so searches can be bookmarked and the
+ *     browser's back button walks through result pages.
+ * - **Grouped Results**:
+ *   - Movies, TV shows and people are rendered as separate grids; empty groups are hidden.
+ *   - People show their profile photo and department and only support "Details".
+ *   - The details modal links to the full title or person page.
+ * - **Card Actions**:
+ *   - Favorites and watchlist changes go through `handleFavorites` / `handleWatchlist` and the
+ *     shared `useFavorites` / `useWatchlist` cache, so the dashboard reflects them immediately.
+ * - **Pagination**:
+ *   - Previous/Next buttons step through TMDb's result pages.
+ *
+ * Dependencies:
+ * - `useSearch`, `useGenreMaps`, `useFavorites`, `useWatchlist` from `hooks/useApiQueries`.
+ * - `Rating` for the rating modal; `DashboardNavbar` and `Footer` for layout.
+ */
+
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import DashboardNavbar from "../components/DashboardNavbar";
+import Footer from "../components/Footer";
+import Rating from "../components/Rating";
+import fallbackImage from "../assets/images/fallback-image.jpg";
+import {
+  useFavorites,
+  useGenreMaps,
+  useSearch,
+  useWatchlist,
+} from "../hooks/useApiQueries";
+import { handleFavorites } from "../utils/favoritesHandler";
+import { handleWatchlist } from "../utils/watchlistHandler";
+import { recordView } from "../utils/viewHistory";
+import { FavoriteItem, SearchResult } from "../types";
+
+const SearchPage = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q")?.trim() || "";
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+
+  const { data, isLoading, error } = useSearch(query, page);
+  const { movieGenres, tvGenres } = useGenreMaps();
+  const { data: favorites, setData: setFavorites } = useFavorites();
+  const { data: watchlist, setData: setWatchlist } = useWatchlist();
+
+  const [modalMessage, setModalMessage] = useState<string | null>(null);
+  const [detailsModalItem, setDetailsModalItem] = useState<SearchResult | null>(
+    null,
+  );
+  const [ratingItem, setRatingItem] = useState<SearchResult | null>(null);
+
+  // Opening the details modal counts as viewing the title
+  const openDetails = (item: SearchResult) => {
+    setDetailsModalItem(item);
+    recordView(item.media_type, item);
+  };
+
+  const results = data?.results ?? [];
+  const movies = results.filter((item) => item.media_type === "movie");
+  const tvShows = results.filter((item) => item.media_type === "tv");
+  const people = results.filter((item) => item.media_type === "person");
+
+  const goToPage = (nextPage: number) => {
+    setSearchParams({ q: query, page: nextPage.toString() });
+  };
+
+  const genreNames = (item: SearchResult) =>
+    item.genre_ids
+      ?.map((id) => movieGenres[id] || tvGenres[id] || "Unknown")
+      .join(", ") || "Genre: N/A";
+
+  const handleFavoriteAction = (
+    item: SearchResult,
+    favoriteEntry: FavoriteItem | undefined,
+  ) => {
+    if (item.media_type === "person") return;
+
+    handleFavorites(
+      favoriteEntry ? "remove" : "add",
+      favoriteEntry || {
+        id: item.id,
+        tmdbId: item.id,
+        mediaType: item.media_type,
+        title: item.title,
+        name: item.name,
+        genre_ids: item.genre_ids,
+        poster_path: item.poster_path,
+        overview: item.overview,
+      },
+      setFavorites,
+      setModalMessage,
+      {},
+      { movieGenres, tvGenres },
+    );
+  };
+
+  const handleWatchlistAction = (item: SearchResult) => {
+    if (item.media_type === "person") return;
+
+    const watchlistEntry = watchlist.find(
+      (entry) =>
+        entry.tmdbId === item.id.toString() &&
+        entry.mediaType === item.media_type,
+    );
+    handleWatchlist(
+      watchlistEntry ? "remove" : "add",
+      watchlistEntry || {
+        tmdbId: item.id.toString(),
+        mediaType: item.media_type,
+      },
+      setWatchlist,
+      setModalMessage,
+    );
+  };
+
+  const renderCard = (item: SearchResult) => {
+    const isPerson = item.media_type === "person";
+    const imagePath = isPerson ? item.profile_path : item.poster_path;
+    const favoriteEntry = favorites.find(
+      (fav) =>
+        String(fav.tmdbId) === item.id.toString() &&
+        fav.mediaType === item.media_type,
+    );
+    const inWatchlist = watchlist.some(
+      (entry) =>
+        entry.tmdbId === item.id.toString() &&
+        entry.mediaType === item.media_type,
+    );
+
+    return (
+      <div
+        key={`${item.media_type}-${item.id}`}
+        className="relative bg-base-100 shadow-lg rounded-lg transition-transform transform hover:scale-105 hover:shadow-2xl hover:border-primary border-transparent border-2"
+      >
+        <figure>
+          <img
+            src={
+              imagePath
+                ? `https://image.tmdb.org/t/p/w500${imagePath}`
+                : fallbackImage
+            }
+            alt={item.title || item.name}
+            className="rounded-t-lg w-full h-72 object-cover"
+          />
+        </figure>
+        <div className="p-4">
+          <h4 className="text-lg font-bold text-white truncate">
+            {item.title || item.name}
+          </h4>
+          <p className="text-gray-400 text-sm">
+            {isPerson
+              ? item.known_for_department || "Person"
+              : genreNames(item)}
+          </p>
+        </div>
+
+        <div className="absolute top-2 right-2">
+          <div className="dropdown dropdown-end">
+            <label
+              tabIndex={0}
+              className="btn btn-sm btn-circle bg-primary text-white shadow-lg hover:bg-primary-focus transition-all"
+            >
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                className="h-5 w-5"
+                fill="none"
+                viewBox="0 0 24 24"
+                stroke="currentColor"
+              >
+                <circle cx="12" cy="6" r="1.5" />
+                <circle cx="12" cy="12" r="1.5" />
+                <circle cx="12" cy="18" r="1.5" />
+              </svg>
+            </label>
+            <ul
+              tabIndex={0}
+              className="dropdown-content menu p-2 shadow bg-gray-900 text-white rounded-box w-44"
+            >
+              {!isPerson && (
+                <>
+                  <li>
+                    <button
+                      onClick={() => handleFavoriteAction(item, favoriteEntry)}
+                      className="hover:bg-primary hover:text-white transition-all px-2 py-1 rounded-md"
+                    >
+                      {favoriteEntry
+                        ? "Remove from Favorites"
+                        : "Add to Favorites"}
+                    </button>
+                  </li>
+                  <li>
+                    <button
+                      onClick={() => handleWatchlistAction(item)}
+                      className="hover:bg-primary hover:text-white transition-all px-2 py-1 rounded-md"
+                    >
+                      {inWatchlist
+                        ? "Remove from Watchlist"
+                        : "Add to Watchlist"}
+                    </button>
+                  </li>
+                </>
+              )}
+              <li>
+                <button
+                  className="hover:bg-primary hover:text-white transition-all px-2 py-1 rounded-md"
+                  onClick={() => openDetails(item)}
+                >
+                  Details
+                </button>
+              </li>
+              {!isPerson && (
+                <li>
+                  <button
+                    className="hover:bg-primary hover:text-white transition-all px-2 py-1 rounded-md"
+                    onClick={() => setRatingItem(item)}
+                  >
+                    Rate
+                  </button>
+                </li>
+              )}
+            </ul>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderGroup = (title: string, items: SearchResult[]) => {
+    if (items.length === 0) return null;
+
+    return (
+      <section className="py-6">
+        <h3 className="text-2xl font-bold mb-4 text-white">{title}</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+          {items.map(renderCard)}
+        </div>
+      </section>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral text-gray-200">
+      <DashboardNavbar />
+      <main className="container mx-auto px-6 py-10">
+        <h2 className="text-3xl font-bold text-left mb-6 text-white">
+          {query ? `Results for "${query}"` : "Search"}
+        </h2>
+
+        {!query && (
+          <p className="text-gray-400">
+            Type a title or name in the search bar to get started.
+          </p>
+        )}
+        {query && isLoading && <p className="text-gray-400">Searching...</p>}
+        {query && !!error && (
+          <p className="text-red-500">
+            {(error as Error).message || "Failed to fetch search results."}
+          </p>
+        )}
+        {query && data && results.length === 0 && (
+          <p className="text-gray-400">No results found.</p>
+        )}
+
+        {renderGroup("Movies", movies)}
+        {renderGroup("TV Shows", tvShows)}
+        {renderGroup("People", people)}
+
+        {data && data.total_pages > 1 && (
+          <div className="flex justify-center items-center gap-4 py-6">
+            <button
+              className="btn btn-sm"
+              disabled={page <= 1}
+              onClick={() => goToPage(page - 1)}
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-400">
+              Page {data.page} of {data.total_pages}
+            </span>
+            <button
+              className="btn btn-sm"
+              disabled={page >= data.total_pages}
+              onClick={() => goToPage(page + 1)}
+            >
+              Next
+            </button>
+          </div>
+        )}
+
+        {modalMessage && (
+          <div className="modal modal-open">
+            <div className="modal-box">
+              <p>{modalMessage}</p>
+              <div className="modal-action">
+                <button className="btn" onClick={() => setModalMessage(null)}>
+                  OK
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {detailsModalItem && (
+          <div className="modal modal-open">
+            <div className="modal-box relative">
+              <button
+                className="btn btn-sm btn-circle absolute right-2 top-2"
+                onClick={() => setDetailsModalItem(null)}
+              >
+                ✕
+              </button>
+              <h3 className="font-bold text-lg text-white">
+                {detailsModalItem.title || detailsModalItem.name}
+              </h3>
+              <p className="py-2 text-gray-400">
+                {detailsModalItem.media_type === "person"
+                  ? `Known for: ${detailsModalItem.known_for_department || "N/A"}`
+                  : detailsModalItem.overview || "No description available."}
+              </p>
+              {detailsModalItem.media_type !== "person" && (
+                <p className="py-1 text-sm text-gray-500">
+                  <strong>Genres:</strong> {genreNames(detailsModalItem)}
+                </p>
+              )}
+              <div className="modal-action">
+                <Link
+                  to={
+                    detailsModalItem.media_type === "person"
+                      ? `/person/${detailsModalItem.id}`
+                      : `/title/${detailsModalItem.media_type}/${detailsModalItem.id}`
+                  }
+                  className="btn btn-ghost"
+                >
+                  Full details
+                </Link>
+                <button
+                  className="btn btn-primary"
+                  onClick={() => setDetailsModalItem(null)}
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {ratingItem && (
+          <div className="modal modal-open">
+            <div className="modal-box relative">
+              <button
+                className="btn btn-sm btn-circle absolute right-2 top-2"
+                onClick={() => setRatingItem(null)}
+              >
+                ✕
+              </button>
+              <h3 className="font-bold text-lg text-white">
+                Rate: {ratingItem.title || ratingItem.name}
+              </h3>
+              <Rating
+                tmdbId={ratingItem.id.toString()}
+                mediaType={ratingItem.media_type === "tv" ? "tv" : "movie"}
+                onRatingChange={() => setRatingItem(null)}
+              />
+            </div>
+          </div>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default SearchPage;
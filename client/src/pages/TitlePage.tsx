@@ -0,0 +1,455 @@
+/**
+ * TitlePage Component
+ *
+ * A full details page for one movie or TV show, reachable at `/title/:mediaType/:tmdbId`. The
+ * URL carries everything needed to render it, so a link copied from one account opens the same
+ * page for any other signed-in teammate.
+ *
+ * Key Features:
+ * - **Metadata**:
+ *   - Backdrop, poster, tagline, overview, release date, runtime, status, genres and TMDb score,
+ *     all from one cached `/api/title/:mediaType/:id` request (`useTitle`).
+ * - **Credits**:
+ *   - Top-billed cast with characters, plus key crew (directors, writers, creators, composers).
+ *   - Each person links to their person page.
+ * - **Videos**:
+ *   - The first YouTube trailer is embedded; other trailers and teasers are listed as links.
+ * - **Where to Watch**:
+ *   - Streaming, rental and purchase providers for the server's default region, linking to
+ *     TMDb's provider page when available.
+ * - **Similar Titles**:
+ *   - Poster grid linking to each title's own page.
+ * - **Episode Progress** (TV only):
+ *   - `EpisodeProgress` tracks watched episodes, the completion percent and the next episode.
+ * - **Actions**:
+ *   - Favorite and watchlist toggles share the dashboard's cached lists (`useFavorites`,
+ *     `useWatchlist`), rating uses the `Rating` component, and "Share" copies the page URL.
+ * - **History**:
+ *   - Opening the page records a "viewed" event for the dashboard's "Recently Viewed" row.
+ *
+ * Error Handling:
+ * - Unknown media types render a not-found message without requesting anything.
+ * - API failures (including 404 for unknown IDs) show the `ApiError` message.
+ */
+
+import { useEffect, useRef, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import DashboardNavbar from "../components/DashboardNavbar";
+import EpisodeProgress from "../components/EpisodeProgress";
+import Footer from "../components/Footer";
+import Rating from "../components/Rating";
+import fallbackImage from "../assets/images/fallback-image.jpg";
+import {
+  useFavorites,
+  useGenreMaps,
+  useTitle,
+  useWatchlist,
+} from "../hooks/useApiQueries";
+import { showToast } from "../services/toastService";
+import { handleFavorites } from "../utils/favoritesHandler";
+import { handleWatchlist } from "../utils/watchlistHandler";
+import { recordView } from "../utils/viewHistory";
+import { TitleCredit, TitleDetails, WatchProvider } from "../types";
+
+const IMAGE_BASE_URL = "https://image.tmdb.org/t/p";
+
+const formatRuntime = (minutes: number) =>
+  minutes >= 60
+    ? `${Math.floor(minutes / 60)}h ${minutes % 60}m`
+    : `${minutes}m`;
+
+const TitlePage = () => {
+  const params = useParams<{ mediaType: string; tmdbId: string }>();
+  const mediaType = params.mediaType === "tv" ? "tv" : "movie";
+  const isValidType = params.mediaType === "movie" || params.mediaType === "tv";
+  const tmdbId = params.tmdbId || "";
+
+  return isValidType ? (
+    <TitleView
+      key={`${mediaType}-${tmdbId}`}
+      mediaType={mediaType}
+      tmdbId={tmdbId}
+    />
+  ) : (
+    <div className="min-h-screen bg-neutral text-gray-200">
+      <DashboardNavbar />
+      <main className="container mx-auto px-6 py-10">
+        <p className="text-gray-400">Title not found.</p>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+interface TitleViewProps {
+  mediaType: TitleDetails["mediaType"];
+  tmdbId: string;
+}
+
+const TitleView: React.FC<TitleViewProps> = ({ mediaType, tmdbId }) => {
+  const { data: title, isLoading, error } = useTitle(mediaType, tmdbId);
+  const { movieGenres, tvGenres } = useGenreMaps();
+  const { data: favorites, setData: setFavorites } = useFavorites();
+  const { data: watchlist, setData: setWatchlist } = useWatchlist();
+  const [modalMessage, setModalMessage] = useState<string | null>(null);
+
+  // Opening a similar title remounts this view; start it at the top like a new page
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, []);
+
+  // Record the visit in the viewing history once the title has loaded
+  const recordedRef = useRef(false);
+  useEffect(() => {
+    if (!title || recordedRef.current) return;
+    recordedRef.current = true;
+    recordView(mediaType, {
+      id: title.id,
+      title: title.title,
+      poster_path: title.poster_path,
+    });
+  }, [title, mediaType]);
+
+  const favoriteEntry = favorites.find(
+    (fav) => String(fav.tmdbId) === tmdbId && fav.mediaType === mediaType,
+  );
+  const watchlistEntry = watchlist.find(
+    (entry) => entry.tmdbId === tmdbId && entry.mediaType === mediaType,
+  );
+
+  const handleFavoriteAction = (details: TitleDetails) => {
+    handleFavorites(
+      favoriteEntry ? "remove" : "add",
+      favoriteEntry || {
+        id: details.id,
+        tmdbId: details.id,
+        mediaType,
+        title: details.title,
+        genre_ids: details.genres.map((genre) => genre.id),
+        poster_path: details.poster_path || undefined,
+        overview: details.overview,
+      },
+      setFavorites,
+      setModalMessage,
+      {},
+      { movieGenres, tvGenres },
+    );
+  };
+
+  const handleWatchlistAction = () => {
+    handleWatchlist(
+      watchlistEntry ? "remove" : "add",
+      watchlistEntry || { tmdbId, mediaType },
+      setWatchlist,
+      setModalMessage,
+    );
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      showToast("Link copied to clipboard.", "success");
+    } catch {
+      showToast("Could not copy the link.", "error");
+    }
+  };
+
+  const renderPersonCard = (person: TitleCredit, subtitle?: string) => (
+    <Link
+      key={`${person.id}-${subtitle}`}
+      to={`/person/${person.id}`}
+      className="flex-shrink-0 w-32 bg-base-100 rounded-lg shadow-lg transition-transform transform hover:scale-105"
+    >
+      <img
+        src={
+          person.profile_path
+            ? `${IMAGE_BASE_URL}/w185${person.profile_path}`
+            : fallbackImage
+        }
+        alt={person.name}
+        className="rounded-t-lg w-full h-40 object-cover"
+      />
+      <div className="p-2">
+        <p className="text-sm font-bold text-white truncate">{person.name}</p>
+        {subtitle && (
+          <p className="text-xs text-gray-400 truncate">{subtitle}</p>
+        )}
+      </div>
+    </Link>
+  );
+
+  const renderProviders = (label: string, providers: WatchProvider[]) =>
+    providers.length > 0 && (
+      <div className="mb-3">
+        <p className="text-sm text-gray-400 mb-2">{label}</p>
+        <div className="flex flex-wrap gap-2">
+          {providers.map((provider) => (
+            <img
+              key={provider.id}
+              src={`${IMAGE_BASE_URL}/w92${provider.logo_path}`}
+              alt={provider.name}
+              title={provider.name}
+              className="w-12 h-12 rounded-lg"
+            />
+          ))}
+        </div>
+      </div>
+    );
+
+  const renderDetails = (details: TitleDetails) => {
+    const { watchProviders } = details;
+    const hasProviders =
+      watchProviders.flatrate.length > 0 ||
+      watchProviders.rent.length > 0 ||
+      watchProviders.buy.length > 0;
+    const [trailer, ...otherVideos] = details.videos;
+    const facts = [
+      details.releaseDate?.slice(0, 4),
+      details.runtime &&
+        `${formatRuntime(details.runtime)}${mediaType === "tv" ? " per episode" : ""}`,
+      details.numberOfSeasons &&
+        `${details.numberOfSeasons} season${details.numberOfSeasons === 1 ? "" : "s"}`,
+      details.status,
+    ].filter(Boolean);
+
+    return (
+      <>
+        <section
+          className="relative bg-cover bg-center"
+          style={
+            details.backdrop_path
+              ? {
+                  backgroundImage: `url(${IMAGE_BASE_URL}/original${details.backdrop_path})`,
+                }
+              : undefined
+          }
+        >
+          <div className="bg-black bg-opacity-75">
+            <div className="container mx-auto px-6 py-10 flex flex-col md:flex-row gap-8">
+              <img
+                src={
+                  details.poster_path
+                    ? `${IMAGE_BASE_URL}/w500${details.poster_path}`
+                    : fallbackImage
+                }
+                alt={details.title}
+                className="w-64 rounded-lg shadow-2xl self-center md:self-start"
+              />
+              <div className="flex-1">
+                <h2 className="text-4xl font-bold text-white">
+                  {details.title}
+                </h2>
+                {details.tagline && (
+                  <p className="italic text-gray-400 mt-1">{details.tagline}</p>
+                )}
+                <p className="text-gray-300 mt-3">{facts.join(" • ")}</p>
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {details.genres.map((genre) => (
+                    <span key={genre.id} className="badge badge-outline">
+                      {genre.name}
+                    </span>
+                  ))}
+                </div>
+                {details.vote_average !== null && details.vote_count > 0 && (
+                  <p className="mt-3 text-gray-300">
+                    <strong className="text-white">
+                      {details.vote_average.toFixed(1)}
+                    </strong>{" "}
+                    / 10 from {details.vote_count.toLocaleString()} votes
+                  </p>
+                )}
+                <p className="mt-4 text-gray-200 max-w-3xl">
+                  {details.overview || "No description available."}
+                </p>
+
+                <div className="flex flex-wrap gap-3 mt-6">
+                  <button
+                    className="btn btn-primary"
+                    onClick={() => handleFavoriteAction(details)}
+                  >
+                    {favoriteEntry
+                      ? "Remove from Favorites"
+                      : "Add to Favorites"}
+                  </button>
+                  <button
+                    className="btn btn-secondary"
+                    onClick={handleWatchlistAction}
+                  >
+                    {watchlistEntry
+                      ? "Remove from Watchlist"
+                      : "Add to Watchlist"}
+                  </button>
+                  <button className="btn btn-ghost" onClick={handleShare}>
+                    Share
+                  </button>
+                </div>
+                <div className="mt-4">
+                  <p className="text-sm text-gray-400">Your rating</p>
+                  <Rating tmdbId={tmdbId} mediaType={mediaType} />
+                </div>
+              </div>
+            </div>
+          </div>
+        </section>
+
+        <div className="container mx-auto px-6 py-10 space-y-10">
+          {mediaType === "tv" && (
+            <section>
+              <h3 className="text-2xl font-bold mb-4 text-white">
+                Your Progress
+              </h3>
+              <EpisodeProgress tmdbId={tmdbId} />
+            </section>
+          )}
+
+          {details.cast.length > 0 && (
+            <section>
+              <h3 className="text-2xl font-bold mb-4 text-white">Cast</h3>
+              <div className="flex overflow-x-auto space-x-4 pb-2">
+                {details.cast.map((member) =>
+                  renderPersonCard(member, member.character),
+                )}
+              </div>
+            </section>
+          )}
+
+          {details.crew.length > 0 && (
+            <section>
+              <h3 className="text-2xl font-bold mb-4 text-white">Crew</h3>
+              <div className="flex overflow-x-auto space-x-4 pb-2">
+                {details.crew.map((member) =>
+                  renderPersonCard(member, member.job),
+                )}
+              </div>
+            </section>
+          )}
+
+          {trailer && (
+            <section>
+              <h3 className="text-2xl font-bold mb-4 text-white">Videos</h3>
+              <div className="aspect-video max-w-3xl">
+                <iframe
+                  src={`https://www.youtube.com/embed/${trailer.key}`}
+                  title={trailer.name}
+                  className="w-full h-full rounded-lg"
+                  allowFullScreen
+                />
+              </div>
+              {otherVideos.length > 0 && (
+                <ul className="mt-4 space-y-1">
+                  {otherVideos.map((video) => (
+                    <li key={video.key}>
+                      <a
+                        href={`https://www.youtube.com/watch?v=${video.key}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="link link-primary"
+                      >
+                        {video.name}
+                      </a>{" "}
+                      <span className="text-gray-500 text-sm">
+                        ({video.type})
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          )}
+
+          <section>
+            <h3 className="text-2xl font-bold mb-4 text-white">
+              Where to Watch ({watchProviders.region})
+            </h3>
+            {hasProviders ? (
+              <>
+                {renderProviders("Stream", watchProviders.flatrate)}
+                {renderProviders("Rent", watchProviders.rent)}
+                {renderProviders("Buy", watchProviders.buy)}
+                {watchProviders.link && (
+                  <a
+                    href={watchProviders.link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="link link-primary text-sm"
+                  >
+                    All viewing options on TMDb
+                  </a>
+                )}
+              </>
+            ) : (
+              <p className="text-gray-400">
+                No streaming, rental or purchase options listed.
+              </p>
+            )}
+          </section>
+
+          {details.similar.length > 0 && (
+            <section>
+              <h3 className="text-2xl font-bold mb-4 text-white">
+                Similar {mediaType === "movie" ? "Movies" : "TV Shows"}
+              </h3>
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 gap-4">
+                {details.similar.map((item) => (
+                  <Link
+                    key={item.id}
+                    to={`/title/${mediaType}/${item.id}`}
+                    className="bg-base-100 rounded-lg shadow-lg transition-transform transform hover:scale-105"
+                  >
+                    <img
+                      src={
+                        item.poster_path
+                          ? `${IMAGE_BASE_URL}/w342${item.poster_path}`
+                          : fallbackImage
+                      }
+                      alt={item.title || item.name}
+                      className="rounded-t-lg w-full h-56 object-cover"
+                    />
+                    <p className="p-2 text-sm font-bold text-white truncate">
+                      {item.title || item.name}
+                    </p>
+                  </Link>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-neutral text-gray-200">
+      <DashboardNavbar />
+      <main>
+        {isLoading && (
+          <p className="container mx-auto px-6 py-10 text-gray-400">
+            Loading title...
+          </p>
+        )}
+        {!!error && (
+          <p className="container mx-auto px-6 py-10 text-red-500">
+            {(error as Error).message || "Failed to fetch title details."}
+          </p>
+        )}
+        {title && renderDetails(title)}
+
+        {modalMessage && (
+          <div className="modal modal-open">
+            <div className="modal-box">
+              <p>{modalMessage}</p>
+              <div className="modal-action">
+                <button className="btn" onClick={() => setModalMessage(null)}>
+                  OK
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default TitlePage;
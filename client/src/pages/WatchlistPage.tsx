@@ -0,0 +1,132 @@
+/**
+ * WatchlistPage Component
+ *
+ * This component displays and manages the authenticated user's watchlist: the movies and
+ * TV shows they plan to watch. It mirrors `FavoritesPage`, fetching items from the backend
+ * and letting the user remove entries with immediate local updates.
+ *
+ * Key Backend Integration:
+ * - **REST API Endpoints**:
+ *   - `GET /api/watchlist`: Returns the user's watchlist, enriched with TMDb title, poster and genres.
+ *   - `DELETE /api/watchlist/:id`: Removes an entry by its database ID.
+ *   - Endpoints are secured with JWT-based authentication middleware (`authMiddleware.js`).
+ *
+ * Features:
+ * - **Fetch and Display Watchlist**:
+ *   - Retrieves the user's watchlist upon component mount.
+ *   - Categorizes entries into movies and TV shows.
+ * - **Remove from Watchlist**:
+ *   - Delegates to `handleWatchlist`, which updates the `watchlist` state on success.
+ * - **Error Handling**:
+ *   - Displays feedback for authentication failures or backend errors.
+ *
+ * Dependencies:
+ * - `useWatchlist`: Reads the watchlist through the shared query cache (`api.watchlist.list()`).
+ * - `handleWatchlist`: Shared utility for watchlist mutations.
+ * - `DashboardNavbar` and `Footer`: Global navigation elements for consistent design.
+ */
+
+import { useState } from "react";
+import { useWatchlist } from "../hooks/useApiQueries";
+import DashboardNavbar from "../components/DashboardNavbar";
+import Footer from "../components/Footer";
+import fallbackImage from "../assets/images/fallback-image.jpg";
+import { handleWatchlist } from "../utils/watchlistHandler";
+import { WatchlistItem } from "../types";
+
+const WatchlistPage = () => {
+  const {
+    data: watchlist,
+    setData: setWatchlist,
+    isLoading: loading,
+    error: fetchError,
+  } = useWatchlist();
+  const [message, setMessage] = useState<string | null>(null);
+  const error = fetchError
+    ? (fetchError as Error).message || "An unknown error occurred."
+    : null;
+
+  const handleRemove = (item: WatchlistItem) => {
+    handleWatchlist("remove", item, setWatchlist, setMessage);
+  };
+
+  const watchlistMovies = watchlist.filter(
+    (item) => item.mediaType === "movie",
+  );
+  const watchlistTVShows = watchlist.filter((item) => item.mediaType === "tv");
+
+  const renderGroup = (title: string, items: WatchlistItem[]) => {
+    if (items.length === 0) return null;
+
+    return (
+      <section className="py-6">
+        <h3 className="text-2xl font-bold mb-4 text-white">{title}</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+          {items.map((item) => (
+            <div
+              key={item.id}
+              className="relative bg-base-100 shadow-lg rounded-lg transition-transform transform hover:scale-105 hover:shadow-2xl hover:border-primary border-transparent border-2"
+            >
+              <figure>
+                <img
+                  src={
+                    item.poster_path
+                      ? `https://image.tmdb.org/t/p/w500${item.poster_path}`
+                      : fallbackImage
+                  }
+                  alt={item.title}
+                  className="rounded-t-lg w-full h-72 object-cover"
+                />
+              </figure>
+              <div className="p-4">
+                <h3 className="text-lg font-bold text-white truncate">
+                  {item.title}
+                </h3>
+                <p className="text-gray-400 text-sm">
+                  {item.genres.length
+                    ? `Genre: ${item.genres.join(", ")}`
+                    : "Genre: N/A"}
+                </p>
+              </div>
+              <button
+                onClick={() => handleRemove(item)}
+                className="absolute top-2 right-2 bg-red-500 text-white rounded-full p-2 hover:bg-red-700 transition-all"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      </section>
+    );
+  };
+
+  if (loading) return <p>Loading watchlist...</p>;
+  if (error) return <p>{error}</p>;
+
+  return (
+    <>
+      <DashboardNavbar />
+      <div className="container mx-auto py-6 px-6">
+        <h2 className="text-3xl font-bold text-left mb-6 text-white">
+          Your Watchlist
+        </h2>
+        {message && <p className="text-sm text-gray-400 mb-4">{message}</p>}
+        {watchlist.length === 0 ? (
+          <p className="text-gray-400">
+            Your watchlist is empty. Use "Add to Watchlist" on any movie or TV
+            show from your dashboard.
+          </p>
+        ) : (
+          <>
+            {renderGroup("Movies to Watch", watchlistMovies)}
+            {renderGroup("TV Shows to Watch", watchlistTVShows)}
+          </>
+        )}
+      </div>
+      <Footer />
+    </>
+  );
+};
+
+export default WatchlistPage;
@@ -0,0 +1,257 @@
+/**
+ * Admin API
+ *
+ * Typed wrappers for the admin-only GraphQL operations behind the admin console (`/admin`).
+ * Every operation runs through `graphql` from `apiClient`, so the JWT is attached and refreshed
+ * the same way as the rest of the app; the server rejects non-admin tokens with `FORBIDDEN`.
+ *
+ * Groups:
+ * - `users`: Paginated search, enabling/disabling and deleting accounts.
+ * - `content`: Paginated catalog listing, create, edit, soft-delete and restore.
+ * - `recommendations`: Paginated listing, manual recommendations and reason edits.
+ *
+ * Lists take a 1-based `page` and return an `AdminPage` with `total` and `pages` counts.
+ */
+
+import { graphql } from "./apiClient";
+import {
+  AdminPage,
+  AdminRecommendation,
+  AdminUser,
+  CatalogContent,
+  ContentInput,
+  RecommendationStatus,
+} from "../types";
+
+export const ADMIN_PAGE_SIZE = 20;
+
+const USER_FIELDS = `
+  id
+  name
+  email
+  role
+  disabled
+  createdAt
+`;
+
+const CONTENT_FIELDS = `
+  id
+  title
+  slug
+  genre
+  rating
+  metadata {
+    externalId
+    mediaType
+    runtime
+    description
+  }
+  isDeleted
+  updatedAt
+`;
+
+const RECOMMENDATION_FIELDS = `
+  id
+  reason
+  status
+  createdAt
+  context {
+    algorithm
+    score
+  }
+  user {
+    id
+    name
+    email
+  }
+  content {
+    id
+    title
+  }
+`;
+
+const ADMIN_USERS = `
+  query AdminUsers($search: String, $page: Int, $limit: Int) {
+    adminUsers(search: $search, page: $page, limit: $limit) {
+      items { ${USER_FIELDS} }
+      total
+      page
+      pages
+    }
+  }
+`;
+
+const SET_USER_DISABLED = `
+  mutation SetUserDisabled($id: ID!, $disabled: Boolean!) {
+    setUserDisabled(id: $id, disabled: $disabled) { ${USER_FIELDS} }
+  }
+`;
+
+const DELETE_USER = `
+  mutation DeleteUser($id: ID!) {
+    deleteUser(id: $id)
+  }
+`;
+
+const ADMIN_CONTENT = `
+  query AdminContent(
+    $search: String
+    $includeDeleted: Boolean
+    $page: Int
+    $limit: Int
+  ) {
+    adminContent(
+      search: $search
+      includeDeleted: $includeDeleted
+      page: $page
+      limit: $limit
+    ) {
+      items { ${CONTENT_FIELDS} }
+      total
+      page
+      pages
+    }
+  }
+`;
+
+const CREATE_CONTENT = `
+  mutation CreateContent($input: ContentInput!) {
+    createContent(input: $input) { ${CONTENT_FIELDS} }
+  }
+`;
+
+const UPDATE_CONTENT = `
+  mutation UpdateContent($id: ID!, $input: UpdateContentInput!) {
+    updateContent(id: $id, input: $input) { ${CONTENT_FIELDS} }
+  }
+`;
+
+const DELETE_CONTENT = `
+  mutation DeleteContent($id: ID!) {
+    deleteContent(id: $id)
+  }
+`;
+
+const ADMIN_RECOMMENDATIONS = `
+  query AdminRecommendations(
+    $userId: ID
+    $status: RecommendationStatus
+    $page: Int
+    $limit: Int
+  ) {
+    adminRecommendations(
+      userId: $userId
+      status: $status
+      page: $page
+      limit: $limit
+    ) {
+      items { ${RECOMMENDATION_FIELDS} }
+      total
+      page
+      pages
+    }
+  }
+`;
+
+const CREATE_RECOMMENDATION = `
+  mutation CreateRecommendation(
+    $userId: ID!
+    $contentId: ID!
+    $reason: String!
+  ) {
+    createRecommendation(
+      userId: $userId
+      contentId: $contentId
+      reason: $reason
+    ) { ${RECOMMENDATION_FIELDS} }
+  }
+`;
+
+const UPDATE_RECOMMENDATION = `
+  mutation UpdateRecommendation($id: ID!, $reason: String!) {
+    updateRecommendation(id: $id, reason: $reason) { ${RECOMMENDATION_FIELDS} }
+  }
+`;
+
+const adminApi = {
+  users: {
+    list: async (search: string, page = 1, limit = ADMIN_PAGE_SIZE) =>
+      (
+        await graphql<{ adminUsers: AdminPage<AdminUser> }>(ADMIN_USERS, {
+          search,
+          page,
+          limit,
+        })
+      ).adminUsers,
+    setDisabled: async (id: string, disabled: boolean) =>
+      (
+        await graphql<{ setUserDisabled: AdminUser }>(SET_USER_DISABLED, {
+          id,
+          disabled,
+        })
+      ).setUserDisabled,
+    remove: async (id: string) =>
+      (await graphql<{ deleteUser: boolean }>(DELETE_USER, { id })).deleteUser,
+  },
+  content: {
+    list: async (
+      search: string,
+      includeDeleted: boolean,
+      page = 1,
+      limit = ADMIN_PAGE_SIZE,
+    ) =>
+      (
+        await graphql<{ adminContent: AdminPage<CatalogContent> }>(
+          ADMIN_CONTENT,
+          { search, includeDeleted, page, limit },
+        )
+      ).adminContent,
+    create: async (input: ContentInput) =>
+      (
+        await graphql<{ createContent: CatalogContent }>(CREATE_CONTENT, {
+          input,
+        })
+      ).createContent,
+    update: async (
+      id: string,
+      input: Partial<ContentInput> & { isDeleted?: boolean },
+    ) =>
+      (
+        await graphql<{ updateContent: CatalogContent }>(UPDATE_CONTENT, {
+          id,
+          input,
+        })
+      ).updateContent,
+    remove: async (id: string) =>
+      (await graphql<{ deleteContent: boolean }>(DELETE_CONTENT, { id }))
+        .deleteContent,
+  },
+  recommendations: {
+    list: async (
+      filters: { userId?: string; status?: RecommendationStatus },
+      page = 1,
+      limit = ADMIN_PAGE_SIZE,
+    ) =>
+      (
+        await graphql<{
+          adminRecommendations: AdminPage<AdminRecommendation>;
+        }>(ADMIN_RECOMMENDATIONS, { ...filters, page, limit })
+      ).adminRecommendations,
+    create: async (userId: string, contentId: string, reason: string) =>
+      (
+        await graphql<{ createRecommendation: AdminRecommendation }>(
+          CREATE_RECOMMENDATION,
+          { userId, contentId, reason },
+        )
+      ).createRecommendation,
+    updateReason: async (id: string, reason: string) =>
+      (
+        await graphql<{ updateRecommendation: AdminRecommendation }>(
+          UPDATE_RECOMMENDATION,
+          { id, reason },
+        )
+      ).updateRecommendation,
+  },
+};
+
+export default adminApi;
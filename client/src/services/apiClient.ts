@@ -0,0 +1,426 @@
+/**
+ * API Client
+ *
+ * A single typed entry point for every request the frontend makes to the backend, both REST
+ * (`/api/...`) and GraphQL (`/graphql`). Components and utilities call the endpoint helpers on
+ * the default export instead of building `fetch` calls and `Authorization` headers by hand.
+ *
+ * Key Features:
+ * - **Typed Endpoints**:
+ *   - Each helper declares its request and response types from `types/index.ts`, e.g.
+ *     `api.favorites.add(payload: AddFavoriteRequest): Promise<FavoriteItem>`.
+ *   - `graphql<TData, TVariables>` returns the typed `data` object of a GraphQL response.
+ * - **Automatic Authentication**:
+ *   - The current JWT is attached as `Authorization: Bearer <token>` when one is available.
+ *   - If the server rejects it (HTTP 401 or GraphQL `UNAUTHENTICATED`), the client asks the
+ *     auth layer to refresh the session and retries the request once. HTTP 403 and GraphQL
+ *     `FORBIDDEN` mean the signed-in user lacks permission, so they fail without a refresh.
+ *   - When the session cannot be refreshed, the `onUnauthorized` hook runs (AuthService logs the
+ *     user out) and the request fails with an `ApiError`. A refresh that can't reach the server
+ *     rejects instead, and the request fails with that error while the session is kept.
+ * - **Uniform Errors**:
+ *   - Every failure is thrown as an `ApiError` with `status`, `code` and `message`, whether it
+ *     came from an HTTP status, a `{ error }` / `{ message }` body, a GraphQL error, or the
+ *     network itself (`status: 0`, `code: "NETWORK_ERROR"`).
+ *
+ * Configuration:
+ * - `configureApiClient({ getToken, refresh, onUnauthorized })` is called once by `authService`.
+ *   The client never imports `authService` itself, which keeps the dependency one-directional.
+ *
+ * Usage:
+ * ```ts
+ * import api, { ApiError } from "../services/apiClient";
+ *
+ * try {
+ *   const favorites = await api.favorites.list();
+ * } catch (error) {
+ *   if (error instanceof ApiError && error.status === 404) { ... }
+ * }
+ * ```
+ */
+
+import {
+  AddFavoriteRequest,
+  AddWatchlistRequest,
+  ChangePasswordResponse,
+  DiscoverFilters,
+  FavoriteItem,
+  FollowedPerson,
+  GenreResponse,
+  GraphQLResponse,
+  HistoryEntry,
+  MessageResponse,
+  PersonDetails,
+  PopularResponse,
+  RatedTitle,
+  RateTitleRequest,
+  RecordHistoryRequest,
+  SearchResponse,
+  ShowProgress,
+  TitleDetails,
+  TrendingResponse,
+  TrendingType,
+  TrendingWindow,
+  TvSeason,
+  TvSeasonDetails,
+  UpdateFavoriteRequest,
+  UserPreferences,
+  UserRating,
+  WatchlistItem,
+} from "../types";
+
+type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+interface RequestOptions {
+  method?: HttpMethod;
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export interface ApiClientConfig {
+  getToken: () => string | null | Promise<string | null>;
+  refresh: () => Promise<boolean>;
+  onUnauthorized: () => void;
+}
+
+export class ApiError extends Error {
+  status: number;
+  code: string;
+  details?: unknown;
+
+  constructor(
+    message: string,
+    status: number,
+    code: string,
+    details?: unknown,
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+const STATUS_CODES: Record<number, string> = {
+  400: "BAD_REQUEST",
+  401: "UNAUTHENTICATED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  409: "CONFLICT",
+  429: "TOO_MANY_REQUESTS",
+};
+
+let config: ApiClientConfig = {
+  getToken: () => null,
+  refresh: async () => false,
+  onUnauthorized: () => {},
+};
+
+export const configureApiClient = (overrides: Partial<ApiClientConfig>) => {
+  config = { ...config, ...overrides };
+};
+
+const codeForStatus = (status: number) =>
+  STATUS_CODES[status] ||
+  (status >= 500 ? "INTERNAL_SERVER_ERROR" : "HTTP_ERROR");
+
+const parseBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const send = async (
+  path: string,
+  { method = "GET", body, headers = {}, signal }: RequestOptions,
+) => {
+  const token = await config.getToken();
+  const requestHeaders: Record<string, string> = { ...headers };
+  if (body !== undefined) requestHeaders["Content-Type"] = "application/json";
+  if (token) requestHeaders.Authorization = `Bearer ${token}`;
+
+  try {
+    const response = await fetch(path, {
+      method,
+      headers: requestHeaders,
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal,
+    });
+    return {
+      response,
+      data: await parseBody(response),
+      authenticated: !!token,
+    };
+  } catch (error) {
+    if ((error as Error)?.name === "AbortError") throw error;
+    throw new ApiError(
+      "Unable to reach the server. Please check your connection.",
+      0,
+      "NETWORK_ERROR",
+      error,
+    );
+  }
+};
+
+const graphqlErrorCode = (data: unknown) =>
+  (data as GraphQLResponse<unknown> | null)?.errors?.[0]?.extensions?.code;
+
+// Expired or invalid sessions only; 403 / FORBIDDEN is a permission answer a refresh won't change
+const isUnauthorized = (response: Response, data: unknown) =>
+  response.status === 401 || graphqlErrorCode(data) === "UNAUTHENTICATED";
+
+/**
+ * Send a request, refreshing the session and retrying once if the token was rejected.
+ */
+const sendWithRefresh = async (path: string, options: RequestOptions) => {
+  const first = await send(path, options);
+  if (!first.authenticated || !isUnauthorized(first.response, first.data)) {
+    return first;
+  }
+
+  if (await config.refresh()) {
+    return send(path, options);
+  }
+
+  config.onUnauthorized();
+  return first;
+};
+
+/**
+ * Perform a REST request against the backend and return the parsed JSON body.
+ * @throws {ApiError} for non-2xx responses and network failures.
+ */
+export const request = async <TResponse>(
+  path: string,
+  options: RequestOptions = {},
+): Promise<TResponse> => {
+  const { response, data } = await sendWithRefresh(path, options);
+
+  if (!response.ok) {
+    const body = (data || {}) as {
+      error?: string;
+      message?: string;
+      code?: string;
+    };
+    throw new ApiError(
+      body.error || body.message || `Request failed (${response.status}).`,
+      response.status,
+      body.code || codeForStatus(response.status),
+      data,
+    );
+  }
+
+  return data as TResponse;
+};
+
+/**
+ * Run a GraphQL query or mutation and return its `data`.
+ * @throws {ApiError} with the first GraphQL error's message and `extensions.code`.
+ */
+export const graphql = async <
+  TData,
+  TVariables extends Record<string, unknown> = Record<string, unknown>,
+>(
+  query: string,
+  variables?: TVariables,
+): Promise<TData> => {
+  const { response, data } = await sendWithRefresh("/graphql", {
+    method: "POST",
+    body: { query, variables },
+  });
+  const result = (data || {}) as GraphQLResponse<TData>;
+
+  if (result.errors?.length) {
+    const [error] = result.errors;
+    throw new ApiError(
+      error.message,
+      response.status,
+      error.extensions?.code || codeForStatus(response.status),
+      result.errors,
+    );
+  }
+
+  if (!response.ok || !result.data) {
+    throw new ApiError(
+      `Request failed (${response.status}).`,
+      response.status,
+      codeForStatus(response.status),
+      data,
+    );
+  }
+
+  return result.data;
+};
+
+// `?page=` suffix for paginated list endpoints; page 1 keeps the bare URL
+const pageQuery = (page: number) => (page > 1 ? `?page=${page}` : "");
+
+const api = {
+  favorites: {
+    list: () => request<FavoriteItem[]>("/api/favorites"),
+    add: (payload: AddFavoriteRequest) =>
+      request<FavoriteItem>("/api/favorites", {
+        method: "POST",
+        body: payload,
+      }),
+    update: (id: string, payload: UpdateFavoriteRequest) =>
+      request<FavoriteItem>(`/api/favorites/${id}`, {
+        method: "PUT",
+        body: payload,
+      }),
+    remove: (id: string) =>
+      request<MessageResponse>(`/api/favorites/${id}`, { method: "DELETE" }),
+  },
+  watchlist: {
+    list: () => request<WatchlistItem[]>("/api/watchlist"),
+    add: (payload: AddWatchlistRequest) =>
+      request<WatchlistItem>("/api/watchlist", {
+        method: "POST",
+        body: payload,
+      }),
+    remove: (id: string) =>
+      request<MessageResponse>(`/api/watchlist/${id}`, { method: "DELETE" }),
+  },
+  follows: {
+    list: () => request<FollowedPerson[]>("/api/follows"),
+    follow: (personId: number) =>
+      request<FollowedPerson>("/api/follows", {
+        method: "POST",
+        body: { personId },
+      }),
+    unfollow: (personId: number) =>
+      request<MessageResponse>(`/api/follows/${personId}`, {
+        method: "DELETE",
+      }),
+  },
+  history: {
+    list: (limit = 20, distinct = false) =>
+      request<HistoryEntry[]>(
+        `/api/history?limit=${limit}${distinct ? "&distinct=true" : ""}`,
+      ),
+    record: (payload: RecordHistoryRequest) =>
+      request<HistoryEntry>("/api/history", { method: "POST", body: payload }),
+    remove: (id: string) =>
+      request<MessageResponse>(`/api/history/${id}`, { method: "DELETE" }),
+    clear: () => request<MessageResponse>("/api/history", { method: "DELETE" }),
+  },
+  preferences: {
+    get: () => request<UserPreferences>("/api/preferences"),
+    update: (preferences: UserPreferences) =>
+      request<UserPreferences>("/api/preferences", {
+        method: "PUT",
+        body: preferences,
+      }),
+  },
+  ratings: {
+    list: () => request<RatedTitle[]>("/api/ratings"),
+    get: (mediaType: "movie" | "tv", tmdbId: string) =>
+      request<UserRating>(`/api/ratings/${mediaType}/${tmdbId}`),
+    rate: (payload: RateTitleRequest) =>
+      request<UserRating>("/api/ratings", { method: "POST", body: payload }),
+    remove: (id: string) =>
+      request<MessageResponse>(`/api/ratings/${id}`, { method: "DELETE" }),
+  },
+  genres: {
+    list: () => request<GenreResponse>("/api/genres"),
+  },
+  popular: {
+    movies: (page = 1) =>
+      request<PopularResponse>(`/api/popular/movies${pageQuery(page)}`),
+    tv: (page = 1) =>
+      request<PopularResponse>(`/api/popular/tv${pageQuery(page)}`),
+  },
+  trending: {
+    list: (
+      page = 1,
+      window: TrendingWindow = "day",
+      type: TrendingType = "all",
+    ) => {
+      // Defaults are left out so the URL matches the pre-filter endpoint
+      const params = new URLSearchParams();
+      if (window !== "day") params.set("window", window);
+      if (type !== "all") params.set("type", type);
+      if (page > 1) params.set("page", page.toString());
+      const query = params.toString();
+      return request<TrendingResponse>(
+        `/api/trending${query ? `?${query}` : ""}`,
+      );
+    },
+  },
+  discover: (
+    mediaType: DiscoverFilters["mediaType"],
+    queryString: string, // Built by `toDiscoverQuery`
+  ) =>
+    request<PopularResponse>(
+      `/api/discover/${mediaType}${queryString ? `?${queryString}` : ""}`,
+    ),
+  title: (mediaType: TitleDetails["mediaType"], tmdbId: number | string) =>
+    request<TitleDetails>(`/api/title/${mediaType}/${tmdbId}`),
+  person: (personId: number | string) =>
+    request<PersonDetails>(`/api/person/${personId}`),
+  tv: {
+    seasons: (tmdbId: number | string) =>
+      request<TvSeason[]>(`/api/tv/${tmdbId}/seasons`),
+    season: (tmdbId: number | string, seasonNumber: number) =>
+      request<TvSeasonDetails>(`/api/tv/${tmdbId}/seasons/${seasonNumber}`),
+  },
+  progress: {
+    get: (tmdbId: number | string) =>
+      request<ShowProgress>(`/api/progress/${tmdbId}`),
+    setEpisode: (
+      tmdbId: number | string,
+      seasonNumber: number,
+      episodeNumber: number,
+      watched: boolean,
+    ) =>
+      request<ShowProgress>(`/api/progress/${tmdbId}/episodes`, {
+        method: "POST",
+        body: { seasonNumber, episodeNumber, watched },
+      }),
+    setSeason: (
+      tmdbId: number | string,
+      seasonNumber: number,
+      watched: boolean,
+    ) =>
+      request<ShowProgress>(`/api/progress/${tmdbId}/seasons/${seasonNumber}`, {
+        method: "POST",
+        body: { watched },
+      }),
+  },
+  search: {
+    multi: (query: string, page = 1) =>
+      request<SearchResponse>(
+        `/api/search?query=${encodeURIComponent(query)}&page=${page}`,
+      ),
+  },
+  auth: {
+    deleteAccount: (id: string) =>
+      request<MessageResponse>("/api/auth/delete", {
+        method: "DELETE",
+        body: { id },
+      }),
+    forgotPassword: (email: string) =>
+      request<MessageResponse>("/api/auth/forgot-password", {
+        method: "POST",
+        body: { email },
+      }),
+    resetPassword: (token: string, password: string) =>
+      request<MessageResponse>("/api/auth/reset-password", {
+        method: "POST",
+        body: { token, password },
+      }),
+    changePassword: (currentPassword: string, newPassword: string) =>
+      request<ChangePasswordResponse>("/api/auth/password", {
+        method: "PUT",
+        body: { currentPassword, newPassword },
+      }),
+  },
+};
+
+export default api;
@@ -19,23 +19,50 @@
  * Key Features:
  * - **Registration**:
  *   - Sends user details (name, email, password) via GraphQL mutation.
- *   - Receives a JWT token and stores it in `localStorage`.
+ *   - Receives a JWT token and a refresh token and stores them in `localStorage`.
  * - **Login**:
  *   - Authenticates user credentials via GraphQL mutation.
- *   - Stores the returned JWT token for session management.
+ *   - Stores the returned JWT token and refresh token for session management.
  * - **Profile Management**:
- *   - Decodes the JWT token to extract user details (ID, email, name, preferences).
+ *   - Decodes the JWT token to extract user details (ID, email, name).
  *   - Updates the user profile via the `updateUser` GraphQL mutation.
  * - **Account Deletion**:
  *   - Deletes user accounts by sending a request to the backend REST API.
+ * - **Passwords**:
+ *   - `requestPasswordReset` and `resetPassword` drive the forgot-password flow (REST, no
+ *     session needed).
+ *   - `changePassword` changes the signed-in user's password. The server ends every other
+ *     session and returns a new token pair, which replaces the stored one.
  * - **Token Management**:
  *   - Securely stores and retrieves the JWT token from `localStorage`.
  *   - Validates token expiration and ensures session integrity.
+ * - **Silent Refresh**:
+ *   - Access tokens live for one hour. A refresh is scheduled one minute before `exp` using the
+ *     `refreshToken` mutation, which rotates the refresh token on every use.
+ *   - Registers itself with `apiClient`, which attaches the JWT to every request and calls
+ *     back here to refresh (and retry once) when the server rejects it, or to log out when the
+ *     session cannot be renewed.
+ *   - Concurrent callers share a single in-flight refresh request.
+ *   - Every tab schedules its refresh for the same moment, so refreshes run under a Web Lock
+ *     shared by all tabs. A tab that finds the refresh token already rotated by another tab
+ *     adopts the new pair instead of sending the old one, which the server would treat as a
+ *     replay and answer by ending every session.
+ *   - A refresh that fails on the network (offline, server down) keeps the session and is
+ *     retried shortly; only a rejected refresh token ends the session.
+ * - **Cross-Tab Logout**:
+ *   - When a refresh token is rejected (or the user logs out), the session is cleared and a
+ *     logout event is broadcast to other tabs via `BroadcastChannel` (falling back to the
+ *     `storage` event).
+ *   - `onLogout` lets components such as `ProtectedRoute` react to it.
+ * - **Session Events**:
+ *   - `subscribe` notifies listeners whenever the stored session changes: login, register,
+ *     refresh, logout, or token writes made by another tab (`storage` events). `AuthProvider`
+ *     uses it to keep React state in sync.
  * - **Error Handling**:
  *   - Comprehensive error logging for both GraphQL and REST API interactions.
  *   - Displays detailed error messages for user-facing issues.
  * - **Logout**:
- *   - Clears the JWT token from `localStorage` to log the user out.
+ *   - Clears both tokens from `localStorage` and revokes the refresh token on the server.
  * - **Security**:
  *   - Implements stateless authentication with JWT.
  *   - Verifies token validity and expiry before granting access to secure operations.
@@ -59,21 +86,32 @@
  *   - `getProfile`: Decodes and returns the user profile from the JWT token.
  *   - `updateProfile`: Updates user details using the GraphQL `updateUser` mutation.
  *   - `deleteProfile`: Deletes a user account using a REST API endpoint.
+ *   - `requestPasswordReset`, `resetPassword`, `changePassword`: Password flows over REST.
  * - **Token Management**:
  *   - `getToken`: Retrieves the JWT token from `localStorage`.
  *   - `setToken`: Stores the JWT token in `localStorage`.
+ *   - `setSession`: Stores both tokens and schedules the next silent refresh.
  *   - `isTokenExpired`: Validates if the token is expired.
  * - **Session Handling**:
- *   - `logout`: Clears the stored JWT token.
- *   - `isAuthenticated`: Checks if the user is logged in by validating the token.
+ *   - `refreshSession`: Exchanges the refresh token for a new token pair.
+ *   - `logout`: Clears the stored tokens and notifies other tabs.
+ *   - `onLogout`: Subscribes to logout events; returns an unsubscribe function.
+ *   - `subscribe`: Subscribes to any session change; returns an unsubscribe function.
+ *   - `isAuthenticated`: Checks if the user is logged in by validating the token, or holds a
+ *     refresh token that can renew it.
  *
  * Dependencies:
  * - **GraphQL**:
- *   - Uses GraphQL mutations for core operations (`registerUser`, `loginUser`, `updateUser`).
+ *   - Uses GraphQL mutations for core operations (`registerUser`, `loginUser`, `updateUser`,
+ *     `refreshToken`, `logout`).
  * - **jwt-decode**:
  *   - Decodes JWT tokens to extract user data and validate token expiration.
  * - **REST API**:
  *   - Integrates with REST endpoints for account deletion and other specific operations.
+ * - **apiClient**:
+ *   - Authenticated requests (`updateProfile`, `deleteProfile`) go through the shared client.
+ *     Login, registration and token refresh call `/graphql` directly because they establish the
+ *     session the client depends on.
  *
  * Usage:
  * 1. Import `AuthService` into frontend components for authentication-related operations.
@@ -82,17 +120,29 @@
  */
 
 import { JwtPayload, jwtDecode } from "jwt-decode";
+import api, { ApiError, configureApiClient, graphql } from "./apiClient";
+import { UserRole } from "../types";
 
 declare module "jwt-decode" {
   export interface JwtPayload {
     id: string;
     email: string;
     name: string;
+    role?: UserRole;
     exp?: number;
-    preferences?: string[];
   }
 }
 
+const TOKEN_KEY = "jwtToken";
+const REFRESH_TOKEN_KEY = "refreshToken";
+const LOGOUT_EVENT_KEY = "authLogout";
+const REFRESH_MARGIN_MS = 60 * 1000; // Refresh one minute before the JWT expires
+const REFRESH_RETRY_MS = 30 * 1000; // Retry after a refresh that never reached the server
+const REFRESH_LOCK_NAME = "authRefresh";
+
+type LogoutListener = () => void;
+type SessionListener = () => void;
+
 interface UserData {
   name: string;
   email: string;
@@ -100,66 +150,108 @@ interface UserData {
 }
 
 class AuthService {
-  async deleteProfile(userId: string): Promise<{ message: string }> {
-    const response = await fetch("/api/auth/delete", {
-      method: "DELETE",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.getAuthToken()}`,
-      },
-      body: JSON.stringify({ id: userId }),
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  private logoutListeners = new Set<LogoutListener>();
+  private sessionListeners = new Set<SessionListener>();
+  private channel: BroadcastChannel | null = null;
+
+  constructor() {
+    if (typeof BroadcastChannel !== "undefined") {
+      this.channel = new BroadcastChannel("auth");
+      this.channel.onmessage = (event) => {
+        if (event.data === "logout") this.handleRemoteLogout();
+      };
+    }
+
+    if (typeof window !== "undefined") {
+      window.addEventListener("storage", (event) => {
+        if (event.key === LOGOUT_EVENT_KEY && !this.channel) {
+          this.handleRemoteLogout();
+        } else if (event.key === TOKEN_KEY || event.key === REFRESH_TOKEN_KEY) {
+          this.handleRemoteSessionChange();
+        }
+      });
+    }
+
+    configureApiClient({
+      getToken: () => this.getValidToken(),
+      refresh: () => this.refreshSession(),
+      onUnauthorized: () => this.logout(),
     });
 
-    const result = await response.json();
+    const token = this.getToken();
+    if (token) this.scheduleRefresh(token);
+  }
 
-    if (!response.ok) {
-      throw new Error(result.message || "Failed to delete account.");
+  async deleteProfile(userId: string): Promise<{ message: string }> {
+    try {
+      return await api.auth.deleteAccount(userId);
+    } catch (error) {
+      this.logError("Error deleting account", error);
+      throw new Error((error as Error).message || "Failed to delete account.");
     }
+  }
 
-    return result;
+  async requestPasswordReset(email: string): Promise<{ message: string }> {
+    try {
+      return await api.auth.forgotPassword(email);
+    } catch (error) {
+      this.logError("Error requesting password reset", error);
+      throw new Error(
+        (error as Error).message || "Failed to send the reset email.",
+      );
+    }
+  }
+
+  async resetPassword(
+    token: string,
+    password: string,
+  ): Promise<{ message: string }> {
+    try {
+      return await api.auth.resetPassword(token, password);
+    } catch (error) {
+      this.logError("Error resetting password", error);
+      throw new Error((error as Error).message || "Failed to reset password.");
+    }
+  }
+
+  async changePassword(
+    currentPassword: string,
+    newPassword: string,
+  ): Promise<{ message: string }> {
+    try {
+      const { message, token, refreshToken } = await api.auth.changePassword(
+        currentPassword,
+        newPassword,
+      );
+      this.setSession(token, refreshToken);
+      return { message };
+    } catch (error) {
+      this.logError("Error changing password", error);
+      throw new Error((error as Error).message || "Failed to change password.");
+    }
   }
 
-  async updateProfile(updatedData: {
-    name?: string;
-    preferences?: string[];
-  }): Promise<void> {
+  async updateProfile(updatedData: { name?: string }): Promise<void> {
     try {
       const token = this.getAuthToken();
       if (!token) throw new Error("User is not authenticated."); // Handle missing token
 
-      const response = await fetch("/graphql", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`, // Set token in Authorization header
-        },
-        body: JSON.stringify({
-          query: `
-            mutation UpdateUser($id: ID!, $input: UpdateUserInput!) {
-              updateUser(id: $id, input: $input) {
-                id
-                name
-                email
-                preferences
-              }
+      const result = await graphql<{ updateUser: JwtPayload | null }>(
+        `
+          mutation UpdateUser($id: ID!, $input: UpdateUserInput!) {
+            updateUser(id: $id, input: $input) {
+              id
+              name
+              email
             }
-          `,
-          variables: {
-            id: this.getProfile()?.id,
-            input: updatedData,
-          },
-        }),
-      });
+          }
+        `,
+        { id: this.getProfile()?.id, input: updatedData },
+      );
 
-      const result = await response.json();
-
-      if (!response.ok || result.errors) {
-        const errorMessage =
-          result.errors?.[0]?.message || "Failed to update profile.";
-        throw new Error(errorMessage);
-      }
-
-      if (!result.data || !result.data.updateUser) {
+      if (!result.updateUser) {
         throw new Error("Invalid response structure from the server.");
       }
     } catch (error: unknown) {
@@ -174,6 +266,7 @@ class AuthService {
 
   async register(userData: UserData): Promise<{
     token: string;
+    refreshToken?: string;
     user: { id: string; name: string; email: string };
     message?: string;
   }> {
@@ -189,6 +282,7 @@ class AuthService {
             mutation RegisterUser($input: RegisterInput!) {
               registerUser(input: $input) {
                 token
+                refreshToken
                 user {
                   id
                   name
@@ -208,9 +302,9 @@ class AuthService {
         throw new Error("An unknown error occurred during registration.");
       }
 
-      const { token, user } = result.data.registerUser;
-      this.setToken(token);
-      return { token, user };
+      const { token, refreshToken, user } = result.data.registerUser;
+      this.setSession(token, refreshToken);
+      return { token, refreshToken, user };
     } catch (error: unknown) {
       if (error instanceof Error) {
         this.logError("Error during registration", error.message);
@@ -238,6 +332,7 @@ class AuthService {
             mutation LoginUser($input: LoginInput!) {
               loginUser(input: $input) {
                 token
+                refreshToken
                 user {
                   id
                   name
@@ -265,8 +360,8 @@ class AuthService {
         throw new Error("Invalid server response. Please try again.");
       }
 
-      const { token } = result.data.loginUser;
-      this.setToken(token);
+      const { token, refreshToken } = result.data.loginUser;
+      this.setSession(token, refreshToken);
       return { token };
     } catch (error: unknown) {
       if (error instanceof Error) {
@@ -292,16 +387,173 @@ class AuthService {
   }
 
   logout(): void {
-    localStorage.removeItem("jwtToken"); // Clear token on logout
+    const refreshToken = this.getRefreshToken();
+    if (refreshToken) {
+      // Revoke the refresh token in the background; the local session ends either way
+      fetch("/graphql", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          query: `
+            mutation Logout($refreshToken: String!) {
+              logout(refreshToken: $refreshToken)
+            }
+          `,
+          variables: { refreshToken },
+        }),
+      }).catch((error) => this.logError("Error revoking session", error));
+    }
+
+    this.clearSession();
+    this.broadcastLogout();
+  }
+
+  onLogout(listener: LogoutListener): () => void {
+    this.logoutListeners.add(listener);
+    return () => {
+      this.logoutListeners.delete(listener);
+    };
+  }
+
+  subscribe(listener: SessionListener): () => void {
+    this.sessionListeners.add(listener);
+    return () => {
+      this.sessionListeners.delete(listener);
+    };
   }
 
   isAuthenticated(): boolean {
     const token = this.getToken();
-    return token !== null && !this.isTokenExpired(token);
+    if (token !== null && !this.isTokenExpired(token)) return true;
+    return this.getRefreshToken() !== null; // The next request can renew the session
+  }
+
+  /**
+   * Exchange the stored refresh token for a new token pair. Concurrent callers share one request,
+   * and tabs take turns so only one of them sends a given refresh token.
+   * When the server rejects the token, the session is cleared and other tabs are logged out.
+   * When the server can't be reached, the session is kept, a retry is scheduled and the promise
+   * rejects with a `NETWORK_ERROR` `ApiError`.
+   */
+  refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async requestRefresh(): Promise<boolean> {
+    const staleRefreshToken = this.getRefreshToken();
+    if (!staleRefreshToken) return false;
+
+    return this.withRefreshLock(async () => {
+      // Another tab may have rotated the pair while this one waited; sending the old refresh
+      // token now would look like a replay and end every session
+      const refreshToken = this.getRefreshToken();
+      if (!refreshToken) return false;
+      if (refreshToken !== staleRefreshToken) {
+        const token = this.getToken();
+        if (token) this.scheduleRefresh(token);
+        return true;
+      }
+
+      let response: Response;
+      let result: {
+        data?: { refreshToken?: { token: string; refreshToken: string } };
+        errors?: { message: string; extensions?: { code?: string } }[];
+      };
+      try {
+        response = await fetch("/graphql", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            query: `
+              mutation RefreshToken($refreshToken: String!) {
+                refreshToken(refreshToken: $refreshToken) {
+                  token
+                  refreshToken
+                }
+              }
+            `,
+            variables: { refreshToken },
+          }),
+        });
+        result = await response.json();
+      } catch (error) {
+        throw this.keepSessionAfterFailedRefresh(error);
+      }
+
+      // The token may still be valid; only an answer about the token itself ends the session
+      if (
+        response.status >= 500 ||
+        result.errors?.[0]?.extensions?.code === "INTERNAL_SERVER_ERROR"
+      ) {
+        throw this.keepSessionAfterFailedRefresh(result.errors);
+      }
+
+      if (!response.ok || result.errors || !result.data?.refreshToken) {
+        this.logError(
+          "Error refreshing session",
+          result.errors?.[0]?.message || "Failed to refresh session.",
+        );
+        this.clearSession();
+        this.broadcastLogout();
+        return false;
+      }
+
+      const { token, refreshToken: nextRefreshToken } =
+        result.data.refreshToken;
+      this.setSession(token, nextRefreshToken);
+      return true;
+    });
+  }
+
+  // Run `refresh` while holding a lock shared by every tab, where Web Locks are available
+  private withRefreshLock(refresh: () => Promise<boolean>): Promise<boolean> {
+    if (typeof navigator !== "undefined" && navigator.locks) {
+      return navigator.locks.request(REFRESH_LOCK_NAME, refresh);
+    }
+    return refresh();
+  }
+
+  // Retry a refresh that failed in transit later, and fail the current caller with a network error
+  private keepSessionAfterFailedRefresh(details: unknown): ApiError {
+    this.logError("Error refreshing session", details);
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(
+      () => this.runScheduledRefresh(),
+      REFRESH_RETRY_MS,
+    );
+    return new ApiError(
+      "Unable to reach the server. Please check your connection.",
+      0,
+      "NETWORK_ERROR",
+      details,
+    );
+  }
+
+  private runScheduledRefresh(): void {
+    // Failures were handled (session cleared, or a retry scheduled) by `requestRefresh`
+    this.refreshSession().catch(() => {});
+  }
+
+  // The stored JWT, refreshed first if it has expired and a refresh token is available
+  private async getValidToken(): Promise<string | null> {
+    const token = this.getToken();
+    if ((!token || this.isTokenExpired(token)) && this.getRefreshToken()) {
+      await this.refreshSession();
+    }
+    return this.getToken();
   }
 
   private getToken(): string | null {
-    return localStorage.getItem("jwtToken") || null;
+    return localStorage.getItem(TOKEN_KEY) || null;
+  }
+
+  private getRefreshToken(): string | null {
+    return localStorage.getItem(REFRESH_TOKEN_KEY) || null;
   }
 
   getAuthToken(): string | null {
@@ -309,13 +561,82 @@ class AuthService {
   }
 
   private setToken(token: string): void {
-    localStorage.setItem("jwtToken", token);
+    localStorage.setItem(TOKEN_KEY, token);
+  }
+
+  private setSession(token: string, refreshToken?: string): void {
+    this.setToken(token);
+    if (refreshToken) localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    this.scheduleRefresh(token);
+    this.notifySessionChange();
+  }
+
+  private clearSession(): void {
+    localStorage.removeItem(TOKEN_KEY); // Clear tokens on logout
+    localStorage.removeItem(REFRESH_TOKEN_KEY);
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.notifySessionChange();
+  }
+
+  private scheduleRefresh(token: string): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+    if (!this.getRefreshToken()) return;
+
+    try {
+      const exp = jwtDecode<JwtPayload>(token)?.exp;
+      if (!exp) return;
+
+      const delay = Math.max(exp * 1000 - Date.now() - REFRESH_MARGIN_MS, 0);
+      this.refreshTimer = setTimeout(() => this.runScheduledRefresh(), delay);
+    } catch (error) {
+      this.logError("Error scheduling token refresh", error);
+    }
+  }
+
+  private broadcastLogout(): void {
+    if (this.channel) {
+      this.channel.postMessage("logout");
+    } else {
+      // Other tabs receive a `storage` event for this write
+      localStorage.setItem(LOGOUT_EVENT_KEY, String(Date.now()));
+      localStorage.removeItem(LOGOUT_EVENT_KEY);
+    }
+    this.notifyLogout();
+  }
+
+  private handleRemoteLogout(): void {
+    this.clearSession();
+    this.notifyLogout();
+  }
+
+  private handleRemoteSessionChange(): void {
+    // Another tab logged in or rotated the tokens: follow its schedule instead of refreshing too
+    const token = this.getToken();
+    if (token) {
+      this.scheduleRefresh(token);
+    } else if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    this.notifySessionChange();
+  }
+
+  private notifySessionChange(): void {
+    this.sessionListeners.forEach((listener) => listener());
+  }
+
+  private notifyLogout(): void {
+    this.logoutListeners.forEach((listener) => listener());
   }
 
   private isTokenExpired(token: string): boolean {
     try {
       const decoded: JwtPayload = jwtDecode<JwtPayload>(token);
-      return decoded.exp ? Date.now() >= decoded.exp * 1000 : true;
+      return decoded?.exp ? Date.now() >= decoded.exp * 1000 : true;
     } catch {
       return true;
     }
@@ -0,0 +1,189 @@
+/**
+ * Query Cache
+ *
+ * A small in-memory cache for API reads, shared by every component through the `useQuery`
+ * hook. Requests are identified by a string key (e.g. `"genres"`, `"popular:movies"`), so
+ * sections that need the same data share one request and one copy of the result.
+ *
+ * Key Features:
+ * - **Deduplication**:
+ *   - Concurrent `fetchQuery` calls for the same key share a single in-flight promise.
+ * - **Stale-While-Revalidate**:
+ *   - Cached data is returned immediately. Once it is older than the caller's `staleTime` (or was
+ *     invalidated), it is refetched in the background and subscribers re-render with the result.
+ * - **Local Updates**:
+ *   - `setQueryData` writes to the cache directly, which is how optimistic updates (e.g. adding a
+ *     favorite) reach every component showing that key.
+ * - **Invalidation**:
+ *   - `invalidateQueries(prefix)` marks matching entries stale and refetches the ones that are
+ *     currently rendered.
+ *   - `clearQueries()` drops everything and refetches the keys that are currently rendered;
+ *     `AuthProvider` calls it when the logged-in user changes.
+ *
+ * Design Considerations:
+ * - Each entry is replaced (never mutated) on change, so it can back `useSyncExternalStore`.
+ * - Failed fetches keep the previous data and record the error alongside it.
+ *
+ * Usage:
+ * ```ts
+ * import { fetchQuery, setQueryData } from "../services/queryCache";
+ *
+ * const genres = await fetchQuery("genres", api.genres.list, { staleTime: 60 * 60 * 1000 });
+ * setQueryData<FavoriteItem[]>("favorites", (prev = []) => [...prev, newFavorite]);
+ * ```
+ */
+
+export interface QueryState<T> {
+  data?: T;
+  error?: unknown;
+  updatedAt: number; // 0 until the first successful fetch or local write
+  isFetching: boolean;
+  isInvalidated: boolean;
+}
+
+export interface FetchOptions {
+  staleTime?: number; // How long data stays fresh, in ms
+  force?: boolean; // Fetch even if fresh data is cached
+}
+
+type Listener = () => void;
+type Fetcher<T> = () => Promise<T>;
+
+export const DEFAULT_STALE_TIME = 60 * 1000; // 1 minute
+
+const states = new Map<string, QueryState<unknown>>();
+const inFlight = new Map<string, Promise<unknown>>();
+const fetchers = new Map<string, Fetcher<unknown>>();
+const listeners = new Map<string, Set<Listener>>();
+let generation = 0; // Bumped by clearQueries so late responses are discarded
+
+const emptyState: QueryState<never> = {
+  updatedAt: 0,
+  isFetching: false,
+  isInvalidated: false,
+};
+
+const notify = (key: string) => {
+  listeners.get(key)?.forEach((listener) => listener());
+};
+
+const update = <T>(key: string, changes: Partial<QueryState<T>>) => {
+  states.set(key, { ...getQueryState<T>(key), ...changes });
+  notify(key);
+};
+
+export const getQueryState = <T>(key: string): QueryState<T> =>
+  (states.get(key) as QueryState<T> | undefined) || emptyState;
+
+export const getQueryData = <T>(key: string): T | undefined =>
+  getQueryState<T>(key).data;
+
+export const isStale = (key: string, staleTime = DEFAULT_STALE_TIME) => {
+  const state = getQueryState(key);
+  return (
+    state.data === undefined ||
+    state.isInvalidated ||
+    Date.now() - state.updatedAt >= staleTime
+  );
+};
+
+/**
+ * Return cached data if fresh, otherwise fetch it. Concurrent calls share one request.
+ */
+export const fetchQuery = <T>(
+  key: string,
+  fetcher: Fetcher<T>,
+  { staleTime = DEFAULT_STALE_TIME, force = false }: FetchOptions = {},
+): Promise<T> => {
+  fetchers.set(key, fetcher as Fetcher<unknown>);
+
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  if (!force && !isStale(key, staleTime)) {
+    return Promise.resolve(getQueryData<T>(key) as T);
+  }
+
+  const startedIn = generation;
+  const promise = fetcher()
+    .then((data) => {
+      if (startedIn === generation) {
+        update<T>(key, {
+          data,
+          error: undefined,
+          updatedAt: Date.now(),
+          isFetching: false,
+          isInvalidated: false,
+        });
+      }
+      return data;
+    })
+    .catch((error) => {
+      if (startedIn === generation)
+        update<T>(key, { error, isFetching: false });
+      throw error;
+    })
+    .finally(() => {
+      if (inFlight.get(key) === promise) inFlight.delete(key);
+    });
+
+  inFlight.set(key, promise);
+  update<T>(key, { isFetching: true });
+  return promise;
+};
+
+/**
+ * Write data for a key directly (optimistic updates, server responses to mutations).
+ */
+export const setQueryData = <T>(
+  key: string,
+  updater: T | ((previous: T | undefined) => T),
+) => {
+  const previous = getQueryData<T>(key);
+  const data =
+    typeof updater === "function"
+      ? (updater as (previous: T | undefined) => T)(previous)
+      : updater;
+  update<T>(key, { data, error: undefined, updatedAt: Date.now() });
+};
+
+// Reload a key that mounted components show; their effects won't run again to fetch it
+const refetchIfSubscribed = (key: string) => {
+  const fetcher = fetchers.get(key);
+  if (fetcher && listeners.get(key)?.size) {
+    fetchQuery(key, fetcher, { force: true }).catch(() => {});
+  }
+};
+
+/**
+ * Mark every key starting with `prefix` as stale and refetch the ones with subscribers.
+ */
+export const invalidateQueries = (prefix: string) => {
+  [...states.keys()]
+    .filter((key) => key.startsWith(prefix))
+    .forEach((key) => {
+      update(key, { isInvalidated: true });
+      refetchIfSubscribed(key);
+    });
+};
+
+/**
+ * Drop all cached data, e.g. when a different user logs in, and refetch the keys that still
+ * have subscribers.
+ */
+export const clearQueries = () => {
+  generation += 1;
+  const keys = [...states.keys()];
+  states.clear();
+  inFlight.clear();
+  keys.forEach(notify);
+  keys.forEach(refetchIfSubscribed);
+};
+
+export const subscribeQuery = (key: string, listener: Listener) => {
+  if (!listeners.has(key)) listeners.set(key, new Set());
+  listeners.get(key)!.add(listener);
+  return () => {
+    listeners.get(key)?.delete(listener);
+  };
+};
@@ -0,0 +1,67 @@
+/**
+ * Toast Service
+ *
+ * A minimal notification queue for short, non-blocking messages ("Couldn't add to favorites").
+ * It lives outside React so utilities such as `handleFavorites` can raise a toast without being
+ * handed a setter; the `Toaster` component subscribes and renders the queue.
+ *
+ * Key Features:
+ * - `showToast(message, variant)` appends a toast and returns its id.
+ * - Toasts dismiss themselves after `duration` ms (default 4 seconds) or via `dismissToast(id)`.
+ * - `subscribeToasts` / `getToasts` follow the `useSyncExternalStore` contract: the list is
+ *   replaced, never mutated, on every change.
+ *
+ * Usage:
+ * ```ts
+ * import { showToast } from "../services/toastService";
+ *
+ * showToast("Couldn't remove from favorites.", "error");
+ * ```
+ */
+
+export type ToastVariant = "info" | "success" | "error";
+
+export interface Toast {
+  id: number;
+  message: string;
+  variant: ToastVariant;
+}
+
+type Listener = () => void;
+
+const DEFAULT_DURATION = 4000;
+
+let toasts: Toast[] = [];
+let nextId = 1;
+const listeners = new Set<Listener>();
+
+const setToasts = (next: Toast[]) => {
+  toasts = next;
+  listeners.forEach((listener) => listener());
+};
+
+export const getToasts = () => toasts;
+
+export const dismissToast = (id: number) => {
+  if (toasts.some((toast) => toast.id === id)) {
+    setToasts(toasts.filter((toast) => toast.id !== id));
+  }
+};
+
+export const showToast = (
+  message: string,
+  variant: ToastVariant = "info",
+  duration = DEFAULT_DURATION,
+) => {
+  const id = nextId++;
+  setToasts([...toasts, { id, message, variant }]);
+  setTimeout(() => dismissToast(id), duration);
+  return id;
+};
+
+export const subscribeToasts = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -18,8 +18,29 @@
  *   - `TrendingItem`: Extends `BaseMediaItem` with a required `media_type` field for trending content.
  *   - `PopularItem`: Extends `BaseMediaItem` with additional properties for popular content.
  *   - `FavoriteItem`: Combines `BaseMediaItem` with enriched metadata for user favorites.
+ *   - `WatchlistItem`: An enriched entry from the user's watchlist (`/api/watchlist`).
+ * - **Recommendations**:
+ *   - `Recommendation`: A stored recommendation from the GraphQL `getRecommendations` query.
+ * - **Admin Console**:
+ *   - `AdminPage<T>`: One page of an admin list (`items`, `total`, `page`, `pages`).
+ *   - `AdminUser`, `CatalogContent` and `AdminRecommendation`: Rows of the admin tables.
+ *   - `ContentInput`: The fields an admin can set on catalog content.
+ * - **API Requests**:
+ *   - `AddFavoriteRequest`, `AddWatchlistRequest`, `RateTitleRequest`, `UserRating` and
+ *     `MessageResponse` type the endpoints wrapped by `services/apiClient.ts`.
+ *   - `GraphQLResponse`: The `{ data, errors }` envelope of GraphQL responses.
+ * - **Authentication**:
+ *   - `AuthStatus`: Session state exposed by `useAuth`.
+ *   - `UserRole`: The role carried in the JWT (`"user"` or `"admin"`).
+ *   - `ChangePasswordResponse`: The new session returned after a password change.
  * - **API Response Shapes**:
  *   - `TrendingResponse` and `PopularResponse`: Define the structure of paginated API responses for trending and popular content.
+ *   - `TrendingWindow` and `TrendingType`: The `window` and `type` options of `/api/trending`.
+ *   - `SearchResult` and `SearchResponse`: A TMDb multi-search hit (movie, TV show or person) and its paginated response.
+ *   - `DiscoverFilters`: The filter panel's state, mirrored in the dashboard URL and sent to `/api/discover`.
+ *   - `TitleDetails` (with `TitleCredit`, `TitleVideo`, `WatchProvider`): A title page payload from `/api/title`.
+ *   - `PersonDetails` and `PersonCredit`: A person page payload from `/api/person`.
+ *   - `FollowedPerson`: A followed actor or director from `/api/follows`.
  *   - `GenreResponse`: Represents the response format for fetching genres (movies and TV shows).
  *
  * Design Considerations:
@@ -80,6 +101,8 @@ export interface BaseMediaItem {
 export interface TrendingItem extends BaseMediaItem {
   tmdbId?: number;
   media_type: "movie" | "tv" | "person"; // Explicit for TrendingItem
+  profile_path?: string | null; // People only
+  known_for_department?: string; // People only, e.g. "Acting"
 }
 
 // PopularItem extends BaseMediaItem with additional optional properties
@@ -100,7 +123,181 @@ export interface FavoriteItem extends BaseMediaItem {
   genres?: string[]; // Enriched genre names (optional)
 }
 
+// Define WatchlistItem as returned by /api/watchlist, enriched with TMDb metadata
+export interface WatchlistItem {
+  id: string; // Database ID of the watchlist entry
+  tmdbId: string; // TMDb ID of the movie or TV show
+  mediaType: "movie" | "tv"; // Type of media
+  title: string; // Enriched title ("Unknown" if TMDb is unavailable)
+  poster_path: string | null; // Enriched poster path
+  genres: string[]; // Enriched genre names
+}
+
+// Review status of a recommendation, mirroring the Recommendation model enum
+export type RecommendationStatus = "pending" | "viewed" | "dismissed";
+
+// A rated title that drove a collaborative recommendation ("Because you rated X")
+export interface RecommendationBecause {
+  tmdbId: string;
+  mediaType: "movie" | "tv" | null;
+  title: string | null;
+  similarity: number | null; // Item-item similarity to the recommended title
+  rating: number | null; // The user's own rating of this title
+}
+
+// Define Recommendation as returned by the GraphQL getRecommendations query
+export interface Recommendation {
+  id: string;
+  reason: string; // Stored rationale shown to the user
+  status: RecommendationStatus;
+  context: {
+    algorithm: string | null; // Engine that produced the recommendation
+    score: number | null; // Relevance score assigned by the engine
+    because: RecommendationBecause[] | null; // Rated titles behind a collaborative suggestion
+  } | null;
+  content: {
+    id: string;
+    title: string;
+    genre: string[];
+    rating: number | null;
+    metadata: {
+      externalId: string | null; // TMDb ID, when known
+      description: string | null;
+    } | null;
+  } | null; // Null if the referenced content was removed
+}
+
+// One page of an admin console list (GraphQL `UserPage`, `ContentPage`, `RecommendationPage`)
+export interface AdminPage<T> {
+  items: T[];
+  total: number;
+  page: number; // 1-based
+  pages: number;
+}
+
+// A user as listed in the admin console (never includes the password)
+export interface AdminUser {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  disabled: boolean;
+  createdAt: string | null; // ISO timestamp
+}
+
+// A catalog item from the Content collection
+export interface CatalogContent {
+  id: string;
+  title: string;
+  slug: string;
+  genre: string[];
+  rating: number;
+  metadata: {
+    externalId: string | null; // TMDb ID, when known
+    mediaType: "movie" | "tv" | null;
+    runtime: number | null; // Minutes
+    description: string | null;
+  } | null;
+  isDeleted: boolean; // Soft-deleted items are hidden from users and recommendations
+  updatedAt: string | null; // ISO timestamp
+}
+
+// Fields an admin can set when creating or editing catalog content
+export interface ContentInput {
+  title: string;
+  genre: string[];
+  rating: number;
+  metadata: {
+    externalId: string | null;
+    mediaType: "movie" | "tv" | null;
+    runtime: number | null;
+    description: string;
+  };
+}
+
+// A recommendation as listed in the admin console, with its user and content resolved
+export interface AdminRecommendation {
+  id: string;
+  reason: string;
+  status: RecommendationStatus;
+  createdAt: string | null; // ISO timestamp
+  context: { algorithm: string | null; score: number | null } | null;
+  user: { id: string; name: string; email: string } | null; // Null if the user was deleted
+  content: { id: string; title: string } | null; // Null if the content was soft-deleted
+}
+
+// Request bodies for the REST endpoints wrapped by services/apiClient.ts
+export interface AddFavoriteRequest {
+  tmdbId: string;
+  mediaType: "movie" | "tv";
+}
+
+export type UpdateFavoriteRequest = Partial<FavoriteItem>;
+
+export interface AddWatchlistRequest {
+  tmdbId: string;
+  mediaType: "movie" | "tv";
+}
+
+export interface RateTitleRequest {
+  tmdbId: string;
+  mediaType: "movie" | "tv"; // TMDb reuses IDs across movies and TV shows
+  rating: number; // 0-10
+}
+
+// A rating document as returned by /api/ratings
+export interface UserRating {
+  _id: string;
+  userId: string;
+  tmdbId: string;
+  mediaType?: "movie" | "tv"; // Missing on ratings saved before media types (movies)
+  rating: number;
+}
+
+// A rating enriched with TMDb metadata, as listed by GET /api/ratings
+export interface RatedTitle {
+  id: string;
+  tmdbId: string;
+  mediaType: "movie" | "tv";
+  title: string;
+  poster_path: string | null;
+  genres: string[];
+  rating: number;
+  ratedAt: string; // ISO timestamp of the latest change
+}
+
+export type RatingSort = "newest" | "oldest" | "highest" | "lowest";
+
+// Generic `{ message }` acknowledgement returned by delete endpoints
+export interface MessageResponse {
+  message: string;
+}
+
+// Envelope of every /graphql response
+export interface GraphQLResponse<TData> {
+  data?: TData | null;
+  errors?: {
+    message: string;
+    extensions?: { code?: string };
+  }[];
+}
+
+// Session state exposed by AuthProvider/useAuth
+export type AuthStatus = "authenticated" | "unauthenticated";
+
+// Role carried in the JWT; tokens issued before roles existed have none
+export type UserRole = "user" | "admin";
+
+// PUT /api/auth/password: other sessions end, this one continues with the new tokens
+export interface ChangePasswordResponse extends MessageResponse {
+  token: string;
+  refreshToken: string;
+}
+
 // Responses for Trending and Popular sections
+export type TrendingWindow = "day" | "week";
+export type TrendingType = "all" | "movie" | "tv" | "person";
+
 export interface TrendingResponse {
   page: number;
   results: TrendingItem[];
@@ -115,6 +312,196 @@ export interface PopularResponse {
   total_results: number;
 }
 
+// A TMDb multi-search hit; people carry a profile image instead of a poster
+export interface SearchResult extends TrendingItem {
+  release_date?: string; // Movies
+  first_air_date?: string; // TV shows
+}
+
+export type DiscoverSort = "popularity" | "rating" | "newest" | "oldest";
+
+// Filters for /api/discover/:mediaType; unset fields are omitted from the request
+export interface DiscoverFilters {
+  mediaType: "movie" | "tv";
+  genres: number[];
+  yearFrom?: number;
+  yearTo?: number;
+  minRating?: number;
+  runtimeMin?: number; // Minutes
+  runtimeMax?: number; // Minutes
+  language?: string; // ISO 639-1 code, e.g. "en"
+  sort: DiscoverSort;
+  page: number;
+}
+
+export interface SearchResponse {
+  page: number;
+  results: SearchResult[];
+  total_pages: number;
+  total_results: number;
+}
+
+// A person credited on a title; `character` is set for cast, `job` for crew
+export interface TitleCredit {
+  id: number;
+  name: string;
+  character?: string;
+  job?: string;
+  profile_path?: string | null;
+}
+
+export interface TitleVideo {
+  key: string; // YouTube video ID
+  name: string;
+  type: "Trailer" | "Teaser";
+}
+
+export interface WatchProvider {
+  id: number;
+  name: string;
+  logo_path?: string | null;
+}
+
+// Full title metadata returned by /api/title/:mediaType/:id
+export interface TitleDetails {
+  id: number;
+  mediaType: "movie" | "tv";
+  title: string;
+  tagline: string | null;
+  overview: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+  releaseDate: string | null;
+  runtime: number | null; // Minutes (per episode for TV)
+  status: string | null;
+  genres: Genre[];
+  vote_average: number | null;
+  vote_count: number;
+  numberOfSeasons: number | null; // TV only
+  cast: TitleCredit[];
+  crew: TitleCredit[];
+  videos: TitleVideo[];
+  similar: TrendingItem[];
+  watchProviders: {
+    region: string;
+    link: string | null;
+    flatrate: WatchProvider[];
+    rent: WatchProvider[];
+    buy: WatchProvider[];
+  };
+}
+
+// A movie or TV credit on a person page; `character` is set for cast, `job` for crew
+export interface PersonCredit extends TrendingItem {
+  media_type: "movie" | "tv";
+  character?: string;
+  job?: string;
+  date: string | null; // Release or first air date; null for announced titles
+}
+
+// Person profile and credits returned by /api/person/:id
+export interface PersonDetails {
+  id: number;
+  name: string;
+  biography: string;
+  birthday: string | null;
+  deathday: string | null;
+  placeOfBirth: string | null;
+  profile_path: string | null;
+  knownForDepartment: string | null;
+  knownFor: TrendingItem[];
+  credits: PersonCredit[];
+}
+
+// A person the user follows (/api/follows)
+export interface FollowedPerson {
+  id: string; // Database ID of the follow
+  personId: number; // TMDb person ID
+  name: string;
+  profile_path: string | null;
+  knownForDepartment: string | null;
+  followedAt: string;
+}
+
+// A season of a TV show (/api/tv/:id/seasons); season 0 holds specials
+export interface TvSeason {
+  seasonNumber: number;
+  name: string;
+  overview: string;
+  episodeCount: number;
+  airDate: string | null;
+  poster_path: string | null;
+}
+
+export interface TvEpisode {
+  episodeNumber: number;
+  name: string;
+  overview: string;
+  airDate: string | null;
+  runtime: number | null;
+  still_path: string | null;
+}
+
+// One season's episodes (/api/tv/:id/seasons/:season)
+export interface TvSeasonDetails {
+  seasonNumber: number;
+  name: string;
+  overview: string;
+  airDate: string | null;
+  episodes: TvEpisode[];
+}
+
+export interface EpisodeRef {
+  seasonNumber: number;
+  episodeNumber: number;
+}
+
+// The user's progress through a show (/api/progress/:tmdbId); counts only aired episodes
+export interface ShowProgress {
+  totalEpisodes: number;
+  watchedEpisodes: number;
+  percent: number; // 0-100, rounded
+  nextEpisode: EpisodeRef | null; // null once caught up
+  seasons: {
+    seasonNumber: number;
+    name: string;
+    airedEpisodes: number;
+    watchedEpisodes: number;
+  }[];
+  watched: EpisodeRef[];
+}
+
+// A viewing history event (/api/history); "watched" comes from episode tracking
+export interface HistoryEntry {
+  id: string;
+  tmdbId: string;
+  mediaType: "movie" | "tv";
+  action: "viewed" | "watched";
+  title: string | null;
+  poster_path: string | null;
+  viewedAt: string;
+}
+
+export interface RecordHistoryRequest {
+  tmdbId: number | string;
+  mediaType: "movie" | "tv";
+  action?: HistoryEntry["action"];
+  title?: string;
+  posterPath?: string | null;
+}
+
+export type ContentRating = "G" | "PG" | "PG-13" | "R" | "NC-17";
+export type MediaTypeBias = "balanced" | "movie" | "tv";
+
+// Structured taste settings (/api/preferences) read by the recommendation engine
+export interface UserPreferences {
+  favoriteGenres: number[]; // TMDb genre IDs
+  dislikedGenres: number[];
+  languages: string[]; // ISO 639-1 codes; empty for any language
+  maxContentRating: ContentRating | null; // null for no limit
+  mediaTypeBias: MediaTypeBias;
+}
+
 // Genre response format
 export interface GenreResponse {
   movieGenres: Genre[];
@@ -0,0 +1,89 @@
+/**
+ * Admin Console Utilities
+ *
+ * Form helpers for the admin console (`AdminPage`).
+ *
+ * Content Form:
+ * - The content editor keeps every field as a string (`ContentForm`); `toContentForm` fills it
+ *   from a catalog item and `toContentInput` converts it back for `createContent` /
+ *   `updateContent`.
+ * - Genres are typed as a comma-separated list; `parseGenreList` trims them and drops blanks and
+ *   case-insensitive duplicates.
+ * - Ratings are clamped to the model's 0-10 range; an empty runtime or TMDb ID is sent as `null`.
+ */
+
+import { CatalogContent, ContentInput, RecommendationStatus } from "../types";
+
+export interface ContentForm {
+  title: string;
+  genres: string;
+  rating: string;
+  mediaType: "" | "movie" | "tv";
+  externalId: string;
+  runtime: string;
+  description: string;
+}
+
+export const EMPTY_CONTENT_FORM: ContentForm = {
+  title: "",
+  genres: "",
+  rating: "0",
+  mediaType: "",
+  externalId: "",
+  runtime: "",
+  description: "",
+};
+
+// Mirrors the Recommendation model's `reason` length limits
+export const REASON_MIN_LENGTH = 10;
+export const REASON_MAX_LENGTH = 500;
+
+export const RECOMMENDATION_STATUS_OPTIONS: {
+  value: RecommendationStatus | "";
+  label: string;
+}[] = [
+  { value: "", label: "Any status" },
+  { value: "pending", label: "Pending" },
+  { value: "viewed", label: "Viewed" },
+  { value: "dismissed", label: "Dismissed" },
+];
+
+export const parseGenreList = (text: string) => {
+  const seen = new Set<string>();
+  return text
+    .split(",")
+    .map((genre) => genre.trim())
+    .filter((genre) => {
+      const key = genre.toLowerCase();
+      if (!genre || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export const toContentForm = (content: CatalogContent): ContentForm => ({
+  title: content.title,
+  genres: content.genre.join(", "),
+  rating: String(content.rating),
+  mediaType: content.metadata?.mediaType ?? "",
+  externalId: content.metadata?.externalId ?? "",
+  runtime:
+    content.metadata?.runtime != null ? String(content.metadata.runtime) : "",
+  description: content.metadata?.description ?? "",
+});
+
+export const toContentInput = (form: ContentForm): ContentInput => {
+  const rating = Number(form.rating);
+  const runtime = Number.parseInt(form.runtime, 10);
+  return {
+    title: form.title.trim(),
+    genre: parseGenreList(form.genres),
+    rating: Number.isFinite(rating) ? Math.min(10, Math.max(0, rating)) : 0,
+    metadata: {
+      externalId: form.externalId.trim() || null,
+      mediaType: form.mediaType || null,
+      runtime: Number.isInteger(runtime) && runtime > 0 ? runtime : null,
+      description: form.description.trim(),
+    },
+  };
+};
@@ -0,0 +1,115 @@
+/**
+ * Discover Filter Utilities
+ *
+ * Converts `DiscoverFilters` to and from the dashboard's URL query string and the
+ * `/api/discover` query string. Both directions drop defaults and empty values and sort genre
+ * IDs, so equivalent filters always produce the same string (and therefore the same cache key).
+ *
+ * URL Parameters:
+ * - `type` (`movie` | `tv`), `genres` (comma-separated IDs), `yearFrom`, `yearTo`, `minRating`,
+ *   `runtimeMin`, `runtimeMax`, `language`, `sort`, `page`.
+ *
+ * Example:
+ * ```ts
+ * const filters = parseDiscoverFilters(new URLSearchParams("type=tv&genres=18,35&sort=rating"));
+ * toDiscoverQuery(filters); // "genres=18%2C35&sort=rating"
+ * ```
+ */
+
+import { DiscoverFilters, DiscoverSort } from "../types";
+
+export const DEFAULT_DISCOVER_FILTERS: DiscoverFilters = {
+  mediaType: "movie",
+  genres: [],
+  sort: "popularity",
+  page: 1,
+};
+
+export const DISCOVER_SORT_OPTIONS: { value: DiscoverSort; label: string }[] = [
+  { value: "popularity", label: "Most popular" },
+  { value: "rating", label: "Highest rated" },
+  { value: "newest", label: "Newest first" },
+  { value: "oldest", label: "Oldest first" },
+];
+
+// Numeric filters shared by the URL and the API query string
+const NUMBER_FIELDS = [
+  "yearFrom",
+  "yearTo",
+  "minRating",
+  "runtimeMin",
+  "runtimeMax",
+] as const;
+
+// Keys that mark a URL as carrying discover filters
+const FILTER_KEYS = ["type", "genres", "language", "sort", ...NUMBER_FIELDS];
+
+const parseNumber = (value: string | null) => {
+  if (value === null || value.trim() === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+export const parseDiscoverFilters = (
+  params: URLSearchParams,
+): DiscoverFilters => {
+  const filters: DiscoverFilters = {
+    ...DEFAULT_DISCOVER_FILTERS,
+    mediaType: params.get("type") === "tv" ? "tv" : "movie",
+    genres: (params.get("genres") || "")
+      .split(",")
+      .map(Number)
+      .filter((id) => Number.isInteger(id) && id > 0),
+    language: params.get("language") || undefined,
+    page: Math.max(1, parseNumber(params.get("page")) || 1),
+  };
+
+  const sort = params.get("sort");
+  if (DISCOVER_SORT_OPTIONS.some((option) => option.value === sort)) {
+    filters.sort = sort as DiscoverSort;
+  }
+
+  NUMBER_FIELDS.forEach((field) => {
+    filters[field] = parseNumber(params.get(field));
+  });
+
+  return filters;
+};
+
+/**
+ * Query string for `/api/discover/:mediaType` (the media type is part of the path).
+ */
+export const toDiscoverQuery = (filters: DiscoverFilters) => {
+  const params = new URLSearchParams();
+
+  if (filters.genres.length > 0) {
+    params.set(
+      "genres",
+      [...new Set(filters.genres)].sort((a, b) => a - b).join(","),
+    );
+  }
+  NUMBER_FIELDS.forEach((field) => {
+    const value = filters[field];
+    if (value !== undefined) params.set(field, value.toString());
+  });
+  if (filters.language) params.set("language", filters.language);
+  if (filters.sort !== DEFAULT_DISCOVER_FILTERS.sort) {
+    params.set("sort", filters.sort);
+  }
+  if (filters.page > 1) params.set("page", filters.page.toString());
+
+  return params.toString();
+};
+
+/**
+ * URL search params for the dashboard. `type` is always set, so applying the default filters
+ * still marks the panel as active.
+ */
+export const toDiscoverSearchParams = (filters: DiscoverFilters) => {
+  const params = new URLSearchParams(toDiscoverQuery(filters));
+  params.set("type", filters.mediaType);
+  return params;
+};
+
+export const hasDiscoverFilters = (params: URLSearchParams) =>
+  FILTER_KEYS.some((key) => params.has(key));
@@ -0,0 +1,89 @@
+/**
+ * FollowsHandler Utility
+ *
+ * Follows and unfollows people (actors, directors, ...) through `/api/follows`, updating the
+ * cached `follows` list optimistically like `favoritesHandler` does for favorites.
+ *
+ * Behavior:
+ * - `follow` shows the person as followed immediately (with a placeholder ID) and swaps in the
+ *   stored entry once the server responds.
+ * - `unfollow` removes the person immediately.
+ * - On failure the change is rolled back, the cached list is refetched, and an error toast is
+ *   shown. Success is confirmed with a toast.
+ *
+ * Example Usage:
+ * ```ts
+ * const { data: follows, setData: setFollows } = useFollows();
+ * await handleFollow("follow", { personId: 525, name: "Christopher Nolan" }, setFollows);
+ * ```
+ */
+
+import api from "../services/apiClient";
+import authService from "../services/authService";
+import { invalidateQueries } from "../services/queryCache";
+import { showToast } from "../services/toastService";
+import { QUERY_KEYS } from "../hooks/useApiQueries";
+import { FollowedPerson } from "../types";
+
+export type FollowTarget = Pick<FollowedPerson, "personId" | "name"> &
+  Partial<Pick<FollowedPerson, "profile_path" | "knownForDepartment">>;
+
+export const handleFollow = async (
+  action: "follow" | "unfollow",
+  person: FollowTarget,
+  setFollows: React.Dispatch<React.SetStateAction<FollowedPerson[]>>,
+) => {
+  if (!authService.isAuthenticated()) {
+    showToast("You need to log in to follow people.", "error");
+    return;
+  }
+
+  const withoutPerson = (follows: FollowedPerson[]) =>
+    follows.filter((follow) => follow.personId !== person.personId);
+
+  if (action === "follow") {
+    const placeholder: FollowedPerson = {
+      id: `pending-${person.personId}`,
+      personId: person.personId,
+      name: person.name,
+      profile_path: person.profile_path ?? null,
+      knownForDepartment: person.knownForDepartment ?? null,
+      followedAt: new Date().toISOString(),
+    };
+    setFollows((follows) => [placeholder, ...withoutPerson(follows)]);
+
+    try {
+      const saved = await api.follows.follow(person.personId);
+      setFollows((follows) => [saved, ...withoutPerson(follows)]);
+      showToast(`Following ${person.name}.`, "success");
+    } catch (error) {
+      console.error("Error following person:", error);
+      setFollows(withoutPerson);
+      invalidateQueries(QUERY_KEYS.follows);
+      showToast(
+        (error as Error).message || `Could not follow ${person.name}.`,
+        "error",
+      );
+    }
+    return;
+  }
+
+  let removed: FollowedPerson[] = [];
+  setFollows((follows) => {
+    removed = follows.filter((follow) => follow.personId === person.personId);
+    return withoutPerson(follows);
+  });
+
+  try {
+    await api.follows.unfollow(person.personId);
+    showToast(`Unfollowed ${person.name}.`, "success");
+  } catch (error) {
+    console.error("Error unfollowing person:", error);
+    setFollows((follows) => [...removed, ...withoutPerson(follows)]);
+    invalidateQueries(QUERY_KEYS.follows);
+    showToast(
+      (error as Error).message || `Could not unfollow ${person.name}.`,
+      "error",
+    );
+  }
+};
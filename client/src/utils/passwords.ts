@@ -0,0 +1,24 @@
+/**
+ * Password Utilities
+ *
+ * Client-side checks shared by the reset-password page and the profile's change-password form,
+ * matching the server's rule (`services/passwords.js`) so most mistakes are caught before a
+ * request is sent.
+ */
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+/**
+ * Error message for a new password and its confirmation, or `null` when both are fine.
+ */
+export const validateNewPassword = (
+  password: string,
+  confirmPassword: string,
+): string | null => {
+  if (!password.trim()) return "Please enter a new password.";
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`;
+  }
+  if (password !== confirmPassword) return "Passwords do not match.";
+  return null;
+};
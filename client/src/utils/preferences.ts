@@ -0,0 +1,83 @@
+/**
+ * Preference Utilities
+ *
+ * Option lists and state helpers for the structured preferences editor (`PreferencesEditor`).
+ *
+ * Genres:
+ * - Movie and TV genres are merged into one list: shared IDs (e.g. Drama, 18) appear once, so a
+ *   preference applies to both media types.
+ * - A genre is either a favorite, disliked or neither; `toggleGenrePreference` moves it between
+ *   the lists instead of letting it sit in both (the server rejects overlaps).
+ */
+
+import {
+  ContentRating,
+  GenreMap,
+  MediaTypeBias,
+  UserPreferences,
+} from "../types";
+
+export const LANGUAGE_OPTIONS = [
+  { value: "en", label: "English" },
+  { value: "es", label: "Spanish" },
+  { value: "fr", label: "French" },
+  { value: "de", label: "German" },
+  { value: "it", label: "Italian" },
+  { value: "ja", label: "Japanese" },
+  { value: "ko", label: "Korean" },
+  { value: "hi", label: "Hindi" },
+  { value: "zh", label: "Chinese" },
+];
+
+export const CONTENT_RATINGS: ContentRating[] = [
+  "G",
+  "PG",
+  "PG-13",
+  "R",
+  "NC-17",
+];
+
+export const MEDIA_TYPE_BIAS_OPTIONS: {
+  value: MediaTypeBias;
+  label: string;
+}[] = [
+  { value: "balanced", label: "Both" },
+  { value: "movie", label: "Mostly movies" },
+  { value: "tv", label: "Mostly TV" },
+];
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  favoriteGenres: [],
+  dislikedGenres: [],
+  languages: [],
+  maxContentRating: null,
+  mediaTypeBias: "balanced",
+};
+
+/**
+ * Movie and TV genres as one list without duplicate IDs, sorted by name.
+ */
+export const mergeGenreOptions = (movieGenres: GenreMap, tvGenres: GenreMap) =>
+  Object.entries({ ...tvGenres, ...movieGenres })
+    .map(([id, name]) => ({ id: Number(id), name }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Toggle `id` in the favorite or disliked list, removing it from the other list.
+ */
+export const toggleGenrePreference = (
+  preferences: UserPreferences,
+  list: "favoriteGenres" | "dislikedGenres",
+  id: number,
+): UserPreferences => {
+  const other = list === "favoriteGenres" ? "dislikedGenres" : "favoriteGenres";
+  const selected = preferences[list].includes(id);
+
+  return {
+    ...preferences,
+    [list]: selected
+      ? preferences[list].filter((genre) => genre !== id)
+      : [...preferences[list], id],
+    [other]: preferences[other].filter((genre) => genre !== id),
+  };
+};
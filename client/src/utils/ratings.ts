@@ -0,0 +1,72 @@
+/**
+ * Rating Utilities
+ *
+ * Sorting and score distribution for the "My Ratings" page (`RatingsPage`).
+ *
+ * Lookup:
+ * - `toRatingLookup` indexes ratings by `ratingKey(mediaType, tmdbId)` so cards can show the user's
+ *   score without a request per title (movie and TV IDs overlap, hence the media type).
+ *
+ * Distribution:
+ * - `ratingDistribution` counts ratings per whole score from 1 to 10. Fractional scores are
+ *   rounded and a 0 counts as 1, so every rating lands in a bar.
+ */
+
+import { RatedTitle, RatingSort } from "../types";
+
+export const RATING_SORT_OPTIONS: { value: RatingSort; label: string }[] = [
+  { value: "newest", label: "Recently rated" },
+  { value: "oldest", label: "Oldest first" },
+  { value: "highest", label: "Highest score" },
+  { value: "lowest", label: "Lowest score" },
+];
+
+export const RATING_SCORES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+// Items without a media type produce a key that never matches
+export const ratingKey = (
+  mediaType: string | undefined,
+  tmdbId: string | number,
+) => `${mediaType}:${tmdbId}`;
+
+/**
+ * Score by `ratingKey`, for showing the user's rating on cards.
+ */
+export const toRatingLookup = (ratings: RatedTitle[]) =>
+  new Map(
+    ratings.map((entry) => [
+      ratingKey(entry.mediaType, entry.tmdbId),
+      entry.rating,
+    ]),
+  );
+
+const ratedTime = (rating: RatedTitle) => new Date(rating.ratedAt).getTime();
+
+/**
+ * A sorted copy of `ratings`. Equal scores fall back to the most recently rated first.
+ */
+export const sortRatings = (ratings: RatedTitle[], sort: RatingSort) =>
+  [...ratings].sort((a, b) => {
+    switch (sort) {
+      case "oldest":
+        return ratedTime(a) - ratedTime(b);
+      case "highest":
+        return b.rating - a.rating || ratedTime(b) - ratedTime(a);
+      case "lowest":
+        return a.rating - b.rating || ratedTime(b) - ratedTime(a);
+      default:
+        return ratedTime(b) - ratedTime(a);
+    }
+  });
+
+/**
+ * Number of ratings for each score in `RATING_SCORES`, in the same order.
+ */
+export const ratingDistribution = (ratings: RatedTitle[]) => {
+  const counts = RATING_SCORES.map(() => 0);
+  ratings.forEach(({ rating }) => {
+    const score = Math.min(10, Math.max(1, Math.round(rating)));
+    counts[score - 1] += 1;
+  });
+  return counts;
+};
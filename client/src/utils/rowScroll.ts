@@ -0,0 +1,37 @@
+/**
+ * Row Scroll Utilities
+ *
+ * Helpers for the horizontally scrolling carousels in `PopularSection` and `TrendingSection`.
+ * A row counts as "near its end" when less than about two cards' width remains to the right,
+ * which is when the sections request the next page of results.
+ */
+
+export const ROW_SCROLL_STEP = 300; // Pixels moved per arrow click
+const NEAR_END_THRESHOLD = 500; // Roughly two cards
+
+/**
+ * Whether `row` is (or, after scrolling `offset` more pixels, will be) close to its right edge.
+ */
+export const isNearRowEnd = (row: HTMLElement, offset = 0) =>
+  row.scrollLeft + row.clientWidth + offset >=
+  row.scrollWidth - NEAR_END_THRESHOLD;
+
+/**
+ * Scroll a row by one step; when scrolling right toward the end, call `onNearEnd`.
+ */
+export const scrollRow = (
+  row: HTMLElement | null,
+  direction: "left" | "right",
+  onNearEnd?: () => void,
+) => {
+  if (!row) return;
+
+  row.scrollBy({
+    left: direction === "left" ? -ROW_SCROLL_STEP : ROW_SCROLL_STEP,
+    behavior: "smooth",
+  });
+
+  if (direction === "right" && isNearRowEnd(row, ROW_SCROLL_STEP)) {
+    onNearEnd?.();
+  }
+};
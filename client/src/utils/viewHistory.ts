@@ -0,0 +1,49 @@
+/**
+ * ViewHistory Utility
+ *
+ * Records that the user opened a title's details (the title page or a details modal) through
+ * `/api/history`, then refreshes the cached history so the dashboard's "Recently Viewed" row
+ * picks it up.
+ *
+ * Behavior:
+ * - Only movies and TV shows are recorded; people and unknown media types are skipped.
+ * - Nothing is sent while logged out.
+ * - Recording is fire-and-forget: failures are logged and never shown to the user.
+ *
+ * Example Usage:
+ * ```ts
+ * recordView("movie", { id: 550, title: "Fight Club", poster_path: "/poster.jpg" });
+ * ```
+ */
+
+import api from "../services/apiClient";
+import authService from "../services/authService";
+import { invalidateQueries } from "../services/queryCache";
+import { QUERY_KEYS } from "../hooks/useApiQueries";
+
+interface ViewedTitle {
+  id: number;
+  title?: string;
+  name?: string;
+  poster_path?: string | null;
+}
+
+export const recordView = async (
+  mediaType: string | undefined,
+  item: ViewedTitle,
+) => {
+  if (mediaType !== "movie" && mediaType !== "tv") return;
+  if (!authService.isAuthenticated()) return;
+
+  try {
+    await api.history.record({
+      tmdbId: item.id,
+      mediaType,
+      title: item.title || item.name,
+      posterPath: item.poster_path ?? null,
+    });
+    invalidateQueries(QUERY_KEYS.history);
+  } catch (error) {
+    console.error("Failed to record view:", error);
+  }
+};
@@ -0,0 +1,88 @@
+/**
+ * WatchlistHandler Utility
+ *
+ * This module provides a centralized handler for managing the user's watchlist, mirroring
+ * `favoritesHandler`. It talks to the `/api/watchlist` REST endpoints, which return items
+ * already enriched with TMDb title, poster and genres.
+ *
+ * Key Features:
+ * - **Authentication Checks**: Ensures actions are performed only by authenticated users.
+ * - **Operations**:
+ *   - `add`: Adds a movie or TV show to the watchlist and appends the enriched item to state.
+ *   - `remove`: Removes a watchlist entry by its database ID and drops it from state.
+ * - **Error Handling**:
+ *   - Surfaces backend errors (e.g., "Item is already in the watchlist.") through `modalMessageSetter`.
+ *
+ * Example Usage:
+ * ```ts
+ * import { handleWatchlist } from "../utils/watchlistHandler";
+ *
+ * await handleWatchlist(
+ *   "add",
+ *   { tmdbId: "550", mediaType: "movie" },
+ *   setWatchlist,
+ *   setModalMessage
+ * );
+ * ```
+ *
+ * Notes:
+ * - Relies on a valid JWT token for authentication and authorization; requests go through
+ *   `apiClient`, which attaches it.
+ * - `remove` requires the entry's database `id`; look it up in the current watchlist by `tmdbId`.
+ */
+
+import authService from "../services/authService";
+import api from "../services/apiClient";
+import { WatchlistItem } from "../types";
+
+export type WatchlistTarget = Pick<WatchlistItem, "tmdbId" | "mediaType"> & {
+  id?: string; // Database ID, required for removal
+};
+
+export const handleWatchlist = async (
+  action: "add" | "remove",
+  item: WatchlistTarget,
+  setWatchlist: React.Dispatch<React.SetStateAction<WatchlistItem[]>>,
+  modalMessageSetter: (message: string) => void,
+) => {
+  if (!authService.isAuthenticated()) {
+    modalMessageSetter("You need to log in to perform this action!");
+    return;
+  }
+
+  try {
+    switch (action) {
+      case "add": {
+        const newItem = await api.watchlist.add({
+          tmdbId: item.tmdbId.toString(), // Ensure ID is a string
+          mediaType: item.mediaType,
+        });
+        setWatchlist((prevWatchlist) => [newItem, ...prevWatchlist]);
+
+        modalMessageSetter("Successfully added to watchlist!");
+        break;
+      }
+
+      case "remove": {
+        if (!item.id)
+          throw new Error("Item is missing for removing from watchlist.");
+
+        const idToRemove = item.id;
+        await api.watchlist.remove(idToRemove);
+
+        setWatchlist((prevWatchlist) =>
+          prevWatchlist.filter((entry) => entry.id !== idToRemove),
+        );
+
+        modalMessageSetter("Successfully removed from watchlist!");
+        break;
+      }
+
+      default:
+        throw new Error("Invalid action.");
+    }
+  } catch (error) {
+    console.error("Error handling watchlist action:", error);
+    modalMessageSetter((error as Error).message || "An error occurred.");
+  }
+};
@@ -16,7 +16,11 @@
  *   - Uses `findByIdAndUpdate` to ensure atomic operations.
  * - **Delete User Accounts**:
  *   - Securely deletes user accounts and associated data from the database.
- *   - Verifies the provided user ID before performing the deletion.
+ *   - Deletes the authenticated user's own account; only admins may delete another user's.
+ * - **Passwords**:
+ *   - `forgotPassword` emails a single-use reset link; `resetPassword` sets a new password with
+ *     it; `changePassword` lets a signed-in user change theirs after confirming the current one.
+ *   - The flows live in `services/passwords.js`; these handlers map their results to responses.
  * - **JWT Token Management**:
  *   - Generates secure JWT tokens for stateless authentication.
  *   - Validates user identity through tokens in protected routes.
@@ -47,6 +51,8 @@
  *   - Validates email formatting and password correctness.
  * - **`PUT /api/auth/update`**:
  *   - Updates the authenticated user's profile (name and preferences).
+ *   - Preferences are validated like `PUT /api/preferences`; a legacy list of genre names is
+ *     converted to favorite genres.
  *   - Requires a valid JWT token for access.
  *   - Returns updated user details upon success.
  * - **`DELETE /api/auth/delete`**:
@@ -70,15 +76,23 @@
  *    - Call `deleteUser` with the authenticated user's ID to remove their account and data.
  *
  * Future Enhancements:
- * - Add support for password reset functionality.
  * - Extend `updateUser` to handle more profile fields (e.g., profile pictures, phone numbers).
  * - Introduce rate limiting for sensitive operations (e.g., login, registration).
  * - Enhance error messages with localized support for better user experience.
  */
 
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
 import User from "../models/User.js";
+import { issueRefreshToken, signAccessToken } from "../utils/tokens.js";
+import { isSelfOrAdmin } from "../middleware/authMiddleware.js";
+import { savePreferences } from "../services/preferenceStore.js";
+import { deleteUserAccount } from "../services/accounts.js";
+import { fromLegacyPreferences } from "../services/userPreferences.js";
+import {
+  changeUserPassword,
+  requestPasswordReset,
+  resetPasswordWithToken,
+} from "../services/passwords.js";
 
 /**
  * @desc Update user details.
@@ -90,15 +104,27 @@ const updateUser = async (req, res) => {
   const { name, preferences } = req.body;
 
   try {
+    if (preferences) {
+      // Older clients send a list of genre names
+      const result = await savePreferences(
+        id,
+        Array.isArray(preferences)
+          ? fromLegacyPreferences(preferences)
+          : preferences,
+      );
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+    }
+
     const updateFields = {};
     if (name) updateFields.name = name;
-    if (preferences) updateFields.preferences = preferences;
 
     const updatedUser = await User.findByIdAndUpdate(
       id,
       { $set: updateFields },
       { new: true, runValidators: true }, // Return the updated document
-    );
+    ).select("-password");
 
     if (!updatedUser) {
       return res.status(404).json({ message: "User not found" });
@@ -115,19 +141,20 @@ const updateUser = async (req, res) => {
 };
 
 /**
- * @desc Delete a user account.
+ * @desc Delete a user account. Defaults to the authenticated user's own; only admins may
+ * pass another user's `id`.
  * @route DELETE /api/auth/delete
  * @access Private
  */
 const deleteUser = async (req, res) => {
-  const { id } = req.body;
+  const id = req.body?.id || req.user.id;
 
-  if (!id) {
-    return res.status(400).json({ message: "User ID is required." });
+  if (!isSelfOrAdmin(req.user, id)) {
+    return res.status(403).json({ message: "Insufficient permissions" });
   }
 
   try {
-    const deletedUser = await User.findByIdAndDelete(id);
+    const deletedUser = await deleteUserAccount(id);
 
     if (!deletedUser) {
       return res.status(404).json({ message: "User not found." });
@@ -172,11 +199,7 @@ const registerUser = async (req, res) => {
     });
 
     // Generate a JWT token
-    const token = jwt.sign(
-      { id: newUser._id, email: newUser.email, name: newUser.name },
-      process.env.JWT_SECRET,
-      { expiresIn: "1h" },
-    );
+    const token = signAccessToken(newUser);
 
     // Respond with the user and token
     res.status(201).json({
@@ -232,16 +255,14 @@ const loginUser = async (req, res) => {
       return res.status(401).json({ message: "Invalid email or password." });
     }
 
+    if (existingUser.isDisabled) {
+      return res
+        .status(403)
+        .json({ message: "This account has been disabled." });
+    }
+
     // Generate a JWT token
-    const token = jwt.sign(
-      {
-        id: existingUser._id,
-        email: existingUser.email,
-        name: existingUser.name,
-      },
-      process.env.JWT_SECRET,
-      { expiresIn: "1h" },
-    );
+    const token = signAccessToken(existingUser);
 
     // Respond with the user and token
     res.status(200).json({
@@ -259,4 +280,93 @@ const loginUser = async (req, res) => {
   }
 };
 
-export { registerUser, loginUser, updateUser, deleteUser };
+/**
+ * @desc Email a password reset link. The response is the same whether or not the email
+ *       belongs to an account.
+ * @route POST /api/auth/forgot-password
+ * @access Public
+ */
+const forgotPassword = async (req, res) => {
+  const { email } = req.body;
+
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  if (typeof email !== "string" || !emailRegex.test(email)) {
+    return res
+      .status(400)
+      .json({ message: "Please provide a valid email address." });
+  }
+
+  try {
+    await requestPasswordReset(email);
+    res.status(200).json({
+      message:
+        "If an account exists for that email, a password reset link has been sent.",
+    });
+  } catch (error) {
+    console.error("Error requesting password reset:", error.message || error);
+    res.status(500).json({ message: "Internal server error." });
+  }
+};
+
+/**
+ * @desc Set a new password with the token from a reset link. Ends all existing sessions.
+ * @route POST /api/auth/reset-password
+ * @access Public
+ */
+const resetPassword = async (req, res) => {
+  const { token, password } = req.body;
+
+  try {
+    const result = await resetPasswordWithToken(token, password);
+    if (result.error) {
+      return res.status(result.status).json({ message: result.error });
+    }
+
+    res.status(200).json({
+      message: "Your password has been reset. Please log in.",
+    });
+  } catch (error) {
+    console.error("Error resetting password:", error.message || error);
+    res.status(500).json({ message: "Internal server error." });
+  }
+};
+
+/**
+ * @desc Change the authenticated user's password after checking the current one. Other
+ *       sessions end; this one continues with the returned token pair.
+ * @route PUT /api/auth/password
+ * @access Private
+ */
+const changePassword = async (req, res) => {
+  const { currentPassword, newPassword } = req.body;
+
+  try {
+    const result = await changeUserPassword(
+      req.user.id,
+      currentPassword,
+      newPassword,
+    );
+    if (result.error) {
+      return res.status(result.status).json({ message: result.error });
+    }
+
+    res.status(200).json({
+      message: "Password changed successfully.",
+      token: signAccessToken(result.user),
+      refreshToken: await issueRefreshToken(result.user._id),
+    });
+  } catch (error) {
+    console.error("Error changing password:", error.message || error);
+    res.status(500).json({ message: "Internal server error." });
+  }
+};
+
+export {
+  registerUser,
+  loginUser,
+  updateUser,
+  deleteUser,
+  forgotPassword,
+  resetPassword,
+  changePassword,
+};
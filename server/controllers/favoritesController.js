@@ -32,7 +32,7 @@
  * ==========================
  * - **Metadata Enrichment**:
  *   - Fetches detailed metadata for movies and TV shows (title, genres, poster, etc.).
- *   - Uses in-memory caching (`metadataCache`) to minimize redundant API calls and improve performance.
+ *   - Uses the shared in-memory cache in `utils/tmdb.js` to minimize redundant API calls and improve performance.
  * - **Genre Management**:
  *   - Fetches and caches movie and TV genres on server startup (`genreCache`).
  *   - Maps genre IDs to human-readable names for better user understanding.
@@ -101,12 +101,12 @@
 
 import Favorite from "../models/Favorite.js";
 import axios from "axios";
+import { enrichWithMetadata } from "../utils/tmdb.js";
 
 const TMDB_ACCESS_TOKEN = process.env.TMDB_ACCESS_TOKEN;
 
-// Cache to store genre mappings and metadata
+// Cache to store genre mappings
 let genreCache = {};
-const metadataCache = {}; // In-memory cache for movie/TV metadata
 
 // Function to fetch genres and store them in the cache
 const fetchGenres = async () => {
@@ -138,38 +138,6 @@ const fetchGenres = async () => {
 // Fetch genres on server startup
 fetchGenres();
 
-// Helper function to get metadata from cache or TMDB API
-const getMetadataFromCacheOrAPI = async (tmdbId, mediaType) => {
-  const cacheKey = `${mediaType}-${tmdbId}`;
-
-  // Return cached metadata if it exists
-  if (metadataCache[cacheKey]) {
-    return metadataCache[cacheKey];
-  }
-
-  // Construct TMDB API URL
-  const tmdbUrl =
-    mediaType === "movie"
-      ? `https://api.themoviedb.org/3/movie/${tmdbId}`
-      : `https://api.themoviedb.org/3/tv/${tmdbId}`;
-
-  // Fetch metadata from TMDB API
-  try {
-    const response = await axios.get(tmdbUrl, {
-      headers: { Authorization: `Bearer ${TMDB_ACCESS_TOKEN}` },
-    });
-
-    const data = response.data;
-
-    // Cache the metadata
-    metadataCache[cacheKey] = data;
-    return data;
-  } catch (error) {
-    console.error(`Error fetching metadata for ${tmdbId}:`, error.message);
-    return null;
-  }
-};
-
 /**
  * Get all favorites for the authenticated user.
  */
@@ -178,36 +146,7 @@ export const getFavorites = async (req, res) => {
     const favorites = await Favorite.find({ userId: req.user.id });
 
     const enrichedFavorites = await Promise.all(
-      favorites.map(async (favorite) => {
-        const metadata = await getMetadataFromCacheOrAPI(
-          favorite.tmdbId,
-          favorite.mediaType,
-        );
-
-        if (!metadata) {
-          return {
-            id: favorite._id,
-            tmdbId: favorite.tmdbId,
-            mediaType: favorite.mediaType,
-            title: "Unknown",
-            poster_path: null,
-            genres: [],
-          };
-        }
-
-        const genreNames = metadata.genres
-          ? metadata.genres.map((genre) => genre.name)
-          : [];
-
-        return {
-          id: favorite._id,
-          tmdbId: favorite.tmdbId,
-          mediaType: favorite.mediaType,
-          title: metadata.title || metadata.name || "Unknown",
-          poster_path: metadata.poster_path,
-          genres: genreNames,
-        };
-      }),
+      favorites.map(enrichWithMetadata),
     );
 
     res.json(enrichedFavorites);
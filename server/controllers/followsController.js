@@ -0,0 +1,116 @@
+/**
+ * Follows Controller
+ *
+ * Lets users follow actors, directors and other TMDb people. Followed people's recent credits
+ * are added to the content-based engine's candidates (see `services/contentBasedEngine.js`).
+ *
+ * Endpoints:
+ * - `getFollows`: The user's followed people, most recent first.
+ * - `followPerson`: Follows `personId`. The name, profile image and department are read from
+ *   TMDb (through the shared cache), which also confirms the person exists.
+ * - `unfollowPerson`: Unfollows `:personId`. Only the authenticated user's own follow is removed.
+ *
+ * Response Shape:
+ * - `{ id, personId, name, profile_path, knownForDepartment, followedAt }`
+ */
+
+import FollowedPerson from "../models/FollowedPerson.js";
+import { getPersonWithCredits } from "../utils/tmdb.js";
+import { parsePersonId } from "../services/personDetails.js";
+
+const toFollowResponse = (follow) => ({
+  id: follow._id,
+  personId: follow.personId,
+  name: follow.name,
+  profile_path: follow.profilePath,
+  knownForDepartment: follow.knownForDepartment,
+  followedAt: follow.createdAt,
+});
+
+/**
+ * List the people the authenticated user follows.
+ */
+export const getFollows = async (req, res) => {
+  try {
+    const follows = await FollowedPerson.find({ userId: req.user.id }).sort({
+      createdAt: -1,
+    });
+    res.json(follows.map(toFollowResponse));
+  } catch (error) {
+    console.error("Error fetching follows:", error.message);
+    res.status(500).json({ error: "Failed to fetch followed people." });
+  }
+};
+
+/**
+ * Follow a TMDb person.
+ */
+export const followPerson = async (req, res) => {
+  const personId = parsePersonId(req.body.personId);
+  if (!personId) {
+    return res
+      .status(400)
+      .json({ error: "personId must be a positive integer." });
+  }
+
+  try {
+    const existing = await FollowedPerson.findOne({
+      userId: req.user.id,
+      personId,
+    });
+    if (existing) {
+      return res.status(400).json({ error: "Person is already followed." });
+    }
+
+    let person;
+    try {
+      person = await getPersonWithCredits(personId);
+    } catch (error) {
+      if (error.response?.status === 404) {
+        return res.status(404).json({ error: "Person not found." });
+      }
+      throw error;
+    }
+
+    const follow = await FollowedPerson.create({
+      userId: req.user.id,
+      personId,
+      name: person.name || "Unknown",
+      profilePath: person.profile_path || null,
+      knownForDepartment: person.known_for_department || null,
+    });
+
+    res.status(201).json(toFollowResponse(follow));
+  } catch (error) {
+    console.error("Error following person:", error.message);
+    res.status(500).json({ error: "Failed to follow person." });
+  }
+};
+
+/**
+ * Unfollow a TMDb person.
+ */
+export const unfollowPerson = async (req, res) => {
+  const personId = parsePersonId(req.params.personId);
+  if (!personId) {
+    return res
+      .status(400)
+      .json({ error: "personId must be a positive integer." });
+  }
+
+  try {
+    const follow = await FollowedPerson.findOneAndDelete({
+      userId: req.user.id,
+      personId,
+    });
+
+    if (!follow) {
+      return res.status(404).json({ error: "Person is not followed." });
+    }
+
+    res.json({ message: "Person unfollowed." });
+  } catch (error) {
+    console.error("Error unfollowing person:", error.message);
+    res.status(500).json({ error: "Failed to unfollow person." });
+  }
+};
@@ -0,0 +1,111 @@
+/**
+ * History Controller
+ *
+ * Reads and manages the authenticated user's viewing history (see `services/viewHistory.js`).
+ *
+ * Endpoints:
+ * - `getHistory`: Events newest first. `?limit=` caps the list (default 20, max 100) and
+ *   `?distinct=true` keeps only the newest event per title.
+ * - `addHistory`: Records `{ tmdbId, mediaType, action, title, posterPath }`; `action` defaults
+ *   to `"viewed"`.
+ * - `deleteHistoryEntry`: Removes one of the user's events by `:id`.
+ * - `clearHistory`: Removes all of the user's events and empties `User.history`.
+ *
+ * Response Shape:
+ * - `{ id, tmdbId, mediaType, action, title, poster_path, viewedAt }`
+ */
+
+import mongoose from "mongoose";
+import ViewHistory from "../models/ViewHistory.js";
+import {
+  clearHistory as clearUserHistory,
+  latestPerTitle,
+  parseHistoryEntry,
+  parseHistoryLimit,
+  recordHistory,
+  removeHistoryEntry,
+} from "../services/viewHistory.js";
+
+const toHistoryResponse = (entry) => ({
+  id: entry._id,
+  tmdbId: entry.tmdbId,
+  mediaType: entry.mediaType,
+  action: entry.action,
+  title: entry.title || null,
+  poster_path: entry.posterPath || null,
+  viewedAt: entry.viewedAt,
+});
+
+/**
+ * List the authenticated user's history, newest first.
+ */
+export const getHistory = async (req, res) => {
+  const limit = parseHistoryLimit(req.query.limit);
+  const distinct = req.query.distinct === "true";
+
+  try {
+    // Over-fetch when collapsing so repeated titles don't shorten the list much
+    const entries = await ViewHistory.find({ userId: req.user.id })
+      .sort({ viewedAt: -1 })
+      .limit(distinct ? limit * 5 : limit);
+
+    const history = distinct
+      ? latestPerTitle(entries).slice(0, limit)
+      : entries;
+    res.json(history.map(toHistoryResponse));
+  } catch (error) {
+    console.error("Error fetching history:", error.message);
+    res.status(500).json({ error: "Failed to fetch history." });
+  }
+};
+
+/**
+ * Record a history event for the authenticated user.
+ */
+export const addHistory = async (req, res) => {
+  const entry = parseHistoryEntry(req.body);
+  if (entry.error) {
+    return res.status(400).json({ error: entry.error });
+  }
+
+  try {
+    const event = await recordHistory(req.user.id, entry);
+    res.status(201).json(toHistoryResponse(event));
+  } catch (error) {
+    console.error("Error recording history:", error.message);
+    res.status(500).json({ error: "Failed to record history." });
+  }
+};
+
+/**
+ * Remove one of the authenticated user's history events.
+ */
+export const deleteHistoryEntry = async (req, res) => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    return res.status(400).json({ error: "Invalid history entry ID." });
+  }
+
+  try {
+    const removed = await removeHistoryEntry(req.user.id, req.params.id);
+    if (!removed) {
+      return res.status(404).json({ error: "History entry not found." });
+    }
+    res.json({ message: "History entry removed." });
+  } catch (error) {
+    console.error("Error removing history entry:", error.message);
+    res.status(500).json({ error: "Failed to remove history entry." });
+  }
+};
+
+/**
+ * Clear the authenticated user's history.
+ */
+export const clearHistory = async (req, res) => {
+  try {
+    await clearUserHistory(req.user.id);
+    res.json({ message: "History cleared." });
+  } catch (error) {
+    console.error("Error clearing history:", error.message);
+    res.status(500).json({ error: "Failed to clear history." });
+  }
+};
@@ -0,0 +1,54 @@
+/**
+ * Preferences Controller
+ *
+ * Reads and replaces the authenticated user's structured preferences (favorite and disliked
+ * genres, languages, content rating ceiling and movie/TV bias). The content-based
+ * recommendation engine reads them on its next run.
+ *
+ * Endpoints:
+ * - `getPreferences`: The stored preferences with defaults filled in.
+ * - `updatePreferences`: Replaces the preferences with a validated document; fields left out
+ *   reset to their defaults.
+ *
+ * Validation:
+ * - See `savePreferences` in `services/preferenceStore.js`.
+ */
+
+import User from "../models/User.js";
+import { normalizePreferences } from "../services/userPreferences.js";
+import { savePreferences } from "../services/preferenceStore.js";
+
+/**
+ * Get the authenticated user's preferences.
+ */
+export const getPreferences = async (req, res) => {
+  try {
+    const user = await User.findById(req.user.id).select("preferences");
+    if (!user) {
+      return res.status(404).json({ error: "User not found." });
+    }
+    res.json(normalizePreferences(user.preferences));
+  } catch (error) {
+    console.error("Error fetching preferences:", error.message);
+    res.status(500).json({ error: "Failed to fetch preferences." });
+  }
+};
+
+/**
+ * Replace the authenticated user's preferences.
+ */
+export const updatePreferences = async (req, res) => {
+  try {
+    const result = await savePreferences(req.user.id, req.body);
+    if (result.error) {
+      return res.status(400).json({ error: result.error });
+    }
+    if (!result.user) {
+      return res.status(404).json({ error: "User not found." });
+    }
+    res.json(normalizePreferences(result.user.preferences));
+  } catch (error) {
+    console.error("Error updating preferences:", error.message);
+    res.status(500).json({ error: "Failed to update preferences." });
+  }
+};
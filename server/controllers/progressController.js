@@ -0,0 +1,193 @@
+/**
+ * Progress Controller
+ *
+ * Tracks which TV episodes a user has watched and reports their progress through a show.
+ * Aired episodes come from the cached TMDb show details (`fetchTitleDetails`) and the rules in
+ * `services/episodeProgress.js`.
+ *
+ * Endpoints:
+ * - `getProgress`: Progress for `:tmdbId` (see `computeProgress` for the shape).
+ * - `setEpisodeWatched`: Marks `{ seasonNumber, episodeNumber }` as watched or unwatched
+ *   (`watched: false`) and responds with the updated progress.
+ * - `setSeasonWatched`: Marks every aired episode of `:seasonNumber` as watched or unwatched and
+ *   responds with the updated progress.
+ *
+ * Error Handling:
+ * - Invalid IDs or numbers return 400; shows TMDb does not know return 404.
+ * - Marking an episode that has not aired (or does not exist) returns 400.
+ *
+ * Marking episodes as watched also records a `"watched"` event in the user's viewing history.
+ */
+
+import WatchedEpisode from "../models/WatchedEpisode.js";
+import { fetchTitleDetails } from "../services/titleDetails.js";
+import {
+  airedSeasons,
+  computeProgress,
+  parseEpisodeNumber,
+  parseSeasonNumber,
+} from "../services/episodeProgress.js";
+import { recordHistory } from "../services/viewHistory.js";
+import { parseTmdbId } from "../utils/tmdb.js";
+
+// WatchedEpisode stores show IDs as strings
+const parseShowId = (value) => parseTmdbId(value)?.toString() ?? null;
+
+// Load the show's TMDb details; responds with 404/500 and returns null on failure
+const loadShow = async (req, res, tmdbId) => {
+  try {
+    return await fetchTitleDetails("tv", tmdbId);
+  } catch (error) {
+    if (error.response?.status === 404) {
+      res.status(404).json({ error: "TV show not found." });
+    } else {
+      console.error(`Error fetching TV show ${tmdbId}:`, error.message);
+      res.status(500).json({ error: "Failed to fetch TV show details." });
+    }
+    return null;
+  }
+};
+
+// History is best-effort: a failure here must not fail the progress update
+const recordWatched = async (userId, tmdbId, show) => {
+  try {
+    await recordHistory(userId, {
+      tmdbId,
+      mediaType: "tv",
+      action: "watched",
+      title: show.name || null,
+      posterPath: show.poster_path || null,
+    });
+  } catch (error) {
+    console.error("Error recording watch history:", error.message);
+  }
+};
+
+const respondWithProgress = async (req, res, tmdbId, show) => {
+  const watched = await WatchedEpisode.find({ userId: req.user.id, tmdbId });
+  res.json(computeProgress(show, watched));
+};
+
+/**
+ * Get the authenticated user's progress through a show.
+ */
+export const getProgress = async (req, res) => {
+  const tmdbId = parseShowId(req.params.tmdbId);
+  if (!tmdbId) {
+    return res
+      .status(400)
+      .json({ error: "Show ID must be a positive integer." });
+  }
+
+  const show = await loadShow(req, res, tmdbId);
+  if (!show) return;
+
+  try {
+    await respondWithProgress(req, res, tmdbId, show);
+  } catch (error) {
+    console.error("Error fetching episode progress:", error.message);
+    res.status(500).json({ error: "Failed to fetch episode progress." });
+  }
+};
+
+/**
+ * Mark one episode as watched or unwatched.
+ */
+export const setEpisodeWatched = async (req, res) => {
+  const tmdbId = parseShowId(req.params.tmdbId);
+  const seasonNumber = parseSeasonNumber(req.body.seasonNumber);
+  const episodeNumber = parseEpisodeNumber(req.body.episodeNumber);
+  const watched = req.body.watched !== false;
+
+  if (!tmdbId || seasonNumber === null || !episodeNumber) {
+    return res.status(400).json({
+      error: "A valid show ID, seasonNumber and episodeNumber are required.",
+    });
+  }
+
+  const show = await loadShow(req, res, tmdbId);
+  if (!show) return;
+
+  const season = airedSeasons(show).find(
+    (entry) => entry.seasonNumber === seasonNumber,
+  );
+  if (watched && (!season || episodeNumber > season.airedEpisodes)) {
+    return res.status(400).json({ error: "That episode has not aired." });
+  }
+
+  try {
+    const filter = { userId: req.user.id, tmdbId, seasonNumber, episodeNumber };
+    if (watched) {
+      await WatchedEpisode.updateOne(
+        filter,
+        { $setOnInsert: { watchedAt: new Date() } },
+        { upsert: true },
+      );
+      await recordWatched(req.user.id, tmdbId, show);
+    } else {
+      await WatchedEpisode.deleteOne(filter);
+    }
+
+    await respondWithProgress(req, res, tmdbId, show);
+  } catch (error) {
+    console.error("Error updating watched episode:", error.message);
+    res.status(500).json({ error: "Failed to update episode progress." });
+  }
+};
+
+/**
+ * Mark every aired episode of a season as watched or unwatched.
+ */
+export const setSeasonWatched = async (req, res) => {
+  const tmdbId = parseShowId(req.params.tmdbId);
+  const seasonNumber = parseSeasonNumber(req.params.seasonNumber);
+  const watched = req.body.watched !== false;
+
+  if (!tmdbId || seasonNumber === null) {
+    return res
+      .status(400)
+      .json({ error: "A valid show ID and season number are required." });
+  }
+
+  const show = await loadShow(req, res, tmdbId);
+  if (!show) return;
+
+  const season = airedSeasons(show).find(
+    (entry) => entry.seasonNumber === seasonNumber,
+  );
+  if (!season) {
+    return res.status(400).json({ error: "That season does not exist." });
+  }
+
+  try {
+    if (watched && season.airedEpisodes > 0) {
+      const watchedAt = new Date();
+      await WatchedEpisode.bulkWrite(
+        Array.from({ length: season.airedEpisodes }, (_, index) => ({
+          updateOne: {
+            filter: {
+              userId: req.user.id,
+              tmdbId,
+              seasonNumber,
+              episodeNumber: index + 1,
+            },
+            update: { $setOnInsert: { watchedAt } },
+            upsert: true,
+          },
+        })),
+      );
+      await recordWatched(req.user.id, tmdbId, show);
+    } else if (!watched) {
+      await WatchedEpisode.deleteMany({
+        userId: req.user.id,
+        tmdbId,
+        seasonNumber,
+      });
+    }
+
+    await respondWithProgress(req, res, tmdbId, show);
+  } catch (error) {
+    console.error("Error updating watched season:", error.message);
+    res.status(500).json({ error: "Failed to update season progress." });
+  }
+};
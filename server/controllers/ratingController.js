@@ -9,12 +9,14 @@
  * **Core Functionalities**
  * ========================
  * 1. **Retrieve Ratings**:
- *    - Fetches all ratings for the authenticated user from the database.
- *    - Allows users to view their previously rated content along with the associated rating values.
+ *    - Fetches all ratings for the authenticated user from the database, newest first.
+ *    - Enriches each rating with TMDb metadata (title, poster, genres) like `getFavorites`, so the
+ *      "My Ratings" page can list rated titles.
  *
  * 2. **Add or Update Ratings**:
  *    - Enables users to add a new rating or update an existing rating for specific content.
- *    - Automatically handles duplicates by updating the existing rating if it already exists.
+ *    - Automatically handles duplicates by updating the existing rating if it already exists;
+ *      `ratedAt` moves to the time of the latest change.
  *    - Supports rating values between 0 and 10, adhering to typical rating scales.
  *
  * 3. **Delete Ratings**:
@@ -38,14 +40,18 @@
  * =====================
  * 1. **`GET /api/ratings`**:
  *    - Fetches all ratings for the authenticated user.
- *    - Returns an array of rating objects, including `tmdbId` and the rating value.
+ *    - Returns an array of enriched ratings: `id`, `tmdbId`, `mediaType`, `title`, `poster_path`,
+ *      `genres`, `rating` and `ratedAt`.
  *
- * 2. **`POST /api/ratings`**:
+ * 2. **`GET /api/ratings/:mediaType/:tmdbId`**:
+ *    - Returns the user's rating for one title, or `404` if they haven't rated it.
+ *
+ * 3. **`POST /api/ratings`**:
  *    - Adds a new rating or updates an existing rating for specific content.
  *    - Validates input and ensures the rating is scoped to the authenticated user.
  *    - Returns the created or updated rating object.
  *
- * 3. **`DELETE /api/ratings/:id`**:
+ * 4. **`DELETE /api/ratings/:id`**:
  *    - Deletes a rating by its database ID.
  *    - Ensures only existing ratings associated with the authenticated user can be removed.
  *    - Returns a success message upon deletion.
@@ -69,6 +75,7 @@
  *   - Defines the structure of a rating document in the database, including:
  *     - `userId`: The authenticated user's ID (references the User model).
  *     - `tmdbId`: The unique ID of the content being rated (from TMDb).
+ *     - `mediaType`: `"movie"` or `"tv"`; TMDb reuses IDs across the two, so lookups match both.
  *     - `rating`: A numeric value between 0 and 10.
  *
  * ========================
@@ -88,16 +95,16 @@
  *   GET /api/ratings
  *   Authorization: Bearer <JWT>
  *   Response: [
- *     { id: "1", tmdbId: "12345", rating: 8 },
- *     { id: "2", tmdbId: "67890", rating: 7 }
+ *     { id: "1", tmdbId: "12345", mediaType: "movie", title: "...", rating: 8, ratedAt: "..." },
+ *     { id: "2", tmdbId: "67890", mediaType: "movie", title: "...", rating: 7, ratedAt: "..." }
  *   ]
  *   ```
  * - **Adding or Updating a Rating**:
  *   ```javascript
  *   POST /api/ratings
  *   Authorization: Bearer <JWT>
- *   Body: { tmdbId: "12345", rating: 9 }
- *   Response: { id: "1", tmdbId: "12345", rating: 9 }
+ *   Body: { tmdbId: "12345", mediaType: "movie", rating: 9 }
+ *   Response: { id: "1", tmdbId: "12345", mediaType: "movie", rating: 9 }
  *   ```
  * - **Deleting a Rating**:
  *   ```javascript
@@ -107,15 +114,38 @@
  *   ```
  */
 
+import mongoose from "mongoose";
 import Rating from "../models/Ratings.js";
+import { enrichWithMetadata } from "../utils/tmdb.js";
+
+const MEDIA_TYPES = ["movie", "tv"];
+
+// Ratings saved before `mediaType` was recorded have no media type and are all movies
+const ratingFilter = (userId, tmdbId, mediaType) => ({
+  userId,
+  tmdbId: String(tmdbId),
+  mediaType: mediaType === "movie" ? { $in: ["movie", null] } : mediaType,
+});
+
+const enrichRating = async (doc) => ({
+  ...(await enrichWithMetadata({
+    _id: doc._id,
+    tmdbId: doc.tmdbId,
+    mediaType: doc.mediaType || "movie",
+  })),
+  rating: doc.rating,
+  ratedAt: doc.ratedAt,
+});
 
 /**
- * Get all ratings for the authenticated user.
+ * Get all ratings for the authenticated user, enriched with TMDb metadata.
  */
 export const getRatings = async (req, res) => {
   try {
-    const ratings = await Rating.find({ userId: req.user.id });
-    res.json(ratings);
+    const ratings = await Rating.find({ userId: req.user.id }).sort({
+      ratedAt: -1,
+    });
+    res.json(await Promise.all(ratings.map(enrichRating)));
   } catch (error) {
     console.error("Error fetching ratings:", error.message);
     res.status(500).json({ error: "Failed to fetch ratings" });
@@ -123,25 +153,53 @@ export const getRatings = async (req, res) => {
 };
 
 /**
- * Add or update a rating for content.
+ * Get the authenticated user's rating for one title.
+ */
+export const getRating = async (req, res) => {
+  const { mediaType, tmdbId } = req.params;
+
+  if (!MEDIA_TYPES.includes(mediaType)) {
+    return res.status(400).json({ error: "mediaType must be movie or tv" });
+  }
+
+  try {
+    const rating = await Rating.findOne(
+      ratingFilter(req.user.id, tmdbId, mediaType),
+    );
+    if (!rating) {
+      return res.status(404).json({ error: "Rating not found" });
+    }
+    res.json(rating);
+  } catch (error) {
+    console.error("Error fetching rating:", error.message);
+    res.status(500).json({ error: "Failed to fetch rating" });
+  }
+};
+
+/**
+ * Add or update a rating for content. `mediaType` defaults to "movie".
  */
 export const addOrUpdateRating = async (req, res) => {
-  const { tmdbId, rating } = req.body;
+  const { tmdbId, rating, mediaType = "movie" } = req.body;
 
   if (!tmdbId || typeof rating !== "number") {
     return res
       .status(400)
       .json({ error: "tmdbId and rating (0-10) are required" });
   }
+  if (!MEDIA_TYPES.includes(mediaType)) {
+    return res.status(400).json({ error: "mediaType must be movie or tv" });
+  }
 
   try {
-    const existingRating = await Rating.findOne({
-      userId: req.user.id,
-      tmdbId,
-    });
+    const existingRating = await Rating.findOne(
+      ratingFilter(req.user.id, tmdbId, mediaType),
+    );
 
     if (existingRating) {
       existingRating.rating = rating;
+      existingRating.mediaType = mediaType;
+      existingRating.ratedAt = new Date();
       await existingRating.save();
       return res.json(existingRating);
     }
@@ -149,6 +207,7 @@ export const addOrUpdateRating = async (req, res) => {
     const newRating = await Rating.create({
       userId: req.user.id,
       tmdbId,
+      mediaType,
       rating,
     });
     res.status(201).json(newRating);
@@ -159,11 +218,18 @@ export const addOrUpdateRating = async (req, res) => {
 };
 
 /**
- * Remove a rating by ID.
+ * Remove one of the authenticated user's ratings by ID.
  */
 export const deleteRating = async (req, res) => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    return res.status(400).json({ error: "Invalid rating ID" });
+  }
+
   try {
-    const deletedRating = await Rating.findByIdAndDelete(req.params.id);
+    const deletedRating = await Rating.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user.id,
+    });
     if (!deletedRating) {
       return res.status(404).json({ error: "Rating not found" });
     }
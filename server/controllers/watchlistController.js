@@ -70,6 +70,9 @@
  * Security and Best Practices:
  * - **Data Validation**:
  *   - Enforce strict validation on `tmdbId` and `mediaType` to avoid incorrect data entries.
+ * - **Ownership**:
+ *   - Items are always looked up together with the authenticated user's ID, so one user can't
+ *     read or remove another user's watchlist entries.
  * - **Error Handling**:
  *   - Handle duplicate index errors gracefully to provide meaningful feedback to users.
  * - **Performance Optimization**:
@@ -94,15 +97,24 @@
  * Its design ensures scalability, reliability, and alignment with modern user interaction patterns.
  */
 
+import mongoose from "mongoose";
 import Watchlist from "../models/Watchlist.js";
+import { enrichWithMetadata } from "../utils/tmdb.js";
 
 /**
- * Get all watchlist items for the authenticated user.
+ * Get all watchlist items for the authenticated user, enriched with TMDb metadata.
  */
 export const getWatchlist = async (req, res) => {
   try {
-    const watchlist = await Watchlist.find({ userId: req.user.id });
-    res.json(watchlist);
+    const watchlist = await Watchlist.find({ userId: req.user.id }).sort({
+      createdAt: -1,
+    });
+
+    const enrichedWatchlist = await Promise.all(
+      watchlist.map(enrichWithMetadata),
+    );
+
+    res.json(enrichedWatchlist);
   } catch (error) {
     console.error("Error fetching watchlist:", error.message);
     res.status(500).json({ error: "Failed to fetch watchlist." });
@@ -141,7 +153,8 @@ export const addToWatchlist = async (req, res) => {
       mediaType,
     });
 
-    res.status(201).json(watchlistItem);
+    // Respond with the enriched item so the client can render it immediately
+    res.status(201).json(await enrichWithMetadata(watchlistItem));
   } catch (error) {
     console.error("Error adding to watchlist:", error.message);
     res.status(500).json({ error: "Failed to add to watchlist." });
@@ -149,11 +162,19 @@ export const addToWatchlist = async (req, res) => {
 };
 
 /**
- * Remove an item from the user's watchlist.
+ * Remove an item from the authenticated user's watchlist. Other users' items are reported as
+ * not found.
  */
 export const removeFromWatchlist = async (req, res) => {
+  if (!mongoose.isValidObjectId(req.params.id)) {
+    return res.status(400).json({ error: "Invalid watchlist item ID." });
+  }
+
   try {
-    const watchlistItem = await Watchlist.findByIdAndDelete(req.params.id);
+    const watchlistItem = await Watchlist.findOneAndDelete({
+      _id: req.params.id,
+      userId: req.user.id,
+    });
 
     if (!watchlistItem) {
       return res.status(404).json({ error: "Watchlist item not found." });
@@ -16,6 +16,12 @@
  *   detailed rationale for each suggestion to personalize the user experience.
  * - **Authentication**: Ensures secure access using JWT-based stateless authentication
  *   for both queries and mutations requiring authorization.
+ * - **Roles**: Catalog management, manual recommendations and the user list are limited to
+ *   admins through `requireRole`.
+ * - **Ownership**: Resolvers that take a user ID (`getUserById`, `getRecommendations`,
+ *   `updateUser`, `deleteUser`) only accept the caller's own ID, or any ID from an admin,
+ *   through `requireSelfOrAdmin`. Resolvers for favorites and recommendation status match the
+ *   caller's ID in the query itself.
  *
  * Components:
  * - **Schema (`typeDefs`)**: Defines GraphQL types, queries, and mutations to standardize
@@ -35,42 +41,66 @@
  *   schemas for users, content, favorites, and recommendations.
  *
  * Schema Overview:
- * - **User**: Represents a user entity with fields for ID, email, hashed password,
- *   preferences, and activity history.
+ * - **User**: Represents a user entity with fields for ID, email, hashed password, `role`
+ *   (`user` or `admin`), `disabled` flag, structured preferences (`Preferences`), and activity
+ *   history.
+ * - **HistoryEntry**: A title the user viewed or watched, with when it happened.
  * - **Favorite**: Tracks user-specific favorite content, including TMDB identifiers,
  *   media types (e.g., movies, TV), and timestamps for auditing changes.
- * - **Content**: Represents items in a content catalog, with fields for title, genre,
- *   rating, and metadata.
+ * - **Content**: Represents items in a content catalog, with fields for title, slug, genres,
+ *   rating, metadata and the `isDeleted` soft-delete flag.
+ * - **UserPage**, **ContentPage**, **RecommendationPage**: One page of an admin list with
+ *   `total` and `pages` counts.
  * - **Recommendation**: Connects content items to users with rationales for personalized
- *   recommendations.
+ *   recommendations, exposing the review `status`, the generating `context` (algorithm and
+ *   score) and the referenced `content` document.
  * - **Authentication**: Issues JWTs upon successful registration or login, ensuring secure
- *   user sessions.
+ *   user sessions, together with a rotating refresh token for renewing them.
  *
  * Queries:
- * - `getAllUsers`: Lists all users, excluding sensitive data like passwords.
- * - `getUserById`: Retrieves a specific user's profile by ID.
+ * - `getAllUsers`: Lists all users, excluding sensitive data like passwords (admin only).
+ * - `getUserById`: Retrieves a specific user's profile by ID (own profile, or any for admins).
  * - `getFavorites`: Fetches the authenticated user's list of favorite items.
- * - `getContent`: Retrieves content items filtered by attributes such as genre or rating.
- * - `getRecommendations`: Fetches personalized recommendations for a user.
+ * - `getHistory`: Fetches the authenticated user's viewing history, newest first.
+ * - `getContent`: Retrieves catalog items (not soft-deleted) filtered by title or genre.
+ * - `getRecommendations`: Fetches personalized recommendations for a user, taking the best
+ *   remaining one from each algorithm in turn, since scores only compare within an algorithm
+ *   (own recommendations, or any user's for admins).
+ * - **Admin Console** (admin only, paginated with `page`/`limit`):
+ *   - `adminUsers`: Users matching a name or email search, newest first.
+ *   - `adminContent`: Catalog items matching a title search, optionally with deleted ones.
+ *   - `adminRecommendations`: Recommendations, optionally for one user or with one status.
  *
  * Mutations:
  * - **User Management**:
  *   - `registerUser`: Registers a new user, hashes their password securely, and issues a JWT.
  *   - `loginUser`: Validates user credentials, issues a JWT, and returns user details.
+ *   - `refreshToken`: Rotates a refresh token and issues a new JWT (silent session renewal).
+ *   - `logout`: Revokes a refresh token.
  *   - `createUser`: Creates a user entity (intended for admin or automated workflows).
- *   - `updateUser`: Modifies user profile fields, including name, preferences, or password.
- *   - `deleteUser`: Permanently removes a user and their data from the system.
+ *   - `updateUser`: Modifies user profile fields such as name and preferences (own account, or
+ *     any for admins). Passwords change only through `PUT /api/auth/password`, which checks the
+ *     current one.
+ *   - `deleteUser`: Permanently removes a user and their data from the system and ends their
+ *     sessions (own account, or any for admins). See `services/accounts.js`.
+ *   - `setUserDisabled`: Disables or re-enables an account and ends its sessions (admin only).
  * - **Favorites Management**:
  *   - `addFavorite`: Adds a content item to the user's favorites.
  *   - `updateFavorite`: Updates metadata or attributes of an existing favorite.
  *   - `removeFavorite`: Deletes a specific favorite from the user's collection.
- * - **Content Management**:
+ * - **Content Management** (admin only):
  *   - `createContent`: Adds new content to the catalog.
- *   - `updateContent`: Updates existing content metadata by ID.
- *   - `deleteContent`: Deletes a catalog item by its unique ID.
+ *   - `updateContent`: Updates existing content by ID; `isDeleted: false` restores it.
+ *   - `deleteContent`: Soft-deletes a catalog item (`isDeleted`), hiding it from lists and
+ *     recommendations.
  * - **Recommendations**:
- *   - `createRecommendation`: Links a user to recommended content, with rationale.
- *   - `updateRecommendation`: Updates the rationale or attributes of a recommendation.
+ *   - `createRecommendation`: Links a user to recommended content, with rationale (admin only).
+ *     Stored with the `manual` algorithm; recommending the same content again updates it.
+ *   - `updateRecommendation`: Updates the rationale of a recommendation (admin only).
+ *   - `updateRecommendationStatus`: Marks one of the authenticated user's recommendations
+ *     as viewed or dismissed.
+ *   - `refreshRecommendations`: Runs the content-based and collaborative engines for the
+ *     authenticated user.
  */
 
 import { gql } from "apollo-server-express";
@@ -81,23 +111,99 @@ import User from "../models/User.js";
 import Favorite from "../models/Favorite.js";
 import Content from "../models/Content.js";
 import Recommendation from "../models/Recommendation.js";
+import ViewHistory from "../models/ViewHistory.js";
+import {
+  signAccessToken,
+  issueRefreshToken,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  revokeUserRefreshTokens,
+} from "../utils/tokens.js";
+import { generateContentBasedRecommendations } from "../services/contentBasedEngine.js";
+import { runCollaborativeFiltering } from "../services/collaborativeFiltering.js";
+import { interleaveByAlgorithm } from "../services/recommendationStore.js";
+import { latestPerTitle, parseHistoryLimit } from "../services/viewHistory.js";
+import { normalizePreferences } from "../services/userPreferences.js";
+import { savePreferences } from "../services/preferenceStore.js";
+import { deleteUserAccount } from "../services/accounts.js";
+import {
+  isAccountActive,
+  isSelfOrAdmin,
+} from "../middleware/authMiddleware.js";
+import {
+  contentSlug,
+  contentUpdate,
+  parsePagination,
+  searchFilter,
+  toPage,
+} from "../services/adminConsole.js";
 
 // Authentication middleware for GraphQL
 const authenticate = (resolver) => async (parent, args, context, info) => {
-  const token = context.headers.authorization?.split(" ")[1]; // Extract token
+  const token = context.headers?.authorization?.split(" ")[1]; // Extract token
   if (!token) {
     throw new ApolloError("Authentication required.", "UNAUTHENTICATED");
   }
 
+  let user;
   try {
     // Verify token and attach user to context
-    const user = jwt.verify(token, process.env.JWT_SECRET);
-    context.user = user; // Attach user info to context
-    return resolver(parent, args, context, info);
+    user = jwt.verify(token, process.env.JWT_SECRET);
   } catch (error) {
     console.error("JWT verification failed:", error.message);
     throw new ApolloError("Invalid or expired token.", "UNAUTHENTICATED");
   }
+
+  // The token outlives a disabled or deleted account; the failed refresh that follows logs the
+  // client out
+  if (!(await isAccountActive(user.id))) {
+    throw new ApolloError(
+      "This account is no longer active.",
+      "UNAUTHENTICATED",
+    );
+  }
+
+  context.user = user; // Attach user info to context
+  return resolver(parent, args, context, info);
+};
+
+// Role guard for GraphQL, layered on `authenticate`. Tokens issued before roles existed count as "user"
+const requireRole = (roles, resolver) =>
+  authenticate(async (parent, args, context, info) => {
+    if (!roles.includes(context.user.role || "user")) {
+      throw new ApolloError("Insufficient permissions.", "FORBIDDEN");
+    }
+    return resolver(parent, args, context, info);
+  });
+
+// Ownership guard for GraphQL, layered on `authenticate`: the user ID in `args[idArg]` must be
+// the caller's own unless the caller is an admin
+const requireSelfOrAdmin = (idArg, resolver) =>
+  authenticate(async (parent, args, context, info) => {
+    if (!isSelfOrAdmin(context.user, args[idArg])) {
+      throw new ApolloError("Insufficient permissions.", "FORBIDDEN");
+    }
+    return resolver(parent, args, context, info);
+  });
+
+// Map errors from writes and lookups by ID: invalid IDs, validation and duplicate-key failures
+// are the caller's fault; ApolloErrors pass through; anything else is logged as `message`
+const toApolloError = (error, message) => {
+  if (error instanceof ApolloError) return error;
+  if (error.name === "CastError") {
+    return new ApolloError(`Invalid ${error.path}.`, "BAD_USER_INPUT");
+  }
+  if (error.name === "ValidationError") {
+    return new ApolloError(error.message, "BAD_USER_INPUT");
+  }
+  if (error.code === 11000) {
+    return new ApolloError(
+      "Content with this slug already exists.",
+      "BAD_USER_INPUT",
+    );
+  }
+  console.error(message, error.message);
+  return new ApolloError(message, "INTERNAL_SERVER_ERROR");
 };
 
 const typeDefs = gql`
@@ -106,8 +212,48 @@ const typeDefs = gql`
     name: String!
     email: String!
     password: String
-    preferences: [String]
-    history: [String]
+    role: Role!
+    disabled: Boolean!
+    createdAt: String
+    preferences: Preferences
+    history: [String] # Latest "<mediaType>:<tmdbId>" content IDs, newest first
+  }
+
+  enum Role {
+    user
+    admin
+  }
+
+  enum MediaTypeBias {
+    balanced
+    movie
+    tv
+  }
+
+  type Preferences {
+    favoriteGenres: [Int!]! # TMDb genre IDs
+    dislikedGenres: [Int!]!
+    languages: [String!]! # ISO 639-1 codes
+    maxContentRating: String # "G", "PG", "PG-13", "R" or "NC-17"; null for no limit
+    mediaTypeBias: MediaTypeBias!
+  }
+
+  input PreferencesInput {
+    favoriteGenres: [Int!]
+    dislikedGenres: [Int!]
+    languages: [String!]
+    maxContentRating: String
+    mediaTypeBias: MediaTypeBias
+  }
+
+  type HistoryEntry {
+    id: ID!
+    tmdbId: String!
+    mediaType: String! # "movie" or "tv"
+    action: String! # "viewed" or "watched"
+    title: String
+    posterPath: String
+    viewedAt: String!
   }
 
   type Favorite {
@@ -126,9 +272,47 @@ const typeDefs = gql`
   type Content {
     id: ID!
     title: String!
-    genre: String!
+    slug: String!
+    genre: [String!]!
     rating: Float!
-    metadata: String!
+    metadata: ContentMetadata
+    isDeleted: Boolean!
+    updatedAt: String
+  }
+
+  enum RecommendationStatus {
+    pending
+    viewed
+    dismissed
+  }
+
+  type RecommendationBecause {
+    tmdbId: String!
+    mediaType: String
+    title: String
+    similarity: Float
+    rating: Float
+  }
+
+  type RecommendationContext {
+    algorithm: String
+    score: Float
+    because: [RecommendationBecause!] # Rated titles behind a collaborative suggestion
+  }
+
+  type ContentMetadata {
+    externalId: String
+    mediaType: String # "movie", "tv" or null
+    runtime: Int
+    description: String
+  }
+
+  type RecommendedContent {
+    id: ID!
+    title: String!
+    genre: [String!]!
+    rating: Float
+    metadata: ContentMetadata
   }
 
   type Recommendation {
@@ -136,10 +320,37 @@ const typeDefs = gql`
     userId: ID!
     contentId: ID!
     reason: String!
+    status: RecommendationStatus!
+    context: RecommendationContext
+    content: RecommendedContent # Resolved from contentId; null if the content was removed
+    user: User # Resolved from userId, without the password
+    createdAt: String
+  }
+
+  type UserPage {
+    items: [User!]!
+    total: Int!
+    page: Int!
+    pages: Int!
+  }
+
+  type ContentPage {
+    items: [Content!]!
+    total: Int!
+    page: Int!
+    pages: Int!
+  }
+
+  type RecommendationPage {
+    items: [Recommendation!]!
+    total: Int!
+    page: Int!
+    pages: Int!
   }
 
   type AuthPayload {
     token: String!
+    refreshToken: String # Long-lived token for the refreshToken mutation
     user: User!
   }
 
@@ -157,35 +368,63 @@ const typeDefs = gql`
   input UpdateUserInput {
     name: String
     email: String
-    password: String
-    preferences: [String]
+    preferences: PreferencesInput # Replaces the stored preferences
+  }
+
+  input ContentMetadataInput {
+    externalId: String
+    mediaType: String
+    runtime: Int
+    description: String
   }
 
   input ContentInput {
     title: String!
-    genre: String!
-    rating: Float!
-    metadata: String!
+    genre: [String!]!
+    rating: Float
+    metadata: ContentMetadataInput
   }
 
   input UpdateContentInput {
     title: String
-    genre: String
+    genre: [String!]
     rating: Float
-    metadata: String
+    metadata: ContentMetadataInput # Only the fields sent are changed
+    isDeleted: Boolean # false restores soft-deleted content
+  }
+
+  input ContentFilter {
+    title: String
+    genre: String
   }
 
   type Query {
     getAllUsers: [User!]!
     getUserById(id: ID!): User
     getFavorites: [Favorite!]! # Fetch all favorites for the authenticated user
-    getContent(filter: ContentInput): [Content]
+    getHistory(limit: Int, distinct: Boolean): [HistoryEntry!]! # Newest first
+    getContent(filter: ContentFilter): [Content]
     getRecommendations(userId: ID!): [Recommendation]
+    adminUsers(search: String, page: Int, limit: Int): UserPage!
+    adminContent(
+      search: String
+      includeDeleted: Boolean
+      page: Int
+      limit: Int
+    ): ContentPage!
+    adminRecommendations(
+      userId: ID
+      status: RecommendationStatus
+      page: Int
+      limit: Int
+    ): RecommendationPage!
   }
 
   type Mutation {
     registerUser(input: RegisterInput!): AuthPayload!
     loginUser(input: LoginInput!): AuthPayload!
+    refreshToken(refreshToken: String!): AuthPayload! # Rotate a refresh token for a new access token
+    logout(refreshToken: String!): Boolean! # Revoke a refresh token
     addFavorite(tmdbId: String!, mediaType: String!): Favorite!
     updateFavorite(id: ID!, input: UpdateFavoriteInput!): Favorite!
     removeFavorite(id: ID!): Boolean
@@ -193,7 +432,7 @@ const typeDefs = gql`
     createUser(email: String!, password: String!): User
     updateUser(id: ID!, input: UpdateUserInput!): User
     deleteUser(id: ID!): Boolean
-
+    setUserDisabled(id: ID!, disabled: Boolean!): User # Admin only; ends the user's sessions
     createContent(input: ContentInput!): Content
     updateContent(id: ID!, input: UpdateContentInput!): Content
     deleteContent(id: ID!): Boolean
@@ -204,13 +443,18 @@ const typeDefs = gql`
       reason: String!
     ): Recommendation
     updateRecommendation(id: ID!, reason: String!): Recommendation
+    updateRecommendationStatus(
+      id: ID!
+      status: RecommendationStatus!
+    ): Recommendation! # Mark one of the authenticated user's recommendations
+    refreshRecommendations: [Recommendation!]! # Recompute recommendations for the authenticated user
   }
 `;
 
 const resolvers = {
   Query: {
     // Fetch all users
-    getAllUsers: authenticate(async () => {
+    getAllUsers: requireRole(["admin"], async () => {
       try {
         const users = await User.find().select("-password"); // Exclude passwords
         return users;
@@ -221,7 +465,7 @@ const resolvers = {
     }),
 
     // Fetch a user by ID
-    getUserById: authenticate(async (_, { id }) => {
+    getUserById: requireSelfOrAdmin("id", async (_, { id }) => {
       try {
         const user = await User.findById(id).select("-password");
         if (!user) {
@@ -229,7 +473,7 @@ const resolvers = {
         }
         return user;
       } catch (error) {
-        throw new ApolloError("Failed to fetch user.", "INTERNAL_SERVER_ERROR");
+        throw toApolloError(error, "Failed to fetch user.");
       }
     }),
 
@@ -246,25 +490,113 @@ const resolvers = {
       }
     }),
 
-    // Fetch content based on filter
+    // Fetch the authenticated user's viewing history, newest first
+    getHistory: authenticate(async (_, { limit, distinct }, context) => {
+      try {
+        const max = parseHistoryLimit(limit);
+        const entries = await ViewHistory.find({ userId: context.user.id })
+          .sort({ viewedAt: -1 })
+          .limit(distinct ? max * 5 : max);
+        return distinct ? latestPerTitle(entries).slice(0, max) : entries;
+      } catch (error) {
+        console.error("Error fetching history:", error.message);
+        throw new ApolloError("Failed to fetch history.");
+      }
+    }),
+
+    // Fetch catalog content based on filter, leaving out soft-deleted items
     getContent: async (_, { filter }) => {
       try {
-        const content = await Content.find(filter || {});
+        const content = await Content.find({ ...filter, isDeleted: false });
         return content;
       } catch (error) {
         throw new ApolloError("Failed to fetch content.", error);
       }
     },
 
-    // Fetch recommendations for a user
-    getRecommendations: async (_, { userId }) => {
+    // Fetch recommendations for a user, best matches first
+    getRecommendations: requireSelfOrAdmin("userId", async (_, { userId }) => {
       try {
-        const recommendations = await Recommendation.find({ userId });
-        return recommendations;
+        const recommendations = await Recommendation.find({
+          userId,
+          isDeleted: false,
+        }).sort({ "context.score": -1, createdAt: -1 });
+        return interleaveByAlgorithm(recommendations);
       } catch (error) {
-        throw new ApolloError("Failed to fetch recommendations.", error);
+        throw toApolloError(error, "Failed to fetch recommendations.");
       }
-    },
+    }),
+
+    // Admin console: users matching a name or email search, newest first
+    adminUsers: requireRole(["admin"], async (_, { search, ...args }) => {
+      const pagination = parsePagination(args);
+      const filter = searchFilter(search, ["name", "email"]);
+      try {
+        const [users, total] = await Promise.all([
+          User.find(filter)
+            .select("-password")
+            .sort({ createdAt: -1 })
+            .skip(pagination.skip)
+            .limit(pagination.limit),
+          User.countDocuments(filter),
+        ]);
+        return toPage(users, total, pagination);
+      } catch (error) {
+        console.error("Error fetching users:", error.message);
+        throw new ApolloError("Failed to fetch users.");
+      }
+    }),
+
+    // Admin console: catalog content matching a title search, recently updated first
+    adminContent: requireRole(
+      ["admin"],
+      async (_, { search, includeDeleted, ...args }) => {
+        const pagination = parsePagination(args);
+        const filter = {
+          ...searchFilter(search, ["title"]),
+          ...(includeDeleted ? {} : { isDeleted: false }),
+        };
+        try {
+          const [content, total] = await Promise.all([
+            Content.find(filter)
+              .sort({ updatedAt: -1 })
+              .skip(pagination.skip)
+              .limit(pagination.limit),
+            Content.countDocuments(filter),
+          ]);
+          return toPage(content, total, pagination);
+        } catch (error) {
+          console.error("Error fetching content:", error.message);
+          throw new ApolloError("Failed to fetch content.");
+        }
+      },
+    ),
+
+    // Admin console: recommendations for one user or all users, newest first
+    adminRecommendations: requireRole(
+      ["admin"],
+      async (_, { userId, status, ...args }) => {
+        const pagination = parsePagination(args);
+        const filter = {
+          isDeleted: false,
+          ...(userId ? { userId } : {}),
+          ...(status ? { status } : {}),
+        };
+        try {
+          const [recommendations, total] = await Promise.all([
+            Recommendation.find(filter)
+              .sort({ createdAt: -1 })
+              .skip(pagination.skip)
+              .limit(pagination.limit),
+            Recommendation.countDocuments(filter),
+          ]);
+          return toPage(recommendations, total, pagination);
+        } catch (error) {
+          console.error("Error fetching recommendations:", error.message);
+          throw new ApolloError("Failed to fetch recommendations.");
+        }
+      },
+    ),
   },
 
   Mutation: {
@@ -287,15 +619,18 @@ const resolvers = {
         password: hashedPassword,
       });
 
-      const token = jwt.sign(
-        { id: newUser._id, email: newUser.email, name: newUser.name },
-        process.env.JWT_SECRET,
-        { expiresIn: "1h" },
-      );
+      const token = signAccessToken(newUser);
+      const refreshToken = await issueRefreshToken(newUser._id);
 
       return {
         token,
-        user: { id: newUser._id, name: newUser.name, email: newUser.email },
+        refreshToken,
+        user: {
+          id: newUser._id,
+          name: newUser.name,
+          email: newUser.email,
+          role: newUser.role,
+        },
       };
     },
 
@@ -313,32 +648,74 @@ const resolvers = {
         throw new ApolloError("Invalid email or password.", "UNAUTHORIZED");
       }
 
-      const token = jwt.sign(
-        { id: user._id, email: user.email, name: user.name },
-        process.env.JWT_SECRET,
-        { expiresIn: "1h" },
-      );
+      if (user.isDisabled) {
+        throw new ApolloError("This account has been disabled.", "FORBIDDEN");
+      }
+
+      const token = signAccessToken(user);
+      const refreshToken = await issueRefreshToken(user._id);
 
       return {
         token,
-        user: { id: user._id, name: user.name, email: user.email },
+        refreshToken,
+        user: {
+          id: user._id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+        },
       };
     },
 
+    // Exchange a refresh token for a new access token (the refresh token is rotated)
+    refreshToken: async (_, { refreshToken }) => {
+      const session = await rotateRefreshToken(refreshToken);
+      if (!session) {
+        throw new ApolloError(
+          "Session expired. Please log in again.",
+          "UNAUTHENTICATED",
+        );
+      }
+
+      const { user, token, refreshToken: nextRefreshToken } = session;
+      return {
+        token,
+        refreshToken: nextRefreshToken,
+        user: {
+          id: user._id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+        },
+      };
+    },
+
+    // Revoke a refresh token so it can no longer be used
+    logout: async (_, { refreshToken }) => {
+      try {
+        await revokeRefreshToken(refreshToken);
+        return true;
+      } catch (error) {
+        console.error("Error revoking refresh token:", error.message);
+        throw new ApolloError("Failed to log out.", "INTERNAL_SERVER_ERROR");
+      }
+    },
+
     // Update a user's profile
-    updateUser: authenticate(async (_, { id, input }) => {
+    updateUser: requireSelfOrAdmin("id", async (_, { id, input }) => {
+      if (input.preferences) {
+        const result = await savePreferences(id, input.preferences);
+        if (result.error) {
+          throw new ApolloError(result.error, "BAD_USER_INPUT");
+        }
+      }
+
       const updateFields = {};
       if (input.name !== undefined) updateFields.name = input.name;
-      if (input.preferences !== undefined)
-        updateFields.preferences = input.preferences;
-      if (input.password) {
-        const hashedPassword = await bcrypt.hash(input.password, 10);
-        updateFields.password = hashedPassword;
-      }
 
       const updatedUser = await User.findByIdAndUpdate(id, updateFields, {
         new: true,
-      });
+      }).select("-password");
       if (!updatedUser) {
         throw new ApolloError("User not found.", "NOT_FOUND");
       }
@@ -346,22 +723,50 @@ const resolvers = {
     }),
 
     // Delete a user account
-    deleteUser: authenticate(async (_, { id }) => {
+    deleteUser: requireSelfOrAdmin("id", async (_, { id }) => {
       try {
-        const deletedUser = await User.findByIdAndDelete(id);
+        const deletedUser = await deleteUserAccount(id);
         if (!deletedUser) {
           throw new ApolloError("User not found.", "NOT_FOUND");
         }
         return true;
       } catch (error) {
-        console.error("Error deleting user:", error.message);
-        throw new ApolloError(
-          "Failed to delete user.",
-          "INTERNAL_SERVER_ERROR",
-        );
+        throw toApolloError(error, "Failed to delete user.");
       }
     }),
 
+    // Disable or re-enable an account. Disabling also ends the user's sessions, so they are
+    // signed out once their current access token expires.
+    setUserDisabled: requireRole(
+      ["admin"],
+      async (_, { id, disabled }, context) => {
+        if (id === context.user.id) {
+          throw new ApolloError(
+            "You can't disable your own account.",
+            "BAD_USER_INPUT",
+          );
+        }
+
+        try {
+          const user = await User.findByIdAndUpdate(
+            id,
+            { isDisabled: disabled },
+            { new: true },
+          ).select("-password");
+          if (!user) {
+            throw new ApolloError("User not found.", "NOT_FOUND");
+          }
+
+          if (disabled) {
+            await revokeUserRefreshTokens(user._id);
+          }
+          return user;
+        } catch (error) {
+          throw toApolloError(error, "Failed to update user.");
+        }
+      },
+    ),
+
     // Add a new favorite
     addFavorite: authenticate(async (_, { tmdbId, mediaType }, context) => {
       try {
@@ -441,66 +846,175 @@ const resolvers = {
     }),
 
     // Create content
-    createContent: async (_, { input }) => {
+    createContent: requireRole(["admin"], async (_, { input }) => {
       try {
-        const newContent = new Content(input);
+        const newContent = new Content({ ...input, slug: contentSlug(input) });
         await newContent.save();
         return newContent;
       } catch (error) {
-        throw new ApolloError("Failed to create content.", error);
+        throw toApolloError(error, "Failed to create content.");
       }
-    },
+    }),
 
-    // Update content
-    updateContent: async (_, { id, input }) => {
+    // Update content; metadata fields that aren't sent are kept
+    updateContent: requireRole(["admin"], async (_, { id, input }) => {
       try {
-        const updatedContent = await Content.findByIdAndUpdate(id, input, {
-          new: true,
-        });
+        const updatedContent = await Content.findByIdAndUpdate(
+          id,
+          { $set: contentUpdate(input) },
+          { new: true, runValidators: true },
+        );
+        if (!updatedContent) {
+          throw new ApolloError("Content not found.", "NOT_FOUND");
+        }
         return updatedContent;
       } catch (error) {
-        throw new ApolloError("Failed to update content.", error);
+        throw toApolloError(error, "Failed to update content.");
       }
-    },
-
-    // Delete content
-    deleteContent: async (_, { id }) => {
-      try {
-        await Content.findByIdAndDelete(id);
-        return true;
-      } catch (error) {
-        throw new ApolloError("Failed to delete content.", error);
-      }
-    },
+    }),
 
-    // Create recommendation
-    createRecommendation: async (_, { userId, contentId, reason }) => {
+    // Soft-delete content so existing recommendations keep their reference
+    deleteContent: requireRole(["admin"], async (_, { id }) => {
       try {
-        const newRecommendation = new Recommendation({
-          userId,
-          contentId,
-          reason,
+        const deletedContent = await Content.findByIdAndUpdate(id, {
+          isDeleted: true,
         });
-        await newRecommendation.save();
-        return newRecommendation;
+        return Boolean(deletedContent);
       } catch (error) {
-        throw new ApolloError("Failed to create recommendation.", error);
+        throw toApolloError(error, "Failed to delete content.");
       }
-    },
+    }),
+
+    // Recommend catalog content to a user by hand
+    createRecommendation: requireRole(
+      ["admin"],
+      async (_, { userId, contentId, reason }) => {
+        try {
+          const [user, content] = await Promise.all([
+            User.exists({ _id: userId }),
+            Content.exists({ _id: contentId, isDeleted: false }),
+          ]);
+          if (!user) {
+            throw new ApolloError("User not found.", "NOT_FOUND");
+          }
+          if (!content) {
+            throw new ApolloError("Content not found.", "NOT_FOUND");
+          }
+
+          return await Recommendation.findOneAndUpdate(
+            { userId, contentId },
+            {
+              $set: {
+                reason,
+                context: { algorithm: "manual", score: null },
+                isDeleted: false,
+              },
+              $setOnInsert: { status: "pending" },
+            },
+            { upsert: true, new: true, runValidators: true },
+          );
+        } catch (error) {
+          throw toApolloError(error, "Failed to create recommendation.");
+        }
+      },
+    ),
 
     // Update recommendation
-    updateRecommendation: async (_, { id, reason }) => {
+    updateRecommendation: requireRole(["admin"], async (_, { id, reason }) => {
       try {
         const updatedRecommendation = await Recommendation.findByIdAndUpdate(
           id,
           { reason },
-          { new: true },
+          { new: true, runValidators: true },
         );
+        if (!updatedRecommendation) {
+          throw new ApolloError("Recommendation not found.", "NOT_FOUND");
+        }
         return updatedRecommendation;
       } catch (error) {
-        throw new ApolloError("Failed to update recommendation.", error);
+        throw toApolloError(error, "Failed to update recommendation.");
+      }
+    }),
+
+    // Mark a recommendation as viewed or dismissed for the authenticated user
+    updateRecommendationStatus: authenticate(
+      async (_, { id, status }, context) => {
+        const recommendation = await Recommendation.findOneAndUpdate(
+          { _id: id, userId: context.user.id, isDeleted: false }, // Match user ownership
+          { status },
+          { new: true },
+        );
+
+        if (!recommendation) {
+          throw new ApolloError("Recommendation not found.", "NOT_FOUND");
+        }
+
+        return recommendation;
+      },
+    ),
+
+    // Recompute recommendations for the authenticated user. Collaborative runs last so its
+    // explained suggestions win when both engines pick the same title.
+    refreshRecommendations: authenticate(async (_, args, context) => {
+      try {
+        await generateContentBasedRecommendations(context.user.id);
+        await runCollaborativeFiltering({ userIds: [context.user.id] });
+
+        return await Recommendation.find({
+          userId: context.user.id,
+          isDeleted: false,
+        }).sort({ "context.score": -1, createdAt: -1 });
+      } catch (error) {
+        console.error("Error refreshing recommendations:", error.message);
+        throw new ApolloError(
+          "Failed to refresh recommendations.",
+          "INTERNAL_SERVER_ERROR",
+        );
+      }
+    }),
+  },
+
+  Recommendation: {
+    // Resolve the recommended content document referenced by contentId
+    content: async (recommendation) => {
+      try {
+        return await Content.findOne({
+          _id: recommendation.contentId,
+          isDeleted: false,
+        });
+      } catch (error) {
+        console.error("Error resolving recommended content:", error.message);
+        return null;
+      }
+    },
+
+    // Resolve the recommended user (admin console), never exposing the password
+    user: async (recommendation) => {
+      try {
+        return await User.findById(recommendation.userId).select("-password");
+      } catch (error) {
+        console.error("Error resolving recommended user:", error.message);
+        return null;
       }
     },
+
+    createdAt: (recommendation) => recommendation.createdAt?.toISOString(),
+  },
+
+  Content: {
+    updatedAt: (content) => content.updatedAt?.toISOString(),
+  },
+
+  User: {
+    // Defaults filled in, and legacy genre-name lists converted
+    preferences: (user) => normalizePreferences(user.preferences),
+    disabled: (user) => Boolean(user.isDisabled),
+    createdAt: (user) => user.createdAt?.toISOString(),
+  },
+
+  HistoryEntry: {
+    // ISO timestamps rather than the String scalar's epoch milliseconds
+    viewedAt: (entry) => new Date(entry.viewedAt).toISOString(),
   },
 };
 
@@ -17,6 +17,7 @@ export default {
     "graphql/**/*.js",
     "config/**/*.js",
     "models/**/*.js",
+    "services/**/*.js",
     "!**/node_modules/**",
     "!**/coverage/**",
   ],
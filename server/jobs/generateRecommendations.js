@@ -0,0 +1,89 @@
+/**
+ * Recommendation Generation Job
+ *
+ * Recomputes stored recommendations for every user (or a single user) and reports how many
+ * were written. Intended to be run on a schedule or by hand:
+ *
+ * ```bash
+ * npm run recommendations                               # all users, live TMDb data
+ * npm run recommendations -- --user <userId>            # a single user
+ * npm run recommendations -- --fixtures tests/fixtures/tmdb   # offline, recorded TMDb payloads
+ * npm run recommendations -- --algorithm collaborative-filtering  # one engine only
+ * ```
+ *
+ * Engines (`--algorithm`, default: both):
+ * - `content-based`: genre/keyword profile from favorites, ratings and preferences.
+ * - `collaborative-filtering`: item-item similarity over all users' ratings. Runs after the
+ *   content-based engine so its explained suggestions win on overlapping titles.
+ *
+ * Environment Variables:
+ * - `MONGODB_URI`: Database to read signals from and write recommendations to.
+ * - `TMDB_ACCESS_TOKEN`: Required unless `--fixtures` is given.
+ */
+
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import connectDB from "../config/db.js";
+import User from "../models/User.js";
+import { generateContentBasedRecommendations } from "../services/contentBasedEngine.js";
+import { runCollaborativeFiltering } from "../services/collaborativeFiltering.js";
+import { createFixtureSources } from "../services/tmdbFixtures.js";
+
+dotenv.config();
+
+// Read the value following a `--flag` argument
+const argValue = (flag) => {
+  const index = process.argv.indexOf(flag);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const run = async () => {
+  const userId = argValue("--user");
+  const fixturesDir = argValue("--fixtures");
+  const algorithm = argValue("--algorithm");
+  const sources = fixturesDir ? createFixtureSources(fixturesDir) : {};
+
+  try {
+    await connectDB(process.env.MONGODB_URI);
+
+    if (!algorithm || algorithm === "content-based") {
+      const users = userId
+        ? [{ _id: userId }]
+        : await User.find().select("_id");
+
+      for (const user of users) {
+        try {
+          const saved = await generateContentBasedRecommendations(
+            user._id,
+            sources,
+          );
+          console.log(
+            `User ${user._id}: ${saved.length} content-based recommendations.`,
+          );
+        } catch (error) {
+          console.error(`User ${user._id}: failed -`, error.message);
+        }
+      }
+    }
+
+    if (!algorithm || algorithm === "collaborative-filtering") {
+      const results = await runCollaborativeFiltering({
+        userIds: userId ? [userId] : undefined,
+        sources,
+      });
+      results.forEach((saved, id) =>
+        console.log(
+          `User ${id}: ${saved.length} collaborative recommendations.`,
+        ),
+      );
+    }
+
+    await mongoose.connection.close();
+    process.exit(0);
+  } catch (error) {
+    console.error("Error generating recommendations:", error.message);
+    process.exit(1);
+  }
+};
+
+run();
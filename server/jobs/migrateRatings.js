@@ -0,0 +1,53 @@
+/**
+ * Rating Migration Job
+ *
+ * Brings a database created before ratings had a `mediaType` up to the current `Rating` model.
+ * Safe to run more than once:
+ *
+ * ```bash
+ * npm run migrate:ratings
+ * ```
+ *
+ * Steps:
+ * 1. Backfills `mediaType: "movie"` on ratings saved without one (the model's default).
+ * 2. Syncs the collection's indexes with the model. This drops the old unique
+ *    `{ userId, tmdbId }` index, which would otherwise reject rating a TV show whose ID matches a
+ *    movie the user already rated, and builds `{ userId, tmdbId, mediaType }`.
+ *
+ * Environment Variables:
+ * - `MONGODB_URI`: Database to migrate.
+ */
+
+import mongoose from "mongoose";
+import dotenv from "dotenv";
+import connectDB from "../config/db.js";
+import Rating from "../models/Ratings.js";
+
+dotenv.config();
+
+const run = async () => {
+  try {
+    await connectDB(process.env.MONGODB_URI);
+
+    const { modifiedCount } = await Rating.updateMany(
+      { mediaType: { $exists: false } },
+      { $set: { mediaType: "movie" } },
+    );
+    console.log(`Backfilled mediaType on ${modifiedCount} ratings.`);
+
+    const dropped = await Rating.syncIndexes();
+    console.log(
+      dropped.length
+        ? `Dropped outdated indexes: ${dropped.join(", ")}.`
+        : "Indexes already up to date.",
+    );
+
+    await mongoose.connection.close();
+    process.exit(0);
+  } catch (error) {
+    console.error("Error migrating ratings:", error.message);
+    process.exit(1);
+  }
+};
+
+run();
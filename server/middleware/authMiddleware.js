@@ -12,10 +12,18 @@
  *   secret key (`JWT_SECRET`).
  * - **User Context**: Decodes the token and attaches the user's information to
  *   the `req` object for use in subsequent middleware or route handlers.
+ * - **Role Guard**: `requireRole(...roles)` runs after `protectRoute` and only lets
+ *   through users whose token carries one of the given roles (`"user"`, `"admin"`).
+ * - **Ownership Guard**: `requireSelfOrAdmin(param)` only lets users act on their own account
+ *   (the user ID in `req.params[param]`); admins may act on any account.
  *
  * Error Handling:
  * - **401 Unauthorized**: Responds when the token is missing from the request header.
- * - **403 Forbidden**: Responds when the token is invalid, expired, or cannot be verified.
+ * - **401 Unauthorized**: Also responds when the token is invalid, expired, or cannot be
+ *   verified, or when its account has been disabled or deleted. Clients refresh the session on
+ *   401.
+ * - **403 Forbidden**: Responds only when `requireRole` or `requireSelfOrAdmin` rejects the
+ *   (validly signed-in) user; refreshing would not help.
  *
  * Use Case:
  * - Apply this middleware to any backend route requiring authentication.
@@ -33,14 +41,15 @@
  * 2. If no token is found, respond with a `401 Unauthorized` status.
  * 3. Verify the token using `jsonwebtoken.verify()`:
  *    - If valid, decode the payload and attach it to `req.user`.
- *    - If invalid, respond with a `403 Forbidden` status.
+ *    - If invalid, respond with a `401 Unauthorized` status.
+ *    - If the account has been disabled or deleted since the token was issued, respond with `401`.
  * 4. Proceed to the next middleware or route handler upon successful verification.
  *
  * Security Considerations:
  * - Ensure the `JWT_SECRET` is stored securely and not exposed.
  * - Tokens should have an appropriate expiration time to minimize the impact of a
  *   potential token leak.
- * - Validate user roles and permissions in downstream handlers if needed.
+ * - Roles come from the token, so a role change applies once the user's token is refreshed.
  *
  * Example Usage:
  * ```javascript
@@ -48,31 +57,88 @@
  * app.post('/protected-route', protectRoute, (req, res) => {
  *   res.json({ message: `Welcome, ${req.user.name}!` });
  * });
+ * app.delete('/admin-route', protectRoute, requireRole('admin'), handler);
+ * app.get('/users/:userId/data', protectRoute, requireSelfOrAdmin('userId'), handler);
  */
 
 import jwt from "jsonwebtoken";
+import User from "../models/User.js";
+
+/**
+ * Whether the account `userId` still exists and hasn't been disabled by an admin. Checked on
+ * every authenticated request (REST and GraphQL), since the user's access token stays valid
+ * until it expires.
+ */
+export const isAccountActive = async (userId) =>
+  Boolean(await User.exists({ _id: userId, isDisabled: false }));
 
 /**
  * Middleware to protect routes by verifying JWT.
  */
-const protectRoute = (req, res, next) => {
+const protectRoute = async (req, res, next) => {
   const token = req.headers.authorization?.split(" ")[1]; // Extract token from Authorization header
 
   if (!token) {
     return res.status(401).json({ message: "Authorization token missing" });
   }
 
+  let decoded;
   try {
     // Verify token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET);
-
-    // Attach user info to request object
-    req.user = decoded;
-    next(); // Proceed to the next middleware or route handler
+    decoded = jwt.verify(token, process.env.JWT_SECRET);
   } catch (error) {
     console.error("JWT verification failed:", error.message);
-    res.status(403).json({ message: "Invalid or expired token" });
+    return res.status(401).json({ message: "Invalid or expired token" });
   }
+
+  try {
+    if (!(await isAccountActive(decoded.id))) {
+      return res
+        .status(401)
+        .json({ message: "This account is no longer active." });
+    }
+  } catch (error) {
+    console.error("Error checking account status:", error.message);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+
+  // Attach user info to request object
+  req.user = decoded;
+  next(); // Proceed to the next middleware or route handler
 };
 
+/**
+ * Middleware factory that allows only users with one of `roles`. Use after `protectRoute`.
+ * Tokens issued before roles existed have no `role` and count as `"user"`.
+ */
+export const requireRole =
+  (...roles) =>
+  (req, res, next) => {
+    if (!roles.includes(req.user?.role || "user")) {
+      return res.status(403).json({ message: "Insufficient permissions" });
+    }
+    next();
+  };
+
+/**
+ * Whether `user` (a decoded token) may act on the account `userId`: their own, or any if they
+ * are an admin. Shared with the GraphQL resolvers.
+ */
+export const isSelfOrAdmin = (user, userId) =>
+  Boolean(user) &&
+  (user.role === "admin" || String(user.id) === String(userId));
+
+/**
+ * Middleware factory that allows users to reach only their own account, named by the
+ * `req.params[param]` user ID; admins may reach any. Use after `protectRoute`.
+ */
+export const requireSelfOrAdmin =
+  (param = "userId") =>
+  (req, res, next) => {
+    if (!isSelfOrAdmin(req.user, req.params[param])) {
+      return res.status(403).json({ message: "Insufficient permissions" });
+    }
+    next();
+  };
+
 export default protectRoute;
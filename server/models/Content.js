@@ -28,6 +28,7 @@
  *   - `rating` (Number, optional): User or system-provided rating, from 0 to 10 (default: 0).
  *   - `metadata` (Object, optional): Additional descriptive fields:
  *     - `externalId` (String): Links to external systems (e.g., TMDB ID).
+ *     - `mediaType` (String): TMDb media type ("movie" or "tv") for the external ID.
  *     - `releaseDate` (Date): Content release date.
  *     - `runtime` (Number): Duration in minutes.
  *     - `description` (String): Textual description or summary.
@@ -117,6 +118,7 @@ const contentSchema = new mongoose.Schema(
     },
     metadata: {
       externalId: { type: String, default: null },
+      mediaType: { type: String, enum: ["movie", "tv", null], default: null },
       releaseDate: { type: Date, default: null },
       runtime: { type: Number, default: null },
       description: { type: String, default: "" },
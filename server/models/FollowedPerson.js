@@ -0,0 +1,66 @@
+/**
+ * FollowedPerson Model
+ *
+ * Records which actors, directors and other TMDb people a user follows. The content-based
+ * engine reads these to add the followed people's recent movies and TV shows to its
+ * candidates.
+ *
+ * Schema Details:
+ * - **Fields**:
+ *   - `userId` (ObjectId, required): The following user.
+ *   - `personId` (Number, required): TMDb person ID.
+ *   - `name` (String, required): Display name captured from TMDb when followed, so lists and
+ *     recommendation reasons render without another TMDb request.
+ *   - `profilePath` (String, optional): TMDb profile image path.
+ *   - `knownForDepartment` (String, optional): e.g. "Acting" or "Directing".
+ * - **Timestamps**:
+ *   - `createdAt` doubles as the follow date.
+ * - **Indexing**:
+ *   - A unique compound index on `userId` and `personId` prevents duplicate follows.
+ *
+ * Example:
+ * ```javascript
+ * import FollowedPerson from "./models/FollowedPerson.js";
+ *
+ * await FollowedPerson.create({ userId, personId: 525, name: "Christopher Nolan" });
+ * const follows = await FollowedPerson.find({ userId }).sort({ createdAt: -1 });
+ * ```
+ */
+
+import mongoose from "mongoose";
+
+const followedPersonSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    personId: {
+      type: Number,
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+    },
+    profilePath: {
+      type: String,
+      default: null,
+    },
+    knownForDepartment: {
+      type: String,
+      default: null,
+    },
+  },
+  { timestamps: true },
+);
+
+// Prevent following the same person twice
+followedPersonSchema.index({ userId: 1, personId: 1 }, { unique: true });
+
+const FollowedPerson =
+  mongoose.models.FollowedPerson ||
+  mongoose.model("FollowedPerson", followedPersonSchema);
+
+export default FollowedPerson;
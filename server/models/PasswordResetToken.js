@@ -0,0 +1,59 @@
+/**
+ * PasswordResetToken Model
+ *
+ * This module defines the schema and model for password reset tokens, the one-time secrets
+ * mailed to a user who asks to reset a forgotten password.
+ *
+ * Key Features:
+ * - **Hashed Storage**:
+ *   - Only a SHA-256 hash of the token is stored, like `RefreshToken`, so a database leak does
+ *     not expose usable reset links.
+ * - **Single Use**:
+ *   - A token is consumed (`usedAt`) by the reset that uses it, and requesting a new link
+ *     consumes any earlier unused ones.
+ * - **Automatic Cleanup**:
+ *   - A TTL index on `expiresAt` lets MongoDB delete expired tokens.
+ *
+ * Schema Details:
+ * - `userId` (ObjectId, required): References the `User` whose password may be reset.
+ * - `tokenHash` (String, required, unique): SHA-256 hash of the raw token.
+ * - `expiresAt` (Date, required): When the token stops being accepted.
+ * - `usedAt` (Date, default: `null`): Set when the token is used or replaced.
+ */
+
+import mongoose from "mongoose";
+
+const passwordResetTokenSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { timestamps: true },
+);
+
+// Let MongoDB remove tokens once they expire
+passwordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const PasswordResetToken = mongoose.model(
+  "PasswordResetToken",
+  passwordResetTokenSchema,
+);
+
+export default PasswordResetToken;
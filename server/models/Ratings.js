@@ -6,7 +6,9 @@
  *
  * Key Features:
  * - **User-Content Association**:
- *   - Links each rating to a specific user (`userId`) and content item (`tmdbId`).
+ *   - Links each rating to a specific user (`userId`) and content item (`tmdbId` + `mediaType`).
+ *   - Movie and TV IDs overlap on TMDb (movie 1399 is not "Game of Thrones"), so `mediaType` is
+ *     part of the identity. Ratings saved before it existed default to `"movie"`.
  * - **Rating System**:
  *   - Enforces a scoring system with values ranging from 0 to 10, allowing half-point ratings.
  * - **Timestamps**:
@@ -18,10 +20,15 @@
  * - **Fields**:
  *   - `userId` (ObjectId, required): References the `User` model to associate the rating with a user.
  *   - `tmdbId` (String, required): TMDb ID of the rated content, identifying movies or TV shows.
+ *   - `mediaType` (String, default: `"movie"`): Whether `tmdbId` is a "movie" or "tv" ID.
  *   - `rating` (Number, required): Numeric score (0–10) provided by the user.
  *   - `ratedAt` (Date, default: `Date.now`): Tracks when the rating was submitted.
  * - **Indexing**:
- *   - Enforces uniqueness for the combination of `userId` and `tmdbId` to ensure a single rating per user-content pair.
+ *   - Enforces uniqueness for the combination of `userId`, `tmdbId` and `mediaType` to ensure a single rating per user-content pair.
+ *   - Databases created before `mediaType` still hold the old `userId_1_tmdbId_1` unique index,
+ *     which Mongoose doesn't drop on its own. Run `npm run migrate:ratings`
+ *     (`jobs/migrateRatings.js`) to backfill `mediaType` and replace it, so a movie and a TV
+ *     show sharing an ID can both be rated.
  * - **Timestamps**:
  *   - Utilizes Mongoose's `timestamps` feature to automatically add `createdAt` and `updatedAt` fields.
  *
@@ -38,13 +45,14 @@
  * const newRating = new Rating({
  *   userId: "603d2c5b2f8fb814b56f1d85",
  *   tmdbId: "550", // Example TMDb ID for "Fight Club"
+ *   mediaType: "movie",
  *   rating: 8.5, // User-provided score
  * });
  * await newRating.save();
  *
  * // Update an existing rating
  * const updatedRating = await Rating.findOneAndUpdate(
- *   { userId: "603d2c5b2f8fb814b56f1d85", tmdbId: "550" },
+ *   { userId: "603d2c5b2f8fb814b56f1d85", tmdbId: "550", mediaType: "movie" },
  *   { $set: { rating: 9 } },
  *   { new: true }
  * );
@@ -53,12 +61,12 @@
  * const userRatings = await Rating.find({ userId: "603d2c5b2f8fb814b56f1d85" });
  *
  * // Remove a rating
- * await Rating.findOneAndDelete({ userId: "603d2c5b2f8fb814b56f1d85", tmdbId: "550" });
+ * await Rating.findOneAndDelete({ userId: "603d2c5b2f8fb814b56f1d85", tmdbId: "550", mediaType: "movie" });
  * ```
  *
  * Security and Best Practices:
  * - Validate `userId`, `tmdbId`, and `rating` inputs at the service/controller level to prevent invalid data entries.
- * - Use the unique index on `userId` and `tmdbId` to maintain data consistency.
+ * - Use the unique index on `userId`, `tmdbId` and `mediaType` to maintain data consistency.
  * - Implement soft deletion (e.g., `isDeleted` flag) if historical rating data needs to be preserved.
  *
  * Technologies:
@@ -84,6 +92,11 @@ const ratingSchema = new mongoose.Schema(
       type: String,
       required: true,
     },
+    mediaType: {
+      type: String,
+      enum: ["movie", "tv"],
+      default: "movie",
+    },
     rating: {
       type: Number,
       min: 0,
@@ -99,7 +112,7 @@ const ratingSchema = new mongoose.Schema(
 );
 
 // Prevent duplicate ratings for the same user and content
-ratingSchema.index({ userId: 1, tmdbId: 1 }, { unique: true });
+ratingSchema.index({ userId: 1, tmdbId: 1, mediaType: 1 }, { unique: true });
 
 const Rating = mongoose.model("Rating", ratingSchema);
 
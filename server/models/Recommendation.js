@@ -26,6 +26,8 @@
  *   - `reason` (String, optional): Provides a human-readable explanation for the recommendation.
  *   - `status` (String, optional): Tracks lifecycle states ("viewed", "dismissed", "pending").
  *   - `context` (Object, optional): Stores metadata such as algorithm type and relevance scores.
+ *     - `because` (Array): For collaborative suggestions, the user's rated titles (with item
+ *       similarity) that drove the recommendation.
  *   - `isDeleted` (Boolean, default: `false`): Marks the recommendation as soft-deleted.
  * - **Timestamps**:
  *   - Automatically adds `createdAt` and `updatedAt` fields using Mongoose's `timestamps` feature.
@@ -127,6 +129,17 @@ const recommendationSchema = new mongoose.Schema(
         type: Number,
         default: null,
       },
+      // Rated titles that drove a collaborative suggestion ("Because you rated X")
+      because: [
+        {
+          _id: false,
+          tmdbId: { type: String, required: true },
+          mediaType: { type: String, enum: ["movie", "tv"], default: "movie" },
+          title: { type: String, default: "Unknown" },
+          similarity: { type: Number, default: null },
+          rating: { type: Number, default: null },
+        },
+      ],
     },
     isDeleted: {
       type: Boolean,
@@ -0,0 +1,56 @@
+/**
+ * RefreshToken Model
+ *
+ * This module defines the schema and model for long-lived refresh tokens. Access tokens (JWTs)
+ * expire after one hour; a refresh token lets the client obtain a new access token without
+ * asking the user to log in again.
+ *
+ * Key Features:
+ * - **Hashed Storage**:
+ *   - Only a SHA-256 hash of the token is stored, so a database leak does not expose usable tokens.
+ * - **Rotation**:
+ *   - Every refresh revokes the presented token (`revokedAt`) and issues a new one.
+ *   - Presenting an already revoked token revokes all of the user's tokens (reuse detection).
+ * - **Automatic Cleanup**:
+ *   - A TTL index on `expiresAt` lets MongoDB delete expired tokens.
+ *
+ * Schema Details:
+ * - `userId` (ObjectId, required): References the `User` who owns the token.
+ * - `tokenHash` (String, required, unique): SHA-256 hash of the raw token.
+ * - `expiresAt` (Date, required): When the token stops being accepted.
+ * - `revokedAt` (Date, default: `null`): Set when the token is rotated or the user logs out.
+ */
+
+import mongoose from "mongoose";
+
+const refreshTokenSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+      index: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { timestamps: true },
+);
+
+// Let MongoDB remove tokens once they expire
+refreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RefreshToken = mongoose.model("RefreshToken", refreshTokenSchema);
+
+export default RefreshToken;
@@ -23,8 +23,20 @@
  *   - `name` (String, required): Stores the user's full name with validation for length and format.
  *   - `email` (String, required): Unique email identifier for login, validated with a regex pattern.
  *   - `password` (String, required): Stores the user's hashed password, ensuring security and validation for non-empty inputs.
- *   - `preferences` (Array of Strings, optional): Tracks user-defined categories, genres, or tags of interest.
- *   - `history` (Array of Strings, optional): Logs content IDs representing user interactions.
+ *   - `role` (String, default: `"user"`): `"user"` or `"admin"`. Copied into the access token, so a
+ *     role change takes effect at the user's next token refresh (at most one hour).
+ *   - `isDisabled` (Boolean, default: `false`): Set by admins. Disabled users can't log in,
+ *     refresh their session or use an access token issued earlier.
+ *   - `preferences` (Object): Structured taste settings read by the recommendation engine:
+ *     - `favoriteGenres` / `dislikedGenres` (Array of Numbers): TMDb genre IDs.
+ *     - `languages` (Array of Strings): Preferred ISO 639-1 original languages.
+ *     - `maxContentRating` (String or null): Content rating ceiling (`"G"` ... `"NC-17"`).
+ *     - `mediaTypeBias` (String): `"balanced"`, `"movie"` or `"tv"`.
+ *     Assigning or loading a legacy array of genre names converts it to `favoriteGenres`
+ *     (see `services/userPreferences.js`).
+ *   - `history` (Array of Strings, optional): The latest titles the user viewed or watched as
+ *     `<mediaType>:<tmdbId>` content IDs, newest first. Maintained by `services/viewHistory.js`,
+ *     which stores the timestamped events in the `ViewHistory` model.
  * - **Timestamps**:
  *   - Automatically adds `createdAt` and `updatedAt` fields for lifecycle tracking.
  *
@@ -45,8 +57,8 @@
  *   name: "Jane Doe",
  *   email: "jane.doe@example.com",
  *   password: hashedPassword, // Password should be hashed before saving
- *   preferences: ["Sci-Fi", "Action"],
- *   history: ["content123", "content456"],
+ *   preferences: { favoriteGenres: [878, 28], languages: ["en"] },
+ *   history: ["movie:550", "tv:1399"],
  * });
  * await newUser.save();
  *
@@ -54,7 +66,9 @@
  * const user = await User.findOne({ email: "jane.doe@example.com" });
  *
  * // Update user preferences
- * await User.findByIdAndUpdate(user._id, { $set: { preferences: ["Drama", "Mystery"] } });
+ * await User.findByIdAndUpdate(user._id, {
+ *   $set: { preferences: { favoriteGenres: [18, 9648], mediaTypeBias: "tv" } },
+ * });
  *
  * // Delete a user
  * await User.findByIdAndDelete(user._id);
@@ -73,8 +87,6 @@
  *   - Handle `unique` index violations for `email` to provide meaningful feedback to users.
  *
  * Future Enhancements:
- * - **Role-Based Access Control (RBAC)**:
- *   - Extend the schema to include roles (e.g., "admin", "editor", "user") for advanced permissions.
  * - **User Activity Tracking**:
  *   - Add fields to log user login timestamps or IP addresses for security purposes.
  * - **Data Encryption**:
@@ -90,6 +102,41 @@
  */
 
 import mongoose from "mongoose";
+import {
+  CONTENT_RATINGS,
+  MEDIA_TYPE_BIASES,
+  fromLegacyPreferences,
+} from "../services/userPreferences.js";
+
+export const ROLES = ["user", "admin"];
+
+const preferencesSchema = new mongoose.Schema(
+  {
+    favoriteGenres: { type: [Number], default: [] },
+    dislikedGenres: { type: [Number], default: [] },
+    languages: {
+      type: [String],
+      default: [],
+      validate: {
+        validator(arr) {
+          return arr.every((code) => /^[a-z]{2}$/.test(code));
+        },
+        message: "Languages must be two-letter ISO 639-1 codes",
+      },
+    },
+    maxContentRating: {
+      type: String,
+      enum: [...CONTENT_RATINGS, null],
+      default: null,
+    },
+    mediaTypeBias: {
+      type: String,
+      enum: MEDIA_TYPE_BIASES,
+      default: "balanced",
+    },
+  },
+  { _id: false },
+);
 
 const userSchema = new mongoose.Schema(
   {
@@ -118,15 +165,21 @@ const userSchema = new mongoose.Schema(
         message: "Password cannot be empty or contain only spaces",
       },
     },
+    role: {
+      type: String,
+      enum: ROLES,
+      default: "user",
+    },
+    isDisabled: {
+      type: Boolean,
+      default: false,
+    },
     preferences: {
-      type: [String],
-      default: [],
-      validate: {
-        validator(arr) {
-          return arr.every((pref) => typeof pref === "string");
-        },
-        message: "Preferences must be an array of strings",
-      },
+      type: preferencesSchema,
+      default: () => ({}),
+      // Older clients send a list of genre names
+      set: (value) =>
+        Array.isArray(value) ? fromLegacyPreferences(value) : value,
     },
     history: {
       type: [String],
@@ -142,6 +195,14 @@ const userSchema = new mongoose.Schema(
   { timestamps: true }, // Adds createdAt and updatedAt timestamps
 );
 
+// Documents stored before structured preferences hold a list of genre names; setters don't
+// run on load, so convert them here or they'd load as defaults and be lost on the next save
+userSchema.pre("init", (doc) => {
+  if (Array.isArray(doc.preferences)) {
+    doc.preferences = fromLegacyPreferences(doc.preferences);
+  }
+});
+
 const User = mongoose.model("User", userSchema);
 
 export default User;
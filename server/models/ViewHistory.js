@@ -0,0 +1,75 @@
+/**
+ * ViewHistory Model
+ *
+ * One document per time a user looked at or watched a title. The recorded events back the
+ * "Recently Viewed" row and the history endpoints; `User.history` keeps only the latest
+ * content IDs (see `services/viewHistory.js`).
+ *
+ * Schema Details:
+ * - **Fields**:
+ *   - `userId` (ObjectId, required): The viewer.
+ *   - `tmdbId` (String, required): TMDb ID of the movie or TV show.
+ *   - `mediaType` (String, required): `"movie"` or `"tv"`.
+ *   - `action` (String, required): `"viewed"` (details opened) or `"watched"` (episodes marked
+ *     as watched).
+ *   - `title` / `posterPath` (String, optional): Display data captured when the event was
+ *     recorded, so history renders without a TMDb request per entry.
+ *   - `viewedAt` (Date): When the event happened. Repeated events within a short window update
+ *     this instead of adding documents.
+ * - **Indexing**:
+ *   - `userId` + `viewedAt` serves newest-first history queries.
+ *
+ * Example:
+ * ```javascript
+ * import ViewHistory from "./models/ViewHistory.js";
+ *
+ * const recent = await ViewHistory.find({ userId }).sort({ viewedAt: -1 }).limit(20);
+ * ```
+ */
+
+import mongoose from "mongoose";
+
+const viewHistorySchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    tmdbId: {
+      type: String,
+      required: true,
+    },
+    mediaType: {
+      type: String,
+      enum: ["movie", "tv"],
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: ["viewed", "watched"],
+      required: true,
+    },
+    title: {
+      type: String,
+      trim: true,
+    },
+    posterPath: {
+      type: String,
+    },
+    viewedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { timestamps: true },
+);
+
+// Newest-first history per user
+viewHistorySchema.index({ userId: 1, viewedAt: -1 });
+
+const ViewHistory =
+  mongoose.models.ViewHistory ||
+  mongoose.model("ViewHistory", viewHistorySchema);
+
+export default ViewHistory;
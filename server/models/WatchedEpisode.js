@@ -0,0 +1,69 @@
+/**
+ * WatchedEpisode Model
+ *
+ * One document per TV episode a user has watched. Favorites and the watchlist track a show as
+ * a whole; this model tracks progress through it.
+ *
+ * Schema Details:
+ * - **Fields**:
+ *   - `userId` (ObjectId, required): The viewer.
+ *   - `tmdbId` (String, required): TMDb ID of the show, stored as a string like `Favorite` and
+ *     `Watchlist`.
+ *   - `seasonNumber` (Number, required): Season number (0 for specials).
+ *   - `episodeNumber` (Number, required): Episode number within the season.
+ *   - `watchedAt` (Date): When the episode was marked as watched.
+ * - **Indexing**:
+ *   - A unique compound index on `userId`, `tmdbId`, `seasonNumber` and `episodeNumber` keeps
+ *     one document per episode and serves "all watched episodes of a show" lookups.
+ *
+ * Example:
+ * ```javascript
+ * import WatchedEpisode from "./models/WatchedEpisode.js";
+ *
+ * await WatchedEpisode.create({ userId, tmdbId: "1399", seasonNumber: 1, episodeNumber: 1 });
+ * const watched = await WatchedEpisode.find({ userId, tmdbId: "1399" });
+ * ```
+ */
+
+import mongoose from "mongoose";
+
+const watchedEpisodeSchema = new mongoose.Schema(
+  {
+    userId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    tmdbId: {
+      type: String,
+      required: true,
+    },
+    seasonNumber: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    episodeNumber: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    watchedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { timestamps: true },
+);
+
+// One document per user and episode
+watchedEpisodeSchema.index(
+  { userId: 1, tmdbId: 1, seasonNumber: 1, episodeNumber: 1 },
+  { unique: true },
+);
+
+const WatchedEpisode =
+  mongoose.models.WatchedEpisode ||
+  mongoose.model("WatchedEpisode", watchedEpisodeSchema);
+
+export default WatchedEpisode;
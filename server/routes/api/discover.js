@@ -0,0 +1,49 @@
+/**
+ * Discover Routes
+ *
+ * Overview:
+ * Wraps TMDb's discover endpoints so users can filter movies and TV shows by genre, release
+ * year, rating, runtime and original language instead of browsing only trending/popular lists.
+ *
+ * Features:
+ * - **GET `/movie`** and **GET `/tv`**:
+ *   - Accept the filters documented in `services/discoverFilters.js`, e.g.
+ *     `/api/discover/movie?genres=28,12&yearFrom=2000&minRating=7&sort=rating`.
+ *   - Return TMDb's paginated payload: `{ page, results, total_pages, total_results }`.
+ * - **Caching**:
+ *   - Requests go through `fetchTmdbList` with a normalized key (sorted, de-duplicated
+ *     parameters), so equivalent filter combinations share one cached response.
+ *
+ * Error Handling:
+ * - Invalid filters return 400 with a descriptive `error`.
+ * - TMDb failures are logged and return 500.
+ */
+
+import express from "express";
+import { fetchTmdbList } from "../../utils/tmdb.js";
+import { normalizeDiscoverFilters } from "../../services/discoverFilters.js";
+
+const router = express.Router();
+
+router.get("/:mediaType", async (req, res) => {
+  const { mediaType } = req.params;
+  const filters = normalizeDiscoverFilters(mediaType, req.query);
+
+  if (filters.error) {
+    return res.status(400).json({ error: filters.error });
+  }
+
+  try {
+    const results = await fetchTmdbList(
+      `/discover/${mediaType}`,
+      filters.params,
+      filters.cacheKey,
+    );
+    res.json(results);
+  } catch (error) {
+    console.error(`Error discovering ${mediaType}:`, error.message);
+    res.status(500).json({ error: "Failed to fetch filtered results." });
+  }
+});
+
+export default router;
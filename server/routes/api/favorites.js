@@ -36,7 +36,7 @@
  * - **`protectRoute`**:
  *   - Verifies the JWT token in the `Authorization` header.
  *   - Attaches user details to the request object for downstream use.
- *   - Denies access with appropriate status codes (`401 Unauthorized` or `403 Forbidden`) if the token is invalid or missing.
+ *   - Denies access with `401 Unauthorized` if the token is invalid, expired or missing.
  *
  * Usage:
  * ```javascript
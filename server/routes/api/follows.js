@@ -0,0 +1,36 @@
+/**
+ * Follows Routes
+ *
+ * Overview:
+ * Endpoints for following actors, directors and other TMDb people. Followed people's new
+ * movies and TV shows are considered by the content-based recommendation engine.
+ *
+ * Key Endpoints:
+ * - **GET `/`**: The authenticated user's followed people, most recent first.
+ * - **POST `/`**: Follow a person; body `{ personId }`.
+ * - **DELETE `/:personId`**: Unfollow a person.
+ *
+ * Security:
+ * - Every endpoint requires a valid JWT (`protectRoute`) and only touches the caller's follows.
+ */
+
+import express from "express";
+import protectRoute from "../../middleware/authMiddleware.js";
+import {
+  getFollows,
+  followPerson,
+  unfollowPerson,
+} from "../../controllers/followsController.js";
+
+const router = express.Router();
+
+// GET /api/follows - List followed people
+router.get("/", protectRoute, getFollows);
+
+// POST /api/follows - Follow a person
+router.post("/", protectRoute, followPerson);
+
+// DELETE /api/follows/:personId - Unfollow a person
+router.delete("/:personId", protectRoute, unfollowPerson);
+
+export default router;
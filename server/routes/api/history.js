@@ -0,0 +1,41 @@
+/**
+ * History Routes
+ *
+ * Overview:
+ * Endpoints for the authenticated user's viewing history: titles whose details they opened and
+ * shows whose episodes they marked as watched.
+ *
+ * Key Endpoints:
+ * - **GET `/?limit=<n>&distinct=true`**: History events, newest first.
+ * - **POST `/`**: Record an event; body `{ tmdbId, mediaType, action, title, posterPath }`.
+ * - **DELETE `/`**: Clear the whole history.
+ * - **DELETE `/:id`**: Remove one event.
+ *
+ * Security:
+ * - Every endpoint requires a valid JWT (`protectRoute`) and only touches the caller's history.
+ */
+
+import express from "express";
+import protectRoute from "../../middleware/authMiddleware.js";
+import {
+  getHistory,
+  addHistory,
+  clearHistory,
+  deleteHistoryEntry,
+} from "../../controllers/historyController.js";
+
+const router = express.Router();
+
+// GET /api/history - List history events
+router.get("/", protectRoute, getHistory);
+
+// POST /api/history - Record an event
+router.post("/", protectRoute, addHistory);
+
+// DELETE /api/history - Clear history
+router.delete("/", protectRoute, clearHistory);
+
+// DELETE /api/history/:id - Remove one event
+router.delete("/:id", protectRoute, deleteHistoryEntry);
+
+export default router;
@@ -0,0 +1,49 @@
+/**
+ * Person Routes
+ *
+ * Overview:
+ * Serves the person page: an actor's or director's profile plus their movie and TV credits.
+ *
+ * Features:
+ * - **GET `/:id`**:
+ *   - Fetches `/person/:id` from TMDb with `combined_credits` appended and shapes it with
+ *     `services/personDetails.js` (profile, top "known for" titles, full credit list).
+ * - **Caching**:
+ *   - The raw payload is cached for an hour under `person:<id>` and shared with the
+ *     content-based engine, which reads followed people's recent credits from it.
+ *
+ * Error Handling:
+ * - Non-numeric IDs return 400; people TMDb does not know return 404.
+ * - Other TMDb failures are logged and return 500.
+ */
+
+import express from "express";
+import { getPersonWithCredits } from "../../utils/tmdb.js";
+import {
+  parsePersonId,
+  shapePersonDetails,
+} from "../../services/personDetails.js";
+
+const router = express.Router();
+
+router.get("/:id", async (req, res) => {
+  const personId = parsePersonId(req.params.id);
+  if (!personId) {
+    return res
+      .status(400)
+      .json({ error: "Person ID must be a positive integer." });
+  }
+
+  try {
+    const data = await getPersonWithCredits(personId);
+    res.json(shapePersonDetails(data));
+  } catch (error) {
+    if (error.response?.status === 404) {
+      return res.status(404).json({ error: "Person not found." });
+    }
+    console.error(`Error fetching person ${personId}:`, error.message);
+    res.status(500).json({ error: "Failed to fetch person details." });
+  }
+});
+
+export default router;
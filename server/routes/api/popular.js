@@ -8,22 +8,23 @@
  *
  * Features:
  * - **Popular Movies**:
- *   - Endpoint: `GET /api/popular/movies`
- *   - Fetches a paginated list of popular movies from TMDb.
+ *   - Endpoint: `GET /api/popular/movies?page=<n>`
+ *   - Fetches one page (default 1) of popular movies from TMDb.
  *   - Caches results in memory for 1 hour to reduce API call frequency.
  * - **Popular TV Shows**:
- *   - Endpoint: `GET /api/popular/tv`
- *   - Fetches a paginated list of popular TV shows from TMDb.
+ *   - Endpoint: `GET /api/popular/tv?page=<n>`
+ *   - Fetches one page (default 1) of popular TV shows from TMDb.
  *   - Utilizes the same caching mechanism for efficiency.
  *
  * Caching:
  * - In-memory caching implemented with `node-cache`:
- *   - Stores responses for a Time-To-Live (TTL) of 1 hour.
+ *   - Stores responses for a Time-To-Live (TTL) of 1 hour, one entry per page.
  *   - Significantly reduces redundant requests to TMDb, lowering API rate limits usage.
  *
  * API Integration:
  * - The module queries TMDb's `/movie/popular` and `/tv/popular` endpoints.
- * - Pagination support can be extended by adding dynamic `page` query parameters.
+ * - Responses include TMDb's `page` and `total_pages`, which the client uses for infinite scrolling.
+ * - `page` must be an integer from 1 to 500 (TMDb's limit); other values return 400.
  *
  * Error Handling:
  * - Handles TMDb API failures gracefully:
@@ -33,9 +34,8 @@
  *
  * Dependencies:
  * - **`express`**: Provides HTTP routing for the module.
- * - **`axios`**: Handles external API requests to TMDb.
- * - **`node-cache`**: Implements fast in-memory caching for responses.
- * - **`dotenv`**: Manages sensitive configuration data (e.g., API tokens).
+ * - **`utils/tmdb.js`**: `fetchTmdbList` performs the TMDb request through the shared
+ *   `node-cache` list cache, which the recommendation engine also reads from.
  *
  * Usage Example:
  * ```javascript
@@ -51,8 +51,6 @@
  * ```
  *
  * Future Improvements:
- * - **Pagination**:
- *   - Enable dynamic pagination through query parameters (e.g., `?page=2`).
  * - **Localization**:
  *   - Add support for localized content with `language` query parameters.
  * - **Extended Data Caching**:
@@ -62,36 +60,30 @@
  */
 
 import express from "express";
-import axios from "axios";
-import NodeCache from "node-cache";
-import dotenv from "dotenv";
-
-dotenv.config();
+import {
+  fetchTmdbList,
+  pageCacheKey,
+  parsePage,
+  TMDB_MAX_PAGE,
+} from "../../utils/tmdb.js";
 
 const router = express.Router();
-const cache = new NodeCache({ stdTTL: 3600 }); // 1-hour TTL
-const TMDB_ACCESS_TOKEN = process.env.TMDB_ACCESS_TOKEN;
+
+const invalidPage = (res) =>
+  res
+    .status(400)
+    .json({ error: `Page must be an integer between 1 and ${TMDB_MAX_PAGE}.` });
 
 router.get("/movies", async (req, res) => {
-  const cachedMovies = cache.get("popularMovies");
-  if (cachedMovies) {
-    return res.json(cachedMovies);
-  }
+  const page = parsePage(req.query.page);
+  if (!page) return invalidPage(res);
 
   try {
-    const response = await axios.get(
-      "https://api.themoviedb.org/3/movie/popular",
-      {
-        headers: {
-          Authorization: `Bearer ${TMDB_ACCESS_TOKEN}`,
-          accept: "application/json",
-        },
-        params: { language: "en-US", page: 1 },
-      },
+    const popularMovies = await fetchTmdbList(
+      "/movie/popular",
+      { page },
+      pageCacheKey("popularMovies", page),
     );
-
-    const popularMovies = response.data;
-    cache.set("popularMovies", popularMovies);
     res.json(popularMovies);
   } catch (error) {
     console.error("Error fetching popular movies:", error.message);
@@ -100,25 +92,15 @@ router.get("/movies", async (req, res) => {
 });
 
 router.get("/tv", async (req, res) => {
-  const cachedTVShows = cache.get("popularTV");
-  if (cachedTVShows) {
-    return res.json(cachedTVShows);
-  }
+  const page = parsePage(req.query.page);
+  if (!page) return invalidPage(res);
 
   try {
-    const response = await axios.get(
-      "https://api.themoviedb.org/3/tv/popular",
-      {
-        headers: {
-          Authorization: `Bearer ${TMDB_ACCESS_TOKEN}`,
-          accept: "application/json",
-        },
-        params: { language: "en-US", page: 1 },
-      },
+    const popularTVShows = await fetchTmdbList(
+      "/tv/popular",
+      { page },
+      pageCacheKey("popularTV", page),
     );
-
-    const popularTVShows = response.data;
-    cache.set("popularTV", popularTVShows);
     res.json(popularTVShows);
   } catch (error) {
     console.error("Error fetching popular TV shows:", error.message);
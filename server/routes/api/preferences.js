@@ -0,0 +1,32 @@
+/**
+ * Preferences Routes
+ *
+ * Overview:
+ * Endpoints for the authenticated user's structured preferences, edited on the profile page
+ * and used by the content-based recommendation engine.
+ *
+ * Key Endpoints:
+ * - **GET `/`**: The user's preferences.
+ * - **PUT `/`**: Replace them; body `{ favoriteGenres, dislikedGenres, languages,
+ *   maxContentRating, mediaTypeBias }`. Invalid documents return 400.
+ *
+ * Security:
+ * - Every endpoint requires a valid JWT (`protectRoute`) and only touches the caller's profile.
+ */
+
+import express from "express";
+import protectRoute from "../../middleware/authMiddleware.js";
+import {
+  getPreferences,
+  updatePreferences,
+} from "../../controllers/preferencesController.js";
+
+const router = express.Router();
+
+// GET /api/preferences - Read preferences
+router.get("/", protectRoute, getPreferences);
+
+// PUT /api/preferences - Replace preferences
+router.put("/", protectRoute, updatePreferences);
+
+export default router;
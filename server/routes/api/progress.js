@@ -0,0 +1,40 @@
+/**
+ * Progress Routes
+ *
+ * Overview:
+ * Endpoints for tracking which TV episodes a user has watched.
+ *
+ * Key Endpoints:
+ * - **GET `/:tmdbId`**: The user's progress through a show (percent, next episode, per-season
+ *   counts and watched episodes).
+ * - **POST `/:tmdbId/episodes`**: Mark an episode; body `{ seasonNumber, episodeNumber,
+ *   watched }` (`watched` defaults to `true`).
+ * - **POST `/:tmdbId/seasons/:seasonNumber`**: Mark every aired episode of a season; body
+ *   `{ watched }`.
+ *
+ * Both POST endpoints respond with the updated progress.
+ *
+ * Security:
+ * - Every endpoint requires a valid JWT (`protectRoute`) and only touches the caller's episodes.
+ */
+
+import express from "express";
+import protectRoute from "../../middleware/authMiddleware.js";
+import {
+  getProgress,
+  setEpisodeWatched,
+  setSeasonWatched,
+} from "../../controllers/progressController.js";
+
+const router = express.Router();
+
+// GET /api/progress/:tmdbId - Progress through a show
+router.get("/:tmdbId", protectRoute, getProgress);
+
+// POST /api/progress/:tmdbId/episodes - Mark an episode watched or unwatched
+router.post("/:tmdbId/episodes", protectRoute, setEpisodeWatched);
+
+// POST /api/progress/:tmdbId/seasons/:seasonNumber - Mark a whole season
+router.post("/:tmdbId/seasons/:seasonNumber", protectRoute, setSeasonWatched);
+
+export default router;
@@ -8,11 +8,14 @@
  *
  * Features:
  * - **GET `/api/ratings`**:
- *   - Retrieves all ratings submitted by the authenticated user.
+ *   - Retrieves all ratings submitted by the authenticated user, newest first, with each title's
+ *     TMDb name, poster and genres.
+ * - **GET `/api/ratings/:mediaType/:tmdbId`**:
+ *   - Retrieves the authenticated user's rating for one movie or TV show (404 if unrated).
  * - **POST `/api/ratings`**:
  *   - Adds a new rating or updates an existing rating for a specific movie or TV show.
  * - **DELETE `/api/ratings/:id`**:
- *   - Removes a specific rating by its ID.
+ *   - Removes one of the authenticated user's ratings by its ID.
  *
  * Middleware:
  * - Utilizes `authMiddleware` (`protectRoute`) to ensure all routes are accessible only to authenticated users.
@@ -44,7 +47,7 @@
  * - **Pagination**:
  *   - Add pagination support for `/api/ratings` to handle large datasets efficiently.
  * - **Search and Filter**:
- *   - Allow filtering ratings by `mediaType` (e.g., `movie`, `tv`) or rating score range.
+ *   - Allow filtering ratings by rating score range.
  * - **Caching**:
  *   - Implement caching for frequently accessed ratings to improve performance.
  * - **Bulk Updates**:
@@ -54,6 +57,7 @@
 import express from "express";
 import {
   getRatings,
+  getRating,
   addOrUpdateRating,
   deleteRating,
 } from "../../controllers/ratingController.js";
@@ -64,6 +68,9 @@ const router = express.Router();
 // GET /api/ratings - Get all ratings for the authenticated user
 router.get("/", protectRoute, getRatings);
 
+// GET /api/ratings/:mediaType/:tmdbId - Get the rating for one title
+router.get("/:mediaType/:tmdbId", protectRoute, getRating);
+
 // POST /api/ratings - Add or update a rating
 router.post("/", protectRoute, addOrUpdateRating);
 
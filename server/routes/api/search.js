@@ -0,0 +1,64 @@
+/**
+ * Search Routes
+ *
+ * Overview:
+ * This module proxies TMDb's multi-search so the client can find any movie, TV show or person
+ * by name, not just what appears on the trending and popular lists.
+ *
+ * Features:
+ * - **GET `/?query=<text>&page=<n>`**:
+ *   - Searches TMDb's `/search/multi` endpoint (adult titles excluded).
+ *   - Returns TMDb's paginated payload unchanged: `{ page, results, total_pages, total_results }`,
+ *     where each result carries a `media_type` of `movie`, `tv` or `person`.
+ * - **Caching**:
+ *   - Responses go through `fetchTmdbList`, keyed by the normalized query and page, so repeated
+ *     typeahead requests for the same text are served from the shared 1-hour cache.
+ *
+ * Validation:
+ * - `query` is required, trimmed, and limited to 100 characters (400 otherwise).
+ * - `page` defaults to 1 and must be an integer between 1 and 500, TMDb's page limit.
+ *
+ * Security:
+ * - The TMDb access token stays server-side; only the search payload is returned.
+ */
+
+import express from "express";
+import { fetchTmdbList, parsePage, TMDB_MAX_PAGE } from "../../utils/tmdb.js";
+
+const router = express.Router();
+
+const MAX_QUERY_LENGTH = 100;
+
+router.get("/", async (req, res) => {
+  const query =
+    typeof req.query.query === "string" ? req.query.query.trim() : "";
+  const page = parsePage(req.query.page);
+
+  if (!query) {
+    return res.status(400).json({ error: "A search query is required." });
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    return res.status(400).json({
+      error: `Search query must be at most ${MAX_QUERY_LENGTH} characters.`,
+    });
+  }
+  if (!page) {
+    return res.status(400).json({
+      error: `Page must be an integer between 1 and ${TMDB_MAX_PAGE}.`,
+    });
+  }
+
+  try {
+    const results = await fetchTmdbList(
+      "/search/multi",
+      { query, page, include_adult: false },
+      `search:${query.toLowerCase()}:${page}`,
+    );
+    res.json(results);
+  } catch (error) {
+    console.error("Error searching TMDb:", error.message);
+    res.status(500).json({ error: "Failed to fetch search results." });
+  }
+});
+
+export default router;
@@ -0,0 +1,57 @@
+/**
+ * Title Routes
+ *
+ * Overview:
+ * Serves everything the title page needs about a single movie or TV show in one request:
+ * runtime, release date, cast, crew, videos, similar titles and watch providers.
+ *
+ * Features:
+ * - **GET `/:mediaType/:id?region=<code>`**:
+ *   - Fetches `/movie/:id` or `/tv/:id` from TMDb with `credits`, `videos`, `similar` and
+ *     `watch/providers` appended, then shapes it with `services/titleDetails.js`.
+ *   - `region` selects the watch-provider country (default `US`).
+ * - **Caching**:
+ *   - The raw TMDb payload goes through `fetchTitleDetails`, keyed `title:<mediaType>:<id>`, so
+ *     every region and every viewer (and TV episode progress) share one cached response for
+ *     an hour.
+ *
+ * Error Handling:
+ * - Invalid media types, IDs or regions return 400.
+ * - Titles TMDb does not know return 404; other TMDb failures are logged and return 500.
+ */
+
+import express from "express";
+import {
+  fetchTitleDetails,
+  parseTitleRequest,
+  shapeTitleDetails,
+} from "../../services/titleDetails.js";
+
+const router = express.Router();
+
+router.get("/:mediaType/:id", async (req, res) => {
+  const request = parseTitleRequest(
+    req.params.mediaType,
+    req.params.id,
+    req.query.region,
+  );
+
+  if (request.error) {
+    return res.status(400).json({ error: request.error });
+  }
+
+  const { mediaType, tmdbId, region } = request;
+
+  try {
+    const data = await fetchTitleDetails(mediaType, tmdbId);
+    res.json(shapeTitleDetails(mediaType, data, region));
+  } catch (error) {
+    if (error.response?.status === 404) {
+      return res.status(404).json({ error: "Title not found." });
+    }
+    console.error(`Error fetching ${mediaType} ${tmdbId}:`, error.message);
+    res.status(500).json({ error: "Failed to fetch title details." });
+  }
+});
+
+export default router;
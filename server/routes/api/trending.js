@@ -7,11 +7,14 @@
  * to minimize redundant external API requests and enhance response times.
  *
  * Features:
- * - **GET `/`**:
- *   - Retrieves the current trending content from TMDb's `/trending/all/day` endpoint.
+ * - **GET `/?window=<day|week>&type=<all|movie|tv|person>&page=<n>`**:
+ *   - Retrieves one page (default 1) of trending content from TMDb's
+ *     `/trending/<type>/<window>` endpoint. `window` defaults to `day` and `type` to `all`.
+ *   - Unknown windows or types, and invalid pages (outside 1-500), return 400.
  *   - Supports caching of API responses to reduce latency and API call overhead.
  * - **Caching**:
- *   - Uses `node-cache` with a TTL of 1 hour for caching trending content.
+ *   - Uses `node-cache` with a TTL of 1 hour for caching trending content, one entry per
+ *     type, window and page. The default feed keeps the `trending` key the engine reads.
  *   - Prevents unnecessary requests to TMDb, especially during high-traffic periods.
  * - **Error Logging**:
  *   - Logs errors using `winston` for better visibility into API call failures or unexpected behaviors.
@@ -20,10 +23,9 @@
  *   - Uses `dotenv` to securely manage the TMDb access token and other sensitive configuration.
  *
  * Dependencies:
- * - **`axios`**:
- *   - For making HTTP requests to TMDb API.
- * - **`node-cache`**:
- *   - Implements lightweight in-memory caching.
+ * - **`utils/tmdb.js`**:
+ *   - `fetchTmdbList` makes the TMDb request through the shared `node-cache` list cache,
+ *     which the recommendation engine also reads from.
  * - **`winston`**:
  *   - Provides structured logging for both development and production environments.
  *
@@ -41,12 +43,6 @@
  * ```
  *
  * Future Enhancements:
- * - **Custom Timeframes**:
- *   - Add support for weekly trending content by allowing query parameters like `time_window=week`.
- * - **Pagination**:
- *   - Include pagination support for returning paginated trending results.
- * - **Advanced Filters**:
- *   - Add filters for media types (`movie`, `tv`) to enhance user-specific recommendations.
  * - **Analytics**:
  *   - Integrate logging to track the most-requested trending content.
  *
@@ -56,16 +52,18 @@
  */
 
 import express from "express";
-import axios from "axios";
-import NodeCache from "node-cache";
-import dotenv from "dotenv";
 import winston from "winston";
-
-dotenv.config();
+import {
+  fetchTmdbList,
+  pageCacheKey,
+  parsePage,
+  TMDB_MAX_PAGE,
+  trendingCacheKey,
+  TRENDING_TYPES,
+  TRENDING_WINDOWS,
+} from "../../utils/tmdb.js";
 
 const router = express.Router();
-const cache = new NodeCache({ stdTTL: 3600 }); // 1-hour TTL
-const TMDB_ACCESS_TOKEN = process.env.TMDB_ACCESS_TOKEN;
 
 // Setup winston logger
 const logger = winston.createLogger({
@@ -90,26 +88,32 @@ if (process.env.NODE_ENV !== "production") {
 
 // Define the / trending route
 router.get("/", async (req, res) => {
-  const cachedTrending = cache.get("trending");
-
-  if (cachedTrending) {
-    return res.json(cachedTrending);
+  const { window = "day", type = "all" } = req.query;
+  const page = parsePage(req.query.page);
+  if (!TRENDING_WINDOWS.includes(window)) {
+    return res.status(400).json({
+      error: `Window must be one of: ${TRENDING_WINDOWS.join(", ")}.`,
+    });
+  }
+  if (!TRENDING_TYPES.includes(type)) {
+    return res.status(400).json({
+      error: `Type must be one of: ${TRENDING_TYPES.join(", ")}.`,
+    });
+  }
+  if (!page) {
+    return res.status(400).json({
+      error: `Page must be an integer between 1 and ${TMDB_MAX_PAGE}.`,
+    });
   }
 
   try {
-    const options = {
-      method: "GET",
-      url: "https://api.themoviedb.org/3/trending/all/day",
-      params: { language: "en-US" },
-      headers: {
-        accept: "application/json",
-        Authorization: `Bearer ${TMDB_ACCESS_TOKEN}`,
-      },
-    };
-
-    const response = await axios.request(options);
-    cache.set("trending", response.data);
-    res.json(response.data);
+    // Page 1 is requested without a page param so it shares the engine's cached payload
+    const trending = await fetchTmdbList(
+      `/trending/${type}/${window}`,
+      page === 1 ? {} : { page },
+      pageCacheKey(trendingCacheKey(type, window), page),
+    );
+    res.json(trending);
   } catch (error) {
     logger.error("Error fetching trending data:", error.message);
     res.status(500).json({ message: "Failed to fetch trending data." });
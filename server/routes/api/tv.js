@@ -0,0 +1,100 @@
+/**
+ * TV Routes
+ *
+ * Overview:
+ * Season and episode listings for TV shows, used by episode tracking on the title page.
+ *
+ * Features:
+ * - **GET `/:id/seasons`**:
+ *   - The show's seasons (including specials) with episode counts and air dates, read from the
+ *     cached show details shared with `/api/title`.
+ * - **GET `/:id/seasons/:season`**:
+ *   - The episodes of one season from `/tv/:id/season/:season`, cached for an hour under
+ *     `tv:<id>:season:<season>`.
+ *
+ * Error Handling:
+ * - Invalid IDs or season numbers return 400; shows or seasons TMDb does not know return 404.
+ * - Other TMDb failures are logged and return 500.
+ */
+
+import express from "express";
+import { fetchTmdbList, parseTmdbId } from "../../utils/tmdb.js";
+import { fetchTitleDetails } from "../../services/titleDetails.js";
+import { parseSeasonNumber } from "../../services/episodeProgress.js";
+
+const router = express.Router();
+
+router.get("/:id/seasons", async (req, res) => {
+  const tmdbId = parseTmdbId(req.params.id);
+  if (!tmdbId) {
+    return res
+      .status(400)
+      .json({ error: "Show ID must be a positive integer." });
+  }
+
+  try {
+    const show = await fetchTitleDetails("tv", tmdbId);
+    res.json(
+      (show.seasons || []).map((season) => ({
+        seasonNumber: season.season_number,
+        name: season.name,
+        overview: season.overview,
+        episodeCount: season.episode_count,
+        airDate: season.air_date,
+        poster_path: season.poster_path,
+      })),
+    );
+  } catch (error) {
+    if (error.response?.status === 404) {
+      return res.status(404).json({ error: "TV show not found." });
+    }
+    console.error(
+      `Error fetching seasons for TV show ${tmdbId}:`,
+      error.message,
+    );
+    res.status(500).json({ error: "Failed to fetch seasons." });
+  }
+});
+
+router.get("/:id/seasons/:season", async (req, res) => {
+  const tmdbId = parseTmdbId(req.params.id);
+  const seasonNumber = parseSeasonNumber(req.params.season);
+  if (!tmdbId || seasonNumber === null) {
+    return res
+      .status(400)
+      .json({ error: "A valid show ID and season number are required." });
+  }
+
+  try {
+    const season = await fetchTmdbList(
+      `/tv/${tmdbId}/season/${seasonNumber}`,
+      {},
+      `tv:${tmdbId}:season:${seasonNumber}`,
+    );
+    res.json({
+      seasonNumber: season.season_number,
+      name: season.name,
+      overview: season.overview,
+      airDate: season.air_date,
+      episodes: (season.episodes || []).map((episode) => ({
+        episodeNumber: episode.episode_number,
+        name: episode.name,
+        overview: episode.overview,
+        airDate: episode.air_date,
+        runtime: episode.runtime,
+        still_path: episode.still_path,
+      })),
+    });
+  } catch (error) {
+    if (error.response?.status === 404) {
+      return res.status(404).json({ error: "Season not found." });
+    }
+    console.error(
+      `Error fetching season ${seasonNumber} of TV show ${tmdbId}:`,
+      error.message,
+    );
+    res.status(500).json({ error: "Failed to fetch season." });
+  }
+});
+
+export default router;
@@ -32,8 +32,8 @@
  *     of watchlist items in the future.
  *
  * Dependencies:
- * - **`Watchlist` Model**:
- *   - Represents the schema for storing watchlist items in MongoDB.
+ * - **`watchlistController`**:
+ *   - Handles persistence and enriches items with TMDb title, poster and genres.
  * - **`protectRoute` Middleware**:
  *   - Ensures that only authenticated users can access these endpoints.
  *
@@ -64,49 +64,22 @@
  */
 
 import express from "express";
-import Watchlist from "../../models/Watchlist.js";
 import protectRoute from "../../middleware/authMiddleware.js";
+import {
+  getWatchlist,
+  addToWatchlist,
+  removeFromWatchlist,
+} from "../../controllers/watchlistController.js";
 
 const router = express.Router();
 
 // GET /api/watchlist - Get all watchlist items for the authenticated user
-router.get("/", protectRoute, async (req, res) => {
-  try {
-    const watchlist = await Watchlist.find({ userId: req.user.id });
-    res.json(watchlist);
-  } catch (error) {
-    res.status(500).json({ error: "Failed to fetch watchlist" });
-  }
-});
+router.get("/", protectRoute, getWatchlist);
 
 // POST /api/watchlist - Add a new watchlist item
-router.post("/", protectRoute, async (req, res) => {
-  const { tmdbId, mediaType } = req.body;
-
-  if (!tmdbId || !mediaType) {
-    return res.status(400).json({ error: "tmdbId and mediaType are required" });
-  }
-
-  try {
-    const watchlistItem = await Watchlist.create({
-      userId: req.user.id,
-      tmdbId,
-      mediaType,
-    });
-    res.status(201).json(watchlistItem);
-  } catch (error) {
-    res.status(500).json({ error: "Failed to add to watchlist" });
-  }
-});
+router.post("/", protectRoute, addToWatchlist);
 
 // DELETE /api/watchlist/:id - Remove a watchlist item
-router.delete("/:id", protectRoute, async (req, res) => {
-  try {
-    await Watchlist.findByIdAndDelete(req.params.id);
-    res.json({ message: "Watchlist item removed" });
-  } catch (error) {
-    res.status(500).json({ error: "Failed to remove watchlist item" });
-  }
-});
+router.delete("/:id", protectRoute, removeFromWatchlist);
 
 export default router;
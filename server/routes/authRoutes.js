@@ -7,18 +7,21 @@
  * Key Endpoints:
  * - **POST `/api/auth/register`**: Public endpoint for user registration.
  * - **POST `/api/auth/login`**: Public endpoint for user authentication.
+ * - **POST `/api/auth/forgot-password`**: Public, rate-limited endpoint that emails a password reset link.
+ * - **POST `/api/auth/reset-password`**: Public endpoint for setting a new password with a reset token.
+ * - **PUT `/api/auth/password`**: Private endpoint for changing the password (requires the current one).
  * - **GET `/api/auth/dashboard`**: Private endpoint for retrieving the authenticated user's profile.
  * - **PUT `/api/auth/update`**: Private endpoint for updating the user's profile information.
  * - **DELETE `/api/auth/delete`**: Private endpoint for deleting the user's account.
  * - **GET `/api/auth/:userId/preferences`**: Private endpoint for fetching user-specific preferences.
- * - **POST `/api/auth/:userId/preferences`**: Private endpoint for adding preferences to a user's profile.
+ * - **POST `/api/auth/:userId/preferences`**: Private endpoint for adding a favorite genre (by name or TMDb ID) to a user's preferences.
  *
  * Security:
  * - **JWT Authentication**:
  *   - Uses the `protectRoute` middleware to ensure only authenticated users can access sensitive routes.
  *   - Verifies the JWT token from the `Authorization` header, extracts the user information, and injects it into the request object for downstream operations.
  * - **Access Control**:
- *   - Enforces ownership on preference-related routes, ensuring users can only access or modify their own data.
+ *   - Enforces ownership on preference-related routes (`requireSelfOrAdmin`), ensuring users can only access or modify their own data; admins may reach any user's.
  *
  * Features:
  * - **User Registration and Login**:
@@ -57,8 +60,6 @@
  * Potential Enhancements:
  * - **Multi-Factor Authentication**:
  *   - Add support for two-factor authentication (2FA) during login for enhanced security.
- * - **Password Reset**:
- *   - Include endpoints for initiating and completing password reset workflows.
  * - **Role-Based Access Control (RBAC)**:
  *   - Allow differentiation between user roles (e.g., admin, user) to restrict certain actions.
  * - **Activity Logs**:
@@ -66,9 +67,26 @@
  */
 
 import express from "express";
-import { registerUser, loginUser } from "../controllers/authController.js";
-import protectRoute from "../middleware/authMiddleware.js";
+import mongoose from "mongoose";
+import rateLimit from "express-rate-limit";
+import {
+  registerUser,
+  loginUser,
+  updateUser,
+  deleteUser,
+  forgotPassword,
+  resetPassword,
+  changePassword,
+} from "../controllers/authController.js";
+import protectRoute, {
+  requireSelfOrAdmin,
+} from "../middleware/authMiddleware.js";
 import User from "../models/User.js";
+import { savePreferences } from "../services/preferenceStore.js";
+import {
+  fromLegacyPreferences,
+  normalizePreferences,
+} from "../services/userPreferences.js";
 
 const router = express.Router();
 
@@ -86,6 +104,35 @@ router.post("/register", registerUser);
  */
 router.post("/login", loginUser);
 
+// Reset emails per client: enough for typos and retries, too few to flood an inbox
+const forgotPasswordLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  limit: 5,
+  message: { message: "Too many reset requests. Please try again later." },
+  skip: () => process.env.NODE_ENV === "test", // Integration suites share one client IP
+});
+
+/**
+ * @desc Request a password reset email
+ * @route POST /api/auth/forgot-password
+ * @access Public
+ */
+router.post("/forgot-password", forgotPasswordLimiter, forgotPassword);
+
+/**
+ * @desc Reset a password with a token from the email
+ * @route POST /api/auth/reset-password
+ * @access Public
+ */
+router.post("/reset-password", resetPassword);
+
+/**
+ * @desc Change the authenticated user's password
+ * @route PUT /api/auth/password
+ * @access Private
+ */
+router.put("/password", protectRoute, changePassword);
+
 /**
  * @desc Dashboard route
  * @route GET /api/auth/dashboard
@@ -117,68 +164,84 @@ router.get("/dashboard", protectRoute, async (req, res) => {
  * @route PUT /api/auth/update
  * @access Private
  */
-router.put("/update", protectRoute, async (req, res) => {
-  try {
-    const { name, preferences } = req.body;
-
-    // Update the user in the database
-    const updatedUser = await User.findByIdAndUpdate(
-      req.user.id,
-      { name, preferences },
-      { new: true, runValidators: true }, // Return the updated user and validate inputs
-    ).select("-password"); // Exclude the password
-
-    if (!updatedUser) {
-      return res.status(404).json({ message: "User not found" });
-    }
-
-    res.json({ message: "Profile updated successfully", user: updatedUser });
-  } catch (error) {
-    console.error("Error updating user profile:", error.message);
-    res.status(500).json({ message: "Internal server error" });
-  }
-});
+router.put("/update", protectRoute, updateUser);
 
 /**
  * @desc Delete user profile
  * @route DELETE /api/auth/delete
  * @access Private
  */
-router.delete("/delete", protectRoute, async (req, res) => {
-  try {
-    // Delete the user from the database
-    const deletedUser = await User.findByIdAndDelete(req.user.id);
-
-    if (!deletedUser) {
-      return res.status(404).json({ message: "User not found" });
-    }
+router.delete("/delete", protectRoute, deleteUser);
 
-    res.json({ message: "User account deleted successfully" });
-  } catch (error) {
-    console.error("Error deleting user profile:", error.message);
-    res.status(500).json({ message: "Internal server error" });
+// Only admins reach other users' IDs, so a malformed one is rejected before querying
+const requireValidUserId = (req, res, next) => {
+  if (!mongoose.isValidObjectId(req.params.userId)) {
+    return res.status(400).json({ message: "Invalid user ID" });
   }
-});
+  next();
+};
 
-router.get("/:userId/preferences", protectRoute, async (req, res) => {
-  const { userId } = req.params;
-  if (req.user.id !== userId) {
-    return res.status(403).json({ error: "Access denied" });
-  }
-  const user = await User.findById(userId);
-  res.json({ preferences: user.preferences });
-});
+/**
+ * @desc Get a user's structured preferences
+ * @route GET /api/auth/:userId/preferences
+ * @access Private (the user or an admin)
+ */
+router.get(
+  "/:userId/preferences",
+  protectRoute,
+  requireSelfOrAdmin("userId"),
+  requireValidUserId,
+  async (req, res) => {
+    try {
+      const user = await User.findById(req.params.userId).select("preferences");
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json({ preferences: normalizePreferences(user.preferences) });
+    } catch (error) {
+      console.error("Error fetching user preferences:", error.message);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  },
+);
 
-router.post("/:userId/preferences", protectRoute, async (req, res) => {
-  const { userId } = req.params;
-  const { preference } = req.body;
-  if (req.user.id !== userId) {
-    return res.status(403).json({ error: "Access denied" });
-  }
-  const user = await User.findById(userId);
-  user.preferences.push(preference);
-  await user.save();
-  res.json({ preferences: user.preferences });
-});
+/**
+ * @desc Add a favorite genre, given by name (legacy clients) or TMDb ID
+ * @route POST /api/auth/:userId/preferences
+ * @access Private (the user or an admin)
+ */
+router.post(
+  "/:userId/preferences",
+  protectRoute,
+  requireSelfOrAdmin("userId"),
+  requireValidUserId,
+  async (req, res) => {
+    try {
+      const { preference } = req.body;
+      const [genreId] = fromLegacyPreferences([preference]).favoriteGenres;
+      if (!genreId) {
+        return res.status(400).json({ message: "Unknown genre" });
+      }
+
+      const user = await User.findById(req.params.userId).select("preferences");
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const current = normalizePreferences(user.preferences);
+      const result = await savePreferences(user._id, {
+        ...current,
+        favoriteGenres: [...current.favoriteGenres, genreId],
+      });
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.json({ preferences: normalizePreferences(result.user.preferences) });
+    } catch (error) {
+      console.error("Error updating user preferences:", error.message);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  },
+);
 
 export default router;
@@ -7,11 +7,13 @@ export const seedRatings = async (users) => {
     {
       userId: users[2]._id, // John Doe
       tmdbId: "550",
+      mediaType: "movie",
       rating: 9.0, // Rating for "Fight Club"
     },
     {
       userId: users[3]._id, // Jane Smith
       tmdbId: "680",
+      mediaType: "movie",
       rating: 8.5, // Rating for "Pulp Fiction"
     },
   ];
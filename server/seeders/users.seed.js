@@ -11,28 +11,29 @@ export const seedUsers = async () => {
       name: "Admin User",
       email: "admin@example.com",
       password: "admin123",
-      preferences: ["Action", "Sci-Fi"],
+      role: "admin",
+      preferences: { favoriteGenres: [28, 878], mediaTypeBias: "movie" },
       history: ["inception", "dark-knight"],
     },
     {
       name: "Regular User",
       email: "user@example.com",
       password: "user123",
-      preferences: ["Drama", "Crime"],
+      preferences: { favoriteGenres: [18, 80], mediaTypeBias: "tv" },
       history: ["breaking-bad"],
     },
     {
       name: "John Doe",
       email: "johndoe@example.com",
       password: "password123",
-      preferences: ["Comedy"],
+      preferences: { favoriteGenres: [35], dislikedGenres: [27] },
       history: ["the-office"],
     },
     {
       name: "Jane Smith",
       email: "janesmith@example.com",
       password: "password123",
-      preferences: ["Action", "Drama"],
+      preferences: { favoriteGenres: [28, 18], languages: ["en"] },
       history: ["dark-knight", "breaking-bad"],
     },
   ];
@@ -11,7 +11,7 @@
  * - **Logging**: Implements structured logging for debugging and production monitoring.
  *
  * Key Features:
- * - RESTful API Routes: Provides endpoints for trending, genres, popular movies, and authentication.
+ * - RESTful API Routes: Provides endpoints for trending, genres, popular movies, search, discover filters, title and person details, TV seasons and episode progress, viewing history, user preferences, and authentication.
  * - Apollo GraphQL Server: Handles GraphQL operations like user registration.
  * - CORS Policy: Ensures secure communication between the frontend and backend.
  * - Middleware: Includes utilities like `morgan` for HTTP logging and `winston` for structured logging.
@@ -38,10 +38,19 @@ import { typeDefs, resolvers } from "./graphql/schema.js";
 import trendingRoute from "./routes/api/trending.js";
 import genresRoute from "./routes/api/genres.js";
 import popularRoute from "./routes/api/popular.js";
+import searchRoute from "./routes/api/search.js";
+import discoverRoute from "./routes/api/discover.js";
+import titleRoute from "./routes/api/title.js";
+import personRoute from "./routes/api/person.js";
+import tvRoute from "./routes/api/tv.js";
 import authRoutes from "./routes/authRoutes.js";
 import favoritesRoutes from "./routes/api/favorites.js";
 import ratingsRoutes from "./routes/api/ratings.js";
 import watchlistRoutes from "./routes/api/watchlist.js";
+import followsRoutes from "./routes/api/follows.js";
+import progressRoutes from "./routes/api/progress.js";
+import historyRoutes from "./routes/api/history.js";
+import preferencesRoutes from "./routes/api/preferences.js";
 import morgan from "morgan";
 import winston from "winston";
 
@@ -104,10 +113,19 @@ app.use(express.static(path.join(__dirname, "../client/dist")));
 app.use("/api/trending", trendingRoute);
 app.use("/api/genres", genresRoute);
 app.use("/api/popular", popularRoute);
+app.use("/api/search", searchRoute);
+app.use("/api/discover", discoverRoute);
+app.use("/api/title", titleRoute);
+app.use("/api/person", personRoute);
+app.use("/api/tv", tvRoute);
 app.use("/api/auth", authRoutes);
 app.use("/api/favorites", favoritesRoutes);
 app.use("/api/watchlist", watchlistRoutes);
 app.use("/api/ratings", ratingsRoutes);
+app.use("/api/follows", followsRoutes);
+app.use("/api/progress", progressRoutes);
+app.use("/api/history", historyRoutes);
+app.use("/api/preferences", preferencesRoutes);
 
 // Initialize Apollo Server
 async function startServer() {
@@ -123,7 +141,7 @@ async function startServer() {
         if (token) {
           try {
             const user = jwt.verify(token, process.env.JWT_SECRET);
-            return { user }; // Attach user to context
+            return { user, headers: req.headers }; // Attach user and headers to context
           } catch (error) {
             console.error("Invalid token:", error.message);
             throw new AuthenticationError(
@@ -131,7 +149,7 @@ async function startServer() {
             );
           }
         }
-        return {}; // Return empty context if no token is provided
+        return { headers: req.headers }; // No user if no token is provided
       },
     });
 
@@ -0,0 +1,53 @@
+/**
+ * Accounts
+ *
+ * Deleting a user account, shared by `DELETE /api/auth/delete` and the GraphQL `deleteUser`
+ * mutation (which the admin console uses).
+ *
+ * Rules:
+ * - The `User` document goes first, so `protectRoute` and `authenticate` reject the account's
+ *   access tokens straight away.
+ * - Everything stored per user goes with it: favorites, watchlist, ratings (which would
+ *   otherwise keep feeding the collaborative filtering job), recommendations, viewing history,
+ *   followed people, watched episodes and pending password reset links.
+ * - Refresh tokens are revoked rather than deleted, so a replayed token is still recognized
+ *   until it expires.
+ */
+
+import User from "../models/User.js";
+import Favorite from "../models/Favorite.js";
+import Watchlist from "../models/Watchlist.js";
+import Rating from "../models/Ratings.js";
+import Recommendation from "../models/Recommendation.js";
+import ViewHistory from "../models/ViewHistory.js";
+import FollowedPerson from "../models/FollowedPerson.js";
+import WatchedEpisode from "../models/WatchedEpisode.js";
+import PasswordResetToken from "../models/PasswordResetToken.js";
+import { revokeUserRefreshTokens } from "../utils/tokens.js";
+
+const USER_DATA_MODELS = [
+  Favorite,
+  Watchlist,
+  Rating,
+  Recommendation,
+  ViewHistory,
+  FollowedPerson,
+  WatchedEpisode,
+  PasswordResetToken,
+];
+
+/**
+ * Delete a user and all of their data, and end their sessions.
+ *
+ * @returns {Promise<Object | null>} The deleted user, or `null` if there was none
+ */
+export const deleteUserAccount = async (userId) => {
+  const user = await User.findByIdAndDelete(userId);
+  if (!user) return null;
+
+  await Promise.all([
+    ...USER_DATA_MODELS.map((Model) => Model.deleteMany({ userId: user._id })),
+    revokeUserRefreshTokens(user._id),
+  ]);
+  return user;
+};
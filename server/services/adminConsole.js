@@ -0,0 +1,93 @@
+/**
+ * Admin Console
+ *
+ * Helpers behind the admin-only GraphQL operations that list and edit users, catalog content
+ * and recommendations.
+ *
+ * Rules:
+ * - Lists are paginated with `page` (1-based) and `limit` (`DEFAULT_PAGE_SIZE`, at most
+ *   `MAX_PAGE_SIZE`); out-of-range values fall back to the defaults instead of failing.
+ * - Searches are case-insensitive substring matches; the search text is escaped so it can't
+ *   inject regular expression syntax.
+ * - Content created by hand gets the same `<mediaType>-<tmdbId>` slug the recommendation store
+ *   uses when it has a TMDb ID, so the engines reuse the entry; otherwise the slug comes from
+ *   the title.
+ */
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const CONTENT_METADATA_FIELDS = [
+  "externalId",
+  "mediaType",
+  "runtime",
+  "description",
+];
+
+/**
+ * Normalize `page`/`limit` arguments into a Mongo `skip`.
+ *
+ * @returns {{ page: number, limit: number, skip: number }}
+ */
+export const parsePagination = ({ page, limit } = {}) => {
+  const safePage = Number.isInteger(page) && page >= 1 ? page : 1;
+  const safeLimit =
+    Number.isInteger(limit) && limit >= 1
+      ? Math.min(limit, MAX_PAGE_SIZE)
+      : DEFAULT_PAGE_SIZE;
+  return {
+    page: safePage,
+    limit: safeLimit,
+    skip: (safePage - 1) * safeLimit,
+  };
+};
+
+/**
+ * Wrap one page of results with the totals the admin tables need.
+ */
+export const toPage = (items, total, { page, limit }) => ({
+  items,
+  total,
+  page,
+  pages: Math.max(1, Math.ceil(total / limit)),
+});
+
+/**
+ * Mongo filter matching `search` in any of `fields`, or `{}` for an empty search.
+ */
+export const searchFilter = (search, fields) => {
+  const text = typeof search === "string" ? search.trim() : "";
+  if (!text) return {};
+
+  const pattern = new RegExp(text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+  return { $or: fields.map((field) => ({ [field]: pattern })) };
+};
+
+/**
+ * Slug for content created from the admin console.
+ */
+export const contentSlug = ({ title, metadata }) => {
+  if (metadata?.mediaType && metadata?.externalId) {
+    return `${metadata.mediaType}-${metadata.externalId}`;
+  }
+  return title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+};
+
+/**
+ * Turn an `UpdateContentInput` into a `$set`, writing metadata field by field so fields the
+ * admin didn't send (such as `releaseDate`) are kept.
+ */
+export const contentUpdate = ({ metadata, ...fields }) => {
+  const update = { ...fields };
+  for (const field of CONTENT_METADATA_FIELDS) {
+    if (metadata && metadata[field] !== undefined) {
+      update[`metadata.${field}`] = metadata[field];
+    }
+  }
+  return update;
+};
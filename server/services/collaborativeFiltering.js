@@ -0,0 +1,277 @@
+/**
+ * Collaborative Filtering Engine (item-item)
+ *
+ * Suggests titles a user has not rated yet based on how other users rated the same titles.
+ * Results are stored as `Recommendation` documents with
+ * `context.algorithm = "collaborative-filtering"` and a `context.because` list naming the
+ * user's own ratings that drove each suggestion ("Because you rated X").
+ *
+ * ========================
+ * **How Scoring Works**
+ * ========================
+ * 1. **Centering**:
+ *    - Each rating is centered on the rater's mean so generous and harsh raters compare fairly.
+ * 2. **Item Similarity**:
+ *    - Cosine similarity between two titles over the users who rated both. Pairs with fewer
+ *      than `MIN_CO_RATERS` shared raters are ignored.
+ * 3. **Prediction**:
+ *    - For every unrated title, the user's centered ratings of similar titles are averaged,
+ *      weighted by similarity. The predicted rating (`mean + deviation`, clamped to 0-10) is
+ *      stored as `score = predicted / 10`. Only titles predicted above the user's mean are kept.
+ *
+ * ========================
+ * **Offline Use**
+ * ========================
+ * - `buildItemVectors`, `itemSimilarity` and `recommendForUser` are pure functions.
+ * - `runCollaborativeFiltering` takes optional `sources.getMetadata` so titles can be resolved
+ *   from fixture payloads (see `services/tmdbFixtures.js`).
+ *
+ * ========================
+ * **Cost**
+ * ========================
+ * - The `recommendations` job scores every rater from the whole `Rating` collection.
+ * - Runs for given users (the `refreshRecommendations` mutation) load only the ratings of users
+ *   who rated the same titles, which gives the same results for those users.
+ */
+
+import Rating from "../models/Ratings.js";
+import { getMetadataFromCacheOrAPI } from "../utils/tmdb.js";
+import { saveRecommendations } from "./recommendationStore.js";
+
+export const ALGORITHM = "collaborative-filtering";
+
+const MIN_CO_RATERS = 2;
+const MAX_BECAUSE = 3;
+const DEFAULT_LIMIT = 20;
+
+const itemKey = (rating) => `${rating.mediaType || "movie"}-${rating.tmdbId}`;
+
+const parseItemKey = (key) => {
+  const [mediaType, tmdbId] = key.split("-");
+  return { mediaType, tmdbId };
+};
+
+/**
+ * Build mean-centered rating vectors.
+ *
+ * @param {Array} ratings - `{ userId, tmdbId, rating, mediaType? }` documents
+ * @returns {{ items: Map, users: Map, means: Map }}
+ *   `items`: item key -> Map(userId -> centered rating)
+ *   `users`: userId -> Map(item key -> centered rating)
+ *   `means`: userId -> mean rating
+ */
+export const buildItemVectors = (ratings) => {
+  const totals = new Map();
+  ratings.forEach(({ userId, rating }) => {
+    const id = String(userId);
+    const { sum = 0, count = 0 } = totals.get(id) || {};
+    totals.set(id, { sum: sum + rating, count: count + 1 });
+  });
+
+  const means = new Map(
+    [...totals].map(([id, { sum, count }]) => [id, sum / count]),
+  );
+  const items = new Map();
+  const users = new Map();
+
+  ratings.forEach((rating) => {
+    const id = String(rating.userId);
+    const key = itemKey(rating);
+    const centered = rating.rating - means.get(id);
+
+    if (!items.has(key)) items.set(key, new Map());
+    if (!users.has(id)) users.set(id, new Map());
+    items.get(key).set(id, centered);
+    users.get(id).set(key, centered);
+  });
+
+  return { items, users, means };
+};
+
+/**
+ * Cosine similarity between two item vectors over their shared raters.
+ */
+export const itemSimilarity = (a, b) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  let shared = 0;
+
+  a.forEach((valueA, userId) => {
+    if (!b.has(userId)) return;
+    const valueB = b.get(userId);
+    dot += valueA * valueB;
+    normA += valueA * valueA;
+    normB += valueB * valueB;
+    shared += 1;
+  });
+
+  if (shared < MIN_CO_RATERS || normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+};
+
+/**
+ * Predict the best unrated titles for a user.
+ *
+ * @returns {Array} `{ tmdbId, mediaType, score, because: [{ tmdbId, mediaType, similarity, rating }] }`
+ */
+export const recommendForUser = (
+  userId,
+  vectors,
+  ratingsByKey = new Map(),
+  { limit = DEFAULT_LIMIT } = {},
+) => {
+  const id = String(userId);
+  const userVector = vectors.users.get(id);
+  if (!userVector) return [];
+
+  const mean = vectors.means.get(id);
+  const results = [];
+
+  vectors.items.forEach((candidateVector, candidateKey) => {
+    if (userVector.has(candidateKey)) return;
+
+    const contributions = [];
+    userVector.forEach((centered, ratedKey) => {
+      const similarity = itemSimilarity(
+        candidateVector,
+        vectors.items.get(ratedKey),
+      );
+      if (similarity > 0) {
+        contributions.push({ ratedKey, similarity, centered });
+      }
+    });
+
+    const weightSum = contributions.reduce((sum, c) => sum + c.similarity, 0);
+    if (weightSum === 0) return;
+
+    const deviation =
+      contributions.reduce((sum, c) => sum + c.similarity * c.centered, 0) /
+      weightSum;
+    if (deviation <= 0) return;
+
+    const predicted = Math.min(10, Math.max(0, mean + deviation));
+
+    const because = contributions
+      .filter((c) => c.centered > 0)
+      .sort((a, b) => b.similarity * b.centered - a.similarity * a.centered)
+      .slice(0, MAX_BECAUSE)
+      .map((c) => ({
+        ...parseItemKey(c.ratedKey),
+        similarity: Math.round(c.similarity * 10000) / 10000,
+        rating: ratingsByKey.get(`${id}:${c.ratedKey}`),
+      }));
+
+    results.push({
+      ...parseItemKey(candidateKey),
+      score: Math.round((predicted / 10) * 10000) / 10000,
+      because,
+    });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.tmdbId.localeCompare(b.tmdbId))
+    .slice(0, limit);
+};
+
+/**
+ * Human-readable rationale stored in `Recommendation.reason`.
+ */
+export const buildReason = (because) =>
+  because.length
+    ? `Because you rated ${because
+        .slice(0, 2)
+        .map((item) => item.title)
+        .join(" and ")}.`
+    : "Popular with people who rate titles like you do.";
+
+/**
+ * Ratings needed to recommend for `userIds`, or every rating when no users are given.
+ * Similarity only counts raters shared by a candidate and a title the user rated, so the users
+ * who rated any of the same titles (with all their ratings, for their means) are enough.
+ */
+const loadRatings = async (userIds) => {
+  if (!userIds) return Rating.find().lean();
+
+  const ratedIds = await Rating.distinct("tmdbId", {
+    userId: { $in: userIds },
+  });
+  if (!ratedIds.length) return [];
+
+  const raterIds = await Rating.distinct("userId", {
+    tmdbId: { $in: ratedIds },
+  });
+  return Rating.find({ userId: { $in: raterIds } }).lean();
+};
+
+/**
+ * Compute and store collaborative recommendations.
+ *
+ * @param {Object} [options]
+ * @param {Array} [options.userIds] - limit the run to these users (default: every rater); only
+ *   their rating neighborhood is loaded, so this is cheap enough to run per request
+ * @param {Object} [options.sources] - `{ getMetadata }` override for offline runs
+ * @param {number} [options.limit=20] - suggestions per user
+ * @returns {Promise<Map>} userId -> saved `Recommendation` documents
+ */
+export const runCollaborativeFiltering = async ({
+  userIds,
+  sources = {},
+  limit = DEFAULT_LIMIT,
+} = {}) => {
+  const getMetadata = sources.getMetadata || getMetadataFromCacheOrAPI;
+
+  const ratings = await loadRatings(userIds);
+  const vectors = buildItemVectors(ratings);
+  const ratingsByKey = new Map(
+    ratings.map((r) => [`${r.userId}:${itemKey(r)}`, r.rating]),
+  );
+
+  // Resolve each title once across all users
+  const metadataCache = new Map();
+  const titleFor = async ({ tmdbId, mediaType }) => {
+    const key = `${mediaType}-${tmdbId}`;
+    if (!metadataCache.has(key)) {
+      metadataCache.set(key, await getMetadata(tmdbId, mediaType));
+    }
+    return metadataCache.get(key);
+  };
+
+  const targets = userIds ? userIds.map(String) : [...vectors.users.keys()];
+  const results = new Map();
+
+  for (const userId of targets) {
+    const suggestions = recommendForUser(userId, vectors, ratingsByKey, {
+      limit,
+    });
+
+    const items = await Promise.all(
+      suggestions.map(async (suggestion) => {
+        const metadata = await titleFor(suggestion);
+        const because = await Promise.all(
+          suggestion.because.map(async (item) => {
+            const rated = await titleFor(item);
+            return { ...item, title: rated?.title || rated?.name || "Unknown" };
+          }),
+        );
+
+        return {
+          tmdbId: suggestion.tmdbId,
+          mediaType: suggestion.mediaType,
+          title: metadata?.title || metadata?.name || "Unknown",
+          genres: metadata?.genres?.map((genre) => genre.name) || [],
+          overview: metadata?.overview || "",
+          releaseDate: metadata?.release_date || metadata?.first_air_date,
+          voteAverage: metadata?.vote_average,
+          score: suggestion.score,
+          reason: buildReason(because),
+          context: { because },
+        };
+      }),
+    );
+
+    results.set(userId, await saveRecommendations(userId, items, ALGORITHM));
+  }
+
+  return results;
+};
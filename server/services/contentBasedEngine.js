@@ -0,0 +1,429 @@
+/**
+ * Content-Based Recommendation Engine
+ *
+ * Builds a taste profile for a user from what they already told us (favorites, ratings and
+ * `User.preferences`) and scores candidate titles from the cached TMDb trending and popular
+ * lists against it. Results are stored as `Recommendation` documents with
+ * `context.algorithm = "content-based"`.
+ *
+ * ========================
+ * **How Scoring Works**
+ * ========================
+ * 1. **Profile**:
+ *    - Every favorite adds its genres and overview keywords with weight `1`.
+ *    - Every rating adds them with weight `(rating - 5) / 5`, so a 10 counts as `+1`
+ *      and a 0 as `-1` (disliked genres pull candidates down).
+ *    - Every favorite genre from `User.preferences` adds weight `0.5` to that genre and every
+ *      disliked genre `-1`.
+ * 2. **Candidates**:
+ *    - Trending and popular movies/TV shows, de-duplicated, excluding people and titles the
+ *      user has already favorited or rated.
+ *    - Recent and upcoming credits of people the user follows (`FollowedPerson`), tagged with
+ *      `followedPeople` (their names).
+ * 3. **Score**:
+ *    - Cosine similarity between the profile and the candidate's genres (75%) and overview
+ *      keywords (25%).
+ *    - Credits of followed people get a flat `+0.25` (capped at `1`), so they are recommended
+ *      even when their genres are new to the user.
+ *    - Titles outside the preferred languages, and movies or TV shows against the user's
+ *      `mediaTypeBias`, have their score multiplied by `0.8`.
+ *    - Candidates with a score of `0` or less are dropped.
+ * 4. **Content Rating Ceiling**:
+ *    - TMDb lists carry no certifications, so any `maxContentRating` excludes titles flagged
+ *      `adult`.
+ *
+ * ========================
+ * **Offline Use**
+ * ========================
+ * - `buildProfile`, `scoreCandidates` and `buildReason` are pure functions.
+ * - `generateContentBasedRecommendations` takes optional `sources`
+ *   (`loadCandidates`, `loadFollowedCredits`, `getMetadata`, `getGenreMaps`) so it can run
+ *   against fixture payloads (see `services/tmdbFixtures.js`) instead of the live TMDb API.
+ */
+
+import Favorite from "../models/Favorite.js";
+import FollowedPerson from "../models/FollowedPerson.js";
+import Rating from "../models/Ratings.js";
+import User from "../models/User.js";
+import {
+  fetchTmdbList,
+  getGenreMaps,
+  getMetadataFromCacheOrAPI,
+  getPersonWithCredits,
+} from "../utils/tmdb.js";
+import { selectRecentCredits } from "./personDetails.js";
+import { saveRecommendations } from "./recommendationStore.js";
+import { normalizePreferences } from "./userPreferences.js";
+
+export const ALGORITHM = "content-based";
+
+const FAVORITE_WEIGHT = 1;
+const PREFERENCE_WEIGHT = 0.5;
+const DISLIKE_WEIGHT = -1;
+const OFF_PREFERENCE_FACTOR = 0.8;
+const NEUTRAL_RATING = 5;
+const KEYWORD_SHARE = 0.25;
+const FOLLOW_BOOST = 0.25;
+const DEFAULT_LIMIT = 20;
+
+// Common words that carry no signal in TMDb overviews
+const STOPWORDS = new Set([
+  "about",
+  "after",
+  "against",
+  "also",
+  "among",
+  "before",
+  "being",
+  "between",
+  "their",
+  "there",
+  "these",
+  "they",
+  "this",
+  "those",
+  "through",
+  "when",
+  "where",
+  "which",
+  "while",
+  "with",
+  "within",
+  "from",
+  "into",
+  "have",
+  "must",
+  "that",
+  "what",
+  "will",
+  "your",
+  "year",
+  "years",
+]);
+
+const mediaKey = (mediaType, tmdbId) => `${mediaType}-${tmdbId}`;
+
+/**
+ * Split an overview into lowercase keywords (4+ letters, no stopwords), without duplicates.
+ */
+export const extractKeywords = (text = "") => [
+  ...new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z]+/)
+      .filter((word) => word.length >= 4 && !STOPWORDS.has(word)),
+  ),
+];
+
+const addWeight = (vector, key, weight) => {
+  vector[key] = (vector[key] || 0) + weight;
+};
+
+/**
+ * Build a genre/keyword profile from resolved signals.
+ *
+ * @param {Object} signals
+ * @param {Array} signals.favorites - `{ tmdbId, mediaType, genres: [names], overview }`
+ * @param {Array} signals.ratings - same shape plus `rating` (0-10)
+ * @param {Array} signals.preferences - favorite genre names from `User.preferences`
+ * @param {Array} signals.dislikedGenres - disliked genre names from `User.preferences`
+ */
+export const buildProfile = ({
+  favorites = [],
+  ratings = [],
+  preferences = [],
+  dislikedGenres = [],
+}) => {
+  const profile = { genres: {}, keywords: {}, seen: new Set() };
+
+  const addSignal = (signal, weight) => {
+    profile.seen.add(mediaKey(signal.mediaType, signal.tmdbId));
+    if (weight === 0) return;
+
+    (signal.genres || []).forEach((genre) =>
+      addWeight(profile.genres, genre, weight),
+    );
+    extractKeywords(signal.overview).forEach((keyword) =>
+      addWeight(profile.keywords, keyword, weight),
+    );
+  };
+
+  favorites.forEach((favorite) => addSignal(favorite, FAVORITE_WEIGHT));
+  ratings.forEach((rating) =>
+    addSignal(rating, (rating.rating - NEUTRAL_RATING) / NEUTRAL_RATING),
+  );
+  preferences.forEach((genre) =>
+    addWeight(profile.genres, genre, PREFERENCE_WEIGHT),
+  );
+  dislikedGenres.forEach((genre) =>
+    addWeight(profile.genres, genre, DISLIKE_WEIGHT),
+  );
+
+  return profile;
+};
+
+// Cosine similarity between a weighted profile vector and a binary candidate vector
+const cosine = (vector, keys) => {
+  if (keys.length === 0) return 0;
+
+  const norm = Math.sqrt(
+    Object.values(vector).reduce((sum, weight) => sum + weight * weight, 0),
+  );
+  if (norm === 0) return 0;
+
+  const dot = keys.reduce((sum, key) => sum + (vector[key] || 0), 0);
+  return dot / (norm * Math.sqrt(keys.length));
+};
+
+/**
+ * Score TMDb list items against a profile, best matches first.
+ *
+ * @param {Object} profile - result of `buildProfile`
+ * @param {Array} candidates - TMDb list items with `media_type` set
+ * @param {Object} genreMaps - `{ movie: { id: name }, tv: { id: name } }`
+ * @param {Object} [options]
+ * @param {number} [options.limit=20] - maximum number of results
+ * @param {Array} [options.languages] - preferred original languages (empty for any)
+ * @param {string} [options.mediaTypeBias="balanced"] - `"balanced"`, `"movie"` or `"tv"`
+ * @param {string|null} [options.maxContentRating] - any ceiling excludes adult titles
+ */
+export const scoreCandidates = (
+  profile,
+  candidates,
+  genreMaps,
+  {
+    limit = DEFAULT_LIMIT,
+    languages = [],
+    mediaTypeBias = "balanced",
+    maxContentRating = null,
+  } = {},
+) => {
+  const scored = new Map();
+
+  candidates.forEach((candidate) => {
+    const mediaType = candidate.media_type;
+    if (mediaType !== "movie" && mediaType !== "tv") return;
+
+    const key = mediaKey(mediaType, candidate.id);
+    if (profile.seen.has(key) || scored.has(key)) return;
+    if (maxContentRating && candidate.adult) return;
+
+    const genres = (candidate.genre_ids || [])
+      .map((id) => genreMaps[mediaType]?.[id])
+      .filter(Boolean);
+    const keywords = extractKeywords(candidate.overview);
+    const followedPeople = candidate.followedPeople || [];
+
+    let score = Math.min(
+      1,
+      (1 - KEYWORD_SHARE) * cosine(profile.genres, genres) +
+        KEYWORD_SHARE * cosine(profile.keywords, keywords) +
+        (followedPeople.length > 0 ? FOLLOW_BOOST : 0),
+    );
+    if (
+      languages.length > 0 &&
+      !languages.includes(candidate.original_language)
+    ) {
+      score *= OFF_PREFERENCE_FACTOR;
+    }
+    if (mediaTypeBias !== "balanced" && mediaType !== mediaTypeBias) {
+      score *= OFF_PREFERENCE_FACTOR;
+    }
+    if (score <= 0) return;
+
+    const matchedGenres = genres
+      .filter((genre) => (profile.genres[genre] || 0) > 0)
+      .sort((a, b) => profile.genres[b] - profile.genres[a]);
+
+    scored.set(key, {
+      tmdbId: candidate.id,
+      mediaType,
+      title: candidate.title || candidate.name || "Unknown",
+      genres,
+      overview: candidate.overview || "",
+      releaseDate: candidate.release_date || candidate.first_air_date || null,
+      voteAverage: candidate.vote_average ?? 0,
+      popularity: candidate.popularity ?? 0,
+      score: Math.round(score * 10000) / 10000,
+      matchedGenres,
+      followedPeople,
+    });
+  });
+
+  return [...scored.values()]
+    .sort(
+      (a, b) =>
+        b.score - a.score || b.popularity - a.popularity || a.tmdbId - b.tmdbId,
+    )
+    .slice(0, limit);
+};
+
+/**
+ * Human-readable rationale stored in `Recommendation.reason`.
+ */
+export const buildReason = ({ matchedGenres = [], followedPeople = [] }) => {
+  if (followedPeople.length) {
+    return `New from ${followedPeople.slice(0, 2).join(" and ")}, who you follow.`;
+  }
+  return matchedGenres.length
+    ? `Because you like ${matchedGenres.slice(0, 2).join(" and ")}.`
+    : "Matches themes from titles you enjoyed.";
+};
+
+/**
+ * Resolve favorites and ratings to signals with genre names and overviews.
+ * Ratings without a media type are treated as movies.
+ */
+export const resolveSignals = async (favorites, ratings, getMetadata) => {
+  const resolve = async (doc) => {
+    const mediaType = doc.mediaType || "movie";
+    const metadata = await getMetadata(doc.tmdbId, mediaType);
+
+    return {
+      tmdbId: Number(doc.tmdbId),
+      mediaType,
+      rating: doc.rating,
+      genres: metadata?.genres?.map((genre) => genre.name) || [],
+      overview: metadata?.overview || "",
+    };
+  };
+
+  return {
+    favorites: await Promise.all(favorites.map(resolve)),
+    ratings: await Promise.all(ratings.map(resolve)),
+  };
+};
+
+// Trending plus popular movies and TV shows from the shared TMDb list cache
+const loadCachedCandidates = async () => {
+  const [trending, popularMovies, popularTV] = await Promise.all([
+    fetchTmdbList("/trending/all/day", {}, "trending"),
+    fetchTmdbList("/movie/popular", { page: 1 }, "popularMovies"),
+    fetchTmdbList("/tv/popular", { page: 1 }, "popularTV"),
+  ]);
+
+  return [
+    ...trending.results,
+    ...popularMovies.results.map((movie) => ({
+      ...movie,
+      media_type: "movie",
+    })),
+    ...popularTV.results.map((show) => ({ ...show, media_type: "tv" })),
+  ];
+};
+
+/**
+ * Recent credits of followed people as candidates, one per title, each listing the followed
+ * people involved. People TMDb cannot return right now are skipped.
+ */
+export const loadFollowedCredits = async (
+  follows,
+  getPerson = getPersonWithCredits,
+) => {
+  const candidates = new Map();
+
+  await Promise.all(
+    follows.map(async (follow) => {
+      try {
+        const person = await getPerson(follow.personId);
+        selectRecentCredits(person.combined_credits).forEach((credit) => {
+          const key = mediaKey(credit.media_type, credit.id);
+          const candidate = candidates.get(key) || {
+            ...credit,
+            followedPeople: [],
+          };
+          candidate.followedPeople.push(follow.name);
+          candidates.set(key, candidate);
+        });
+      } catch (error) {
+        console.error(
+          `Error loading credits for person ${follow.personId}:`,
+          error.message,
+        );
+      }
+    }),
+  );
+
+  return [...candidates.values()];
+};
+
+// Preference genre IDs -> names; movie and TV lists share most IDs, and both names count
+const genreNames = (ids, genreMaps) => [
+  ...new Set(
+    ids.flatMap((id) =>
+      [genreMaps.movie?.[id], genreMaps.tv?.[id]].filter(Boolean),
+    ),
+  ),
+];
+
+const defaultSources = {
+  loadCandidates: loadCachedCandidates,
+  loadFollowedCredits,
+  getMetadata: getMetadataFromCacheOrAPI,
+  getGenreMaps,
+};
+
+/**
+ * Compute and store content-based recommendations for a user.
+ * Returns the saved `Recommendation` documents, best scores first.
+ */
+export const generateContentBasedRecommendations = async (
+  userId,
+  sources = {},
+  { limit = DEFAULT_LIMIT } = {},
+) => {
+  const {
+    loadCandidates,
+    loadFollowedCredits: loadFollowed,
+    getMetadata,
+    getGenreMaps: loadGenreMaps,
+  } = {
+    ...defaultSources,
+    ...sources,
+  };
+
+  const [user, favorites, ratings, follows] = await Promise.all([
+    User.findById(userId).select("preferences"),
+    Favorite.find({ userId }),
+    Rating.find({ userId }),
+    FollowedPerson.find({ userId }),
+  ]);
+
+  if (!user) {
+    throw new Error("User not found.");
+  }
+
+  const [signals, listCandidates, followedCandidates, genreMaps] =
+    await Promise.all([
+      resolveSignals(favorites, ratings, getMetadata),
+      loadCandidates(),
+      loadFollowed(follows),
+      loadGenreMaps(),
+    ]);
+
+  const preferences = normalizePreferences(user.preferences);
+  const profile = buildProfile({
+    ...signals,
+    preferences: genreNames(preferences.favoriteGenres, genreMaps),
+    dislikedGenres: genreNames(preferences.dislikedGenres, genreMaps),
+  });
+
+  // Followed credits go first so their `followedPeople` tag wins over list duplicates
+  const scored = scoreCandidates(
+    profile,
+    [...followedCandidates, ...listCandidates],
+    genreMaps,
+    {
+      limit,
+      languages: preferences.languages,
+      mediaTypeBias: preferences.mediaTypeBias,
+      maxContentRating: preferences.maxContentRating,
+    },
+  );
+
+  return saveRecommendations(
+    userId,
+    scored.map((item) => ({ ...item, reason: buildReason(item) })),
+    ALGORITHM,
+  );
+};
@@ -0,0 +1,145 @@
+/**
+ * Discover Filters
+ *
+ * Translates the client's filter query string into TMDb `/discover/{movie|tv}` parameters and
+ * a normalized cache key. Two requests with the same filters in a different order, with
+ * duplicate genres, or with defaulted values map to the same key, so they share one cached
+ * TMDb payload.
+ *
+ * Supported Filters (all optional):
+ * | Query param               | TMDb parameter                                      |
+ * |---------------------------|-----------------------------------------------------|
+ * | `genres=28,12`            | `with_genres` (sorted, de-duplicated, AND-ed)       |
+ * | `yearFrom` / `yearTo`     | `primary_release_date.*` (movie) / `first_air_date.*` (tv) |
+ * | `minRating=7`             | `vote_average.gte` plus `vote_count.gte` to skip unrated titles |
+ * | `runtimeMin` / `runtimeMax` | `with_runtime.gte` / `with_runtime.lte` (minutes) |
+ * | `language=en`             | `with_original_language` (ISO 639-1)               |
+ * | `sort`                    | `popularity` (default), `rating`, `newest`, `oldest` |
+ * | `page`                    | `page` (1-500)                                      |
+ *
+ * Validation:
+ * - Invalid values produce `{ error }` with a message suitable for a 400 response.
+ */
+
+const MIN_YEAR = 1870;
+const MAX_PAGE = 500;
+const MAX_RUNTIME = 600;
+const MIN_VOTES_FOR_RATING = 50;
+
+const SORT_FIELDS = {
+  popularity: () => "popularity.desc",
+  rating: () => "vote_average.desc",
+  newest: (dateField) => `${dateField}.desc`,
+  oldest: (dateField) => `${dateField}.asc`,
+};
+
+export const DISCOVER_MEDIA_TYPES = ["movie", "tv"];
+
+const parseInteger = (value, min, max) => {
+  const number = Number(value);
+  return Number.isInteger(number) && number >= min && number <= max
+    ? number
+    : null;
+};
+
+/**
+ * Build TMDb discover params and a cache key from request query parameters.
+ * @returns {{ params: object, cacheKey: string } | { error: string }}
+ */
+export const normalizeDiscoverFilters = (mediaType, query = {}) => {
+  if (!DISCOVER_MEDIA_TYPES.includes(mediaType)) {
+    return { error: 'Media type must be "movie" or "tv".' };
+  }
+
+  const dateField =
+    mediaType === "movie" ? "primary_release_date" : "first_air_date";
+  const maxYear = new Date().getFullYear() + 5;
+  const params = {};
+  const has = (key) => query[key] !== undefined && query[key] !== "";
+
+  if (has("genres")) {
+    const genres = String(query.genres)
+      .split(",")
+      .map((id) => parseInteger(id.trim(), 1, Number.MAX_SAFE_INTEGER));
+    if (genres.some((id) => id === null)) {
+      return { error: "Genres must be a comma-separated list of genre IDs." };
+    }
+    params.with_genres = [...new Set(genres)].sort((a, b) => a - b).join(",");
+  }
+
+  const yearFrom = has("yearFrom")
+    ? parseInteger(query.yearFrom, MIN_YEAR, maxYear)
+    : undefined;
+  const yearTo = has("yearTo")
+    ? parseInteger(query.yearTo, MIN_YEAR, maxYear)
+    : undefined;
+  if (yearFrom === null || yearTo === null) {
+    return { error: `Years must be between ${MIN_YEAR} and ${maxYear}.` };
+  }
+  if (yearFrom && yearTo && yearFrom > yearTo) {
+    return { error: "yearFrom must not be after yearTo." };
+  }
+  if (yearFrom) params[`${dateField}.gte`] = `${yearFrom}-01-01`;
+  if (yearTo) params[`${dateField}.lte`] = `${yearTo}-12-31`;
+
+  if (has("minRating")) {
+    const minRating = Number(query.minRating);
+    if (Number.isNaN(minRating) || minRating < 0 || minRating > 10) {
+      return { error: "minRating must be a number between 0 and 10." };
+    }
+    if (minRating > 0) {
+      params["vote_average.gte"] = minRating;
+      params["vote_count.gte"] = MIN_VOTES_FOR_RATING;
+    }
+  }
+
+  const runtimeMin = has("runtimeMin")
+    ? parseInteger(query.runtimeMin, 0, MAX_RUNTIME)
+    : undefined;
+  const runtimeMax = has("runtimeMax")
+    ? parseInteger(query.runtimeMax, 0, MAX_RUNTIME)
+    : undefined;
+  if (runtimeMin === null || runtimeMax === null) {
+    return {
+      error: `Runtime must be a whole number of minutes up to ${MAX_RUNTIME}.`,
+    };
+  }
+  if (
+    runtimeMin !== undefined &&
+    runtimeMax !== undefined &&
+    runtimeMin > runtimeMax
+  ) {
+    return { error: "runtimeMin must not exceed runtimeMax." };
+  }
+  if (runtimeMin) params["with_runtime.gte"] = runtimeMin;
+  if (runtimeMax !== undefined) params["with_runtime.lte"] = runtimeMax;
+
+  if (has("language")) {
+    const language = String(query.language).toLowerCase();
+    if (!/^[a-z]{2}$/.test(language)) {
+      return { error: "Language must be a two-letter ISO 639-1 code." };
+    }
+    params.with_original_language = language;
+  }
+
+  const sort = has("sort") ? String(query.sort) : "popularity";
+  if (!Object.hasOwn(SORT_FIELDS, sort)) {
+    return {
+      error: `Sort must be one of: ${Object.keys(SORT_FIELDS).join(", ")}.`,
+    };
+  }
+  params.sort_by = SORT_FIELDS[sort](dateField);
+
+  const page = has("page") ? parseInteger(query.page, 1, MAX_PAGE) : 1;
+  if (page === null) {
+    return { error: `Page must be an integer between 1 and ${MAX_PAGE}.` };
+  }
+  params.page = page;
+
+  const cacheKey = `discover:${mediaType}:${Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join("&")}`;
+
+  return { params, cacheKey };
+};
@@ -0,0 +1,123 @@
+/**
+ * Episode Progress
+ *
+ * Pure helpers behind TV episode tracking. A show's aired episodes are derived from its TMDb
+ * details (`seasons[].episode_count` and `last_episode_to_air`), and a user's
+ * `WatchedEpisode` documents are compared against them.
+ *
+ * Rules:
+ * - Specials (season 0) are listed by TMDb but never count toward progress.
+ * - Only aired episodes count: seasons after `last_episode_to_air` contribute nothing and its
+ *   season contributes up to that episode. Shows without `last_episode_to_air` have not aired.
+ * - Watched episodes that have not aired (or no longer exist) are ignored.
+ * - `nextEpisode` is the first unwatched episode after the furthest one watched. Once that is
+ *   past the last aired episode, the earliest skipped episode is suggested instead, and `null`
+ *   means the user is caught up.
+ *
+ * Progress Shape:
+ * ```js
+ * {
+ *   totalEpisodes, watchedEpisodes, percent, // percent is rounded to an integer
+ *   nextEpisode: { seasonNumber, episodeNumber } | null,
+ *   seasons: [{ seasonNumber, name, airedEpisodes, watchedEpisodes }],
+ *   watched: [{ seasonNumber, episodeNumber }],
+ * }
+ * ```
+ */
+
+const MAX_EPISODE_NUMBER = 10000;
+
+const episodeKey = (seasonNumber, episodeNumber) =>
+  `${seasonNumber}:${episodeNumber}`;
+
+const parseNumber = (value, min) => {
+  const number = Number(value);
+  return Number.isInteger(number) &&
+    number >= min &&
+    number <= MAX_EPISODE_NUMBER
+    ? number
+    : null;
+};
+
+/**
+ * Parse a season number from a route parameter (0 for specials). Returns `null` when invalid.
+ */
+export const parseSeasonNumber = (value) => parseNumber(value, 0);
+
+/**
+ * Parse an episode number from a request body. Returns `null` when invalid.
+ */
+export const parseEpisodeNumber = (value) => parseNumber(value, 1);
+
+/**
+ * Number of aired episodes per regular season, in season order.
+ */
+export const airedSeasons = (show) => {
+  const last = show.last_episode_to_air;
+
+  return (show.seasons || [])
+    .filter((season) => season.season_number > 0)
+    .sort((a, b) => a.season_number - b.season_number)
+    .map((season) => {
+      let airedEpisodes = 0;
+      if (last && season.season_number < last.season_number) {
+        airedEpisodes = season.episode_count || 0;
+      } else if (last && season.season_number === last.season_number) {
+        airedEpisodes = Math.min(
+          last.episode_number,
+          season.episode_count || last.episode_number,
+        );
+      }
+
+      return {
+        seasonNumber: season.season_number,
+        name: season.name || `Season ${season.season_number}`,
+        airedEpisodes,
+      };
+    });
+};
+
+/**
+ * Compare a show's aired episodes with the user's watched episodes.
+ *
+ * @param {Object} show - TMDb `/tv/:id` payload
+ * @param {Array} watchedDocs - `{ seasonNumber, episodeNumber }` documents
+ */
+export const computeProgress = (show, watchedDocs = []) => {
+  const seasons = airedSeasons(show);
+  const aired = seasons.flatMap((season) =>
+    Array.from({ length: season.airedEpisodes }, (_, index) => ({
+      seasonNumber: season.seasonNumber,
+      episodeNumber: index + 1,
+    })),
+  );
+
+  const watchedKeys = new Set(
+    watchedDocs.map((doc) => episodeKey(doc.seasonNumber, doc.episodeNumber)),
+  );
+  const isWatched = (episode) =>
+    watchedKeys.has(episodeKey(episode.seasonNumber, episode.episodeNumber));
+
+  const watched = aired.filter(isWatched);
+  const furthestIndex = aired.findLastIndex(isWatched);
+  const nextEpisode =
+    aired.slice(furthestIndex + 1).find((episode) => !isWatched(episode)) ||
+    aired.find((episode) => !isWatched(episode)) ||
+    null;
+
+  return {
+    totalEpisodes: aired.length,
+    watchedEpisodes: watched.length,
+    percent: aired.length
+      ? Math.round((watched.length / aired.length) * 100)
+      : 0,
+    nextEpisode,
+    seasons: seasons.map((season) => ({
+      ...season,
+      watchedEpisodes: watched.filter(
+        (episode) => episode.seasonNumber === season.seasonNumber,
+      ).length,
+    })),
+    watched,
+  };
+};
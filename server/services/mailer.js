@@ -0,0 +1,87 @@
+/**
+ * Mailer
+ *
+ * Sends the platform's transactional emails (currently password reset links) through a
+ * pluggable transport: any object with an async `send({ from, to, subject, text })` method.
+ *
+ * Transports:
+ * - `console` (default): Logs each message, link included, to the server log. Meant for
+ *   development only.
+ * - `file`: Writes each message to a text file in `MAIL_DIR` (default `tmp/mail`), one file per
+ *   message, so links can be opened without a mail server.
+ * - Anything else (SMTP, a mail API) is plugged in at startup with `setMailTransport`.
+ *
+ * Configuration:
+ * - `MAIL_TRANSPORT`: `console` or `file`.
+ * - `MAIL_DIR`: Output directory of the file transport.
+ * - `MAIL_FROM`: Sender address (default `RecoSphere <no-reply@recosphere.local>`).
+ */
+
+import fs from "fs/promises";
+import path from "path";
+
+const DEFAULT_FROM = "RecoSphere <no-reply@recosphere.local>";
+const DEFAULT_MAIL_DIR = "tmp/mail";
+
+let transport = null;
+
+const formatMessage = ({ from, to, subject, text }) =>
+  [`From: ${from}`, `To: ${to}`, `Subject: ${subject}`, "", text].join("\n");
+
+export const createConsoleTransport = (log = console.log) => ({
+  send: async (message) => {
+    log(`Email (console transport):\n${formatMessage(message)}`);
+  },
+});
+
+export const createFileTransport = (dir = DEFAULT_MAIL_DIR) => ({
+  send: async (message) => {
+    await fs.mkdir(dir, { recursive: true });
+    const recipient = message.to.replace(/[^a-z0-9.@-]/gi, "_");
+    const file = path.join(dir, `${Date.now()}-${recipient}.txt`);
+    await fs.writeFile(file, formatMessage(message));
+  },
+});
+
+const transportFromEnv = () =>
+  process.env.MAIL_TRANSPORT === "file"
+    ? createFileTransport(process.env.MAIL_DIR || DEFAULT_MAIL_DIR)
+    : createConsoleTransport();
+
+/**
+ * Replace the transport used by `sendMail` (a production mail service, or a stub in tests).
+ * Passing `null` goes back to the one chosen by `MAIL_TRANSPORT`.
+ */
+export const setMailTransport = (nextTransport) => {
+  transport = nextTransport;
+};
+
+/**
+ * Send `{ to, subject, text }` from `MAIL_FROM` through the current transport.
+ */
+export const sendMail = async ({ to, subject, text }) => {
+  if (!transport) transport = transportFromEnv();
+  await transport.send({
+    from: process.env.MAIL_FROM || DEFAULT_FROM,
+    to,
+    subject,
+    text,
+  });
+};
+
+/**
+ * Subject and body of the password reset email.
+ */
+export const passwordResetEmail = ({ name, resetUrl, expiresInMinutes }) => ({
+  subject: "Reset your RecoSphere password",
+  text: [
+    `Hi ${name || "there"},`,
+    "",
+    "We received a request to reset the password of your RecoSphere account.",
+    `Open this link to choose a new one (it expires in ${expiresInMinutes} minutes and works once):`,
+    "",
+    resetUrl,
+    "",
+    "If you didn't ask for this, you can ignore this email; your password stays the same.",
+  ].join("\n"),
+});
@@ -0,0 +1,129 @@
+/**
+ * Passwords
+ *
+ * The forgot-password, reset-password and change-password flows behind the `/api/auth`
+ * endpoints. Each function returns `{ error, status }` for problems the caller should see, so
+ * controllers only map results to responses.
+ *
+ * Rules:
+ * - New passwords need at least `MIN_PASSWORD_LENGTH` characters (the same rule as sign-up).
+ * - Reset links point at the client's `/reset-password` page (`CLIENT_URL`), carry a token
+ *   from `issuePasswordResetToken` and work once within `PASSWORD_RESET_TTL_MINUTES`.
+ * - Disabled accounts get no reset email.
+ * - Resetting or changing a password ends every existing session (refresh token).
+ */
+
+import bcrypt from "bcrypt";
+import User from "../models/User.js";
+import {
+  PASSWORD_RESET_TTL_MINUTES,
+  consumePasswordResetToken,
+  issuePasswordResetToken,
+  revokeUserRefreshTokens,
+} from "../utils/tokens.js";
+import { passwordResetEmail, sendMail } from "./mailer.js";
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+const DEFAULT_CLIENT_URL = "http://localhost:3000";
+
+/**
+ * Error message for a password that can't be used, or `null`.
+ */
+export const validateNewPassword = (password) => {
+  if (typeof password !== "string" || !password.trim()) {
+    return "A new password is required.";
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters long.`;
+  }
+  return null;
+};
+
+/**
+ * Client URL of the reset page for a raw token.
+ */
+export const resetPasswordUrl = (token) =>
+  `${(process.env.CLIENT_URL || DEFAULT_CLIENT_URL).replace(/\/$/, "")}/reset-password?token=${encodeURIComponent(token)}`;
+
+/**
+ * Email a reset link if `email` belongs to an active account. Unknown emails are silently
+ * ignored so the response can't reveal which addresses are registered.
+ */
+export const requestPasswordReset = async (email) => {
+  const user = await User.findOne({ email });
+  if (!user || user.isDisabled) return;
+
+  const token = await issuePasswordResetToken(user._id);
+  await sendMail({
+    to: user.email,
+    ...passwordResetEmail({
+      name: user.name,
+      resetUrl: resetPasswordUrl(token),
+      expiresInMinutes: PASSWORD_RESET_TTL_MINUTES,
+    }),
+  });
+};
+
+const savePassword = async (user, password) => {
+  user.password = await bcrypt.hash(password, 10);
+  await user.save();
+  await revokeUserRefreshTokens(user._id);
+};
+
+/**
+ * Set a new password with a reset token. The password is checked before the token is used,
+ * so a rejected password leaves the link working.
+ *
+ * @returns {Promise<{ user } | { error: string, status: number }>}
+ */
+export const resetPasswordWithToken = async (token, password) => {
+  const passwordError = validateNewPassword(password);
+  if (passwordError) return { error: passwordError, status: 400 };
+
+  const userId = token ? await consumePasswordResetToken(token) : null;
+  const user = userId && (await User.findById(userId));
+  if (!user || user.isDisabled) {
+    return {
+      error: "This reset link is invalid or has expired.",
+      status: 400,
+    };
+  }
+
+  await savePassword(user, password);
+  return { user };
+};
+
+/**
+ * Change the password of a signed-in user, who must confirm their current one.
+ *
+ * @returns {Promise<{ user } | { error: string, status: number }>}
+ */
+export const changeUserPassword = async (
+  userId,
+  currentPassword,
+  newPassword,
+) => {
+  if (!currentPassword) {
+    return { error: "Your current password is required.", status: 400 };
+  }
+  const passwordError = validateNewPassword(newPassword);
+  if (passwordError) return { error: passwordError, status: 400 };
+
+  const user = await User.findById(userId);
+  if (!user) return { error: "User not found.", status: 404 };
+
+  // 400 rather than 401: the session is fine, and the client treats 401 as an expired session
+  if (!(await bcrypt.compare(currentPassword, user.password))) {
+    return { error: "Current password is incorrect.", status: 400 };
+  }
+  if (currentPassword === newPassword) {
+    return {
+      error: "The new password must be different from the current one.",
+      status: 400,
+    };
+  }
+
+  await savePassword(user, newPassword);
+  return { user };
+};
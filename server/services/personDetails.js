@@ -0,0 +1,120 @@
+/**
+ * Person Details
+ *
+ * Shapes TMDb's `/person/:id` payload (fetched with `combined_credits` appended) for the person
+ * page, and picks the recent credits of followed people that feed the content-based engine.
+ *
+ * Response Shape (`shapePersonDetails`):
+ * - Profile fields: `id`, `name`, `biography`, `birthday`, `deathday`, `placeOfBirth`,
+ *   `profile_path`, `knownForDepartment`.
+ * - `knownFor`: the person's most-voted movies and TV shows (top 8, one entry per title).
+ * - `credits`: every movie/TV credit, newest first, with `character` (cast) or `job` (crew).
+ *
+ * Validation:
+ * - `parsePersonId` returns `null` for anything but a positive integer.
+ */
+
+const MAX_KNOWN_FOR = 8;
+const RECENT_CREDIT_DAYS = 365;
+
+export const parsePersonId = (value) => {
+  const personId = Number(value);
+  return Number.isInteger(personId) && personId >= 1 ? personId : null;
+};
+
+const creditDate = (credit) =>
+  credit.release_date || credit.first_air_date || null;
+
+// Movie and TV credits only; TMDb occasionally lists other media types
+const mediaCredits = (combinedCredits = {}) =>
+  [
+    ...(combinedCredits.cast || []).map((credit) => ({
+      ...credit,
+      role: "cast",
+    })),
+    ...(combinedCredits.crew || []).map((credit) => ({
+      ...credit,
+      role: "crew",
+    })),
+  ].filter(
+    (credit) => credit.media_type === "movie" || credit.media_type === "tv",
+  );
+
+const toTitle = (credit) => ({
+  id: credit.id,
+  media_type: credit.media_type,
+  title: credit.title,
+  name: credit.name,
+  poster_path: credit.poster_path,
+  genre_ids: credit.genre_ids,
+  overview: credit.overview,
+  vote_average: credit.vote_average,
+  vote_count: credit.vote_count,
+  popularity: credit.popularity,
+  release_date: credit.release_date,
+  first_air_date: credit.first_air_date,
+});
+
+/**
+ * Build the person page payload from a TMDb person response.
+ */
+export const shapePersonDetails = (data) => {
+  const credits = mediaCredits(data.combined_credits);
+
+  const knownFor = [];
+  const seen = new Set();
+  [...credits]
+    .sort((a, b) => (b.vote_count || 0) - (a.vote_count || 0))
+    .forEach((credit) => {
+      const key = `${credit.media_type}-${credit.id}`;
+      if (seen.has(key) || knownFor.length >= MAX_KNOWN_FOR) return;
+      seen.add(key);
+      knownFor.push(toTitle(credit));
+    });
+
+  return {
+    id: data.id,
+    name: data.name || "Unknown",
+    biography: data.biography || "",
+    birthday: data.birthday || null,
+    deathday: data.deathday || null,
+    placeOfBirth: data.place_of_birth || null,
+    profile_path: data.profile_path || null,
+    knownForDepartment: data.known_for_department || null,
+    knownFor,
+    credits: credits
+      .map((credit) => ({
+        ...toTitle(credit),
+        character: credit.role === "cast" ? credit.character || "" : undefined,
+        job: credit.role === "crew" ? credit.job : undefined,
+        date: creditDate(credit),
+      }))
+      // Undated (usually announced) credits first, then newest to oldest
+      .sort((a, b) => (b.date || "9999").localeCompare(a.date || "9999")),
+  };
+};
+
+/**
+ * Movie and TV credits dated within the last year or upcoming, one entry per title.
+ * Undated credits are skipped because TMDb has little metadata for them yet.
+ */
+export const selectRecentCredits = (
+  combinedCredits,
+  now = new Date(),
+  days = RECENT_CREDIT_DAYS,
+) => {
+  const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+  const titles = new Map();
+
+  mediaCredits(combinedCredits).forEach((credit) => {
+    const date = creditDate(credit);
+    const key = `${credit.media_type}-${credit.id}`;
+    if (date && date >= since && !titles.has(key)) {
+      titles.set(key, toTitle(credit));
+    }
+  });
+
+  return [...titles.values()];
+};
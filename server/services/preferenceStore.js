@@ -0,0 +1,45 @@
+/**
+ * Preference Store
+ *
+ * Saves a user's structured preferences, shared by every endpoint that writes them: the
+ * preferences endpoints, the REST and GraphQL profile updates and the legacy
+ * `POST /api/auth/:userId/preferences` route. Kept apart from `userPreferences.js`, which the
+ * `User` model itself imports.
+ *
+ * Rules:
+ * - Input is validated with `parsePreferences`. Genre IDs must also appear in TMDb's movie or TV
+ *   genre lists; if those lists cannot be loaded, only the ID format is checked.
+ * - The stored document is replaced as a whole; fields left out reset to their defaults.
+ */
+
+import User from "../models/User.js";
+import { getGenreMaps } from "../utils/tmdb.js";
+import { parsePreferences } from "./userPreferences.js";
+
+// IDs from TMDb's movie and TV genre lists, or undefined when TMDb is unavailable
+const loadKnownGenreIds = async () => {
+  try {
+    const { movie, tv } = await getGenreMaps();
+    return new Set([...Object.keys(movie), ...Object.keys(tv)].map(Number));
+  } catch (error) {
+    console.error("Error loading genres for validation:", error.message);
+    return undefined;
+  }
+};
+
+/**
+ * Validate `input` and store it as the user's preferences.
+ *
+ * @returns {Promise<{ user: Object | null } | { error: string }>}
+ */
+export const savePreferences = async (userId, input) => {
+  const result = parsePreferences(input, await loadKnownGenreIds());
+  if (result.error) return result;
+
+  const user = await User.findByIdAndUpdate(
+    userId,
+    { $set: { preferences: result.preferences } },
+    { new: true, runValidators: true },
+  ).select("-password");
+  return { user };
+};
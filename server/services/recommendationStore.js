@@ -0,0 +1,118 @@
+/**
+ * Recommendation Store
+ *
+ * Persists the output of the recommendation engines. Each scored TMDb title is upserted into
+ * the `Content` catalog (slug `<mediaType>-<tmdbId>`) and linked to the user through a
+ * `Recommendation` document tagged with the generating algorithm and score.
+ *
+ * Key Features:
+ * - **Idempotent Writes**:
+ *   - Re-running an engine updates the reason and score of existing recommendations instead of
+ *     creating duplicates (the model enforces one recommendation per user and content).
+ *   - A user's `viewed`/`dismissed` status is preserved across runs.
+ * - **Stale Cleanup**:
+ *   - Pending recommendations from the same algorithm that were not produced again are
+ *     soft-deleted (`isDeleted: true`).
+ * - **Catalog Respect**:
+ *   - Content that has been soft-deleted is never recommended again.
+ *
+ * Ranking:
+ * - Scores are only comparable within one algorithm: collaborative filtering stores a predicted
+ *   rating (`predicted / 10`), the content-based engine a similarity. `interleaveByAlgorithm`
+ *   merges each algorithm's best-first list in turns instead of sorting them together.
+ *
+ * Expected item shape (as produced by the engines):
+ * `{ tmdbId, mediaType, title, genres, overview, releaseDate, voteAverage, score, reason, context? }`
+ * where `context` holds algorithm-specific fields merged into `Recommendation.context`.
+ */
+
+import Content from "../models/Content.js";
+import Recommendation from "../models/Recommendation.js";
+
+const upsertContent = (item) =>
+  Content.findOneAndUpdate(
+    { slug: `${item.mediaType}-${item.tmdbId}` },
+    {
+      $set: {
+        title: item.title || "Unknown",
+        genre: item.genres?.length ? item.genres : ["Unknown"],
+        rating: item.voteAverage ?? 0,
+        "metadata.externalId": String(item.tmdbId),
+        "metadata.mediaType": item.mediaType,
+        "metadata.releaseDate": item.releaseDate
+          ? new Date(item.releaseDate)
+          : null,
+        "metadata.description": item.overview || "",
+      },
+    },
+    { upsert: true, new: true, runValidators: true },
+  );
+
+/**
+ * Save scored items as recommendations for a user and return the stored documents,
+ * best scores first.
+ */
+export const saveRecommendations = async (userId, items, algorithm) => {
+  const savedIds = [];
+
+  for (const item of items) {
+    const content = await upsertContent(item);
+    if (content.isDeleted) continue;
+
+    const recommendation = await Recommendation.findOneAndUpdate(
+      { userId, contentId: content._id },
+      {
+        $set: {
+          reason: item.reason,
+          context: { ...item.context, algorithm, score: item.score },
+          isDeleted: false,
+        },
+        $setOnInsert: { status: "pending" },
+      },
+      { upsert: true, new: true, runValidators: true },
+    );
+
+    savedIds.push(recommendation._id);
+  }
+
+  // Retire pending suggestions this algorithm no longer produces
+  await Recommendation.updateMany(
+    {
+      userId,
+      "context.algorithm": algorithm,
+      status: "pending",
+      _id: { $nin: savedIds },
+    },
+    { isDeleted: true },
+  );
+
+  return Recommendation.find({ _id: { $in: savedIds } }).sort({
+    "context.score": -1,
+  });
+};
+
+/**
+ * Merge recommendations from several algorithms, taking one from each algorithm in turn, each
+ * in its own best-score-first order. Algorithms take turns in the order they first appear.
+ */
+export const interleaveByAlgorithm = (recommendations) => {
+  const byAlgorithm = new Map();
+  for (const recommendation of recommendations) {
+    const algorithm = recommendation.context?.algorithm;
+    if (!byAlgorithm.has(algorithm)) byAlgorithm.set(algorithm, []);
+    byAlgorithm.get(algorithm).push(recommendation);
+  }
+
+  const lists = [...byAlgorithm.values()].map((list) =>
+    [...list].sort(
+      (a, b) => (b.context?.score ?? -1) - (a.context?.score ?? -1),
+    ),
+  );
+  const merged = [];
+  for (let rank = 0; merged.length < recommendations.length; rank++) {
+    for (const list of lists) {
+      if (rank < list.length) merged.push(list[rank]);
+    }
+  }
+  return merged;
+};
@@ -0,0 +1,162 @@
+/**
+ * Title Details
+ *
+ * Shapes TMDb's movie/TV detail payload (fetched with `append_to_response`) into the compact
+ * object the title page renders, so the client never has to know which fields differ between
+ * movies and TV shows.
+ *
+ * Response Shape:
+ * | Field           | Movie source                 | TV source                           |
+ * |-----------------|------------------------------|-------------------------------------|
+ * | `title`         | `title`                      | `name`                              |
+ * | `releaseDate`   | `release_date`               | `first_air_date`                    |
+ * | `runtime`       | `runtime`                    | first `episode_run_time`            |
+ * | `cast`          | `credits.cast` (top 15)      | `credits.cast` (top 15)             |
+ * | `crew`          | key `credits.crew` jobs      | `created_by` plus key crew jobs     |
+ * | `videos`        | YouTube trailers and teasers | YouTube trailers and teasers        |
+ * | `similar`       | `similar.results` (top 12)   | `similar.results` (top 12)          |
+ * | `watchProviders`| `watch/providers` for region | `watch/providers` for region        |
+ *
+ * Fetching:
+ * - `fetchTitleDetails` loads the raw payload through the shared 1-hour list cache.
+ *
+ * Validation:
+ * - `parseTitleRequest` returns `{ error }` with a message suitable for a 400 response.
+ */
+
+import { fetchTmdbList } from "../utils/tmdb.js";
+
+export const TITLE_MEDIA_TYPES = ["movie", "tv"];
+
+// TMDb sub-resources fetched alongside the details in one request
+export const TITLE_APPEND = "credits,videos,similar,watch/providers";
+
+const MAX_CAST = 15;
+const MAX_SIMILAR = 12;
+const MAX_VIDEOS = 6;
+const KEY_CREW_JOBS = [
+  "Director",
+  "Screenplay",
+  "Writer",
+  "Novel",
+  "Producer",
+  "Original Music Composer",
+  "Director of Photography",
+];
+const VIDEO_TYPES = ["Trailer", "Teaser"];
+
+/**
+ * Validate the route parameters and optional `?region=` (ISO 3166-1, defaults to `US`).
+ * @returns {{ mediaType: string, tmdbId: number, region: string } | { error: string }}
+ */
+export const parseTitleRequest = (mediaType, id, region = "US") => {
+  if (!TITLE_MEDIA_TYPES.includes(mediaType)) {
+    return { error: 'Media type must be "movie" or "tv".' };
+  }
+
+  const tmdbId = Number(id);
+  if (!Number.isInteger(tmdbId) || tmdbId < 1) {
+    return { error: "Title ID must be a positive integer." };
+  }
+
+  if (typeof region !== "string" || !/^[a-z]{2}$/i.test(region)) {
+    return { error: "Region must be a two-letter country code." };
+  }
+
+  return { mediaType, tmdbId, region: region.toUpperCase() };
+};
+
+/**
+ * Fetch a title with `TITLE_APPEND` through the shared list cache (`title:<mediaType>:<id>`).
+ * The title route and episode progress share this payload.
+ */
+export const fetchTitleDetails = (mediaType, tmdbId) =>
+  fetchTmdbList(
+    `/${mediaType}/${tmdbId}`,
+    { append_to_response: TITLE_APPEND },
+    `title:${mediaType}:${tmdbId}`,
+  );
+
+const toProvider = (provider) => ({
+  id: provider.provider_id,
+  name: provider.provider_name,
+  logo_path: provider.logo_path,
+});
+
+/**
+ * Build the title page payload from a TMDb detail response.
+ */
+export const shapeTitleDetails = (mediaType, data, region = "US") => {
+  const credits = data.credits || {};
+  const regionProviders = data["watch/providers"]?.results?.[region];
+
+  const creators = (data.created_by || []).map((creator) => ({
+    id: creator.id,
+    name: creator.name,
+    job: "Creator",
+    profile_path: creator.profile_path,
+  }));
+  const keyCrew = (credits.crew || [])
+    .filter((member) => KEY_CREW_JOBS.includes(member.job))
+    .map((member) => ({
+      id: member.id,
+      name: member.name,
+      job: member.job,
+      profile_path: member.profile_path,
+    }));
+
+  return {
+    id: data.id,
+    mediaType,
+    title: data.title || data.name || "Unknown",
+    tagline: data.tagline || null,
+    overview: data.overview || "",
+    poster_path: data.poster_path || null,
+    backdrop_path: data.backdrop_path || null,
+    releaseDate:
+      (mediaType === "movie" ? data.release_date : data.first_air_date) || null,
+    runtime:
+      (mediaType === "movie" ? data.runtime : data.episode_run_time?.[0]) ||
+      null,
+    status: data.status || null,
+    genres: data.genres || [],
+    vote_average: data.vote_average ?? null,
+    vote_count: data.vote_count ?? 0,
+    numberOfSeasons: data.number_of_seasons ?? null,
+    cast: (credits.cast || []).slice(0, MAX_CAST).map((member) => ({
+      id: member.id,
+      name: member.name,
+      character: member.character || "",
+      profile_path: member.profile_path,
+    })),
+    crew: [...creators, ...keyCrew],
+    videos: (data.videos?.results || [])
+      .filter(
+        (video) => video.site === "YouTube" && VIDEO_TYPES.includes(video.type),
+      )
+      .slice(0, MAX_VIDEOS)
+      .map((video) => ({
+        key: video.key,
+        name: video.name,
+        type: video.type,
+      })),
+    similar: (data.similar?.results || [])
+      .slice(0, MAX_SIMILAR)
+      .map((item) => ({
+        id: item.id,
+        media_type: mediaType,
+        title: item.title,
+        name: item.name,
+        poster_path: item.poster_path,
+        genre_ids: item.genre_ids,
+        overview: item.overview,
+      })),
+    watchProviders: {
+      region,
+      link: regionProviders?.link || null,
+      flatrate: (regionProviders?.flatrate || []).map(toProvider),
+      rent: (regionProviders?.rent || []).map(toProvider),
+      buy: (regionProviders?.buy || []).map(toProvider),
+    },
+  };
+};
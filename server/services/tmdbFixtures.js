@@ -0,0 +1,54 @@
+/**
+ * TMDb Fixture Sources
+ *
+ * Loads recorded TMDb payloads from disk so the recommendation engines can run without
+ * network access (unit tests, local experiments, CI).
+ *
+ * Expected directory layout (see `tests/fixtures/tmdb`):
+ * - `trending.json`: `/trending/all/day` response.
+ * - `popular-movies.json`: `/movie/popular` response.
+ * - `popular-tv.json`: `/tv/popular` response.
+ * - `genres-movie.json` / `genres-tv.json`: `/genre/{movie,tv}/list` responses.
+ * - `details/<mediaType>-<tmdbId>.json`: `/movie/:id` or `/tv/:id` responses.
+ *
+ * The returned object matches the `sources` argument of the engines:
+ * `{ loadCandidates, loadFollowedCredits, getMetadata, getGenreMaps }`. Fixtures carry no
+ * person data, so followed people contribute no candidates.
+ */
+
+import fs from "fs";
+import path from "path";
+
+const readJson = (file) => JSON.parse(fs.readFileSync(file, "utf8"));
+
+const toMap = (genres) =>
+  genres.reduce((acc, genre) => {
+    acc[genre.id] = genre.name;
+    return acc;
+  }, {});
+
+export const createFixtureSources = (dir) => ({
+  loadCandidates: async () => [
+    ...readJson(path.join(dir, "trending.json")).results,
+    ...readJson(path.join(dir, "popular-movies.json")).results.map((movie) => ({
+      ...movie,
+      media_type: "movie",
+    })),
+    ...readJson(path.join(dir, "popular-tv.json")).results.map((show) => ({
+      ...show,
+      media_type: "tv",
+    })),
+  ],
+
+  loadFollowedCredits: async () => [],
+
+  getMetadata: async (tmdbId, mediaType) => {
+    const file = path.join(dir, "details", `${mediaType}-${tmdbId}.json`);
+    return fs.existsSync(file) ? readJson(file) : null;
+  },
+
+  getGenreMaps: async () => ({
+    movie: toMap(readJson(path.join(dir, "genres-movie.json")).genres),
+    tv: toMap(readJson(path.join(dir, "genres-tv.json")).genres),
+  }),
+});
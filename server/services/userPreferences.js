@@ -0,0 +1,190 @@
+/**
+ * User Preferences
+ *
+ * Validation and defaults for the structured `User.preferences` document:
+ *
+ * ```js
+ * {
+ *   favoriteGenres: [28, 18],      // TMDb genre IDs (movie or TV lists)
+ *   dislikedGenres: [27],          // Never overlaps favoriteGenres
+ *   languages: ["en", "ko"],       // ISO 639-1 codes; empty means any language
+ *   maxContentRating: "PG-13",     // Ceiling from CONTENT_RATINGS, or null for no limit
+ *   mediaTypeBias: "balanced",     // "balanced", "movie" or "tv"
+ * }
+ * ```
+ *
+ * Legacy Data:
+ * - Preferences used to be a list of genre names (`["Action", "Drama"]`). `fromLegacyPreferences`
+ *   converts such lists to `favoriteGenres` IDs (unknown names are dropped); the `User` model
+ *   applies it whenever an array is assigned or loaded from the database.
+ */
+
+export const CONTENT_RATINGS = ["G", "PG", "PG-13", "R", "NC-17"];
+export const MEDIA_TYPE_BIASES = ["balanced", "movie", "tv"];
+
+const MAX_GENRES = 30;
+const MAX_LANGUAGES = 10;
+const LANGUAGE_PATTERN = /^[a-z]{2}$/;
+
+export const DEFAULT_PREFERENCES = Object.freeze({
+  favoriteGenres: [],
+  dislikedGenres: [],
+  languages: [],
+  maxContentRating: null,
+  mediaTypeBias: "balanced",
+});
+
+// TMDb's genre names and IDs, for converting name-based preferences
+const LEGACY_GENRE_IDS = {
+  action: 28,
+  adventure: 12,
+  animation: 16,
+  comedy: 35,
+  crime: 80,
+  documentary: 99,
+  drama: 18,
+  family: 10751,
+  fantasy: 14,
+  history: 36,
+  horror: 27,
+  music: 10402,
+  mystery: 9648,
+  romance: 10749,
+  "science fiction": 878,
+  "sci-fi": 878,
+  "tv movie": 10770,
+  thriller: 53,
+  war: 10752,
+  western: 37,
+  "action & adventure": 10759,
+  kids: 10762,
+  news: 10763,
+  reality: 10764,
+  "sci-fi & fantasy": 10765,
+  soap: 10766,
+  talk: 10767,
+  "war & politics": 10768,
+};
+
+/**
+ * Convert a legacy list of genre names (or numeric IDs) to structured preferences.
+ */
+export const fromLegacyPreferences = (names = []) => ({
+  ...DEFAULT_PREFERENCES,
+  favoriteGenres: [
+    ...new Set(
+      names
+        .map((name) =>
+          /^\d+$/.test(String(name))
+            ? Number(name)
+            : LEGACY_GENRE_IDS[String(name).trim().toLowerCase()],
+        )
+        .filter(Boolean),
+    ),
+  ],
+});
+
+const parseGenreIds = (value, field, knownGenreIds) => {
+  if (value === undefined || value === null) return { ids: [] };
+  if (!Array.isArray(value)) return { error: `${field} must be an array.` };
+
+  const ids = [...new Set(value.map(Number))];
+  if (ids.some((id) => !Number.isInteger(id) || id < 1)) {
+    return { error: `${field} must contain TMDb genre IDs.` };
+  }
+  if (ids.length > MAX_GENRES) {
+    return { error: `${field} cannot list more than ${MAX_GENRES} genres.` };
+  }
+  if (knownGenreIds && ids.some((id) => !knownGenreIds.has(id))) {
+    return { error: `${field} contains an unknown genre.` };
+  }
+  return { ids };
+};
+
+/**
+ * Validate a preferences document from a request. Missing fields take their defaults.
+ *
+ * @param {Object} input
+ * @param {Set<number>} [knownGenreIds] - When given, genre IDs must be in this set
+ * @returns {{ preferences: Object } | { error: string }}
+ */
+export const parsePreferences = (input, knownGenreIds) => {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    return { error: "Preferences must be an object." };
+  }
+
+  const favorite = parseGenreIds(
+    input.favoriteGenres,
+    "favoriteGenres",
+    knownGenreIds,
+  );
+  if (favorite.error) return favorite;
+
+  const disliked = parseGenreIds(
+    input.dislikedGenres,
+    "dislikedGenres",
+    knownGenreIds,
+  );
+  if (disliked.error) return disliked;
+
+  if (favorite.ids.some((id) => disliked.ids.includes(id))) {
+    return { error: "A genre cannot be both a favorite and disliked." };
+  }
+
+  const languages = input.languages ?? [];
+  if (
+    !Array.isArray(languages) ||
+    languages.some((code) => !LANGUAGE_PATTERN.test(code))
+  ) {
+    return { error: "languages must be two-letter ISO 639-1 codes." };
+  }
+  if (languages.length > MAX_LANGUAGES) {
+    return {
+      error: `languages cannot list more than ${MAX_LANGUAGES} languages.`,
+    };
+  }
+
+  const maxContentRating = input.maxContentRating ?? null;
+  if (
+    maxContentRating !== null &&
+    !CONTENT_RATINGS.includes(maxContentRating)
+  ) {
+    return {
+      error: `maxContentRating must be one of: ${CONTENT_RATINGS.join(", ")}.`,
+    };
+  }
+
+  const mediaTypeBias = input.mediaTypeBias ?? "balanced";
+  if (!MEDIA_TYPE_BIASES.includes(mediaTypeBias)) {
+    return {
+      error: `mediaTypeBias must be one of: ${MEDIA_TYPE_BIASES.join(", ")}.`,
+    };
+  }
+
+  return {
+    preferences: {
+      favoriteGenres: favorite.ids,
+      dislikedGenres: disliked.ids,
+      languages: [...new Set(languages)],
+      maxContentRating,
+      mediaTypeBias,
+    },
+  };
+};
+
+/**
+ * Plain preferences for responses and the recommendation engine, with defaults filled in.
+ * Accepts a stored subdocument, a legacy genre-name array or nothing.
+ */
+export const normalizePreferences = (stored) => {
+  if (Array.isArray(stored)) return fromLegacyPreferences(stored);
+
+  const value = stored?.toObject ? stored.toObject() : stored || {};
+  return {
+    favoriteGenres: value.favoriteGenres || [],
+    dislikedGenres: value.dislikedGenres || [],
+    languages: value.languages || [],
+    maxContentRating: value.maxContentRating ?? null,
+    mediaTypeBias: value.mediaTypeBias || "balanced",
+  };
+};
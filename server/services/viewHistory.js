@@ -0,0 +1,181 @@
+/**
+ * View History
+ *
+ * Records what users look at and watch. Each event is stored in `ViewHistory` with a
+ * timestamp, and the title's content ID (`<mediaType>:<tmdbId>`) is moved to the front of
+ * `User.history`, which keeps the latest `USER_HISTORY_SIZE` distinct titles.
+ *
+ * Rules:
+ * - Repeating the same action on the same title within `REPEAT_WINDOW_MS` refreshes the
+ *   existing event's timestamp instead of adding another (re-opening a page, ticking several
+ *   episodes in a row).
+ * - `latestPerTitle` collapses events to the newest one per title for "Recently Viewed" lists.
+ */
+
+import User from "../models/User.js";
+import ViewHistory from "../models/ViewHistory.js";
+
+export const HISTORY_ACTIONS = ["viewed", "watched"];
+export const USER_HISTORY_SIZE = 50;
+export const REPEAT_WINDOW_MS = 30 * 60 * 1000; // 30 minutes
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * `User.history` entry for a title, e.g. `movie:550`.
+ */
+export const toContentId = (mediaType, tmdbId) => `${mediaType}:${tmdbId}`;
+
+/**
+ * Validate a history event from a request body.
+ *
+ * @returns {{ tmdbId, mediaType, action, title, posterPath } | { error: string }}
+ */
+export const parseHistoryEntry = (body = {}) => {
+  const tmdbId = Number(body.tmdbId);
+  if (!Number.isInteger(tmdbId) || tmdbId < 1) {
+    return { error: "tmdbId must be a positive integer." };
+  }
+  if (!["movie", "tv"].includes(body.mediaType)) {
+    return { error: 'mediaType must be "movie" or "tv".' };
+  }
+
+  const action = body.action ?? "viewed";
+  if (!HISTORY_ACTIONS.includes(action)) {
+    return { error: `action must be one of: ${HISTORY_ACTIONS.join(", ")}.` };
+  }
+
+  return {
+    tmdbId: String(tmdbId),
+    mediaType: body.mediaType,
+    action,
+    title: typeof body.title === "string" ? body.title.slice(0, 200) : null,
+    posterPath:
+      typeof body.posterPath === "string" && body.posterPath.startsWith("/")
+        ? body.posterPath
+        : null,
+  };
+};
+
+/**
+ * Parse the `limit` query parameter (default 20, at most 100).
+ */
+export const parseHistoryLimit = (value) => {
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit >= 1
+    ? Math.min(limit, MAX_LIMIT)
+    : DEFAULT_LIMIT;
+};
+
+/**
+ * Keep the newest event per title, preserving newest-first order.
+ */
+export const latestPerTitle = (entries) => {
+  const seen = new Set();
+  return entries.filter((entry) => {
+    const contentId = toContentId(entry.mediaType, entry.tmdbId);
+    if (seen.has(contentId)) return false;
+    seen.add(contentId);
+    return true;
+  });
+};
+
+/**
+ * Record a history event for a user and move the title to the front of `User.history`.
+ *
+ * @param {string} userId
+ * @param {Object} entry - Output of `parseHistoryEntry`
+ * @param {Date} now
+ * @returns {Promise<Object>} The created or refreshed `ViewHistory` document
+ */
+export const recordHistory = async (userId, entry, now = new Date()) => {
+  const { tmdbId, mediaType, action, title, posterPath } = entry;
+  const display = {
+    ...(title && { title }),
+    ...(posterPath && { posterPath }),
+  };
+
+  const event =
+    (await ViewHistory.findOneAndUpdate(
+      {
+        userId,
+        tmdbId,
+        mediaType,
+        action,
+        viewedAt: { $gte: new Date(now.getTime() - REPEAT_WINDOW_MS) },
+      },
+      { $set: { viewedAt: now, ...display } },
+      { new: true, sort: { viewedAt: -1 } },
+    )) ||
+    (await ViewHistory.create({
+      userId,
+      tmdbId,
+      mediaType,
+      action,
+      viewedAt: now,
+      ...display,
+    }));
+
+  // Move the content ID to the front, dropping older copies and the oldest entries
+  const contentId = toContentId(mediaType, tmdbId);
+  await User.updateOne({ _id: userId }, [
+    {
+      $set: {
+        history: {
+          $slice: [
+            {
+              $concatArrays: [
+                [contentId],
+                {
+                  $filter: {
+                    input: { $ifNull: ["$history", []] },
+                    cond: { $ne: ["$$this", contentId] },
+                  },
+                },
+              ],
+            },
+            USER_HISTORY_SIZE,
+          ],
+        },
+      },
+    },
+  ]);
+
+  return event;
+};
+
+/**
+ * Remove one event. The title leaves `User.history` once none of its events remain.
+ *
+ * @returns {Promise<boolean>} Whether the event existed and belonged to the user
+ */
+export const removeHistoryEntry = async (userId, entryId) => {
+  const entry = await ViewHistory.findOneAndDelete({ _id: entryId, userId });
+  if (!entry) return false;
+
+  const remaining = await ViewHistory.exists({
+    userId,
+    tmdbId: entry.tmdbId,
+    mediaType: entry.mediaType,
+  });
+  if (!remaining) {
+    await User.updateOne(
+      { _id: userId },
+      { $pull: { history: toContentId(entry.mediaType, entry.tmdbId) } },
+    );
+  }
+
+  return true;
+};
+
+/**
+ * Delete every event for a user and empty `User.history`.
+ *
+ * @returns {Promise<number>} Number of events deleted
+ */
+export const clearHistory = async (userId) => {
+  const { deletedCount } = await ViewHistory.deleteMany({ userId });
+  await User.updateOne({ _id: userId }, { $set: { history: [] } });
+  return deletedCount;
+};
@@ -0,0 +1,412 @@
+/**
+ * Ownership Integration Test Suite
+ *
+ * Checks that one user can't read or change another user's data through the GraphQL
+ * resolvers that take a user ID, or through the REST handlers that delete by document ID,
+ * while admins keep access to every account.
+ *
+ * Pre-requisites:
+ * - A test MongoDB instance, defined in the MONGODB_URI environment variable.
+ */
+
+import { ApolloServer } from "apollo-server-express";
+import express from "express";
+import request from "supertest";
+import jest from "jest-mock";
+import mongoose from "mongoose";
+import jwt from "jsonwebtoken";
+import { typeDefs, resolvers } from "../../graphql/schema";
+import authRoutes from "../../routes/authRoutes";
+import watchlistRoutes from "../../routes/api/watchlist";
+import ratingsRoutes from "../../routes/api/ratings";
+import User from "../../models/User";
+import Content from "../../models/Content";
+import Recommendation from "../../models/Recommendation";
+import Watchlist from "../../models/Watchlist";
+import Rating from "../../models/Ratings";
+import Favorite from "../../models/Favorite";
+import RefreshToken from "../../models/RefreshToken";
+import { issueRefreshToken } from "../../utils/tokens";
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || "test-secret";
+
+const tokenFor = (user, role = user.role) =>
+  jwt.sign(
+    { id: user._id.toString(), email: user.email, name: user.name, role },
+    process.env.JWT_SECRET,
+  );
+
+// Apollo Server instance that authenticates as the given user
+const serverFor = (user) =>
+  new ApolloServer({
+    typeDefs,
+    resolvers,
+    context: () => ({
+      headers: { authorization: `Bearer ${tokenFor(user)}` },
+    }),
+  });
+
+// The REST routers under test, mounted as in server.js
+const app = express();
+app.use(express.json());
+app.use("/api/auth", authRoutes);
+app.use("/api/watchlist", watchlistRoutes);
+app.use("/api/ratings", ratingsRoutes);
+
+let alice;
+let bob;
+let admin;
+
+beforeAll(
+  async () => {
+    const mongoURI =
+      process.env.MONGODB_URI || "mongodb://localhost:27017/test";
+    await mongoose.connect(mongoURI);
+  },
+  30000, // Timeout for this hook
+);
+
+afterAll(async () => {
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await Promise.all([
+    User.deleteMany(),
+    Content.deleteMany(),
+    Recommendation.deleteMany(),
+    Watchlist.deleteMany(),
+    Rating.deleteMany(),
+    Favorite.deleteMany(),
+    RefreshToken.deleteMany(),
+  ]);
+  jest.spyOn(console, "error").mockImplementation(() => {}); // Suppress error logs
+
+  [alice, bob, admin] = await User.create([
+    { name: "Alice", email: "alice@example.com", password: "password1" },
+    { name: "Bob", email: "bob@example.com", password: "password2" },
+    {
+      name: "Admin",
+      email: "admin@example.com",
+      password: "password3",
+      role: "admin",
+    },
+  ]);
+});
+
+describe("GraphQL ownership", () => {
+  const GET_USER_BY_ID = `
+      query GetUserById($id: ID!) {
+        getUserById(id: $id) {
+          id
+          email
+        }
+      }
+    `;
+
+  const UPDATE_USER = `
+      mutation UpdateUser($id: ID!, $input: UpdateUserInput!) {
+        updateUser(id: $id, input: $input) {
+          id
+          name
+          password
+        }
+      }
+    `;
+
+  const DELETE_USER = `
+      mutation DeleteUser($id: ID!) {
+        deleteUser(id: $id)
+      }
+    `;
+
+  const GET_RECOMMENDATIONS = `
+      query GetRecommendations($userId: ID!) {
+        getRecommendations(userId: $userId) {
+          id
+          reason
+        }
+      }
+    `;
+
+  it("should let users read their own profile but not another user's", async () => {
+    const own = await serverFor(alice).executeOperation({
+      query: GET_USER_BY_ID,
+      variables: { id: alice._id.toString() },
+    });
+    expect(own.errors).toBeUndefined();
+    expect(own.data.getUserById.email).toBe("alice@example.com");
+
+    const other = await serverFor(bob).executeOperation({
+      query: GET_USER_BY_ID,
+      variables: { id: alice._id.toString() },
+    });
+    expect(other.errors[0].extensions.code).toBe("FORBIDDEN");
+    expect(other.data.getUserById).toBeNull();
+  });
+
+  it("should not update another user's profile", async () => {
+    const response = await serverFor(bob).executeOperation({
+      query: UPDATE_USER,
+      variables: { id: alice._id.toString(), input: { name: "Hijacked" } },
+    });
+
+    expect(response.errors[0].extensions.code).toBe("FORBIDDEN");
+    expect((await User.findById(alice._id)).name).toBe("Alice");
+  });
+
+  it("should update the caller's own profile without returning the password", async () => {
+    const response = await serverFor(alice).executeOperation({
+      query: UPDATE_USER,
+      variables: { id: alice._id.toString(), input: { name: "Alice B." } },
+    });
+
+    expect(response.errors).toBeUndefined();
+    expect(response.data.updateUser.name).toBe("Alice B.");
+    expect(response.data.updateUser.password).toBeNull();
+  });
+
+  it("should not change the password through a profile update", async () => {
+    const response = await serverFor(alice).executeOperation({
+      query: UPDATE_USER,
+      variables: {
+        id: alice._id.toString(),
+        input: { password: "stolen-token-password" },
+      },
+    });
+
+    expect(response.errors).toBeDefined();
+    expect((await User.findById(alice._id)).password).toBe(alice.password);
+  });
+
+  it("should not delete another user's account", async () => {
+    const response = await serverFor(bob).executeOperation({
+      query: DELETE_USER,
+      variables: { id: alice._id.toString() },
+    });
+
+    expect(response.errors[0].extensions.code).toBe("FORBIDDEN");
+    expect(await User.exists({ _id: alice._id })).toBeTruthy();
+  });
+
+  it("should not return another user's recommendations", async () => {
+    const content = await Content.create({
+      title: "Arrival",
+      slug: "movie-329865",
+      genre: ["Science Fiction"],
+    });
+    await Recommendation.create({
+      userId: alice._id,
+      contentId: content._id,
+      reason: "Because you like Science Fiction.",
+    });
+
+    const other = await serverFor(bob).executeOperation({
+      query: GET_RECOMMENDATIONS,
+      variables: { userId: alice._id.toString() },
+    });
+    expect(other.errors[0].extensions.code).toBe("FORBIDDEN");
+
+    const own = await serverFor(alice).executeOperation({
+      query: GET_RECOMMENDATIONS,
+      variables: { userId: alice._id.toString() },
+    });
+    expect(own.errors).toBeUndefined();
+    expect(own.data.getRecommendations).toHaveLength(1);
+  });
+
+  it("should require a token for recommendations", async () => {
+    const anonymous = new ApolloServer({
+      typeDefs,
+      resolvers,
+      context: () => ({}),
+    });
+
+    const response = await anonymous.executeOperation({
+      query: GET_RECOMMENDATIONS,
+      variables: { userId: alice._id.toString() },
+    });
+
+    expect(response.errors[0].extensions.code).toBe("UNAUTHENTICATED");
+  });
+
+  it("should let admins read and delete any account", async () => {
+    const read = await serverFor(admin).executeOperation({
+      query: GET_USER_BY_ID,
+      variables: { id: alice._id.toString() },
+    });
+    expect(read.errors).toBeUndefined();
+    expect(read.data.getUserById.email).toBe("alice@example.com");
+
+    const removed = await serverFor(admin).executeOperation({
+      query: DELETE_USER,
+      variables: { id: alice._id.toString() },
+    });
+    expect(removed.errors).toBeUndefined();
+    expect(removed.data.deleteUser).toBe(true);
+    expect(await User.exists({ _id: alice._id })).toBeNull();
+  });
+
+  it("should delete the user's data and end their sessions with the account", async () => {
+    await Promise.all([
+      Rating.create({
+        userId: alice._id,
+        tmdbId: "550",
+        mediaType: "movie",
+        rating: 9,
+      }),
+      Favorite.create({ userId: alice._id, tmdbId: "550", mediaType: "movie" }),
+      Rating.create({
+        userId: bob._id,
+        tmdbId: "550",
+        mediaType: "movie",
+        rating: 7,
+      }),
+    ]);
+    await issueRefreshToken(alice._id);
+
+    const removed = await serverFor(admin).executeOperation({
+      query: DELETE_USER,
+      variables: { id: alice._id.toString() },
+    });
+    expect(removed.errors).toBeUndefined();
+
+    expect(await Rating.exists({ userId: alice._id })).toBeNull();
+    expect(await Favorite.exists({ userId: alice._id })).toBeNull();
+    expect(await Rating.exists({ userId: bob._id })).toBeTruthy();
+    expect(
+      await RefreshToken.exists({ userId: alice._id, revokedAt: null }),
+    ).toBeNull();
+
+    // The deleted user's access token is still unexpired, but no longer accepted
+    const rest = await request(app)
+      .get(`/api/auth/${alice._id}/preferences`)
+      .set("Authorization", `Bearer ${tokenFor(alice)}`);
+    expect(rest.status).toBe(401);
+
+    const graphql = await serverFor(alice).executeOperation({
+      query: GET_USER_BY_ID,
+      variables: { id: alice._id.toString() },
+    });
+    expect(graphql.errors[0].extensions.code).toBe("UNAUTHENTICATED");
+  });
+});
+
+describe("REST ownership", () => {
+  it("should not remove another user's watchlist item", async () => {
+    const item = await Watchlist.create({
+      userId: alice._id,
+      tmdbId: "550",
+      mediaType: "movie",
+    });
+
+    const response = await request(app)
+      .delete(`/api/watchlist/${item._id}`)
+      .set("Authorization", `Bearer ${tokenFor(bob)}`);
+
+    expect(response.status).toBe(404);
+    expect(await Watchlist.exists({ _id: item._id })).toBeTruthy();
+  });
+
+  it("should remove the caller's own watchlist item", async () => {
+    const item = await Watchlist.create({
+      userId: alice._id,
+      tmdbId: "550",
+      mediaType: "movie",
+    });
+
+    const response = await request(app)
+      .delete(`/api/watchlist/${item._id}`)
+      .set("Authorization", `Bearer ${tokenFor(alice)}`);
+
+    expect(response.status).toBe(200);
+    expect(await Watchlist.exists({ _id: item._id })).toBeNull();
+  });
+
+  it("should not remove another user's rating", async () => {
+    const rating = await Rating.create({
+      userId: alice._id,
+      tmdbId: "550",
+      mediaType: "movie",
+      rating: 9,
+    });
+
+    const response = await request(app)
+      .delete(`/api/ratings/${rating._id}`)
+      .set("Authorization", `Bearer ${tokenFor(bob)}`);
+
+    expect(response.status).toBe(404);
+    expect(await Rating.exists({ _id: rating._id })).toBeTruthy();
+  });
+
+  it("should not read another user's preferences unless admin", async () => {
+    const denied = await request(app)
+      .get(`/api/auth/${alice._id}/preferences`)
+      .set("Authorization", `Bearer ${tokenFor(bob)}`);
+    expect(denied.status).toBe(403);
+
+    const allowed = await request(app)
+      .get(`/api/auth/${alice._id}/preferences`)
+      .set("Authorization", `Bearer ${tokenFor(admin)}`);
+    expect(allowed.status).toBe(200);
+  });
+
+  it("should add a favorite genre by name to the user's own preferences", async () => {
+    const response = await request(app)
+      .post(`/api/auth/${alice._id}/preferences`)
+      .set("Authorization", `Bearer ${tokenFor(alice)}`)
+      .send({ preference: "Action" });
+
+    expect(response.status).toBe(200);
+    expect(response.body.preferences.favoriteGenres).toContain(28);
+  });
+
+  it("should not delete another user's account", async () => {
+    const response = await request(app)
+      .delete("/api/auth/delete")
+      .set("Authorization", `Bearer ${tokenFor(bob)}`)
+      .send({ id: alice._id.toString() });
+
+    expect(response.status).toBe(403);
+    expect(await User.exists({ _id: alice._id })).toBeTruthy();
+    expect(await User.exists({ _id: bob._id })).toBeTruthy();
+  });
+
+  it("should let admins delete another user's account", async () => {
+    const response = await request(app)
+      .delete("/api/auth/delete")
+      .set("Authorization", `Bearer ${tokenFor(admin)}`)
+      .send({ id: alice._id.toString() });
+
+    expect(response.status).toBe(200);
+    expect(await User.exists({ _id: alice._id })).toBeNull();
+    expect(await User.exists({ _id: admin._id })).toBeTruthy();
+  });
+
+  it("should validate preferences sent to the profile update", async () => {
+    const response = await request(app)
+      .put("/api/auth/update")
+      .set("Authorization", `Bearer ${tokenFor(alice)}`)
+      .send({ preferences: { favoriteGenres: ["not-a-genre"] } });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should reject access tokens of a disabled account", async () => {
+    await User.updateOne({ _id: alice._id }, { isDisabled: true });
+
+    const response = await request(app)
+      .get(`/api/auth/${alice._id}/preferences`)
+      .set("Authorization", `Bearer ${tokenFor(alice)}`);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should reject malformed user IDs from admins", async () => {
+    const response = await request(app)
+      .get("/api/auth/not-an-id/preferences")
+      .set("Authorization", `Bearer ${tokenFor(admin)}`);
+
+    expect(response.status).toBe(400);
+  });
+});
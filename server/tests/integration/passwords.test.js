@@ -0,0 +1,188 @@
+/**
+ * Password Integration Test Suite
+ *
+ * Runs the forgot-password, reset-password and change-password endpoints against a real
+ * database, capturing reset emails with a stub mail transport.
+ *
+ * Pre-requisites:
+ * - A test MongoDB instance, defined in the MONGODB_URI environment variable.
+ */
+
+import express from "express";
+import request from "supertest";
+import jest from "jest-mock";
+import mongoose from "mongoose";
+import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
+import authRoutes from "../../routes/authRoutes";
+import User from "../../models/User";
+import PasswordResetToken from "../../models/PasswordResetToken";
+import RefreshToken from "../../models/RefreshToken";
+import { setMailTransport } from "../../services/mailer";
+
+process.env.JWT_SECRET = process.env.JWT_SECRET || "test-secret";
+
+const app = express();
+app.use(express.json());
+app.use("/api/auth", authRoutes);
+
+const sent = [];
+const tokenFromLastEmail = () =>
+  new URL(sent[sent.length - 1].text.match(/http\S+/)[0]).searchParams.get(
+    "token",
+  );
+
+let user;
+
+beforeAll(
+  async () => {
+    const mongoURI =
+      process.env.MONGODB_URI || "mongodb://localhost:27017/test";
+    await mongoose.connect(mongoURI);
+    setMailTransport({ send: async (message) => sent.push(message) });
+  },
+  30000, // Timeout for this hook
+);
+
+afterAll(async () => {
+  setMailTransport(null);
+  await mongoose.connection.close();
+});
+
+beforeEach(async () => {
+  await Promise.all([
+    User.deleteMany(),
+    PasswordResetToken.deleteMany(),
+    RefreshToken.deleteMany(),
+  ]);
+  sent.length = 0;
+  jest.spyOn(console, "error").mockImplementation(() => {}); // Suppress error logs
+
+  user = await User.create({
+    name: "Alice",
+    email: "alice@example.com",
+    password: await bcrypt.hash("old-password", 10),
+  });
+});
+
+describe("Password reset", () => {
+  it("should answer the same for unknown emails without sending mail", async () => {
+    const known = await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "alice@example.com" });
+    const unknown = await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "nobody@example.com" });
+
+    expect(known.status).toBe(200);
+    expect(unknown.status).toBe(200);
+    expect(unknown.body.message).toBe(known.body.message);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].to).toBe("alice@example.com");
+  });
+
+  it("should store only a hash of the reset token", async () => {
+    await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "alice@example.com" });
+
+    const stored = await PasswordResetToken.findOne({ userId: user._id });
+    expect(stored.tokenHash).not.toBe(tokenFromLastEmail());
+  });
+
+  it("should reset the password once with the emailed token", async () => {
+    await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "alice@example.com" });
+    const token = tokenFromLastEmail();
+
+    const reset = await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token, password: "new-password" });
+    expect(reset.status).toBe(200);
+
+    const login = await request(app)
+      .post("/api/auth/login")
+      .send({ email: "alice@example.com", password: "new-password" });
+    expect(login.status).toBe(200);
+
+    const reuse = await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token, password: "another-password" });
+    expect(reuse.status).toBe(400);
+  });
+
+  it("should only accept the latest reset link", async () => {
+    await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "alice@example.com" });
+    const first = tokenFromLastEmail();
+    await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "alice@example.com" });
+
+    const response = await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token: first, password: "new-password" });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should reject expired reset tokens", async () => {
+    await request(app)
+      .post("/api/auth/forgot-password")
+      .send({ email: "alice@example.com" });
+    await PasswordResetToken.updateMany(
+      {},
+      { expiresAt: new Date(Date.now() - 1000) },
+    );
+
+    const response = await request(app)
+      .post("/api/auth/reset-password")
+      .send({ token: tokenFromLastEmail(), password: "new-password" });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe(
+      "This reset link is invalid or has expired.",
+    );
+  });
+});
+
+describe("Change password", () => {
+  const authHeader = () =>
+    `Bearer ${jwt.sign(
+      { id: user._id.toString(), email: user.email, name: user.name },
+      process.env.JWT_SECRET,
+    )}`;
+
+  it("should require the current password", async () => {
+    const response = await request(app)
+      .put("/api/auth/password")
+      .set("Authorization", authHeader())
+      .send({ currentPassword: "wrong", newPassword: "new-password" });
+
+    expect(response.status).toBe(400);
+    expect(response.body.message).toBe("Current password is incorrect.");
+  });
+
+  it("should change the password and return a new session", async () => {
+    const response = await request(app)
+      .put("/api/auth/password")
+      .set("Authorization", authHeader())
+      .send({ currentPassword: "old-password", newPassword: "new-password" });
+
+    expect(response.status).toBe(200);
+    expect(response.body.token).toBeDefined();
+    expect(response.body.refreshToken).toBeDefined();
+    const updated = await User.findById(user._id);
+    expect(await bcrypt.compare("new-password", updated.password)).toBe(true);
+  });
+
+  it("should reject requests without a token", async () => {
+    const response = await request(app)
+      .put("/api/auth/password")
+      .send({ currentPassword: "old-password", newPassword: "new-password" });
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -1,9 +1,13 @@
 import { ApolloServer } from "apollo-server-express";
 import { typeDefs, resolvers } from "../../graphql/schema";
 import User from "../../models/User";
+import Content from "../../models/Content";
+import Recommendation from "../../models/Recommendation";
+import RefreshToken from "../../models/RefreshToken";
 import jest from "jest-mock";
 import mongoose from "mongoose";
 import bcrypt from "bcrypt";
+import jwt from "jsonwebtoken";
 
 // MongoDB connection setup
 beforeAll(
@@ -31,6 +35,34 @@ const testServer = new ApolloServer({
   context: () => ({}),
 });
 
+// Tokens are signed while the suites are defined, before any beforeAll runs
+process.env.JWT_SECRET = process.env.JWT_SECRET || "test-secret";
+
+// Apollo Server instance that authenticates with a token carrying the given role
+const serverWithRole = (role) => {
+  const account = {
+    id: new mongoose.Types.ObjectId().toString(),
+    email: `${role}@example.com`,
+    name: role,
+    role,
+  };
+  const token = jwt.sign(account, process.env.JWT_SECRET);
+  return new ApolloServer({
+    typeDefs,
+    resolvers,
+    // The guard only accepts tokens of existing accounts
+    context: async () => {
+      const { id, ...fields } = account;
+      await User.updateOne(
+        { _id: id },
+        { $setOnInsert: { ...fields, password: "hashed-password" } },
+        { upsert: true },
+      );
+      return { headers: { authorization: `Bearer ${token}` } };
+    },
+  });
+};
+
 describe("GraphQL Schema", () => {
   beforeEach(async () => {
     await User.deleteMany();
@@ -125,7 +157,7 @@ describe("GraphQL Schema", () => {
 
     const variables = { id: testUser._id.toString() };
 
-    const response = await testServer.executeOperation({
+    const response = await serverWithRole("admin").executeOperation({
       query: GET_USER_BY_ID,
       variables,
     });
@@ -148,13 +180,13 @@ describe("GraphQL Schema", () => {
 
     const variables = { id: "nonexistentuserid" };
 
-    const response = await testServer.executeOperation({
+    const response = await serverWithRole("admin").executeOperation({
       query: GET_USER_BY_ID,
       variables,
     });
 
     expect(response.errors).toBeDefined();
-    expect(response.errors[0].message).toBe("User not found.");
+    expect(response.errors[0].message).toBe("Invalid _id.");
   });
 
   it("should handle errors in getAllUsers", async () => {
@@ -173,7 +205,7 @@ describe("GraphQL Schema", () => {
       throw new Error("Database error");
     });
 
-    const response = await testServer.executeOperation({
+    const response = await serverWithRole("admin").executeOperation({
       query: GET_ALL_USERS,
     });
 
@@ -225,7 +257,7 @@ describe("GraphQL Schema", () => {
 
     const variables = { id: new mongoose.Types.ObjectId().toString() }; // Non-existent ID
 
-    const response = await testServer.executeOperation({
+    const response = await serverWithRole("admin").executeOperation({
       query: GET_USER_BY_ID,
       variables,
     });
@@ -251,7 +283,7 @@ describe("GraphQL Schema", () => {
         }
       `;
 
-    const response = await testServer.executeOperation({
+    const response = await serverWithRole("admin").executeOperation({
       query: GET_ALL_USERS,
     });
 
@@ -261,3 +293,433 @@ describe("GraphQL Schema", () => {
     expect(response.data.getAllUsers[1].name).toBe("User Two");
   });
 }, 30000); // Timeout for the entire test suite
+
+describe("Roles", () => {
+  const GET_ALL_USERS = `
+      query GetAllUsers {
+        getAllUsers {
+          id
+          role
+        }
+      }
+    `;
+
+  const CREATE_CONTENT = `
+      mutation CreateContent($input: ContentInput!) {
+        createContent(input: $input) {
+          id
+          title
+        }
+      }
+    `;
+
+  const contentInput = {
+    title: "Role Test",
+    genre: ["Drama"],
+    rating: 7,
+  };
+
+  beforeEach(async () => {
+    await User.deleteMany();
+    await Content.deleteMany();
+  });
+
+  it("defaults new users to the user role", async () => {
+    await User.create({
+      name: "Plain User",
+      email: "plain@example.com",
+      password: "password1",
+    });
+
+    const response = await serverWithRole("admin").executeOperation({
+      query: GET_ALL_USERS,
+    });
+
+    expect(response.errors).toBeUndefined();
+    expect(response.data.getAllUsers[0].role).toBe("user");
+  });
+
+  it("forbids non-admins from listing users", async () => {
+    const response = await serverWithRole("user").executeOperation({
+      query: GET_ALL_USERS,
+    });
+
+    expect(response.errors[0].extensions.code).toBe("FORBIDDEN");
+  });
+
+  it("forbids non-admins from creating content", async () => {
+    const response = await serverWithRole("user").executeOperation({
+      query: CREATE_CONTENT,
+      variables: { input: contentInput },
+    });
+
+    expect(response.errors[0].extensions.code).toBe("FORBIDDEN");
+    expect(await Content.countDocuments()).toBe(0);
+  });
+
+  it("lets admins create content", async () => {
+    const response = await serverWithRole("admin").executeOperation({
+      query: CREATE_CONTENT,
+      variables: { input: contentInput },
+    });
+
+    expect(response.errors).toBeUndefined();
+    expect(response.data.createContent.title).toBe("Role Test");
+  });
+});
+
+describe("Admin console", () => {
+  const admin = serverWithRole("admin");
+
+  beforeEach(async () => {
+    await User.deleteMany();
+    await Content.deleteMany();
+    await Recommendation.deleteMany();
+  });
+
+  it("should search and paginate users", async () => {
+    await User.create(
+      ["alice", "alina", "bob"].map((name) => ({
+        name,
+        email: `${name}@example.com`,
+        password: "password1",
+      })),
+    );
+
+    const response = await admin.executeOperation({
+      query: `query AdminUsers($search: String, $page: Int, $limit: Int) {
+        adminUsers(search: $search, page: $page, limit: $limit) {
+          items { email disabled }
+          total
+          page
+          pages
+        }
+      }`,
+      variables: { search: "ALI", page: 2, limit: 1 },
+    });
+
+    expect(response.errors).toBeUndefined();
+    expect(response.data.adminUsers).toMatchObject({
+      total: 2,
+      page: 2,
+      pages: 2,
+    });
+    expect(response.data.adminUsers.items).toHaveLength(1);
+    expect(response.data.adminUsers.items[0].disabled).toBe(false);
+  });
+
+  it("should soft-delete and restore content", async () => {
+    const content = await Content.create({
+      title: "Soft Delete",
+      slug: "soft-delete",
+      genre: ["Drama"],
+    });
+    const ADMIN_CONTENT = `query AdminContent($includeDeleted: Boolean) {
+      adminContent(includeDeleted: $includeDeleted) {
+        items { id isDeleted }
+        total
+      }
+    }`;
+
+    const deleted = await admin.executeOperation({
+      query: `mutation DeleteContent($id: ID!) { deleteContent(id: $id) }`,
+      variables: { id: content._id.toString() },
+    });
+    const active = await admin.executeOperation({ query: ADMIN_CONTENT });
+    const all = await admin.executeOperation({
+      query: ADMIN_CONTENT,
+      variables: { includeDeleted: true },
+    });
+
+    expect(deleted.data.deleteContent).toBe(true);
+    expect(active.data.adminContent.total).toBe(0);
+    expect(all.data.adminContent.items[0].isDeleted).toBe(true);
+
+    const restored = await admin.executeOperation({
+      query: `mutation RestoreContent($id: ID!, $input: UpdateContentInput!) {
+        updateContent(id: $id, input: $input) { isDeleted }
+      }`,
+      variables: { id: content._id.toString(), input: { isDeleted: false } },
+    });
+    expect(restored.data.updateContent.isDeleted).toBe(false);
+  });
+
+  it("should create a manual recommendation for a user", async () => {
+    const user = await User.create({
+      name: "Recommended User",
+      email: "recommended@example.com",
+      password: "password1",
+    });
+    const content = await Content.create({
+      title: "Hand Picked",
+      slug: "hand-picked",
+      genre: ["Comedy"],
+    });
+
+    const created = await admin.executeOperation({
+      query: `mutation CreateRecommendation($userId: ID!, $contentId: ID!, $reason: String!) {
+        createRecommendation(userId: $userId, contentId: $contentId, reason: $reason) {
+          id
+          status
+          context { algorithm }
+        }
+      }`,
+      variables: {
+        userId: user._id.toString(),
+        contentId: content._id.toString(),
+        reason: "Picked by our editors for you.",
+      },
+    });
+    const listed = await admin.executeOperation({
+      query: `query AdminRecommendations($userId: ID) {
+        adminRecommendations(userId: $userId) {
+          items { reason user { email } content { title } }
+          total
+        }
+      }`,
+      variables: { userId: user._id.toString() },
+    });
+
+    expect(created.errors).toBeUndefined();
+    expect(created.data.createRecommendation).toMatchObject({
+      status: "pending",
+      context: { algorithm: "manual" },
+    });
+    expect(listed.data.adminRecommendations.total).toBe(1);
+    expect(listed.data.adminRecommendations.items[0]).toEqual({
+      reason: "Picked by our editors for you.",
+      user: { email: "recommended@example.com" },
+      content: { title: "Hand Picked" },
+    });
+  });
+});
+
+describe("Recommendation status", () => {
+  const UPDATE_STATUS = `
+      mutation UpdateRecommendationStatus(
+        $id: ID!
+        $status: RecommendationStatus!
+      ) {
+        updateRecommendationStatus(id: $id, status: $status) {
+          id
+          status
+          content {
+            title
+          }
+        }
+      }
+    `;
+
+  let owner;
+  let recommendation;
+
+  // Apollo Server instance that authenticates as the given user
+  const serverFor = (user) => {
+    const token = jwt.sign(
+      { id: user._id.toString(), email: user.email, name: user.name },
+      process.env.JWT_SECRET,
+    );
+    return new ApolloServer({
+      typeDefs,
+      resolvers,
+      context: () => ({ headers: { authorization: `Bearer ${token}` } }),
+    });
+  };
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = process.env.JWT_SECRET || "test-secret";
+  });
+
+  beforeEach(async () => {
+    await Promise.all([
+      User.deleteMany(),
+      Content.deleteMany(),
+      Recommendation.deleteMany(),
+    ]);
+    jest.spyOn(console, "error").mockImplementation(() => {}); // Suppress error logs
+
+    owner = await User.create({
+      name: "Owner",
+      email: "owner@example.com",
+      password: "password123",
+    });
+    const content = await Content.create({
+      title: "Arrival",
+      slug: "movie-329865",
+      genre: ["Science Fiction"],
+    });
+    recommendation = await Recommendation.create({
+      userId: owner._id,
+      contentId: content._id,
+      reason: "Because you like Science Fiction.",
+    });
+  });
+
+  it("should mark the owner's recommendation as dismissed", async () => {
+    const response = await serverFor(owner).executeOperation({
+      query: UPDATE_STATUS,
+      variables: { id: recommendation._id.toString(), status: "dismissed" },
+    });
+
+    expect(response.errors).toBeUndefined();
+    expect(response.data.updateRecommendationStatus.status).toBe("dismissed");
+    expect(response.data.updateRecommendationStatus.content.title).toBe(
+      "Arrival",
+    );
+  });
+
+  it("should not update another user's recommendation", async () => {
+    const otherUser = await User.create({
+      name: "Other",
+      email: "other@example.com",
+      password: "password123",
+    });
+
+    const response = await serverFor(otherUser).executeOperation({
+      query: UPDATE_STATUS,
+      variables: { id: recommendation._id.toString(), status: "viewed" },
+    });
+
+    expect(response.errors).toBeDefined();
+    expect(response.errors[0].message).toBe("Recommendation not found.");
+    const unchanged = await Recommendation.findById(recommendation._id);
+    expect(unchanged.status).toBe("pending");
+  });
+}, 30000);
+
+describe("Refresh tokens", () => {
+  const LOGIN_USER = `
+      mutation LoginUser($input: LoginInput!) {
+        loginUser(input: $input) {
+          token
+          refreshToken
+        }
+      }
+    `;
+
+  const REFRESH_TOKEN = `
+      mutation RefreshToken($refreshToken: String!) {
+        refreshToken(refreshToken: $refreshToken) {
+          token
+          refreshToken
+          user {
+            email
+          }
+        }
+      }
+    `;
+
+  const login = async () => {
+    const response = await testServer.executeOperation({
+      query: LOGIN_USER,
+      variables: {
+        input: { email: "refresh@example.com", password: "password123" },
+      },
+    });
+    return response.data.loginUser;
+  };
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = process.env.JWT_SECRET || "test-secret";
+  });
+
+  beforeEach(async () => {
+    await User.deleteMany();
+    await RefreshToken.deleteMany();
+    jest.spyOn(console, "error").mockImplementation(() => {}); // Suppress error logs
+
+    await User.create({
+      name: "Refresh User",
+      email: "refresh@example.com",
+      password: await bcrypt.hash("password123", 10),
+    });
+  });
+
+  it("should return a refresh token on login and rotate it on refresh", async () => {
+    const { refreshToken } = await login();
+    expect(refreshToken).toBeTruthy();
+
+    const response = await testServer.executeOperation({
+      query: REFRESH_TOKEN,
+      variables: { refreshToken },
+    });
+
+    expect(response.errors).toBeUndefined();
+    expect(response.data.refreshToken.user.email).toBe("refresh@example.com");
+    expect(response.data.refreshToken.refreshToken).not.toBe(refreshToken);
+  });
+
+  it("should reject a reused refresh token and revoke the session", async () => {
+    const { refreshToken } = await login();
+
+    const first = await testServer.executeOperation({
+      query: REFRESH_TOKEN,
+      variables: { refreshToken },
+    });
+    const replay = await testServer.executeOperation({
+      query: REFRESH_TOKEN,
+      variables: { refreshToken },
+    });
+    const afterReplay = await testServer.executeOperation({
+      query: REFRESH_TOKEN,
+      variables: { refreshToken: first.data.refreshToken.refreshToken },
+    });
+
+    expect(replay.errors[0].message).toBe(
+      "Session expired. Please log in again.",
+    );
+    expect(afterReplay.errors).toBeDefined();
+  });
+
+  it("should rotate a refresh token only once under concurrent use", async () => {
+    const { refreshToken } = await login();
+
+    const responses = await Promise.all(
+      [1, 2].map(() =>
+        testServer.executeOperation({
+          query: REFRESH_TOKEN,
+          variables: { refreshToken },
+        }),
+      ),
+    );
+
+    expect(responses.filter((response) => !response.errors)).toHaveLength(1);
+  });
+
+  it("should not log in or refresh once the account is disabled", async () => {
+    const { refreshToken } = await login();
+    await User.updateOne(
+      { email: "refresh@example.com" },
+      { isDisabled: true },
+    );
+
+    const loginResponse = await testServer.executeOperation({
+      query: LOGIN_USER,
+      variables: {
+        input: { email: "refresh@example.com", password: "password123" },
+      },
+    });
+    const refreshResponse = await testServer.executeOperation({
+      query: REFRESH_TOKEN,
+      variables: { refreshToken },
+    });
+
+    expect(loginResponse.errors[0].extensions.code).toBe("FORBIDDEN");
+    expect(refreshResponse.errors).toBeDefined();
+  });
+
+  it("should not refresh after logout", async () => {
+    const { refreshToken } = await login();
+
+    await testServer.executeOperation({
+      query: `mutation Logout($refreshToken: String!) { logout(refreshToken: $refreshToken) }`,
+      variables: { refreshToken },
+    });
+    const response = await testServer.executeOperation({
+      query: REFRESH_TOKEN,
+      variables: { refreshToken },
+    });
+
+    expect(response.errors).toBeDefined();
+  });
+}, 30000);
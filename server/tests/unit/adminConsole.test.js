@@ -0,0 +1,72 @@
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  contentSlug,
+  contentUpdate,
+  parsePagination,
+  searchFilter,
+  toPage,
+} from "../../services/adminConsole";
+
+describe("Admin console helpers", () => {
+  it("should normalize pagination arguments", () => {
+    expect(parsePagination({ page: 3, limit: 10 })).toEqual({
+      page: 3,
+      limit: 10,
+      skip: 20,
+    });
+    expect(parsePagination()).toEqual({
+      page: 1,
+      limit: DEFAULT_PAGE_SIZE,
+      skip: 0,
+    });
+    expect(parsePagination({ page: 0, limit: -5 }).page).toBe(1);
+    expect(parsePagination({ limit: 1000 }).limit).toBe(MAX_PAGE_SIZE);
+  });
+
+  it("should count pages", () => {
+    expect(toPage(["a"], 41, { page: 2, limit: 20 })).toEqual({
+      items: ["a"],
+      total: 41,
+      page: 2,
+      pages: 3,
+    });
+    expect(toPage([], 0, { page: 1, limit: 20 }).pages).toBe(1);
+  });
+
+  it("should build escaped case-insensitive search filters", () => {
+    expect(searchFilter("  ", ["name"])).toEqual({});
+    expect(searchFilter(undefined, ["name"])).toEqual({});
+
+    const filter = searchFilter("a.b+", ["name", "email"]);
+    expect(filter.$or).toHaveLength(2);
+    expect(filter.$or[1].email.test("USER-A.B+@example.com")).toBe(true);
+    expect(filter.$or[1].email.test("axbb@example.com")).toBe(false);
+  });
+
+  it("should derive content slugs", () => {
+    expect(
+      contentSlug({
+        title: "Fight Club",
+        metadata: { mediaType: "movie", externalId: "550" },
+      }),
+    ).toBe("movie-550");
+    expect(contentSlug({ title: "  Amélie: Director's Cut! " })).toBe(
+      "amelie-director-s-cut",
+    );
+  });
+
+  it("should keep unsent metadata fields when updating content", () => {
+    expect(
+      contentUpdate({
+        title: "New Title",
+        metadata: { description: "Updated", runtime: null },
+      }),
+    ).toEqual({
+      title: "New Title",
+      "metadata.description": "Updated",
+      "metadata.runtime": null,
+    });
+    expect(contentUpdate({ isDeleted: false })).toEqual({ isDeleted: false });
+  });
+});
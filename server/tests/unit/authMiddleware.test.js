@@ -0,0 +1,133 @@
+import { jest } from "@jest/globals";
+import jwt from "jsonwebtoken";
+import User from "../../models/User";
+import protectRoute, {
+  isSelfOrAdmin,
+  requireRole,
+  requireSelfOrAdmin,
+} from "../../middleware/authMiddleware";
+
+const mockResponse = () => {
+  const res = {};
+  res.status = jest.fn(() => res);
+  res.json = jest.fn(() => res);
+  return res;
+};
+
+describe("protectRoute", () => {
+  process.env.JWT_SECRET = process.env.JWT_SECRET || "test-secret";
+  const requestWithToken = () => ({
+    headers: {
+      authorization: `Bearer ${jwt.sign({ id: "507f1f77bcf86cd799439011" }, process.env.JWT_SECRET)}`,
+    },
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("attaches the decoded token for active accounts", async () => {
+    jest
+      .spyOn(User, "exists")
+      .mockResolvedValue({ _id: "507f1f77bcf86cd799439011" });
+    const req = requestWithToken();
+    const next = jest.fn();
+
+    await protectRoute(req, mockResponse(), next);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user.id).toBe("507f1f77bcf86cd799439011");
+  });
+
+  it("responds 401 once the account has been disabled or deleted", async () => {
+    jest.spyOn(User, "exists").mockResolvedValue(null); // Disabled or deleted
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await protectRoute(requestWithToken(), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).toHaveBeenCalledWith({
+      message: "This account is no longer active.",
+    });
+  });
+});
+
+describe("requireRole", () => {
+  it("calls next when the user has an allowed role", () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    requireRole("admin")({ user: { id: "1", role: "admin" } }, res, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it("responds 403 when the user's role is not allowed", () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    requireRole("admin")({ user: { id: "1", role: "user" } }, res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(res.json).toHaveBeenCalledWith({
+      message: "Insufficient permissions",
+    });
+  });
+
+  it("treats tokens without a role as the user role", () => {
+    const next = jest.fn();
+
+    requireRole("user", "admin")({ user: { id: "1" } }, mockResponse(), next);
+    expect(next).toHaveBeenCalled();
+
+    const res = mockResponse();
+    requireRole("admin")({ user: { id: "1" } }, res, next);
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
+
+describe("isSelfOrAdmin", () => {
+  it("allows users to act on their own account only", () => {
+    expect(isSelfOrAdmin({ id: "1", role: "user" }, "1")).toBe(true);
+    expect(isSelfOrAdmin({ id: "1", role: "user" }, "2")).toBe(false);
+    expect(isSelfOrAdmin({ id: "1" }, undefined)).toBe(false);
+    expect(isSelfOrAdmin(undefined, "1")).toBe(false);
+  });
+
+  it("allows admins to act on any account", () => {
+    expect(isSelfOrAdmin({ id: "1", role: "admin" }, "2")).toBe(true);
+  });
+});
+
+describe("requireSelfOrAdmin", () => {
+  it("calls next for the user's own ID", () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    requireSelfOrAdmin("userId")(
+      { user: { id: "1" }, params: { userId: "1" } },
+      res,
+      next,
+    );
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it("responds 403 for another user's ID", () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    requireSelfOrAdmin("userId")(
+      { user: { id: "1", role: "user" }, params: { userId: "2" } },
+      res,
+      next,
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
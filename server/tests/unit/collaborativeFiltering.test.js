@@ -0,0 +1,121 @@
+import {
+  buildItemVectors,
+  buildReason,
+  itemSimilarity,
+  recommendForUser,
+} from "../../services/collaborativeFiltering";
+
+const rate = (userId, tmdbId, rating) => ({
+  userId,
+  tmdbId: String(tmdbId),
+  rating,
+});
+
+// Alice, Bob and Carol share taste (love 1 and 2, dislike 3); Dave is their opposite.
+const ratings = [
+  rate("alice", 1, 9),
+  rate("alice", 2, 8),
+  rate("alice", 3, 2),
+  rate("bob", 1, 8),
+  rate("bob", 2, 9),
+  rate("bob", 3, 3),
+  rate("bob", 4, 9),
+  rate("carol", 1, 9),
+  rate("carol", 2, 7),
+  rate("carol", 3, 1),
+  rate("carol", 4, 8),
+  rate("carol", 5, 2),
+  rate("dave", 1, 2),
+  rate("dave", 2, 3),
+  rate("dave", 3, 9),
+  rate("dave", 5, 9),
+];
+
+const ratingsByKey = new Map(
+  ratings.map((r) => [`${r.userId}:movie-${r.tmdbId}`, r.rating]),
+);
+
+describe("Collaborative filtering", () => {
+  const vectors = buildItemVectors(ratings);
+
+  it("should center ratings on each user's mean", () => {
+    expect(vectors.means.get("alice")).toBeCloseTo(19 / 3);
+    expect(vectors.items.get("movie-1").get("alice")).toBeCloseTo(9 - 19 / 3);
+  });
+
+  it("should score similar items close to 1 and opposite items below 0", () => {
+    const liked = itemSimilarity(
+      vectors.items.get("movie-1"),
+      vectors.items.get("movie-2"),
+    );
+    const opposite = itemSimilarity(
+      vectors.items.get("movie-1"),
+      vectors.items.get("movie-3"),
+    );
+
+    expect(liked).toBeGreaterThan(0.9);
+    expect(opposite).toBeLessThan(0);
+  });
+
+  it("should ignore item pairs with too few shared raters", () => {
+    // Only Carol rated both 4 and 5
+    expect(
+      itemSimilarity(
+        vectors.items.get("movie-4"),
+        vectors.items.get("movie-5"),
+      ),
+    ).toBe(0);
+  });
+
+  it("should recommend what like-minded users rated highly, with explanations", () => {
+    const [top, ...rest] = recommendForUser("alice", vectors, ratingsByKey);
+
+    expect(rest).toHaveLength(0); // Title 5 is only liked by Dave
+    expect(top).toMatchObject({ tmdbId: "4", mediaType: "movie" });
+    expect(top.score).toBeGreaterThan(0.8);
+    expect(top.score).toBeLessThanOrEqual(1);
+    expect(top.because.map((item) => item.tmdbId).sort()).toEqual(["1", "2"]);
+    expect(top.because[0].rating).toBeDefined();
+  });
+
+  it("should not recommend titles predicted below the user's average", () => {
+    expect(recommendForUser("dave", vectors, ratingsByKey)).toEqual([]);
+  });
+
+  it("should return nothing for users without ratings", () => {
+    expect(recommendForUser("nobody", vectors)).toEqual([]);
+  });
+
+  it("should give the same results from the user's rating neighborhood alone", () => {
+    // Erin and Frank rated none of Alice's titles
+    const everyone = [
+      ...ratings,
+      rate("erin", 6, 9),
+      rate("erin", 7, 3),
+      rate("frank", 6, 8),
+      rate("frank", 7, 2),
+    ];
+    const neighborhood = everyone.filter(
+      (r) => !["erin", "frank"].includes(r.userId),
+    );
+
+    expect(
+      recommendForUser("alice", buildItemVectors(neighborhood), ratingsByKey),
+    ).toEqual(
+      recommendForUser("alice", buildItemVectors(everyone), ratingsByKey),
+    );
+  });
+
+  it("should name the rated titles in the reason", () => {
+    expect(
+      buildReason([
+        { title: "The Matrix" },
+        { title: "Inception" },
+        { title: "Dune" },
+      ]),
+    ).toBe("Because you rated The Matrix and Inception.");
+    expect(buildReason([])).toBe(
+      "Popular with people who rate titles like you do.",
+    );
+  });
+});
@@ -0,0 +1,202 @@
+import { jest } from "@jest/globals";
+import path from "path";
+import { fileURLToPath } from "url";
+import {
+  buildProfile,
+  buildReason,
+  extractKeywords,
+  loadFollowedCredits,
+  resolveSignals,
+  scoreCandidates,
+} from "../../services/contentBasedEngine";
+import { createFixtureSources } from "../../services/tmdbFixtures";
+
+const fixturesDir = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "../fixtures/tmdb",
+);
+const sources = createFixtureSources(fixturesDir);
+
+// Favorites: The Matrix, Breaking Bad. Ratings: Inception (9), Toy Story (2).
+const favorites = [
+  { tmdbId: "603", mediaType: "movie" },
+  { tmdbId: "1396", mediaType: "tv" },
+];
+const ratings = [
+  { tmdbId: "27205", rating: 9 },
+  { tmdbId: "862", rating: 2 },
+];
+
+const scoreFixtures = async (preferences = []) => {
+  const signals = await resolveSignals(favorites, ratings, sources.getMetadata);
+  const profile = buildProfile({ ...signals, preferences });
+  return scoreCandidates(
+    profile,
+    await sources.loadCandidates(),
+    await sources.getGenreMaps(),
+  );
+};
+
+describe("Content-based engine", () => {
+  it("should extract unique keywords without short words or stopwords", () => {
+    expect(
+      extractKeywords("A hacker and a hacker, with their machines."),
+    ).toEqual(["hacker", "machines"]);
+  });
+
+  it("should weight favorites, ratings and preferences in the profile", async () => {
+    const signals = await resolveSignals(
+      favorites,
+      ratings,
+      sources.getMetadata,
+    );
+    const profile = buildProfile({ ...signals, preferences: ["Drama"] });
+
+    expect(profile.genres["Science Fiction"]).toBeCloseTo(1.8); // Matrix + Inception (0.8)
+    expect(profile.genres.Drama).toBeCloseTo(1.5); // Breaking Bad + preference
+    expect(profile.genres.Animation).toBeCloseTo(-0.6); // Toy Story rated 2
+    expect(profile.seen.has("movie-862")).toBe(true);
+  });
+
+  it("should treat ratings without a media type as movies", async () => {
+    const signals = await resolveSignals([], ratings, sources.getMetadata);
+
+    expect(signals.ratings[0]).toMatchObject({
+      tmdbId: 27205,
+      mediaType: "movie",
+      rating: 9,
+    });
+    expect(signals.ratings[0].genres).toContain("Science Fiction");
+  });
+
+  it("should rank matching titles first and skip seen, people and disliked genres", async () => {
+    const results = await scoreFixtures(["Drama"]);
+    const titles = results.map((item) => item.title);
+
+    expect(titles[0]).toBe("Blade Runner 2049");
+    expect(titles).not.toContain("The Matrix"); // already a favorite
+    expect(titles).not.toContain("Brad Pitt"); // person
+    expect(titles).not.toContain("The Super Mario Bros. Movie"); // disliked genres
+    expect(titles.filter((title) => title === "Interstellar")).toHaveLength(1);
+
+    results.forEach((item, index) => {
+      expect(item.score).toBeGreaterThan(0);
+      expect(item.score).toBeLessThanOrEqual(1);
+      if (index > 0) {
+        expect(item.score).toBeLessThanOrEqual(results[index - 1].score);
+      }
+    });
+  });
+
+  it("should respect the result limit", async () => {
+    const signals = await resolveSignals(
+      favorites,
+      ratings,
+      sources.getMetadata,
+    );
+    const results = scoreCandidates(
+      buildProfile(signals),
+      await sources.loadCandidates(),
+      await sources.getGenreMaps(),
+      { limit: 2 },
+    );
+
+    expect(results).toHaveLength(2);
+  });
+
+  it("should return no candidates for an empty profile", async () => {
+    const results = scoreCandidates(
+      buildProfile({}),
+      await sources.loadCandidates(),
+      await sources.getGenreMaps(),
+    );
+
+    expect(results).toEqual([]);
+  });
+
+  it("should explain recommendations with the strongest matched genres", () => {
+    expect(
+      buildReason({ matchedGenres: ["Science Fiction", "Drama", "Action"] }),
+    ).toBe("Because you like Science Fiction and Drama.");
+    expect(buildReason({ matchedGenres: [] })).toBe(
+      "Matches themes from titles you enjoyed.",
+    );
+  });
+
+  it("should apply disliked genres, languages, media type bias and the rating ceiling", () => {
+    const profile = buildProfile({
+      preferences: ["Drama"],
+      dislikedGenres: ["Horror"],
+    });
+    expect(profile.genres.Horror).toBe(-1);
+
+    const candidates = [
+      { id: 1, media_type: "movie", genre_ids: [18], original_language: "en" },
+      { id: 2, media_type: "tv", genre_ids: [18], original_language: "ko" },
+      { id: 3, media_type: "movie", genre_ids: [18], adult: true },
+      { id: 4, media_type: "movie", genre_ids: [27], original_language: "en" },
+    ];
+    const genreMaps = {
+      movie: { 18: "Drama", 27: "Horror" },
+      tv: { 18: "Drama" },
+    };
+
+    const balanced = scoreCandidates(profile, candidates, genreMaps);
+    expect(balanced.map((item) => item.tmdbId)).toEqual([1, 2, 3]); // Horror dropped
+
+    const preferred = scoreCandidates(profile, candidates, genreMaps, {
+      languages: ["en"],
+      mediaTypeBias: "movie",
+      maxContentRating: "PG-13",
+    });
+    expect(preferred.map((item) => item.tmdbId)).toEqual([1, 2]);
+    expect(preferred[1].score).toBeCloseTo(preferred[0].score * 0.64, 3);
+  });
+
+  it("should boost credits of followed people and explain why", async () => {
+    const [candidate] = await loadFollowedCredits(
+      [
+        { personId: 1, name: "Greta Gerwig" },
+        { personId: 2, name: "Noah Baumbach" },
+      ],
+      async () => ({
+        combined_credits: {
+          crew: [
+            {
+              id: 9001,
+              media_type: "movie",
+              title: "Upcoming Feature",
+              release_date: "2999-01-01",
+              genre_ids: [],
+            },
+          ],
+        },
+      }),
+    );
+
+    expect(candidate.followedPeople).toEqual(["Greta Gerwig", "Noah Baumbach"]);
+
+    const [result] = scoreCandidates(
+      buildProfile({}),
+      [candidate],
+      await sources.getGenreMaps(),
+    );
+    expect(result).toMatchObject({ tmdbId: 9001, score: 0.25 });
+    expect(buildReason(result)).toBe(
+      "New from Greta Gerwig and Noah Baumbach, who you follow.",
+    );
+  });
+
+  it("should skip followed people whose credits fail to load", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    const candidates = await loadFollowedCredits(
+      [{ personId: 1, name: "Unknown" }],
+      async () => {
+        throw new Error("TMDb unavailable");
+      },
+    );
+
+    expect(candidates).toEqual([]);
+    console.error.mockRestore();
+  });
+});
@@ -0,0 +1,72 @@
+import { normalizeDiscoverFilters } from "../../services/discoverFilters";
+
+describe("Discover filters", () => {
+  it("should map filters to TMDb movie discover parameters", () => {
+    const { params } = normalizeDiscoverFilters("movie", {
+      genres: "28,12",
+      yearFrom: "1990",
+      yearTo: "1999",
+      minRating: "7.5",
+      runtimeMin: "90",
+      runtimeMax: "150",
+      language: "EN",
+      sort: "rating",
+    });
+
+    expect(params).toEqual({
+      with_genres: "12,28",
+      "primary_release_date.gte": "1990-01-01",
+      "primary_release_date.lte": "1999-12-31",
+      "vote_average.gte": 7.5,
+      "vote_count.gte": 50,
+      "with_runtime.gte": 90,
+      "with_runtime.lte": 150,
+      with_original_language: "en",
+      sort_by: "vote_average.desc",
+      page: 1,
+    });
+  });
+
+  it("should use first_air_date for TV year and date sorting", () => {
+    const { params } = normalizeDiscoverFilters("tv", {
+      yearFrom: "2010",
+      sort: "newest",
+    });
+
+    expect(params["first_air_date.gte"]).toBe("2010-01-01");
+    expect(params.sort_by).toBe("first_air_date.desc");
+  });
+
+  it("should produce the same cache key for equivalent filters", () => {
+    const first = normalizeDiscoverFilters("movie", {
+      genres: "12,28,12",
+      sort: "popularity",
+    });
+    const second = normalizeDiscoverFilters("movie", {
+      page: "1",
+      genres: "28,12",
+    });
+
+    expect(first.cacheKey).toBe(second.cacheKey);
+    expect(
+      normalizeDiscoverFilters("tv", { genres: "28,12" }).cacheKey,
+    ).not.toBe(first.cacheKey);
+  });
+
+  it("should reject invalid filters", () => {
+    expect(normalizeDiscoverFilters("person").error).toMatch(/media type/i);
+    expect(normalizeDiscoverFilters("movie", { genres: "action" }).error).toBe(
+      "Genres must be a comma-separated list of genre IDs.",
+    );
+    expect(
+      normalizeDiscoverFilters("movie", { yearFrom: "2020", yearTo: "2000" })
+        .error,
+    ).toBe("yearFrom must not be after yearTo.");
+    expect(normalizeDiscoverFilters("movie", { minRating: "11" }).error).toBe(
+      "minRating must be a number between 0 and 10.",
+    );
+    expect(normalizeDiscoverFilters("movie", { sort: "title" }).error).toMatch(
+      /Sort must be one of/,
+    );
+  });
+});
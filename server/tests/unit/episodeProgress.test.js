@@ -0,0 +1,72 @@
+import {
+  airedSeasons,
+  computeProgress,
+  parseEpisodeNumber,
+  parseSeasonNumber,
+} from "../../services/episodeProgress";
+
+const show = {
+  seasons: [
+    { season_number: 0, name: "Specials", episode_count: 3 },
+    { season_number: 1, name: "Season 1", episode_count: 3 },
+    { season_number: 2, name: "Season 2", episode_count: 4 },
+    { season_number: 3, name: "Season 3", episode_count: 5 },
+  ],
+  last_episode_to_air: { season_number: 2, episode_number: 2 },
+};
+
+const episode = (seasonNumber, episodeNumber) => ({
+  seasonNumber,
+  episodeNumber,
+});
+
+describe("Episode progress", () => {
+  it("should validate season and episode numbers", () => {
+    expect(parseSeasonNumber("0")).toBe(0);
+    expect(parseSeasonNumber("-1")).toBeNull();
+    expect(parseEpisodeNumber(0)).toBeNull();
+    expect(parseEpisodeNumber("2")).toBe(2);
+    expect(parseEpisodeNumber("1.5")).toBeNull();
+  });
+
+  it("should count only aired episodes of regular seasons", () => {
+    expect(airedSeasons(show)).toEqual([
+      { seasonNumber: 1, name: "Season 1", airedEpisodes: 3 },
+      { seasonNumber: 2, name: "Season 2", airedEpisodes: 2 },
+      { seasonNumber: 3, name: "Season 3", airedEpisodes: 0 },
+    ]);
+    expect(airedSeasons({ seasons: show.seasons })[0].airedEpisodes).toBe(0);
+  });
+
+  it("should report percent and the next episode after the furthest watched", () => {
+    const progress = computeProgress(show, [
+      episode(1, 1),
+      episode(1, 2),
+      episode(0, 1),
+      episode(3, 1),
+    ]);
+
+    expect(progress.totalEpisodes).toBe(5);
+    expect(progress.watchedEpisodes).toBe(2);
+    expect(progress.percent).toBe(40);
+    expect(progress.nextEpisode).toEqual(episode(1, 3));
+    expect(progress.seasons.map((season) => season.watchedEpisodes)).toEqual([
+      2, 0, 0,
+    ]);
+  });
+
+  it("should suggest skipped episodes once the latest has been watched", () => {
+    const skipped = computeProgress(show, [episode(1, 1), episode(2, 2)]);
+    expect(skipped.nextEpisode).toEqual(episode(1, 2));
+
+    const caughtUp = computeProgress(show, [
+      episode(1, 1),
+      episode(1, 2),
+      episode(1, 3),
+      episode(2, 1),
+      episode(2, 2),
+    ]);
+    expect(caughtUp.percent).toBe(100);
+    expect(caughtUp.nextEpisode).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import { jest } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  createConsoleTransport,
+  createFileTransport,
+  passwordResetEmail,
+  sendMail,
+  setMailTransport,
+} from "../../services/mailer";
+
+const message = {
+  from: "RecoSphere <no-reply@recosphere.local>",
+  to: "alice@example.com",
+  subject: "Hello",
+  text: "Body",
+};
+
+describe("Mailer", () => {
+  afterEach(() => {
+    setMailTransport(null);
+    delete process.env.MAIL_FROM;
+  });
+
+  it("should log messages with the console transport", async () => {
+    const log = jest.fn();
+
+    await createConsoleTransport(log).send(message);
+
+    expect(log.mock.calls[0][0]).toContain("To: alice@example.com");
+    expect(log.mock.calls[0][0]).toContain("Subject: Hello");
+  });
+
+  it("should write one file per message with the file transport", async () => {
+    const dir = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "mail-")),
+      "out",
+    );
+
+    await createFileTransport(dir).send(message);
+
+    const [file] = fs.readdirSync(dir);
+    expect(file).toMatch(/-alice@example\.com\.txt$/);
+    expect(fs.readFileSync(path.join(dir, file), "utf8")).toContain(
+      "Subject: Hello\n\nBody",
+    );
+    fs.rmSync(path.dirname(dir), { recursive: true });
+  });
+
+  it("should send through a plugged-in transport from MAIL_FROM", async () => {
+    const send = jest.fn().mockResolvedValue(undefined);
+    setMailTransport({ send });
+    process.env.MAIL_FROM = "Team <team@example.com>";
+
+    await sendMail({ to: "bob@example.com", subject: "Hi", text: "There" });
+
+    expect(send).toHaveBeenCalledWith({
+      from: "Team <team@example.com>",
+      to: "bob@example.com",
+      subject: "Hi",
+      text: "There",
+    });
+  });
+
+  it("should include the link and expiry in the reset email", () => {
+    const { subject, text } = passwordResetEmail({
+      name: "Alice",
+      resetUrl: "http://localhost:3000/reset-password?token=abc",
+      expiresInMinutes: 60,
+    });
+
+    expect(subject).toMatch(/reset/i);
+    expect(text).toContain("Hi Alice,");
+    expect(text).toContain("http://localhost:3000/reset-password?token=abc");
+    expect(text).toContain("60 minutes");
+  });
+});
@@ -0,0 +1,109 @@
+import { jest } from "@jest/globals";
+import bcrypt from "bcrypt";
+import User from "../../models/User";
+import PasswordResetToken from "../../models/PasswordResetToken";
+import RefreshToken from "../../models/RefreshToken";
+import {
+  changeUserPassword,
+  resetPasswordUrl,
+  resetPasswordWithToken,
+  validateNewPassword,
+} from "../../services/passwords";
+
+const userWithPassword = async (password) => ({
+  _id: "user",
+  password: await bcrypt.hash(password, 4),
+  save: jest.fn().mockResolvedValue(undefined),
+});
+
+describe("Passwords", () => {
+  beforeEach(() => {
+    jest
+      .spyOn(RefreshToken, "updateMany")
+      .mockResolvedValue({ modifiedCount: 1 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.CLIENT_URL;
+  });
+
+  it("should require new passwords of the minimum length", () => {
+    expect(validateNewPassword(undefined)).toBe("A new password is required.");
+    expect(validateNewPassword("   ")).toBe("A new password is required.");
+    expect(validateNewPassword("12345")).toMatch(/at least 6/);
+    expect(validateNewPassword("123456")).toBeNull();
+  });
+
+  it("should build reset links on the client URL", () => {
+    expect(resetPasswordUrl("a b")).toBe(
+      "http://localhost:3000/reset-password?token=a%20b",
+    );
+    process.env.CLIENT_URL = "https://reco.example.com/";
+    expect(resetPasswordUrl("abc")).toBe(
+      "https://reco.example.com/reset-password?token=abc",
+    );
+  });
+
+  it("should keep the reset token when the new password is rejected", async () => {
+    const consume = jest.spyOn(PasswordResetToken, "findOneAndUpdate");
+
+    const result = await resetPasswordWithToken("token", "123");
+
+    expect(result.status).toBe(400);
+    expect(consume).not.toHaveBeenCalled();
+  });
+
+  it("should reject unknown or used reset tokens", async () => {
+    jest.spyOn(PasswordResetToken, "findOneAndUpdate").mockResolvedValue(null);
+
+    const result = await resetPasswordWithToken("token", "new-password");
+
+    expect(result).toEqual({
+      error: "This reset link is invalid or has expired.",
+      status: 400,
+    });
+  });
+
+  it("should reset the password and end existing sessions", async () => {
+    const user = await userWithPassword("old-password");
+    const consume = jest
+      .spyOn(PasswordResetToken, "findOneAndUpdate")
+      .mockResolvedValue({ userId: "user" });
+    jest.spyOn(User, "findById").mockResolvedValue(user);
+
+    const result = await resetPasswordWithToken("token", "new-password");
+
+    expect(result.user).toBe(user);
+    expect(consume.mock.calls[0][0].usedAt).toBeNull();
+    expect(await bcrypt.compare("new-password", user.password)).toBe(true);
+    expect(user.save).toHaveBeenCalled();
+    expect(RefreshToken.updateMany).toHaveBeenCalledWith(
+      { userId: "user", revokedAt: null },
+      expect.anything(),
+    );
+  });
+
+  it("should only change the password after checking the current one", async () => {
+    const user = await userWithPassword("old-password");
+    jest.spyOn(User, "findById").mockResolvedValue(user);
+
+    expect(
+      await changeUserPassword("user", "wrong-password", "new-password"),
+    ).toEqual({ error: "Current password is incorrect.", status: 400 });
+    expect(
+      (await changeUserPassword("user", "old-password", "old-password")).status,
+    ).toBe(400);
+    expect(user.save).not.toHaveBeenCalled();
+
+    const result = await changeUserPassword(
+      "user",
+      "old-password",
+      "new-password",
+    );
+
+    expect(result.user).toBe(user);
+    expect(await bcrypt.compare("new-password", user.password)).toBe(true);
+    expect(RefreshToken.updateMany).toHaveBeenCalled();
+  });
+});
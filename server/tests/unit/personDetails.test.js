@@ -0,0 +1,68 @@
+import {
+  parsePersonId,
+  selectRecentCredits,
+  shapePersonDetails,
+} from "../../services/personDetails";
+
+const combinedCredits = {
+  cast: [
+    {
+      id: 1,
+      media_type: "movie",
+      title: "Old Hit",
+      release_date: "2001-05-01",
+      vote_count: 900,
+      character: "Lead",
+    },
+    {
+      id: 2,
+      media_type: "tv",
+      name: "New Show",
+      first_air_date: "2024-03-01",
+      vote_count: 50,
+      character: "Host",
+    },
+  ],
+  crew: [
+    {
+      id: 1,
+      media_type: "movie",
+      title: "Old Hit",
+      release_date: "2001-05-01",
+      vote_count: 900,
+      job: "Producer",
+    },
+    { id: 3, media_type: "movie", title: "Announced", job: "Director" },
+  ],
+};
+
+describe("Person details", () => {
+  it("should only accept positive integer IDs", () => {
+    expect(parsePersonId("525")).toBe(525);
+    expect(parsePersonId("0")).toBeNull();
+    expect(parsePersonId("abc")).toBeNull();
+  });
+
+  it("should list known-for titles once and credits newest first", () => {
+    const details = shapePersonDetails({
+      id: 525,
+      name: "Someone",
+      known_for_department: "Directing",
+      combined_credits: combinedCredits,
+    });
+
+    expect(details.knownFor.map((title) => title.id)).toEqual([1, 2, 3]);
+    expect(details.credits.map((credit) => credit.id)).toEqual([3, 2, 1, 1]);
+    expect(details.credits[0]).toMatchObject({ job: "Director", date: null });
+    expect(details.credits[1]).toMatchObject({ character: "Host" });
+  });
+
+  it("should select dated credits from the last year, once per title", () => {
+    const recent = selectRecentCredits(
+      combinedCredits,
+      new Date("2024-06-01T00:00:00Z"),
+    );
+
+    expect(recent.map((credit) => credit.id)).toEqual([2]);
+  });
+});
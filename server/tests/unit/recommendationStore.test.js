@@ -0,0 +1,35 @@
+import { interleaveByAlgorithm } from "../../services/recommendationStore";
+
+const recommendation = (id, algorithm, score) => ({
+  id,
+  context: { algorithm, score },
+});
+
+describe("Recommendation Store", () => {
+  it("should take turns between algorithms instead of comparing their scores", () => {
+    const merged = interleaveByAlgorithm([
+      recommendation("cf-1", "collaborative-filtering", 0.9),
+      recommendation("cf-2", "collaborative-filtering", 0.8),
+      recommendation("cf-3", "collaborative-filtering", 0.7),
+      recommendation("cb-2", "content-based-filtering", 0.2),
+      recommendation("cb-1", "content-based-filtering", 0.4),
+    ]);
+
+    expect(merged.map(({ id }) => id)).toEqual([
+      "cf-1",
+      "cb-1",
+      "cf-2",
+      "cb-2",
+      "cf-3",
+    ]);
+  });
+
+  it("should rank recommendations without a score last", () => {
+    const merged = interleaveByAlgorithm([
+      recommendation("unscored", "collaborative-filtering", null),
+      recommendation("scored", "collaborative-filtering", 0.1),
+    ]);
+
+    expect(merged.map(({ id }) => id)).toEqual(["scored", "unscored"]);
+  });
+});
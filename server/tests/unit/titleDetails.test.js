@@ -0,0 +1,88 @@
+import {
+  parseTitleRequest,
+  shapeTitleDetails,
+} from "../../services/titleDetails";
+
+describe("Title details", () => {
+  it("should validate the media type, ID and region", () => {
+    expect(parseTitleRequest("movie", "550")).toEqual({
+      mediaType: "movie",
+      tmdbId: 550,
+      region: "US",
+    });
+    expect(parseTitleRequest("tv", "1399", "gb").region).toBe("GB");
+    expect(parseTitleRequest("person", "1").error).toBeDefined();
+    expect(parseTitleRequest("movie", "abc").error).toBeDefined();
+    expect(parseTitleRequest("movie", "550", "USA").error).toBeDefined();
+  });
+
+  it("should shape a movie payload", () => {
+    const details = shapeTitleDetails("movie", {
+      id: 550,
+      title: "Fight Club",
+      release_date: "1999-10-15",
+      runtime: 139,
+      genres: [{ id: 18, name: "Drama" }],
+      credits: {
+        cast: [{ id: 1, name: "Edward Norton", character: "Narrator" }],
+        crew: [
+          { id: 2, name: "David Fincher", job: "Director" },
+          { id: 3, name: "Someone", job: "Grip" },
+        ],
+      },
+      videos: {
+        results: [
+          { key: "abc", name: "Trailer", type: "Trailer", site: "YouTube" },
+          { key: "def", name: "Clip", type: "Clip", site: "YouTube" },
+          { key: "ghi", name: "Trailer", type: "Trailer", site: "Vimeo" },
+        ],
+      },
+      similar: { results: [{ id: 807, title: "Se7en" }] },
+      "watch/providers": {
+        results: {
+          US: {
+            link: "https://example.com",
+            flatrate: [
+              { provider_id: 8, provider_name: "Netflix", logo_path: "/n.png" },
+            ],
+          },
+        },
+      },
+    });
+
+    expect(details).toMatchObject({
+      title: "Fight Club",
+      releaseDate: "1999-10-15",
+      runtime: 139,
+      crew: [{ name: "David Fincher", job: "Director" }],
+      videos: [{ key: "abc", type: "Trailer" }],
+      similar: [{ id: 807, media_type: "movie", title: "Se7en" }],
+      watchProviders: {
+        region: "US",
+        flatrate: [{ id: 8, name: "Netflix" }],
+        rent: [],
+        buy: [],
+      },
+    });
+    expect(details.cast).toHaveLength(1);
+  });
+
+  it("should read TV dates, runtime and creators", () => {
+    const details = shapeTitleDetails("tv", {
+      id: 1399,
+      name: "Game of Thrones",
+      first_air_date: "2011-04-17",
+      episode_run_time: [60],
+      created_by: [{ id: 9, name: "David Benioff" }],
+    });
+
+    expect(details).toMatchObject({
+      title: "Game of Thrones",
+      releaseDate: "2011-04-17",
+      runtime: 60,
+      crew: [{ name: "David Benioff", job: "Creator" }],
+      cast: [],
+      watchProviders: { link: null, flatrate: [] },
+    });
+  });
+});
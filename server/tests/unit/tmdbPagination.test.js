@@ -0,0 +1,30 @@
+import { pageCacheKey, parsePage, trendingCacheKey } from "../../utils/tmdb";
+
+describe("TMDb pagination helpers", () => {
+  it("should default to page 1 and accept pages within TMDb's limit", () => {
+    expect(parsePage(undefined)).toBe(1);
+    expect(parsePage("")).toBe(1);
+    expect(parsePage("3")).toBe(3);
+    expect(parsePage("500")).toBe(500);
+  });
+
+  it("should reject non-integer and out-of-range pages", () => {
+    expect(parsePage("0")).toBeNull();
+    expect(parsePage("501")).toBeNull();
+    expect(parsePage("2.5")).toBeNull();
+    expect(parsePage("next")).toBeNull();
+  });
+
+  it("should keep the base cache key for page 1", () => {
+    expect(pageCacheKey("popularMovies", 1)).toBe("popularMovies");
+    expect(pageCacheKey("popularMovies", 2)).toBe("popularMovies:2");
+  });
+});
+
+describe("Trending cache keys", () => {
+  it("should share the engine's key only for the default feed", () => {
+    expect(trendingCacheKey("all", "day")).toBe("trending");
+    expect(trendingCacheKey("all", "week")).toBe("trending:all:week");
+    expect(trendingCacheKey("person", "day")).toBe("trending:person:day");
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  DEFAULT_PREFERENCES,
+  fromLegacyPreferences,
+  normalizePreferences,
+  parsePreferences,
+} from "../../services/userPreferences";
+import User from "../../models/User";
+
+describe("User preferences", () => {
+  it("should accept a full preferences document and fill in defaults", () => {
+    expect(
+      parsePreferences({
+        favoriteGenres: [28, "18", 28],
+        dislikedGenres: [27],
+        languages: ["en", "ko"],
+        maxContentRating: "PG-13",
+        mediaTypeBias: "tv",
+      }),
+    ).toEqual({
+      preferences: {
+        favoriteGenres: [28, 18],
+        dislikedGenres: [27],
+        languages: ["en", "ko"],
+        maxContentRating: "PG-13",
+        mediaTypeBias: "tv",
+      },
+    });
+    expect(parsePreferences({})).toEqual({
+      preferences: { ...DEFAULT_PREFERENCES },
+    });
+  });
+
+  it("should reject invalid fields", () => {
+    expect(parsePreferences(["Action"]).error).toBe(
+      "Preferences must be an object.",
+    );
+    expect(parsePreferences({ favoriteGenres: [0] }).error).toBe(
+      "favoriteGenres must contain TMDb genre IDs.",
+    );
+    expect(
+      parsePreferences({ favoriteGenres: [18], dislikedGenres: [18] }).error,
+    ).toBe("A genre cannot be both a favorite and disliked.");
+    expect(parsePreferences({ languages: ["english"] }).error).toBeDefined();
+    expect(parsePreferences({ maxContentRating: "TV-MA" }).error).toBeDefined();
+    expect(parsePreferences({ mediaTypeBias: "anime" }).error).toBeDefined();
+  });
+
+  it("should check genre IDs against the known genres when given", () => {
+    const known = new Set([28, 18]);
+
+    expect(parsePreferences({ favoriteGenres: [18] }, known).error).toBe(
+      undefined,
+    );
+    expect(parsePreferences({ dislikedGenres: [99999] }, known).error).toBe(
+      "dislikedGenres contains an unknown genre.",
+    );
+  });
+
+  it("should convert legacy genre-name lists", () => {
+    expect(
+      fromLegacyPreferences(["Action", "sci-fi", "878", "Unknown"]),
+    ).toEqual({ ...DEFAULT_PREFERENCES, favoriteGenres: [28, 878] });
+    expect(normalizePreferences(["Drama"]).favoriteGenres).toEqual([18]);
+    expect(normalizePreferences(undefined)).toEqual(DEFAULT_PREFERENCES);
+  });
+
+  it("should convert legacy genre-name lists loaded from the database", () => {
+    const user = User.hydrate({
+      name: "Legacy",
+      preferences: ["Action", "Sci-Fi"],
+    });
+
+    expect(normalizePreferences(user.preferences)).toEqual({
+      ...DEFAULT_PREFERENCES,
+      favoriteGenres: [28, 878],
+    });
+  });
+});
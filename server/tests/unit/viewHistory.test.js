@@ -0,0 +1,97 @@
+import { jest } from "@jest/globals";
+import User from "../../models/User";
+import ViewHistory from "../../models/ViewHistory";
+import {
+  USER_HISTORY_SIZE,
+  latestPerTitle,
+  parseHistoryEntry,
+  parseHistoryLimit,
+  recordHistory,
+} from "../../services/viewHistory";
+
+describe("View history", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should validate history events", () => {
+    expect(
+      parseHistoryEntry({ tmdbId: "550", mediaType: "movie", title: "Fight" }),
+    ).toEqual({
+      tmdbId: "550",
+      mediaType: "movie",
+      action: "viewed",
+      title: "Fight",
+      posterPath: null,
+    });
+    expect(
+      parseHistoryEntry({
+        tmdbId: 1399,
+        mediaType: "tv",
+        action: "watched",
+        posterPath: "/poster.jpg",
+      }).posterPath,
+    ).toBe("/poster.jpg");
+    expect(parseHistoryEntry({ tmdbId: "x", mediaType: "movie" }).error).toBe(
+      "tmdbId must be a positive integer.",
+    );
+    expect(parseHistoryEntry({ tmdbId: 1, mediaType: "person" }).error).toBe(
+      'mediaType must be "movie" or "tv".',
+    );
+    expect(
+      parseHistoryEntry({ tmdbId: 1, mediaType: "tv", action: "liked" }).error,
+    ).toBeDefined();
+  });
+
+  it("should clamp the history limit", () => {
+    expect(parseHistoryLimit(undefined)).toBe(20);
+    expect(parseHistoryLimit("5")).toBe(5);
+    expect(parseHistoryLimit("1000")).toBe(100);
+    expect(parseHistoryLimit("-3")).toBe(20);
+  });
+
+  it("should keep the newest event per title", () => {
+    const entries = [
+      { tmdbId: "1", mediaType: "tv", action: "watched" },
+      { tmdbId: "1", mediaType: "movie", action: "viewed" },
+      { tmdbId: "1", mediaType: "tv", action: "viewed" },
+      { tmdbId: "2", mediaType: "movie", action: "viewed" },
+    ];
+
+    expect(latestPerTitle(entries)).toEqual([
+      entries[0],
+      entries[1],
+      entries[3],
+    ]);
+  });
+
+  it("should refresh a recent event and move the title to the front of User.history", async () => {
+    const now = new Date("2026-01-01T12:00:00Z");
+    const existing = { _id: "event", viewedAt: now };
+    const findOneAndUpdate = jest
+      .spyOn(ViewHistory, "findOneAndUpdate")
+      .mockResolvedValue(existing);
+    const create = jest.spyOn(ViewHistory, "create");
+    const updateUser = jest
+      .spyOn(User, "updateOne")
+      .mockResolvedValue({ modifiedCount: 1 });
+
+    const event = await recordHistory(
+      "user",
+      parseHistoryEntry({ tmdbId: 550, mediaType: "movie", title: "Fight" }),
+      now,
+    );
+
+    expect(event).toBe(existing);
+    expect(create).not.toHaveBeenCalled();
+    expect(findOneAndUpdate.mock.calls[0][0].viewedAt.$gte).toEqual(
+      new Date("2026-01-01T11:30:00Z"),
+    );
+
+    const [filter, [stage]] = updateUser.mock.calls[0];
+    expect(filter).toEqual({ _id: "user" });
+    const [combined, size] = stage.$set.history.$slice;
+    expect(combined.$concatArrays[0]).toEqual(["movie:550"]);
+    expect(size).toBe(USER_HISTORY_SIZE);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * TMDb Utilities
+ *
+ * This module centralizes the TMDb lookups shared by the controllers that enrich
+ * user-owned documents (favorites, watchlist items) with human-readable metadata.
+ *
+ * Key Features:
+ * - **Metadata Lookup**:
+ *   - Fetches movie or TV details (title, genres, poster) from TMDb by `tmdbId`.
+ *   - Caches responses in memory, keyed by `mediaType-tmdbId` (e.g., `movie-550`).
+ * - **Enrichment**:
+ *   - `enrichWithMetadata` maps a stored document to the shape the client renders,
+ *     falling back to an "Unknown" title when TMDb is unreachable.
+ * - **Cached Lists**:
+ *   - `fetchTmdbList` fetches list endpoints (trending, popular, genre lists) through a shared
+ *     1-hour `node-cache`, so the REST routes and the recommendation engine reuse one payload.
+ *   - `getGenreMaps` resolves movie and TV genre IDs to names.
+ *   - `getPersonWithCredits` fetches a person with `combined_credits` (person page, follows).
+ * - **Pagination**:
+ *   - `parsePage` validates a `?page=` query value against TMDb's 500-page limit, and
+ *     `pageCacheKey` keys each page separately while page 1 keeps the base key the
+ *     recommendation engine reads.
+ * - **Trending Options**:
+ *   - `TRENDING_WINDOWS` / `TRENDING_TYPES` list the accepted `window` and `type` values, and
+ *     `trendingCacheKey` keeps the default (`all`, `day`) feed under the engine's `trending` key.
+ *
+ * Error Handling:
+ * - TMDb failures are logged and surfaced as `null` metadata so callers can degrade
+ *   gracefully instead of failing the whole request.
+ *
+ * Dependencies:
+ * - **`axios`**: Makes HTTP requests to the TMDb API.
+ * - **`node-cache`**: Caches list payloads with a 1-hour TTL.
+ * - **Environment Variables**:
+ *   - `TMDB_ACCESS_TOKEN`: Secures API requests to the TMDb platform.
+ */
+
+import axios from "axios";
+import NodeCache from "node-cache";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+const TMDB_ACCESS_TOKEN = process.env.TMDB_ACCESS_TOKEN;
+const TMDB_BASE_URL = "https://api.themoviedb.org/3";
+
+export const TMDB_MAX_PAGE = 500; // TMDb rejects list pages above 500
+
+const metadataCache = {}; // In-memory cache for movie/TV metadata
+const listCache = new NodeCache({ stdTTL: 3600 }); // 1-hour TTL for list payloads
+
+// Helper function to get metadata from cache or TMDB API
+export const getMetadataFromCacheOrAPI = async (tmdbId, mediaType) => {
+  const cacheKey = `${mediaType}-${tmdbId}`;
+
+  // Return cached metadata if it exists
+  if (metadataCache[cacheKey]) {
+    return metadataCache[cacheKey];
+  }
+
+  // Construct TMDB API URL
+  const tmdbUrl =
+    mediaType === "movie"
+      ? `${TMDB_BASE_URL}/movie/${tmdbId}`
+      : `${TMDB_BASE_URL}/tv/${tmdbId}`;
+
+  // Fetch metadata from TMDB API
+  try {
+    const response = await axios.get(tmdbUrl, {
+      headers: { Authorization: `Bearer ${TMDB_ACCESS_TOKEN}` },
+    });
+
+    const data = response.data;
+
+    // Cache the metadata
+    metadataCache[cacheKey] = data;
+    return data;
+  } catch (error) {
+    console.error(`Error fetching metadata for ${tmdbId}:`, error.message);
+    return null;
+  }
+};
+
+/**
+ * Enrich a stored document (favorite, watchlist item) with TMDb title, poster and genres.
+ */
+export const enrichWithMetadata = async (doc) => {
+  const metadata = await getMetadataFromCacheOrAPI(doc.tmdbId, doc.mediaType);
+
+  if (!metadata) {
+    return {
+      id: doc._id,
+      tmdbId: doc.tmdbId,
+      mediaType: doc.mediaType,
+      title: "Unknown",
+      poster_path: null,
+      genres: [],
+    };
+  }
+
+  const genreNames = metadata.genres
+    ? metadata.genres.map((genre) => genre.name)
+    : [];
+
+  return {
+    id: doc._id,
+    tmdbId: doc.tmdbId,
+    mediaType: doc.mediaType,
+    title: metadata.title || metadata.name || "Unknown",
+    poster_path: metadata.poster_path,
+    genres: genreNames,
+  };
+};
+
+/**
+ * Fetch a TMDb list endpoint (e.g. `/movie/popular`) through the shared list cache.
+ * Errors propagate to the caller so routes can respond with their own messages.
+ */
+export const fetchTmdbList = async (path, params, cacheKey) => {
+  const cachedList = listCache.get(cacheKey);
+  if (cachedList) {
+    return cachedList;
+  }
+
+  const response = await axios.get(`${TMDB_BASE_URL}${path}`, {
+    headers: {
+      Authorization: `Bearer ${TMDB_ACCESS_TOKEN}`,
+      accept: "application/json",
+    },
+    params: { language: "en-US", ...params },
+  });
+
+  listCache.set(cacheKey, response.data);
+  return response.data;
+};
+
+/**
+ * Parse a `?page=` query value. Returns 1 when absent and `null` when invalid.
+ */
+export const parsePage = (value) => {
+  if (value === undefined || value === "") return 1;
+  const page = Number(value);
+  return Number.isInteger(page) && page >= 1 && page <= TMDB_MAX_PAGE
+    ? page
+    : null;
+};
+
+/**
+ * Parse a TMDb ID route parameter. Returns the ID as a number, or `null` unless it is a positive
+ * integer.
+ */
+export const parseTmdbId = (value) => {
+  const tmdbId = Number(value);
+  return Number.isInteger(tmdbId) && tmdbId >= 1 ? tmdbId : null;
+};
+
+/**
+ * Cache key for one page of a list, e.g. `popularMovies` for page 1 and `popularMovies:2` after.
+ */
+export const pageCacheKey = (baseKey, page) =>
+  page === 1 ? baseKey : `${baseKey}:${page}`;
+
+export const TRENDING_WINDOWS = ["day", "week"];
+export const TRENDING_TYPES = ["all", "movie", "tv", "person"];
+
+/**
+ * Cache key for a trending feed, e.g. `trending` for all/day and `trending:movie:week` otherwise.
+ */
+export const trendingCacheKey = (type, window) =>
+  type === "all" && window === "day"
+    ? "trending"
+    : `trending:${type}:${window}`;
+
+/**
+ * Fetch a person with their combined movie/TV credits through the shared list cache.
+ * Errors propagate so the person route can distinguish 404s from outages.
+ */
+export const getPersonWithCredits = (personId) =>
+  fetchTmdbList(
+    `/person/${personId}`,
+    { append_to_response: "combined_credits" },
+    `person:${personId}`,
+  );
+
+/**
+ * Resolve movie and TV genre IDs to names, e.g. `{ movie: { 28: "Action" }, tv: { ... } }`.
+ */
+export const getGenreMaps = async () => {
+  const [movieGenres, tvGenres] = await Promise.all([
+    fetchTmdbList("/genre/movie/list", {}, "movieGenres"),
+    fetchTmdbList("/genre/tv/list", {}, "tvGenres"),
+  ]);
+
+  const toMap = (genres) =>
+    genres.reduce((acc, genre) => {
+      acc[genre.id] = genre.name;
+      return acc;
+    }, {});
+
+  return { movie: toMap(movieGenres.genres), tv: toMap(tvGenres.genres) };
+};
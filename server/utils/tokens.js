@@ -0,0 +1,149 @@
+/**
+ * Token Utilities
+ *
+ * Issues the two credentials used by the client:
+ * - **Access tokens**: Short-lived JWTs (`1h`) carrying `{ id, email, name, role }`, verified by
+ *   `protectRoute` and the GraphQL `authenticate` wrapper. `requireRole` reads `role` from them.
+ * - **Refresh tokens**: Random opaque strings valid for 30 days, stored hashed in the
+ *   `RefreshToken` collection and rotated on every use.
+ *
+ * It also issues the single-use **password reset tokens** mailed by the forgot-password flow:
+ * random strings valid for one hour, stored hashed in the `PasswordResetToken` collection.
+ *
+ * Error Handling:
+ * - `rotateRefreshToken` returns `null` for unknown, expired or revoked tokens, and for
+ *   disabled or deleted users, so callers can respond with their own authentication error.
+ * - `revokeUserRefreshTokens` ends every session of a user (token replay, disabled account,
+ *   password change).
+ * - `consumePasswordResetToken` returns `null` for unknown, expired or already used tokens.
+ */
+
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import RefreshToken from "../models/RefreshToken.js";
+import PasswordResetToken from "../models/PasswordResetToken.js";
+import User from "../models/User.js";
+
+export const ACCESS_TOKEN_TTL = "1h";
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+export const PASSWORD_RESET_TTL_MINUTES = 60;
+
+const hashToken = (token) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+/**
+ * Sign a short-lived access token for a user document.
+ */
+export const signAccessToken = (user) =>
+  jwt.sign(
+    { id: user._id, email: user.email, name: user.name, role: user.role },
+    process.env.JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL },
+  );
+
+/**
+ * Create and store a new refresh token for a user. Returns the raw token.
+ */
+export const issueRefreshToken = async (userId) => {
+  const token = crypto.randomBytes(48).toString("hex");
+
+  await RefreshToken.create({
+    userId,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+
+  return token;
+};
+
+/**
+ * Exchange a refresh token for a new access/refresh token pair.
+ * Returns `{ user, token, refreshToken }`, or `null` if the token is not usable.
+ */
+export const rotateRefreshToken = async (rawToken) => {
+  const tokenHash = hashToken(rawToken);
+  const now = new Date();
+
+  // Claim the token in one write, so concurrent refreshes can't both rotate it
+  const claimed = await RefreshToken.findOneAndUpdate(
+    { tokenHash, revokedAt: null, expiresAt: { $gt: now } },
+    { revokedAt: now },
+  );
+
+  if (!claimed) {
+    // A revoked token being replayed means it leaked: end every session for this user
+    const stored = await RefreshToken.findOne({ tokenHash });
+    if (stored?.revokedAt && stored.expiresAt > now) {
+      await revokeUserRefreshTokens(stored.userId);
+    }
+    return null;
+  }
+
+  const user = await User.findById(claimed.userId);
+  if (!user || user.isDisabled) {
+    return null;
+  }
+
+  return {
+    user,
+    token: signAccessToken(user),
+    refreshToken: await issueRefreshToken(user._id),
+  };
+};
+
+/**
+ * Revoke every active refresh token of a user.
+ */
+export const revokeUserRefreshTokens = async (userId) => {
+  await RefreshToken.updateMany(
+    { userId, revokedAt: null },
+    { revokedAt: new Date() },
+  );
+};
+
+/**
+ * Revoke a refresh token (logout). Unknown tokens are ignored.
+ */
+export const revokeRefreshToken = async (rawToken) => {
+  await RefreshToken.updateOne(
+    { tokenHash: hashToken(rawToken), revokedAt: null },
+    { revokedAt: new Date() },
+  );
+};
+
+/**
+ * Create and store a password reset token for a user, replacing any unused earlier ones so only
+ * the latest emailed link works. Returns the raw token.
+ */
+export const issuePasswordResetToken = async (userId) => {
+  const token = crypto.randomBytes(32).toString("hex");
+
+  await PasswordResetToken.updateMany(
+    { userId, usedAt: null },
+    { usedAt: new Date() },
+  );
+  await PasswordResetToken.create({
+    userId,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000),
+  });
+
+  return token;
+};
+
+/**
+ * Mark a password reset token as used. The lookup and update are one atomic operation, so a
+ * token can't be used twice even by concurrent requests. Returns the owner's user ID, or `null`
+ * if the token is not usable.
+ */
+export const consumePasswordResetToken = async (rawToken) => {
+  const stored = await PasswordResetToken.findOneAndUpdate(
+    {
+      tokenHash: hashToken(rawToken),
+      usedAt: null,
+      expiresAt: { $gt: new Date() },
+    },
+    { usedAt: new Date() },
+  );
+  return stored ? stored.userId : null;
+};